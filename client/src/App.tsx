@@ -6,13 +6,18 @@ import { MainMenu } from './components/MainMenu'
 import { DraftScreen } from './components/DraftScreen'
 import { LoadingScreen } from './components/LoadingScreen'
 import { TileSizeTestPage } from './components/test/TileSizeTestPage'
+import { ReplayScreen } from './components/ReplayScreen'
+import { LobbyScreen } from './components/LobbyScreen'
+import { OnlineStatusBanner } from './components/OnlineStatusBanner'
+import { PassDeviceScreen } from './components/PassDeviceScreen'
 import { useGameStore } from './stores/gameStore'
+import { useLobbyStore } from './stores/lobbyStore'
 import { usePlayerStore } from './stores/playerStore'
 import { GamePhase } from 'shared'
 
 export default function App() {
-  const { gameMode, returnToMenu } = useGameStore()
-  const { phase, winner } = usePlayerStore()
+  const { gameMode, onlineSeat, spectating, returnToMenu } = useGameStore()
+  const { phase, winner, victoryReason } = usePlayerStore()
   const [isLoading, setIsLoading] = useState(true)
 
   useEffect(() => {
@@ -28,6 +33,12 @@ export default function App() {
     setIsLoading(false)
   }
 
+  // Leaving an online match also leaves its room
+  const handleMainMenu = () => {
+    if (gameMode === 'multiplayer') useLobbyStore.getState().disconnect()
+    returnToMenu()
+  }
+
   // Show loading screen first
   if (isLoading) {
     return <LoadingScreen onLoadingComplete={handleLoadingComplete} minDisplayTime={2000} />
@@ -38,6 +49,16 @@ export default function App() {
     return <MainMenu />
   }
 
+  // Show recorded matches
+  if (gameMode === 'replay') {
+    return <ReplayScreen />
+  }
+
+  // Show the online lobby until the match starts or we start watching one
+  if (gameMode === 'multiplayer' && !onlineSeat && !spectating) {
+    return <LobbyScreen />
+  }
+
   // Show test page if in test mode
   if (gameMode === 'test') {
     return <TileSizeTestPage />
@@ -50,16 +71,24 @@ export default function App() {
         <h1 className="text-xl font-semibold text-center sm:text-left">HRmageddon</h1>
         <div className="flex flex-col sm:flex-row items-center gap-3 sm:gap-4">
           <div className="text-sm opacity-75 text-center sm:text-left">
-            {gameMode === 'ai' ? 'Player vs AI' : 'Multiplayer'}
+            {gameMode === 'ai'
+              ? 'Player vs AI'
+              : gameMode === 'hotseat'
+                ? 'Hot Seat'
+                : spectating
+                  ? 'Online · Spectating'
+                  : `Online · You are ${onlineSeat === 'player2' ? 'Navy' : 'Gold'}`}
           </div>
           <button
-            onClick={returnToMenu}
+            onClick={handleMainMenu}
             className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded text-sm transition-colors w-full sm:w-auto"
           >
             Main Menu
           </button>
         </div>
       </header>
+      <OnlineStatusBanner />
+      <PassDeviceScreen />
 
       <main className="p-2 sm:p-4">
         {phase === GamePhase.DRAFT ? (
@@ -76,11 +105,14 @@ export default function App() {
                 ) : winner?.id === 'player2' ? (
                   <span className="text-red-400">Red Team Wins! 🎉</span>
                 ) : (
-                  <span>Unknown Winner</span>
+                  <span>It's a Draw!</span>
                 )}
               </div>
+              {victoryReason && (
+                <p className="text-sm sm:text-base text-slate-300 mb-6">{victoryReason}</p>
+              )}
               <button
-                onClick={returnToMenu}
+                onClick={handleMainMenu}
                 className="px-6 py-3 bg-blue-600 hover:bg-blue-700 rounded-lg text-lg font-semibold transition-colors w-full sm:w-auto"
               >
                 Return to Main Menu
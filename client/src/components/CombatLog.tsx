@@ -0,0 +1,99 @@
+import { useEffect, useRef, useState } from 'react'
+import { useCombatLogStore, type LoggedEntry } from '../stores/logStore'
+import type { CombatLogCategory } from '../game/core/combatLog'
+
+interface CombatLogProps {
+  className?: string // Sizing for the scrolling list
+}
+
+type LogFilter = 'all' | Exclude<CombatLogCategory, 'turn' | 'other'>
+
+const FILTERS: { id: LogFilter; label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'combat', label: 'Combat' },
+  { id: 'ability', label: 'Abilities' },
+  { id: 'movement', label: 'Movement' },
+  { id: 'capture', label: 'Capture' },
+]
+
+const CATEGORY_COLORS: Record<CombatLogCategory, string> = {
+  combat: 'text-red-300',
+  ability: 'text-purple-300',
+  movement: 'text-slate-300',
+  capture: 'text-green-300',
+  turn: 'text-slate-400',
+  other: 'text-amber-300',
+}
+
+/**
+ * Scrolling list of what happened this match, newest at the bottom.
+ * Clicking an entry highlights the units it involves on the board.
+ */
+export function CombatLog({ className = 'max-h-80' }: CombatLogProps) {
+  const entries = useCombatLogStore(state => state.entries)
+  const highlightedUnitIds = useCombatLogStore(state => state.highlightedUnitIds)
+  const setHighlightedUnits = useCombatLogStore(state => state.setHighlightedUnits)
+  const [filter, setFilter] = useState<LogFilter>('all')
+  const [selectedId, setSelectedId] = useState<number | null>(null)
+  const listRef = useRef<HTMLDivElement>(null)
+
+  // Turn separators stay so filtered entries still read in order
+  const visible = entries.filter(entry => filter === 'all' || entry.category === filter || entry.category === 'turn')
+
+  // Follow new entries as they come in
+  useEffect(() => {
+    const list = listRef.current
+    if (list) list.scrollTop = list.scrollHeight
+  }, [entries.length, filter])
+
+  // Drop the board highlight when the panel closes
+  useEffect(() => () => setHighlightedUnits([]), [setHighlightedUnits])
+
+  const handleSelect = (entry: LoggedEntry) => {
+    const deselect = selectedId === entry.id && highlightedUnitIds.length > 0
+    setSelectedId(deselect ? null : entry.id)
+    setHighlightedUnits(deselect ? [] : entry.unitIds)
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-1">
+        {FILTERS.map(({ id, label }) => (
+          <button
+            key={id}
+            onClick={() => setFilter(id)}
+            className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+              filter === id ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div ref={listRef} className={`overflow-y-auto bg-slate-900/50 border border-slate-700 rounded p-2 text-xs space-y-1 ${className}`}>
+        {visible.length === 0 && <div className="text-slate-500 text-center py-4">Nothing has happened yet</div>}
+        {visible.map(entry =>
+          entry.category === 'turn' ? (
+            <div key={entry.id} className="flex items-center gap-2 pt-2 text-slate-400 font-semibold">
+              <div className="flex-1 border-t border-slate-600" />
+              <span>{entry.text}</span>
+              <div className="flex-1 border-t border-slate-600" />
+            </div>
+          ) : (
+            <button
+              key={entry.id}
+              onClick={() => handleSelect(entry)}
+              disabled={entry.unitIds.length === 0}
+              className={`block w-full text-left px-2 py-1 rounded transition-colors ${CATEGORY_COLORS[entry.category]} ${
+                selectedId === entry.id && highlightedUnitIds.length > 0 ? 'bg-yellow-900/40 ring-1 ring-yellow-500' : 'hover:bg-slate-700/60'
+              } disabled:cursor-default disabled:hover:bg-transparent`}
+            >
+              {entry.text}
+            </button>
+          )
+        )}
+      </div>
+    </div>
+  )
+}
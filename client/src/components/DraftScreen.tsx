@@ -1,14 +1,19 @@
 import { useGameStore } from '../stores/gameStore'
 import { dataManager } from '../game/data/DataManager'
+import { VICTORY_PRESETS, CAPTURE_SHARE_OPTIONS } from '../config/victoryConfig'
+import { TEAM_NAMES, getHumanPlayerIds } from '../game/core/controllers'
 
 export function DraftScreen() {
   // Use selectors for state that causes re-renders
   const draftState = useGameStore(state => state.draftState)
+  const victorySetup = useGameStore(state => state.victorySetup)
+  const controllers = useGameStore(state => state.controllers)
   
   // Actions don't need selectors as they don't cause re-renders
   const addUnitToDraft = useGameStore(state => state.addUnitToDraft)
   const removeUnitFromDraft = useGameStore(state => state.removeUnitFromDraft)
   const confirmDraft = useGameStore(state => state.confirmDraft)
+  const setVictorySetup = useGameStore(state => state.setVictorySetup)
   
   const totalCost = draftState.selectedUnits.reduce((sum, unit) => {
     const employee = dataManager.getEmployee(unit.employeeKey)
@@ -34,13 +39,23 @@ export function DraftScreen() {
   }
   
   const canStartBattle = draftState.selectedUnits.length >= 3
+  const victoryPreset = VICTORY_PRESETS.find(p => p.key === victorySetup.presetKey) ?? VICTORY_PRESETS[0]
+
+  // When people share the device, each drafts in turn without seeing the others' picks
+  const humanPlayerIds = getHumanPlayerIds(controllers)
+  const sharedDevice = humanPlayerIds.length > 1
+  const draftingTeamName = TEAM_NAMES[draftState.draftingPlayerId] ?? draftState.draftingPlayerId
+  const othersStillDrafting = humanPlayerIds.some(id => id !== draftState.draftingPlayerId && !draftState.teams[id])
+  const otherTeams = Object.entries(draftState.teams).filter(([id]) => id !== draftState.draftingPlayerId)
   
   return (
     <div className="min-h-screen bg-slate-900 text-slate-100 p-4 sm:p-6 lg:p-8">
       <div className="max-w-7xl mx-auto">
         <header className="text-center mb-6 sm:mb-8">
           <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold text-blue-400 mb-2">Team Drafting</h1>
-          <p className="text-slate-300 text-sm sm:text-base">Build your dream team for the ultimate HR battle!</p>
+          <p className="text-slate-300 text-sm sm:text-base">
+            {sharedDevice ? `${draftingTeamName}, build` : 'Build'} your dream team for the ultimate HR battle!
+          </p>
         </header>
         
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 sm:gap-6 lg:gap-8">
@@ -121,7 +136,7 @@ export function DraftScreen() {
             
             {/* Selected Units */}
             <div className="bg-slate-800 rounded-lg border border-slate-700 p-4 sm:p-6">
-              <h2 className="text-lg sm:text-xl font-semibold mb-4 text-purple-400">Your Team</h2>
+              <h2 className="text-lg sm:text-xl font-semibold mb-4 text-purple-400">{sharedDevice ? draftingTeamName : 'Your Team'}</h2>
               {draftState.selectedUnits.length === 0 ? (
                 <p className="text-slate-400 text-center py-8">No units selected yet</p>
               ) : (
@@ -158,26 +173,76 @@ export function DraftScreen() {
               )}
             </div>
             
-            {/* AI Team Preview */}
+            {/* Opposing Team Preview: the AI's picks are shown, another player's stay secret */}
+            {otherTeams.map(([playerId, units]) => (
+              <div key={playerId} className="bg-slate-800 rounded-lg border border-slate-700 p-4 sm:p-6">
+                {controllers[playerId] === 'ai' ? (
+                  <>
+                    <h2 className="text-lg sm:text-xl font-semibold mb-4 text-red-400">AI Team</h2>
+                    <div className="space-y-2">
+                      {units.map((unit, index) => {
+                        const employee = dataManager.getEmployee(unit.employeeKey)
+                        if (!employee) return null
+
+                        return (
+                          <div key={index} className="flex items-center space-x-3 bg-slate-700 rounded p-2">
+                            <div className="w-6 h-6 bg-red-500 rounded-full flex items-center justify-center text-white text-xs font-bold">
+                              {employee.name.charAt(0).toUpperCase()}
+                            </div>
+                            <div className="text-sm">
+                              {employee.name}
+                            </div>
+                          </div>
+                        )
+                      })}
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    <h2 className="text-lg sm:text-xl font-semibold mb-2 text-red-400">{TEAM_NAMES[playerId] ?? playerId}</h2>
+                    <p className="text-sm text-slate-400">Drafted {units.length} units in secret</p>
+                  </>
+                )}
+              </div>
+            ))}
+            
+            {/* Victory Conditions */}
             <div className="bg-slate-800 rounded-lg border border-slate-700 p-4 sm:p-6">
-              <h2 className="text-lg sm:text-xl font-semibold mb-4 text-red-400">AI Team</h2>
+              <h2 className="text-lg sm:text-xl font-semibold mb-4 text-amber-400">Victory Conditions</h2>
               <div className="space-y-2">
-                {draftState.aiUnits.map((unit, index) => {
-                  const employee = dataManager.getEmployee(unit.employeeKey)
-                  if (!employee) return null
-                  
-                  return (
-                    <div key={index} className="flex items-center space-x-3 bg-slate-700 rounded p-2">
-                      <div className="w-6 h-6 bg-red-500 rounded-full flex items-center justify-center text-white text-xs font-bold">
-                        {employee.name.charAt(0).toUpperCase()}
-                      </div>
-                      <div className="text-sm">
-                        {employee.name}
-                      </div>
-                    </div>
-                  )
-                })}
+                {VICTORY_PRESETS.map((preset) => (
+                  <button
+                    key={preset.key}
+                    onClick={() => setVictorySetup({ presetKey: preset.key })}
+                    className={`w-full text-left rounded p-3 border-2 transition-colors ${
+                      preset.key === victoryPreset.key
+                        ? 'border-amber-500 bg-slate-700'
+                        : 'border-slate-600 bg-slate-700/50 hover:border-slate-500'
+                    }`}
+                  >
+                    <div className="font-medium text-sm">{preset.name}</div>
+                    <div className="text-xs text-slate-400">{preset.description}</div>
+                  </button>
+                ))}
               </div>
+              {victoryPreset.usesCaptureShare && (
+                <div className="flex items-center justify-between mt-4 text-sm">
+                  <span>Capture threshold:</span>
+                  <div className="flex space-x-2">
+                    {CAPTURE_SHARE_OPTIONS.map((share) => (
+                      <button
+                        key={share}
+                        onClick={() => setVictorySetup({ captureShare: share })}
+                        className={`px-2 py-1 rounded font-mono text-xs ${
+                          share === victorySetup.captureShare ? 'bg-amber-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                        }`}
+                      >
+                        {Math.round(share * 100)}%
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
             
             {/* Start Battle Button */}
@@ -190,7 +255,7 @@ export function DraftScreen() {
                   : 'bg-slate-600 text-slate-400 cursor-not-allowed'
               }`}
             >
-              {canStartBattle ? 'Start Battle!' : 'Need at least 3 units'}
+              {!canStartBattle ? 'Need at least 3 units' : othersStillDrafting ? 'Lock In Team' : 'Start Battle!'}
             </button>
           </div>
         </div>
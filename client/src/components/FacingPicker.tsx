@@ -0,0 +1,85 @@
+import { FACING_DAMAGE_MULTIPLIERS, type Unit } from 'shared'
+import { selectLocalPlayerId, useGameStore } from '../stores/gameStore'
+import { useUnitStore } from '../stores/unitStore'
+import { usePlayerStore } from '../stores/playerStore'
+import { useUIStore } from '../stores/uiStore'
+
+const FACING_ARROWS: Record<Unit['direction'], string> = {
+  up: '↑',
+  down: '↓',
+  left: '←',
+  right: '→',
+}
+
+// Laid out as a d-pad: null cells are empty
+const PAD: (Unit['direction'] | null)[] = [null, 'up', null, 'left', null, 'right', null, 'down', null]
+
+const bonusText = (multiplier: number) => `+${Math.round((multiplier - 1) * 100)}%`
+
+/**
+ * Shows which way a unit faces, as an arrow
+ */
+export function FacingLabel({ unit }: { unit: Unit }) {
+  return (
+    <span className="text-white capitalize" title="Attacks from the side or behind deal bonus damage">
+      {FACING_ARROWS[unit.direction]} {unit.direction}
+    </span>
+  )
+}
+
+/**
+ * Lets the player turn a unit at the end of its turn.
+ * Appears for a unit that just used its last action, or for the selected unit on the player's turn.
+ * Facing is free but ends that unit's turn; side and back attacks on it deal bonus damage.
+ */
+export function FacingPicker() {
+  const units = useUnitStore(state => state.units)
+  const selectedUnit = useUnitStore(state => state.selectedUnit)
+  const currentPlayerId = usePlayerStore(state => state.currentPlayerId)
+  const facingPromptUnitId = useUIStore(state => state.facingPromptUnitId)
+  const setFacingPrompt = useUIStore(state => state.setFacingPrompt)
+  const setUnitFacing = useGameStore(state => state.setUnitFacing)
+  const localPlayerId = useGameStore(state => selectLocalPlayerId(state, currentPlayerId))
+
+  const promptUnit = units.find(u => u.id === facingPromptUnitId)
+  const unit = promptUnit ?? (selectedUnit?.playerId === currentPlayerId && currentPlayerId === localPlayerId ? selectedUnit : undefined)
+  if (!unit) return null
+
+  return (
+    <div className="bg-slate-700/50 border border-slate-600 rounded-lg p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-slate-200">Face direction</h3>
+        <span className="text-xs text-slate-400 capitalize">{unit.type.replace('_', ' ')}</span>
+      </div>
+      <div className="grid grid-cols-3 gap-1 w-28 mx-auto">
+        {PAD.map((direction, i) =>
+          direction ? (
+            <button
+              key={direction}
+              onClick={() => setUnitFacing(unit.id, direction)}
+              title={`Face ${direction} and end this unit's turn`}
+              className={`h-8 rounded text-lg transition-colors ${
+                unit.direction === direction ? 'bg-amber-600 text-white' : 'bg-slate-700 hover:bg-slate-600 text-slate-100'
+              }`}
+            >
+              {FACING_ARROWS[direction]}
+            </button>
+          ) : (
+            <div key={i} />
+          )
+        )}
+      </div>
+      <div className="text-xs text-slate-400 text-center">
+        Side hits {bonusText(FACING_DAMAGE_MULTIPLIERS.side)}, back hits {bonusText(FACING_DAMAGE_MULTIPLIERS.back)}
+      </div>
+      {promptUnit && (
+        <button
+          onClick={() => setFacingPrompt(null)}
+          className="w-full px-3 py-1 text-xs rounded bg-slate-700 hover:bg-slate-600 text-slate-300 transition-colors"
+        >
+          Keep facing {unit.direction}
+        </button>
+      )}
+    </div>
+  )
+}
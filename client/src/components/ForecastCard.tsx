@@ -0,0 +1,41 @@
+import { useUIStore } from '../stores/uiStore'
+import { useUnitStore } from '../stores/unitStore'
+import { describeForecast } from '../game/core/forecast'
+import { dataManager } from '../game/data/DataManager'
+
+/**
+ * Forecasts for the enemies in reach of the current attack or ability, for touch screens
+ * where there is no hover tooltip. The enemy under the pointer, if any, is listed alone.
+ */
+export function ForecastCard() {
+  const targetForecasts = useUIStore(state => state.targetForecasts)
+  const hoveredTargetId = useUIStore(state => state.hoveredTargetId)
+  const units = useUnitStore(state => state.units)
+
+  const hovered = targetForecasts.filter(f => f.targetId === hoveredTargetId)
+  const shown = hovered.length > 0 ? hovered : targetForecasts
+  if (shown.length === 0) return null
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-semibold text-red-300">Forecast</h4>
+      {shown.map(forecast => {
+        const target = units.find(u => u.id === forecast.targetId)
+        if (!target) return null
+        const name = (target.employeeKey && dataManager.getEmployee(target.employeeKey)?.name) || target.type.replace('_', ' ')
+        return (
+          <div key={forecast.targetId} className="bg-red-900/20 border border-red-700/50 rounded-lg p-3">
+            <div className="text-sm font-semibold text-red-200 capitalize">
+              {name} ({target.position.x}, {target.position.y})
+            </div>
+            <div className="text-xs space-y-0.5 mt-1 text-slate-300">
+              {describeForecast(forecast, target).map(line => (
+                <div key={line}>{line}</div>
+              ))}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -1,29 +1,26 @@
 import { useState, useEffect, useCallback } from 'react'
-import { useGameStore } from '../stores/gameStore'
+import { selectLocalPlayerId, useGameStore } from '../stores/gameStore'
 import { useUIStore } from '../stores/uiStore'
 import { useUnitStore } from '../stores/unitStore'
 import { usePlayerStore } from '../stores/playerStore'
 import { actionHandlers } from '../stores/actionHandlers'
 import { ActionMenu } from './ActionMenu'
 import { BottomSheet } from './BottomSheet'
+import { UnitStatusList } from './UnitStatusList'
+import { TurnLimitCountdown } from './TurnLimitCountdown'
+import { HirePanel } from './HirePanel'
+import { FacingLabel, FacingPicker } from './FacingPicker'
+import { UndoControls } from './UndoControls'
+import { CombatLog } from './CombatLog'
+import { ForecastCard } from './ForecastCard'
+import { VictoryProgressPanel } from './VictoryProgressPanel'
+import { TeamRosters } from './TeamRosters'
+import { GameEventType, getEffectiveStats } from 'shared'
+import { dataManager } from '../game/data/DataManager'
+import { TEAM_NAMES, getControllerLabel } from '../game/core/controllers'
+import { gameEvents, type ActionMode } from '../game/events/GameEventBus'
 // ABILITIES import removed - now handled by actionHandlers
 
-// Type definitions for window extensions
-interface GameScene {
-  getTileSize?: () => number
-  getBoardOffsetX?: () => number
-  getBoardOffsetY?: () => number
-  clearActionMode?: () => void
-  setActionMode?: (mode: string, ability?: string) => void
-  getActionMode?: () => string
-}
-
-interface ExtendedWindow extends Window {
-  gameScene?: GameScene
-}
-
-declare const window: ExtendedWindow
-
 import { HUD_CONFIG } from '../config/hudConfig'
 
 export function GameHUD() {
@@ -52,10 +49,10 @@ export function GameHUD() {
   
   // Mobile bottom sheet state
   const [isBottomSheetOpen, setIsBottomSheetOpen] = useState(false)
-  const [activeSection, setActiveSection] = useState<'game-status' | 'unit-info' | 'help'>('game-status')
+  const [activeSection, setActiveSection] = useState<'game-status' | 'unit-info' | 'log' | 'help'>('game-status')
   
   // Desktop unified control panel state
-  const [activeTab, setActiveTab] = useState<'status' | 'unit' | 'actions'>('status')
+  const [activeTab, setActiveTab] = useState<'status' | 'unit' | 'log' | 'actions'>('status')
 
   // Mobile: Auto-open bottom sheet when unit is selected
   useEffect(() => {
@@ -67,9 +64,18 @@ export function GameHUD() {
     }
   }, [selectedUnit])
   
-  const isPlayerUnit = selectedUnit && selectedUnit.playerId === 'player1'
-  const canControl = selectedUnit && selectedUnit.playerId === 'player1' && selectedUnit.actionsRemaining > 0
-  const isPlayerTurn = currentPlayerId === 'player1'
+  const controllers = useGameStore(state => state.controllers)
+  const spectating = useGameStore(state => state.spectating)
+  const localPlayerId = selectLocalPlayerId({ controllers }, currentPlayerId)
+  const isPlayerUnit = selectedUnit && selectedUnit.playerId === localPlayerId
+  const canControl = selectedUnit && selectedUnit.playerId === localPlayerId && selectedUnit.actionsRemaining > 0
+  const isPlayerTurn = currentPlayerId === localPlayerId
+  // Spectators have no side of their own, so the turn is named after whoever has it
+  const otherTurnLabel = spectating
+    ? `${TEAM_NAMES[currentPlayerId] ?? currentPlayerId}'s Turn`
+    : controllers[currentPlayerId] === 'ai' ? 'AI Turn' : "Opponent's Turn"
+  // Stats shown in the HUD include active status modifiers
+  const effectiveStats = selectedUnit ? getEffectiveStats(selectedUnit, dataManager.getRulesData().statusEffects) : null
 
   // Get player references
   const player1 = players.find((p) => p.id === 'player1')
@@ -84,10 +90,7 @@ export function GameHUD() {
       actionHandlers.cancelAction()
       
       // Clear action mode in GameScene if available
-      const gameScene = (window as ExtendedWindow).gameScene
-      if (gameScene && gameScene.clearActionMode) {
-        gameScene.clearActionMode()
-      }
+      gameEvents.emit('action_mode_changed', { mode: 'none' })
     }
   }, [selectedUnit])
 
@@ -98,18 +101,11 @@ export function GameHUD() {
       actionHandlers.cancelAction()
       
       // Clear action mode in GameScene if available
-      const gameScene = (window as ExtendedWindow).gameScene
-      if (gameScene && gameScene.clearActionMode) {
-        gameScene.clearActionMode()
-      }
+      gameEvents.emit('action_mode_changed', { mode: 'none' })
     }
 
-    // Listen for custom events when actions complete
-    window.addEventListener('actionCompleted', handleActionCompleted)
-    
-    return () => {
-      window.removeEventListener('actionCompleted', handleActionCompleted)
-    }
+    // Listen for the game store finishing an action
+    return gameEvents.on('action_completed', handleActionCompleted)
   }, [])
 
   const handleActionSelect = (action: string) => {
@@ -128,25 +124,9 @@ export function GameHUD() {
       actionHandlers.enterAbilityMode(selectedUnit, action)
     }
 
-    // Set GameScene action mode with retry mechanism
-    const setGameSceneActionMode = (retryCount = 0) => {
-      const gameScene = (window as ExtendedWindow).gameScene
-      
-      if (gameScene && gameScene.setActionMode) {
-        if (action !== 'move' && action !== 'attack') {
-          gameScene.setActionMode('ability', action)
-        } else {
-          gameScene.setActionMode(action)
-        }
-      } else if (retryCount < 3) {
-        // Retry after a short delay if GameScene isn't ready yet
-        setTimeout(() => setGameSceneActionMode(retryCount + 1), 100)
-      } else {
-        console.log('GameScene not available after retries, action mode set locally only')
-      }
-    }
-    
-    setGameSceneActionMode()
+    // Let the GameScene show the matching highlights
+    const mode: ActionMode = action === 'move' || action === 'attack' ? action : 'ability'
+    gameEvents.emit('action_mode_changed', { mode, abilityId: mode === 'ability' ? action : undefined })
     
     // Immediately hide the action menu after action selection
     useUIStore.getState().setActionMenu(null)
@@ -171,10 +151,7 @@ export function GameHUD() {
           actionHandlers.executeMove(selectedUnit, coord)
           
           // Clear action mode in game scene
-          const gameScene = (window as ExtendedWindow).gameScene
-          if (gameScene && gameScene.clearActionMode) {
-            gameScene.clearActionMode()
-          }
+          gameEvents.emit('action_mode_changed', { mode: 'none' })
           
           setActionFeedback({ type: 'success', message: 'Unit moved successfully!' })
           setTimeout(() => setActionFeedback(null), HUD_CONFIG.FEEDBACK.DURATION)
@@ -199,10 +176,7 @@ export function GameHUD() {
           actionHandlers.executeAttack(selectedUnit, targetUnit)
           
           // Clear action mode in game scene
-          const gameScene = (window as ExtendedWindow).gameScene
-          if (gameScene && gameScene.clearActionMode) {
-            gameScene.clearActionMode()
-          }
+          gameEvents.emit('action_mode_changed', { mode: 'none' })
           
           setActionFeedback({ type: 'success', message: 'Attack executed!' })
           setTimeout(() => setActionFeedback(null), HUD_CONFIG.FEEDBACK.DURATION)
@@ -230,10 +204,7 @@ export function GameHUD() {
             actionHandlers.executeAbility(selectedUnit, selectedAbility, clickedTarget)
             
             // Clear action mode in game scene
-            const gameScene = (window as ExtendedWindow).gameScene
-            if (gameScene && gameScene.clearActionMode) {
-              gameScene.clearActionMode()
-            }
+            gameEvents.emit('action_mode_changed', { mode: 'none' })
             
             setActionFeedback({ type: 'success', message: 'Ability used successfully!' })
             setTimeout(() => setActionFeedback(null), HUD_CONFIG.FEEDBACK.DURATION)
@@ -247,15 +218,15 @@ export function GameHUD() {
     }
   }, [selectedUnit, canControl, actionMode, selectedAbility, getAbilityTargets, gameStore])
 
-  // Listen for tile clicks from the game scene
+  // Listen for tile clicks and ability outcomes from the game scene
   useEffect(() => {
-    const handleGameTileClick = (event: CustomEvent) => {
-      const { coord } = event.detail
+    const handleGameTileClick = ({ coord }: { coord: { x: number, y: number } }) => {
       handleTileClick(coord)
     }
 
-    const handleAbilityUsed = (event: CustomEvent) => {
-      console.log('Ability used:', event.detail?.abilityId)
+    const handleAbilityUsed = ({ unitId, abilityId }: { unitId: string, abilityId: string }) => {
+      if (unitId !== selectedUnit?.id) return // Only the player's own ability use gets feedback
+      console.log('Ability used:', abilityId)
       actionHandlers.cancelAction()
       setActionFeedback({ type: 'success', message: 'Ability used successfully!' })
       setTimeout(() => setActionFeedback(null), HUD_CONFIG.FEEDBACK.DURATION)
@@ -268,15 +239,12 @@ export function GameHUD() {
       setTimeout(() => setActionFeedback(null), HUD_CONFIG.FEEDBACK.DURATION)
     }
 
-    window.addEventListener('gameTileClick', handleGameTileClick as EventListener)
-    window.addEventListener('abilityUsed', handleAbilityUsed as EventListener)
-    window.addEventListener('abilityCancelled', handleAbilityCancelled as EventListener)
-    
-    return () => {
-      window.removeEventListener('gameTileClick', handleGameTileClick as EventListener)
-      window.removeEventListener('abilityUsed', handleAbilityUsed as EventListener)
-      window.removeEventListener('abilityCancelled', handleAbilityCancelled as EventListener)
-    }
+    const unsubscribers = [
+      gameEvents.on('tile_clicked', handleGameTileClick),
+      gameEvents.on(GameEventType.ABILITY_USED, handleAbilityUsed),
+      gameEvents.on('ability_cancelled', handleAbilityCancelled),
+    ]
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe())
   }, [selectedUnit, actionMode, selectedAbility, canControl, handleTileClick])
 
   // Listen for unit selection blocked events
@@ -291,10 +259,7 @@ export function GameHUD() {
       }, HUD_CONFIG.FEEDBACK.DURATION * 1.5)
     }
 
-    window.addEventListener('unitSelectionBlocked', handleUnitSelectionBlocked as EventListener)
-    return () => {
-      window.removeEventListener('unitSelectionBlocked', handleUnitSelectionBlocked as EventListener)
-    }
+    return gameEvents.on('unit_selection_blocked', handleUnitSelectionBlocked)
   }, [])
 
 
@@ -329,10 +294,14 @@ export function GameHUD() {
             {/* Turn Info */}
             <div className="flex items-center space-x-3">
               <div className="text-sm font-semibold">Turn {turnNumber}</div>
+              <TurnLimitCountdown />
+              {spectating && (
+                <div className="px-2 py-1 rounded text-xs font-medium bg-purple-700 text-white">Spectating</div>
+              )}
               <div className={`px-2 py-1 rounded text-xs font-medium ${
                 isPlayerTurn ? 'bg-amber-600 text-white' : 'bg-stone-600 text-white'
               }`}>
-                {isPlayerTurn ? 'Your Turn' : 'AI Turn'}
+                {isPlayerTurn ? 'Your Turn' : otherTurnLabel}
               </div>
             </div>
             
@@ -342,6 +311,9 @@ export function GameHUD() {
               <span className="text-blue-400">Navy: {player2?.controlledCubicles || 0}</span>
             </div>
             
+            {/* Undo/Redo */}
+            <UndoControls compact />
+
             {/* End Turn Button */}
             {isPlayerTurn && (
               <button
@@ -392,6 +364,16 @@ export function GameHUD() {
             >
               Unit
             </button>
+            <button
+              onClick={() => setActiveSection('log')}
+              className={`px-3 py-2 rounded text-sm font-medium transition-colors ${
+                activeSection === 'log' 
+                  ? 'bg-blue-600 text-white' 
+                  : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+              }`}
+            >
+              Log
+            </button>
             <button
               onClick={() => setActiveSection('help')}
               className={`px-3 py-2 rounded text-sm font-medium transition-colors ${
@@ -409,8 +391,9 @@ export function GameHUD() {
             <div className="space-y-4">
               <div className="text-center">
                 <div className="text-xl font-bold mb-2">Turn {turnNumber}</div>
+                <TurnLimitCountdown className="mb-2" />
                 <div className={`px-4 py-2 rounded-lg text-white font-semibold ${isPlayerTurn ? 'bg-amber-600' : 'bg-stone-600'}`}>
-                  {isPlayerTurn ? 'Your Turn' : 'AI Turn'}
+                  {isPlayerTurn ? 'Your Turn' : otherTurnLabel}
                 </div>
               </div>
 
@@ -420,7 +403,7 @@ export function GameHUD() {
                 
                 {/* Player 1 (Gold) */}
                 <div className="bg-amber-900/20 border border-amber-700 rounded-lg p-3">
-                  <div className="text-amber-400 font-semibold text-sm">Gold Team (You)</div>
+                  <div className="text-amber-400 font-semibold text-sm">Gold Team ({getControllerLabel(controllers, 'player1')})</div>
                   <div className="text-xs space-y-1 mt-2 text-amber-300">
                     <div>Budget: ${player1?.budget || 0}</div>
                     <div>Income: +${player1?.income || 0}/turn</div>
@@ -430,7 +413,7 @@ export function GameHUD() {
 
                 {/* Player 2 (Navy) */}
                 <div className="bg-blue-900/20 border border-blue-700 rounded-lg p-3">
-                  <div className="text-blue-400 font-semibold text-sm">Navy Team (AI)</div>
+                  <div className="text-blue-400 font-semibold text-sm">Navy Team ({getControllerLabel(controllers, 'player2')})</div>
                   <div className="text-xs space-y-1 mt-2 text-blue-300">
                     <div>Budget: ${player2?.budget || 0}</div>
                     <div>Income: +${player2?.income || 0}/turn</div>
@@ -438,12 +421,23 @@ export function GameHUD() {
                   </div>
                 </div>
               </div>
+
+              <VictoryProgressPanel />
+
+              <FacingPicker />
+
+              {isPlayerTurn && <HirePanel playerId={currentPlayerId} />}
+
+              {spectating && <TeamRosters />}
             </div>
           )}
 
           {/* Unit Info Section */}
           {activeSection === 'unit-info' && selectedUnit && (
             <div className="space-y-4">
+              {/* What the current attack or ability would do */}
+              <ForecastCard />
+
               {/* Unit Info Header */}
               <div className="border-b border-slate-600 pb-3">
                 <div className="flex items-center justify-between">
@@ -453,7 +447,7 @@ export function GameHUD() {
                   <div className="flex items-center space-x-2">
                     <div className={`w-3 h-3 rounded-full ${isPlayerUnit ? 'bg-amber-500' : 'bg-stone-500'}`} />
                     <span className="text-xs text-slate-400">
-                      {isPlayerUnit ? 'Player' : 'Enemy'}
+                      {spectating ? TEAM_NAMES[selectedUnit.playerId] : isPlayerUnit ? 'Player' : 'Enemy'}
                     </span>
                   </div>
                 </div>
@@ -476,8 +470,9 @@ export function GameHUD() {
                   <span className="text-white">{selectedUnit.actionsRemaining}/{selectedUnit.maxActions}</span>
                 </div>
                 <div className="flex justify-between">
-                  <span className="text-slate-400">Move Range:</span>
-                  <span className="text-white">{selectedUnit.moveRange}</span>
+                  <span className="text-slate-400">Movement:</span>
+                  {/* Hallways cost half a point, so what is left is shown in whole points */}
+                  <span className="text-white">{Math.floor(selectedUnit.remainingMovement)}/{effectiveStats?.speed ?? selectedUnit.moveRange}</span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-slate-400">Attack Range:</span>
@@ -485,12 +480,25 @@ export function GameHUD() {
                 </div>
                 <div className="flex justify-between">
                   <span className="text-slate-400">Attack Damage:</span>
-                  <span className="text-white">{selectedUnit.attackDamage}</span>
+                  <span className="text-white">{effectiveStats?.attackPower ?? selectedUnit.attackDamage}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-slate-400">Defense:</span>
+                  <span className="text-white">{effectiveStats?.defense ?? selectedUnit.defense}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-slate-400">Facing:</span>
+                  <FacingLabel unit={selectedUnit} />
                 </div>
               </div>
+              <UnitStatusList unit={selectedUnit} />
+              <FacingPicker />
             </div>
           )}
 
+          {/* Combat Log Section */}
+          {activeSection === 'log' && <CombatLog className="max-h-72" />}
+
           {/* Help Section */}
           {activeSection === 'help' && (
             <div className="space-y-3 text-sm">
@@ -501,6 +509,8 @@ export function GameHUD() {
                 <div>• Click highlighted tiles to move/attack</div>
                 <div>• Select abilities to use them on targets</div>
                 <div>• Capture cubicles to increase income</div>
+                <div>• Hit enemies from the side or behind for bonus damage</div>
+                <div>• Undo moves this turn with Ctrl+Z, redo with Ctrl+Shift+Z</div>
                 <div>• End turn when you're done</div>
               </div>
             </div>
@@ -530,13 +540,23 @@ export function GameHUD() {
               Unit Info
             </button>
             <button 
-              className={`flex-1 px-4 py-3 text-sm font-medium transition-colors cursor-pointer hover:bg-slate-800 ${
-                activeTab === 'actions' ? 'bg-slate-700 text-blue-400 border-b-2 border-blue-400' : 'text-slate-300'
+              className={`flex-1 px-4 py-3 text-sm font-medium transition-colors cursor-pointer border-r border-slate-700 hover:bg-slate-800 ${
+                activeTab === 'log' ? 'bg-slate-700 text-blue-400 border-b-2 border-blue-400' : 'text-slate-300'
               }`}
-              onClick={() => setActiveTab('actions')}
+              onClick={() => setActiveTab('log')}
             >
-              Actions
+              Log
             </button>
+            {!spectating && (
+              <button 
+                className={`flex-1 px-4 py-3 text-sm font-medium transition-colors cursor-pointer hover:bg-slate-800 ${
+                  activeTab === 'actions' ? 'bg-slate-700 text-blue-400 border-b-2 border-blue-400' : 'text-slate-300'
+                }`}
+                onClick={() => setActiveTab('actions')}
+              >
+                Actions
+              </button>
+            )}
           </div>
           
           {/* Tab Content */}
@@ -545,10 +565,14 @@ export function GameHUD() {
             {activeTab === 'status' && (
               <div className="space-y-4">
                 <h2 className="text-lg font-bold text-center text-slate-100">Game Status</h2>
+                {spectating && (
+                  <div className="text-center text-sm text-purple-300">Spectating · you can follow the match but not act in it</div>
+                )}
                 <div className="text-center">
                   <div className="text-2xl font-bold mb-2 text-slate-100">Turn {turnNumber}</div>
+                  <TurnLimitCountdown className="mb-2" />
                   <div className={`px-4 py-2 rounded-lg text-white font-semibold ${isPlayerTurn ? 'bg-amber-600' : 'bg-stone-600'}`}>
-                    {isPlayerTurn ? 'Your Turn (Gold)' : 'AI Turn (Navy)'}
+                    {isPlayerTurn ? 'Your Turn' : otherTurnLabel} ({currentPlayerId === 'player1' ? 'Gold' : 'Navy'})
                   </div>
                 </div>
 
@@ -558,7 +582,7 @@ export function GameHUD() {
                   
                   {/* Player 1 (Gold) */}
                   <div className="bg-blue-900/20 border border-blue-700/30 rounded-lg p-3">
-                    <div className="text-blue-300 font-semibold text-sm">Gold Team (You)</div>
+                    <div className="text-blue-300 font-semibold text-sm">Gold Team ({getControllerLabel(controllers, 'player1')})</div>
                     <div className="text-xs space-y-1 mt-2 text-slate-300">
                       <div>Budget: ${player1?.budget || 0}</div>
                       <div>Income: +${player1?.income || 0}/turn</div>
@@ -568,7 +592,7 @@ export function GameHUD() {
 
                   {/* Player 2 (Navy) */}
                   <div className="bg-red-900/20 border border-red-700/30 rounded-lg p-3">
-                    <div className="text-red-300 font-semibold text-sm">Navy Team (AI)</div>
+                    <div className="text-red-300 font-semibold text-sm">Navy Team ({getControllerLabel(controllers, 'player2')})</div>
                     <div className="text-xs space-y-1 mt-2 text-slate-300">
                       <div>Budget: ${player2?.budget || 0}</div>
                       <div>Income: +${player2?.income || 0}/turn</div>
@@ -577,6 +601,21 @@ export function GameHUD() {
                   </div>
                 </div>
 
+                {/* Victory Progress */}
+                <VictoryProgressPanel />
+
+                {/* End-of-turn facing */}
+                <FacingPicker />
+
+                {/* Hire Employees */}
+                {isPlayerTurn && <HirePanel playerId={currentPlayerId} />}
+
+                {/* Both sides' units, for spectators */}
+                {spectating && <TeamRosters />}
+
+                {/* Undo/Redo */}
+                <UndoControls />
+
                 {/* End Turn Button */}
                 {isPlayerTurn && (
                   <div className="text-center">
@@ -610,7 +649,7 @@ export function GameHUD() {
                         <div className="flex items-center space-x-2">
                           <div className={`w-3 h-3 rounded-full ${isPlayerUnit ? 'bg-amber-500' : 'bg-stone-500'}`} />
                           <span className="text-xs text-slate-400">
-                            {isPlayerUnit ? 'Player' : 'Enemy'}
+                            {spectating ? TEAM_NAMES[selectedUnit.playerId] : isPlayerUnit ? 'Player' : 'Enemy'}
                           </span>
                         </div>
                       </div>
@@ -638,8 +677,9 @@ export function GameHUD() {
                         <span className="text-white">{selectedUnit.actionsRemaining}/{selectedUnit.maxActions}</span>
                       </div>
                       <div className="flex justify-between">
-                        <span className="text-slate-400">Move Range:</span>
-                        <span className="text-white">{selectedUnit.moveRange}</span>
+                        <span className="text-slate-400">Movement:</span>
+                        {/* Hallways cost half a point, so what is left is shown in whole points */}
+                        <span className="text-white">{Math.floor(selectedUnit.remainingMovement)}/{effectiveStats?.speed ?? selectedUnit.moveRange}</span>
                       </div>
                       <div className="flex justify-between">
                         <span className="text-slate-400">Attack Range:</span>
@@ -647,9 +687,19 @@ export function GameHUD() {
                       </div>
                       <div className="flex justify-between">
                         <span className="text-slate-400">Attack Damage:</span>
-                        <span className="text-white">{selectedUnit.attackDamage}</span>
+                        <span className="text-white">{effectiveStats?.attackPower ?? selectedUnit.attackDamage}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-slate-400">Defense:</span>
+                        <span className="text-white">{effectiveStats?.defense ?? selectedUnit.defense}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-slate-400">Facing:</span>
+                        <FacingLabel unit={selectedUnit} />
                       </div>
                     </div>
+                    <UnitStatusList unit={selectedUnit} />
+                    <FacingPicker />
                   </>
                 ) : (
                   <div className="text-center text-slate-400 py-8">
@@ -660,8 +710,16 @@ export function GameHUD() {
               </div>
             )}
 
+            {/* Combat Log Tab */}
+            {activeTab === 'log' && (
+              <div className="space-y-4">
+                <h2 className="text-lg font-bold text-center text-slate-100">Combat Log</h2>
+                <CombatLog className="max-h-[60vh]" />
+              </div>
+            )}
+
             {/* Actions Tab */}
-            {activeTab === 'actions' && (
+            {activeTab === 'actions' && !spectating && (
               <div className="space-y-4">
                 <h2 className="text-lg font-bold text-center text-slate-100">Available Actions</h2>
                 
@@ -729,10 +787,7 @@ export function GameHUD() {
                         <button
                           onClick={() => {
                             actionHandlers.cancelAction()
-                            const gameScene = (window as ExtendedWindow).gameScene
-                            if (gameScene && gameScene.clearActionMode) {
-                              gameScene.clearActionMode()
-                            }
+                            gameEvents.emit('action_mode_changed', { mode: 'none' })
                           }}
                           className="mt-2 px-3 py-1 bg-slate-600 hover:bg-slate-700 text-white text-xs rounded transition-colors"
                         >
@@ -748,6 +803,8 @@ export function GameHUD() {
                       <div>• Click highlighted tiles to move/attack</div>
                       <div>• Select abilities to use them on targets</div>
                       <div>• Capture cubicles to increase income</div>
+                      <div>• Hit enemies from the side or behind for bonus damage</div>
+                      <div>• Undo moves this turn with Ctrl+Z, redo with Ctrl+Shift+Z</div>
                       <div>• End turn when you're done</div>
                     </div>
                   </div>
@@ -2,25 +2,18 @@ import { useEffect, useRef, useState } from 'react'
 import Phaser from 'phaser'
 import { GameScene } from '../game/scenes/GameScene'
 import { PauseMenu } from './PauseMenu'
+import { useGameStore } from '../stores/gameStore'
+import { gameEvents } from '../game/events/GameEventBus'
 import { ResponsiveGameManager } from '../game/responsive/ResponsiveGameManager'
 
-// Type definitions for Phaser extensions
-interface ExtendedGameScene extends Phaser.Scene {
-  key: string
-}
-
-interface ExtendedWindow extends Window {
-  gameScene?: ExtendedGameScene
-}
-
-declare const window: ExtendedWindow
-
 export function GameView() {
   const containerRef = useRef<HTMLDivElement | null>(null)
   const gameRef = useRef<Phaser.Game | null>(null)
   const responsiveManagerRef = useRef<ResponsiveGameManager | null>(null)
   const [isPaused, setIsPaused] = useState(false)
   const [currentTileSize, setCurrentTileSize] = useState(48)
+  const gameMode = useGameStore(state => state.gameMode)
+  const exportSave = useGameStore(state => state.exportSave)
 
 
 
@@ -59,94 +52,36 @@ export function GameView() {
     game.events.once('ready', () => {
       console.log('Game ready, initializing ResponsiveGameManager')
       responsiveManagerRef.current = new ResponsiveGameManager(game)
-      
-      // Also try to attach GameScene when game is ready
-      const readyScene = game.scene.getScene('GameScene') as ExtendedGameScene
-      if (readyScene && !window.gameScene) {
-        attachGameScene(readyScene, 'game ready event')
-      }
     })
 
-    // Multiple ways to detect when GameScene is ready
-    const attachGameScene = (scene: ExtendedGameScene, method: string) => {
-      if (scene && scene.key === 'GameScene') {
-        console.log(`GameScene ready via ${method}, attaching to window.gameScene`)
-        window.gameScene = scene
-        return true
-      }
-      return false
-    }
-
-    // Method 1: Listen for scene start
-    game.events.once('scene-start', (scene: Phaser.Scene) => {
-      attachGameScene(scene as ExtendedGameScene, 'scene-start event')
-    })
-
-    // Method 2: Listen for scene wake
-    game.events.once('scene-wake', (scene: Phaser.Scene) => {
-      attachGameScene(scene as ExtendedGameScene, 'scene-wake event')
-    })
-
-    // Method 3: Try immediate access
-    const immediateScene = game.scene.getScene('GameScene') as ExtendedGameScene
-    if (immediateScene) {
-      attachGameScene(immediateScene, 'immediate access')
-    }
-
-    // Method 4: Fallback timer - check every 100ms for up to 5 seconds
-    let attempts = 0
-    const maxAttempts = 50
-    const checkScene = () => {
-      attempts++
-      const scene = game.scene.getScene('GameScene') as ExtendedGameScene
-      if (scene && !window.gameScene) {
-        if (attachGameScene(scene, `fallback timer (attempt ${attempts})`)) {
-          return // Success!
-        }
-      }
-      
-      if (attempts < maxAttempts) {
-        setTimeout(checkScene, 100)
-      } else {
-        console.warn('GameScene not available after 5 seconds - action menu may not work')
-        // Try one more time with a different approach
-        const finalScene = game.scene.getScene('GameScene') as ExtendedGameScene
-        if (finalScene) {
-          console.log('Final attempt: Found GameScene, forcing attachment')
-          window.gameScene = finalScene
-        }
-      }
-    }
-    
-    // Start the fallback check
-    setTimeout(checkScene, 100)
-
-
-
     // NOTE: ResponsiveGameManager now handles all game resizing
     // The old resize handler has been removed to prevent conflicts
     
-    // Handle keyboard events for pause
+    // Handle keyboard events for pause and undo/redo
     const handleKeyDown = (event: KeyboardEvent) => {
       if (event.key === 'Escape') {
         setIsPaused(prev => !prev)
+      } else if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'z') {
+        event.preventDefault()
+        if (event.shiftKey) {
+          useGameStore.getState().redo()
+        } else {
+          useGameStore.getState().undo()
+        }
       }
     }
 
     document.addEventListener('keydown', handleKeyDown)
 
-    // Add event listener for ResponsiveGameManager
-    const handleGameBoardResized = (event: CustomEvent) => {
-      const { tileSize: newTileSize, width, height } = event.detail
+    // Follow the board size chosen by ResponsiveGameManager
+    const unsubscribeResize = gameEvents.on('board_resized', ({ tileSize: newTileSize, width, height }) => {
       console.log(`GameView: Game board resized to ${width}x${height}, tile size: ${newTileSize}px`)
       setCurrentTileSize(newTileSize)
-    }
-
-    window.addEventListener('gameBoardResized', handleGameBoardResized as EventListener)
+    })
 
     return () => {
       document.removeEventListener('keydown', handleKeyDown)
-      window.removeEventListener('gameBoardResized', handleGameBoardResized as EventListener)
+      unsubscribeResize()
       
       // Clean up ResponsiveGameManager
       responsiveManagerRef.current?.destroy()
@@ -209,6 +144,7 @@ export function GameView() {
         isPaused={isPaused}
         onResume={handleResume}
         onQuit={handleQuit}
+        onExportSave={gameMode === 'replay' || gameMode === 'multiplayer' ? undefined : exportSave}
       />
     </div>
   )
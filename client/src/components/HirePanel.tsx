@@ -0,0 +1,52 @@
+import { getHireError, getMaxTeamSize } from 'shared'
+import { useGameStore } from '../stores/gameStore'
+import { useUnitStore } from '../stores/unitStore'
+import { useBoardStore } from '../stores/boardStore'
+import { usePlayerStore } from '../stores/playerStore'
+import { dataManager } from '../game/data/DataManager'
+
+interface HirePanelProps {
+  playerId: string
+}
+
+/**
+ * Lets a player spend their budget on employees from employees.json.
+ * New hires are deployed on the first free HQ tile and can act from next turn.
+ */
+export function HirePanel({ playerId }: HirePanelProps) {
+  const units = useUnitStore(state => state.units)
+  const board = useBoardStore(state => state.board)
+  const players = usePlayerStore(state => state.players)
+  const hireUnit = useGameStore(state => state.hireUnit)
+
+  const rulesData = dataManager.getRulesData()
+  const state = { units, board, players }
+  const teamSize = units.filter(u => u.playerId === playerId).length
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-md font-semibold text-slate-200">Hire</h3>
+        <span className="text-xs text-slate-400">
+          Team {teamSize}/{getMaxTeamSize(rulesData)}
+        </span>
+      </div>
+      {dataManager.getAllEmployees().map((employee) => {
+        const error = getHireError(state, playerId, employee, rulesData)
+
+        return (
+          <button
+            key={employee.key}
+            onClick={() => hireUnit(employee.key)}
+            disabled={!!error}
+            title={error ?? employee.attack.description}
+            className="w-full flex justify-between px-3 py-2 text-sm rounded bg-slate-700 hover:bg-slate-600 text-slate-100 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-slate-700 transition-colors"
+          >
+            <span>{employee.name}</span>
+            <span className="text-amber-400">${employee.cost}</span>
+          </button>
+        )
+      })}
+    </div>
+  )
+}
@@ -143,6 +143,28 @@ export function LoadingScreen({ onLoadingComplete }: LoadingScreenProps) {
           positions: blockedTilesData
         });
       }
+
+      // Parse hallways and conference rooms from the "Terrain" layer
+      const terrainLayer = tilemapData.layers.find((layer: { name: string; data?: number[]; width: number; height: number }) => layer.name === 'Terrain');
+
+      if (terrainLayer && terrainLayer.data) {
+        const terrainTilesData: { x: number; y: number; gid: number }[] = [];
+
+        // Convert 1D array to 2D grid and find non-zero tiles
+        for (let y = 0; y < terrainLayer.height; y++) {
+          for (let x = 0; x < terrainLayer.width; x++) {
+            const index = y * terrainLayer.width + x;
+            const gid = terrainLayer.data[index];
+
+            if (gid > 0) {
+              terrainTilesData.push({ x, y, gid });
+            }
+          }
+        }
+
+        // Store terrain in MapRegistry so the board gets its movement costs
+        mapRegistry.setTerrainTiles('OfficeLayout', terrainTilesData);
+      }
     } catch (error) {
       console.warn('LoadingScreen: Failed to preload tilemap data:', error);
     }
@@ -0,0 +1,238 @@
+import { useEffect, useState } from 'react'
+import { SEATS, getSpectators, type RoomState, type Seat } from 'shared'
+import { useGameStore } from '../stores/gameStore'
+import { useLobbyStore } from '../stores/lobbyStore'
+
+const SEAT_LABELS: Record<Seat, { name: string; className: string }> = {
+  player1: { name: 'Gold Team', className: 'bg-amber-900/20 border-amber-700 text-amber-300' },
+  player2: { name: 'Navy Team', className: 'bg-blue-900/20 border-blue-700 text-blue-300' },
+}
+
+/**
+ * Online lobby: create a room and share its code, or join one from the list or by code,
+ * then pick a side and ready up. Matches under way can be watched instead.
+ */
+export function LobbyScreen() {
+  const connected = useLobbyStore(state => state.connected)
+  const room = useLobbyStore(state => state.room)
+  const error = useLobbyStore(state => state.error)
+  const connect = useLobbyStore(state => state.connect)
+  const disconnect = useLobbyStore(state => state.disconnect)
+  const returnToMenu = useGameStore(state => state.returnToMenu)
+
+  // The connection lasts as long as the lobby is open
+  useEffect(() => {
+    connect()
+  }, [connect])
+
+  const handleBack = () => {
+    disconnect()
+    returnToMenu()
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100">
+      <header className="px-4 py-3 border-b border-slate-800 flex items-center justify-between gap-3">
+        <h1 className="text-xl font-semibold">HRmageddon Online</h1>
+        <button
+          onClick={handleBack}
+          className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded text-sm transition-colors"
+        >
+          Main Menu
+        </button>
+      </header>
+
+      <main className="p-4 max-w-2xl mx-auto space-y-4">
+        {error && <div className="text-sm text-red-300 bg-red-900/30 border border-red-700 rounded p-3">{error}</div>}
+        {!connected ? (
+          <div className="text-center text-slate-400 py-12">Connecting to the game server…</div>
+        ) : room ? (
+          <RoomView room={room} />
+        ) : (
+          <RoomBrowser />
+        )}
+      </main>
+    </div>
+  )
+}
+
+function RoomBrowser() {
+  const rooms = useLobbyStore(state => state.rooms)
+  const playerName = useLobbyStore(state => state.playerName)
+  const setPlayerName = useLobbyStore(state => state.setPlayerName)
+  const createRoom = useLobbyStore(state => state.createRoom)
+  const joinRoom = useLobbyStore(state => state.joinRoom)
+  const watchRoom = useLobbyStore(state => state.watchRoom)
+  const refreshRooms = useLobbyStore(state => state.refreshRooms)
+  const [code, setCode] = useState('')
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-slate-800 rounded-lg border border-slate-700 p-4 space-y-3">
+        <label className="block text-sm text-slate-300">
+          Your name
+          <input
+            value={playerName}
+            onChange={(event) => setPlayerName(event.target.value)}
+            placeholder="Player"
+            className="mt-1 w-full px-3 py-2 rounded bg-slate-900 border border-slate-600 text-slate-100"
+          />
+        </label>
+        <button
+          onClick={createRoom}
+          className="w-full px-4 py-3 bg-green-600 hover:bg-green-700 text-white font-semibold rounded transition-colors"
+        >
+          Create Room
+        </button>
+        <form
+          onSubmit={(event) => {
+            event.preventDefault()
+            if (code.trim()) joinRoom(code)
+          }}
+          className="flex gap-2"
+        >
+          <input
+            value={code}
+            onChange={(event) => setCode(event.target.value.toUpperCase())}
+            placeholder="Room code"
+            className="flex-1 px-3 py-2 rounded bg-slate-900 border border-slate-600 text-slate-100 font-mono tracking-widest uppercase"
+          />
+          <button type="submit" className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded transition-colors">
+            Join
+          </button>
+          <button
+            type="button"
+            onClick={() => code.trim() && watchRoom(code)}
+            className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white font-semibold rounded transition-colors"
+          >
+            Watch
+          </button>
+        </form>
+      </div>
+
+      <div className="bg-slate-800 rounded-lg border border-slate-700 p-4 space-y-2">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Rooms</h2>
+          <button onClick={refreshRooms} className="px-3 py-1 bg-slate-700 hover:bg-slate-600 rounded text-xs transition-colors">
+            Refresh
+          </button>
+        </div>
+        {rooms.length === 0 ? (
+          <p className="text-sm text-slate-400">No open rooms or live matches. Create one and share its code.</p>
+        ) : (
+          rooms.map(summary => (
+            <div key={summary.code} className="flex items-center justify-between bg-slate-900/50 rounded px-3 py-2">
+              <div>
+                <div className="font-mono tracking-widest">{summary.code}</div>
+                <div className="text-xs text-slate-400">
+                  Hosted by {summary.hostName} ·{' '}
+                  {summary.status === 'in_game'
+                    ? 'Match under way'
+                    : `${summary.openSeats.map(seat => SEAT_LABELS[seat].name).join(', ')} open`}
+                  {summary.spectators > 0 && ` · ${summary.spectators} watching`}
+                </div>
+              </div>
+              {summary.status === 'in_game' ? (
+                <button
+                  onClick={() => watchRoom(summary.code)}
+                  className="px-3 py-1 bg-slate-700 hover:bg-slate-600 text-white text-sm rounded transition-colors"
+                >
+                  Watch
+                </button>
+              ) : (
+                <button
+                  onClick={() => joinRoom(summary.code)}
+                  className="px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded transition-colors"
+                >
+                  Join
+                </button>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
+
+function RoomView({ room }: { room: RoomState }) {
+  const memberId = useLobbyStore(state => state.memberId)
+  const pickSeat = useLobbyStore(state => state.pickSeat)
+  const setReady = useLobbyStore(state => state.setReady)
+  const leaveRoom = useLobbyStore(state => state.leaveRoom)
+  const me = room.members.find(m => m.id === memberId)
+  const spectators = getSpectators(room)
+  const waiting = room.status === 'waiting'
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-slate-800 rounded-lg border border-slate-700 p-4 text-center">
+        <div className="text-sm text-slate-400">Room code</div>
+        <div className="text-4xl font-mono font-bold tracking-[0.3em] text-blue-300">{room.code}</div>
+        <div className="text-xs text-slate-400 mt-1">Share it with your opponent so they can join</div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {SEATS.map(seat => {
+          const occupant = room.members.find(m => m.seat === seat)
+          return (
+            <div key={seat} className={`border rounded-lg p-3 space-y-2 ${SEAT_LABELS[seat].className}`}>
+              <div className="font-semibold">{SEAT_LABELS[seat].name}</div>
+              {occupant ? (
+                <div className="text-sm text-slate-200">
+                  {occupant.name}
+                  {occupant.id === memberId && ' (you)'}
+                  {occupant.id === room.hostId && ' · host'}
+                  {occupant.connected ? (
+                    <div className={`text-xs mt-1 ${occupant.ready ? 'text-green-400' : 'text-slate-400'}`}>
+                      {occupant.ready ? 'Ready' : 'Not ready'}
+                    </div>
+                  ) : (
+                    <div className="text-xs mt-1 text-amber-400">Reconnecting…</div>
+                  )}
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <div className="text-sm text-slate-400">Waiting for a player…</div>
+                  {waiting && me && (
+                    <button
+                      onClick={() => pickSeat(seat)}
+                      className="px-3 py-1 bg-slate-700 hover:bg-slate-600 text-white text-xs rounded transition-colors"
+                    >
+                      Sit here
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      {spectators.length > 0 && (
+        <div className="text-sm text-slate-400">
+          Watching: {spectators.map(m => (m.id === memberId ? `${m.name} (you)` : m.name)).join(', ')}
+        </div>
+      )}
+
+      {waiting ? (
+        <div className="flex gap-2">
+          <button
+            onClick={() => setReady(!me?.ready)}
+            disabled={!me?.seat}
+            className={`flex-1 px-4 py-3 font-semibold rounded transition-colors text-white disabled:bg-slate-700 disabled:text-slate-500 ${
+              me?.ready ? 'bg-slate-600 hover:bg-slate-500' : 'bg-green-600 hover:bg-green-700'
+            }`}
+          >
+            {me?.ready ? 'Not Ready' : 'Ready'}
+          </button>
+          <button onClick={leaveRoom} className="px-4 py-3 bg-slate-700 hover:bg-slate-600 rounded transition-colors">
+            Leave Room
+          </button>
+        </div>
+      ) : (
+        <div className="text-center text-green-300 font-semibold">Both players are ready. The match is starting…</div>
+      )}
+    </div>
+  )
+}
@@ -1,17 +1,23 @@
-import { useState } from 'react'
+import { useState, type ChangeEvent } from 'react'
 import { useGameStore } from '../stores/gameStore'
+import { useLobbyStore } from '../stores/lobbyStore'
 import Hero from "./layout/Hero"
 import { HowItWorksModal } from './HowItWorksModal'
 import { dataManager } from '../game/data/DataManager'
+import { parseSave, readAutosave } from '../game/save/saveStorage'
 
 export function MainMenu() {
   // Actions don't need selectors as they don't cause re-renders
   const initializeDraft = useGameStore(state => state.initializeDraft)
   const setGameMode = useGameStore(state => state.setGameMode)
   const initializeGame = useGameStore(state => state.initializeGame)
+  const resumeGame = useGameStore(state => state.resumeGame)
   const [showHowItWorks, setShowHowItWorks] = useState(false)
+  const [autosave] = useState(() => readAutosave())
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const hasOnlineSession = useLobbyStore(state => state.session !== null)
 
-  const handleStartGame = async (mode: 'ai' | 'multiplayer') => {
+  const handleStartGame = async (mode: 'ai' | 'hotseat') => {
     try {
       await dataManager.ensureLoaded() // Wait for data
       setGameMode(mode)
@@ -22,6 +28,15 @@ export function MainMenu() {
     }
   }
 
+  const handleOnline = async () => {
+    try {
+      await dataManager.ensureLoaded() // The lobby hands over to a match once both players are ready
+      setGameMode('multiplayer')
+    } catch (error) {
+      console.error("Failed to open the lobby due to data loading error:", error)
+    }
+  }
+
   const handleQuickStart = async () => {
     try {
       await dataManager.ensureLoaded() // Wait for data
@@ -32,6 +47,32 @@ export function MainMenu() {
     }
   }
 
+  const handleResume = async (snapshot: unknown) => {
+    try {
+      await dataManager.ensureLoaded() // Saves are migrated against the loaded data version
+      const error = resumeGame(snapshot)
+      setLoadError(error ?? null)
+    } catch (error) {
+      console.error("Failed to resume game due to data loading error:", error)
+    }
+  }
+
+  const handleLoadFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    await handleResume(parseSave(await file.text()))
+  }
+
+  const handleReplays = async () => {
+    try {
+      await dataManager.ensureLoaded() // Replays run through the rules engine with the loaded data
+      setGameMode('replay')
+    } catch (error) {
+      console.error("Failed to open replays due to data loading error:", error)
+    }
+  }
+
   return (
     <div className="min-h-screen bg-slate-900 text-slate-100">
       <Hero bgSrc="/img/home-hero-01.jpg" overlay={28} contentPosition="center">
@@ -51,6 +92,30 @@ export function MainMenu() {
             <h2 className="text-2xl sm:text-3xl font-semibold text-slate-200">Select Game Mode</h2>
             
             <div className="flex flex-col gap-4 sm:gap-6 justify-center">
+              {/* Continue the autosaved match */}
+              {autosave && (
+                <button
+                  onClick={() => handleResume(autosave)}
+                  className="px-6 sm:px-10 py-4 sm:py-6 bg-amber-600 hover:bg-amber-700 text-white font-semibold rounded-xl transition-all duration-300 shadow-lg hover:shadow-xl transform hover:scale-105 border-2 border-amber-500/30 min-h-[60px] sm:min-h-[80px]"
+                >
+                  <div className="text-lg sm:text-2xl font-bold mb-1 sm:mb-2">Continue</div>
+                  <div className="text-xs sm:text-sm opacity-90">
+                    Turn {autosave.state?.turnNumber} · saved {new Date(autosave.savedAt).toLocaleString()}
+                  </div>
+                </button>
+              )}
+
+              {/* Back to the online room this tab was in, e.g. after a refresh */}
+              {hasOnlineSession && (
+                <button
+                  onClick={handleOnline}
+                  className="px-6 sm:px-10 py-4 sm:py-6 bg-amber-600 hover:bg-amber-700 text-white font-semibold rounded-xl transition-all duration-300 shadow-lg hover:shadow-xl transform hover:scale-105 border-2 border-amber-500/30 min-h-[60px] sm:min-h-[80px]"
+                >
+                  <div className="text-lg sm:text-2xl font-bold mb-1 sm:mb-2">Rejoin Online Match</div>
+                  <div className="text-xs sm:text-sm opacity-90">Take your seat back before time runs out</div>
+                </button>
+              )}
+
               {/* Quick Start (for testing) */}
               <button
                 onClick={handleQuickStart}
@@ -69,15 +134,40 @@ export function MainMenu() {
                 <div className="text-xs sm:text-sm opacity-90">Single Player Experience</div>
               </button>
 
-              {/* Player vs Player (Disabled) */}
+              {/* Two players on one device */}
+              <button
+                onClick={() => handleStartGame('hotseat')}
+                className="px-6 sm:px-10 py-4 sm:py-6 bg-teal-600 hover:bg-teal-700 text-white font-semibold rounded-xl transition-all duration-300 shadow-lg hover:shadow-xl transform hover:scale-105 border-2 border-teal-500/30 min-h-[60px] sm:min-h-[80px]"
+              >
+                <div className="text-lg sm:text-2xl font-bold mb-1 sm:mb-2">Hot Seat</div>
+                <div className="text-xs sm:text-sm opacity-90">Two Players · One Device</div>
+              </button>
+
+              {/* Player vs Player */}
               <button
-                disabled
-                className="px-6 sm:px-10 py-4 sm:py-6 bg-slate-600 text-slate-400 font-semibold rounded-xl cursor-not-allowed opacity-50 border-2 border-slate-500/30 min-h-[60px] sm:min-h-[80px]"
+                onClick={handleOnline}
+                className="px-6 sm:px-10 py-4 sm:py-6 bg-purple-600 hover:bg-purple-700 text-white font-semibold rounded-xl transition-all duration-300 shadow-lg hover:shadow-xl transform hover:scale-105 border-2 border-purple-500/30 min-h-[60px] sm:min-h-[80px]"
               >
                 <div className="text-lg sm:text-2xl font-bold mb-1 sm:mb-2">Player vs Player</div>
-                <div className="text-xs sm:text-sm">Multiplayer (Coming Soon)</div>
+                <div className="text-xs sm:text-sm opacity-90">Online 1v1 · Room Codes</div>
               </button>
 
+              {/* Replays */}
+              <button
+                onClick={handleReplays}
+                className="px-6 sm:px-10 py-4 sm:py-6 bg-slate-700 hover:bg-slate-600 text-white font-semibold rounded-xl transition-all duration-300 shadow-lg hover:shadow-xl transform hover:scale-105 border-2 border-slate-500/30 min-h-[60px] sm:min-h-[80px]"
+              >
+                <div className="text-lg sm:text-2xl font-bold mb-1 sm:mb-2">📼 Replays</div>
+                <div className="text-xs sm:text-sm opacity-90">Watch Recorded Matches</div>
+              </button>
+
+              {/* Load a save file */}
+              <label className="px-6 sm:px-10 py-3 sm:py-4 bg-slate-700 hover:bg-slate-600 text-white font-semibold rounded-xl transition-all duration-300 shadow-lg hover:shadow-xl border-2 border-slate-500/30 cursor-pointer">
+                <div className="text-base sm:text-lg font-bold">💾 Load Save File</div>
+                <input type="file" accept="application/json,.json" onChange={handleLoadFile} className="hidden" />
+              </label>
+              {loadError && <div className="text-sm text-red-400">{loadError}</div>}
+
               {/* Test Mode */}
               <button
                 onClick={() => useGameStore.getState().enterTestMode()}
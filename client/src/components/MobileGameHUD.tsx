@@ -1,8 +1,18 @@
 import { useEffect, useState } from 'react'
-import { useGameStore } from '../stores/gameStore'
+import { selectLocalPlayerId, useGameStore } from '../stores/gameStore'
 import { useUnitStore } from '../stores/unitStore'
 import { usePlayerStore } from '../stores/playerStore'
+import { getEffectiveStats } from 'shared'
+import { dataManager } from '../game/data/DataManager'
+import { getControllerLabel } from '../game/core/controllers'
 import { BottomSheet } from './BottomSheet'
+import { UnitStatusList } from './UnitStatusList'
+import { TurnLimitCountdown } from './TurnLimitCountdown'
+import { VictoryProgressPanel } from './VictoryProgressPanel'
+import { FacingLabel, FacingPicker } from './FacingPicker'
+import { UndoControls } from './UndoControls'
+import { CombatLog } from './CombatLog'
+import { ForecastCard } from './ForecastCard'
 
 export function MobileGameHUD() {
   // Use selectors to prevent unnecessary re-renders
@@ -15,11 +25,15 @@ export function MobileGameHUD() {
   const endTurn = useGameStore(state => state.endTurn)
 
   const [isBottomSheetOpen, setIsBottomSheetOpen] = useState(false)
-  const [activeSection, setActiveSection] = useState<'game-status' | 'unit-info' | 'help'>('game-status')
+  const [activeSection, setActiveSection] = useState<'game-status' | 'unit-info' | 'log' | 'help'>('game-status')
   
-  const isPlayerTurn = currentPlayerId === 'player1'
+  const controllers = useGameStore(state => state.controllers)
+  const localPlayerId = selectLocalPlayerId({ controllers }, currentPlayerId)
+  const isPlayerTurn = currentPlayerId === localPlayerId
+  const otherTurnLabel = controllers[currentPlayerId] === 'ai' ? 'AI Turn' : "Opponent's Turn"
   const player1 = players.find((p) => p.id === 'player1')
   const player2 = players.find((p) => p.id === 'player2')
+  const effectiveStats = selectedUnit ? getEffectiveStats(selectedUnit, dataManager.getRulesData().statusEffects) : null
 
   // Open bottom sheet when unit is selected
   useEffect(() => {
@@ -39,10 +53,11 @@ export function MobileGameHUD() {
           {/* Turn Info */}
           <div className="flex items-center space-x-3">
             <div className="text-sm font-semibold">Turn {turnNumber}</div>
+            <TurnLimitCountdown />
             <div className={`px-2 py-1 rounded text-xs font-medium ${
               isPlayerTurn ? 'bg-amber-600 text-white' : 'bg-stone-600 text-white'
             }`}>
-              {isPlayerTurn ? 'Your Turn' : 'AI Turn'}
+              {isPlayerTurn ? 'Your Turn' : otherTurnLabel}
             </div>
           </div>
           
@@ -52,6 +67,9 @@ export function MobileGameHUD() {
             <span className="text-blue-400">Navy: {player2?.controlledCubicles || 0}</span>
           </div>
           
+          {/* Undo/Redo */}
+          <UndoControls compact />
+
           {/* End Turn Button */}
           {isPlayerTurn && (
             <button
@@ -94,6 +112,16 @@ export function MobileGameHUD() {
           >
             Unit
           </button>
+          <button
+            onClick={() => setActiveSection('log')}
+            className={`px-3 py-2 rounded text-sm font-medium transition-colors ${
+              activeSection === 'log' 
+                ? 'bg-blue-600 text-white' 
+                : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+            }`}
+          >
+            Log
+          </button>
           <button
             onClick={() => setActiveSection('help')}
             className={`px-3 py-2 rounded text-sm font-medium transition-colors ${
@@ -111,8 +139,9 @@ export function MobileGameHUD() {
           <div className="space-y-4">
             <div className="text-center">
               <div className="text-xl font-bold mb-2">Turn {turnNumber}</div>
+              <TurnLimitCountdown className="mb-2" />
               <div className={`px-4 py-2 rounded-lg text-white font-semibold ${isPlayerTurn ? 'bg-amber-600' : 'bg-stone-600'}`}>
-                {isPlayerTurn ? 'Your Turn' : 'AI Turn'}
+                {isPlayerTurn ? 'Your Turn' : otherTurnLabel}
               </div>
             </div>
 
@@ -122,7 +151,7 @@ export function MobileGameHUD() {
               
               {/* Player 1 (Gold) */}
               <div className="bg-amber-900/20 border border-amber-700 rounded-lg p-3">
-                <div className="text-amber-400 font-semibold text-sm">Gold Team (You)</div>
+                <div className="text-amber-400 font-semibold text-sm">Gold Team ({getControllerLabel(controllers, 'player1')})</div>
                 <div className="text-xs space-y-1 mt-2 text-amber-300">
                   <div>Budget: ${player1?.budget || 0}</div>
                   <div>Income: +${player1?.income || 0}/turn</div>
@@ -132,7 +161,7 @@ export function MobileGameHUD() {
 
               {/* Player 2 (Navy) */}
               <div className="bg-blue-900/20 border border-blue-700 rounded-lg p-3">
-                <div className="text-blue-400 font-semibold text-sm">Navy Team (AI)</div>
+                <div className="text-blue-400 font-semibold text-sm">Navy Team ({getControllerLabel(controllers, 'player2')})</div>
                 <div className="text-xs space-y-1 mt-2 text-blue-300">
                   <div>Budget: ${player2?.budget || 0}</div>
                   <div>Income: +${player2?.income || 0}/turn</div>
@@ -140,12 +169,19 @@ export function MobileGameHUD() {
                 </div>
               </div>
             </div>
+
+            <VictoryProgressPanel />
+
+            <FacingPicker />
           </div>
         )}
 
         {/* Unit Info Section */}
         {activeSection === 'unit-info' && selectedUnit && (
           <div className="space-y-4">
+            {/* What the current attack or ability would do */}
+            <ForecastCard />
+
             {/* Unit Info Header */}
             <div className="border-b border-slate-600 pb-3">
               <div className="flex items-center justify-between">
@@ -153,9 +189,9 @@ export function MobileGameHUD() {
                   {selectedUnit.type.replace('_', ' ')}
                 </h3>
                 <div className="flex items-center space-x-2">
-                  <div className={`w-3 h-3 rounded-full ${selectedUnit.playerId === 'player1' ? 'bg-amber-500' : 'bg-stone-500'}`} />
+                  <div className={`w-3 h-3 rounded-full ${selectedUnit.playerId === localPlayerId ? 'bg-amber-500' : 'bg-stone-500'}`} />
                   <span className="text-xs text-slate-400">
-                    {selectedUnit.playerId === 'player1' ? 'Player' : 'Enemy'}
+                    {selectedUnit.playerId === localPlayerId ? 'Player' : 'Enemy'}
                   </span>
                 </div>
               </div>
@@ -178,8 +214,9 @@ export function MobileGameHUD() {
                 <span className="text-white">{selectedUnit.actionsRemaining}/{selectedUnit.maxActions}</span>
               </div>
               <div className="flex justify-between">
-                <span className="text-slate-400">Move Range:</span>
-                <span className="text-white">{selectedUnit.moveRange}</span>
+                <span className="text-slate-400">Movement:</span>
+                {/* Hallways cost half a point, so what is left is shown in whole points */}
+                <span className="text-white">{Math.floor(selectedUnit.remainingMovement)}/{effectiveStats?.speed ?? selectedUnit.moveRange}</span>
               </div>
               <div className="flex justify-between">
                 <span className="text-slate-400">Attack Range:</span>
@@ -187,12 +224,25 @@ export function MobileGameHUD() {
               </div>
               <div className="flex justify-between">
                 <span className="text-slate-400">Attack Damage:</span>
-                <span className="text-white">{selectedUnit.attackDamage}</span>
+                <span className="text-white">{effectiveStats?.attackPower ?? selectedUnit.attackDamage}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-slate-400">Defense:</span>
+                <span className="text-white">{effectiveStats?.defense ?? selectedUnit.defense}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-slate-400">Facing:</span>
+                <FacingLabel unit={selectedUnit} />
               </div>
             </div>
+            <UnitStatusList unit={selectedUnit} />
+            <FacingPicker />
           </div>
         )}
 
+        {/* Combat Log Section */}
+        {activeSection === 'log' && <CombatLog className="max-h-72" />}
+
         {/* Help Section */}
         {activeSection === 'help' && (
           <div className="space-y-3 text-sm">
@@ -203,6 +253,8 @@ export function MobileGameHUD() {
               <div>• Click highlighted tiles to move/attack</div>
               <div>• Select abilities to use them on targets</div>
               <div>• Capture cubicles to increase income</div>
+              <div>• Hit enemies from the side or behind for bonus damage</div>
+              <div>• Undo moves this turn with Ctrl+Z, redo with Ctrl+Shift+Z</div>
               <div>• End turn when you're done</div>
             </div>
           </div>
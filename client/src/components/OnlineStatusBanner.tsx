@@ -0,0 +1,41 @@
+import { selectInOnlineMatch, useGameStore } from '../stores/gameStore'
+import { useLobbyStore } from '../stores/lobbyStore'
+
+/**
+ * Tells an online player or spectator when either side has lost the connection, or when the
+ * server left a request unanswered. The match waits for a dropped player to come back until
+ * the server's grace period runs out.
+ */
+export function OnlineStatusBanner() {
+  const inOnlineMatch = useGameStore(selectInOnlineMatch)
+  const onlineError = useGameStore(state => state.onlineError)
+  const connected = useLobbyStore(state => state.connected)
+  const room = useLobbyStore(state => state.room)
+  const memberId = useLobbyStore(state => state.memberId)
+
+  if (!inOnlineMatch) return null
+
+  if (!connected) {
+    return (
+      <div className="px-4 py-2 bg-amber-900/40 border-b border-amber-700 text-amber-200 text-sm text-center">
+        Connection lost. Reconnecting…
+      </div>
+    )
+  }
+
+  if (onlineError) {
+    return (
+      <div className="px-4 py-2 bg-amber-900/40 border-b border-amber-700 text-amber-200 text-sm text-center">
+        {onlineError}
+      </div>
+    )
+  }
+
+  const away = room?.members.find(m => m.seat && m.id !== memberId && !m.connected)
+  if (!away) return null
+  return (
+    <div className="px-4 py-2 bg-slate-800 border-b border-slate-700 text-slate-300 text-sm text-center">
+      {away.name} lost the connection. Waiting for them to come back…
+    </div>
+  )
+}
@@ -0,0 +1,29 @@
+import { useGameStore } from '../stores/gameStore'
+import { TEAM_NAMES } from '../game/core/controllers'
+
+/**
+ * Covers the board while players sharing a device swap seats, so nobody sees the other side's
+ * draft or turn. Shown until the next player says they have the device.
+ */
+export function PassDeviceScreen() {
+  const handoffPlayerId = useGameStore(state => state.handoffPlayerId)
+  const completeHandoff = useGameStore(state => state.completeHandoff)
+
+  if (!handoffPlayerId) return null
+  const teamName = TEAM_NAMES[handoffPlayerId] ?? handoffPlayerId
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900 flex items-center justify-center p-4">
+      <div className="bg-slate-800 rounded-lg border border-slate-700 p-6 sm:p-8 max-w-md w-full text-center space-y-6">
+        <h2 className="text-2xl sm:text-3xl font-bold text-slate-100">Pass the device</h2>
+        <p className="text-slate-300">Hand over to the {teamName} player. Nothing is shown until they are ready.</p>
+        <button
+          onClick={completeHandoff}
+          className="w-full px-6 py-3 bg-blue-600 hover:bg-blue-700 rounded-lg text-lg font-semibold transition-colors"
+        >
+          I'm the {teamName} player
+        </button>
+      </div>
+    </div>
+  )
+}
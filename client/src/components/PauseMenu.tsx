@@ -4,9 +4,10 @@ interface PauseMenuProps {
   isPaused: boolean
   onResume: () => void
   onQuit: () => void
+  onExportSave?: () => void
 }
 
-export function PauseMenu({ isPaused, onResume, onQuit }: PauseMenuProps) {
+export function PauseMenu({ isPaused, onResume, onQuit, onExportSave }: PauseMenuProps) {
   const [showInstructions, setShowInstructions] = useState(false)
 
   if (!isPaused) return null
@@ -33,6 +34,15 @@ export function PauseMenu({ isPaused, onResume, onQuit }: PauseMenuProps) {
             📖 {showInstructions ? 'Hide' : 'Show'} Instructions
           </button>
           
+          {onExportSave && (
+            <button
+              onClick={onExportSave}
+              className="bg-slate-600 hover:bg-slate-700 text-white font-semibold py-3 px-6 rounded-lg transition-colors"
+            >
+              💾 Export Save
+            </button>
+          )}
+          
           <button
             onClick={onQuit}
             className="bg-red-600 hover:bg-red-700 text-white font-semibold py-3 px-6 rounded-lg transition-colors"
@@ -78,6 +88,7 @@ export function PauseMenu({ isPaused, onResume, onQuit }: PauseMenuProps) {
               <div>
                 <h4 className="font-semibold text-white">💰 Resources</h4>
                 <p>Capture cubicles (gray tiles) to earn income each turn. Use this to buy new units!</p>
+                <p>Capturing takes a unit staying on the cubicle for a few turns, and an enemy standing next to it stops the capture.</p>
               </div>
               
               <div>
@@ -0,0 +1,163 @@
+import { useEffect, useState } from 'react'
+import { findTurnFrame, getTurnStartFrames, type GameAction } from 'shared'
+import { useGameStore } from '../stores/gameStore'
+import { dataManager } from '../game/data/DataManager'
+
+// Time between actions at 1x speed
+const REPLAY_STEP_MS = 800
+const REPLAY_SPEEDS = [0.5, 1, 2, 4]
+
+const describeAction = (action: GameAction) => {
+  const target = action.target ? ` → (${action.target.x}, ${action.target.y})` : ''
+  const detail = action.abilityId ?? action.employeeKey ?? action.direction ?? ''
+  return `${action.playerId}: ${action.type.replace(/_/g, ' ')}${action.unitId ? ` ${action.unitId}` : ''}${detail ? ` ${detail}` : ''}${target}`
+}
+
+/**
+ * Playback controls for a recorded match: step through actions and turns, play at a chosen
+ * speed or jump to a turn. The board itself is drawn by the regular GameScene.
+ */
+export function ReplayControls() {
+  const replay = useGameStore(state => state.replay)
+  const showReplayFrame = useGameStore(state => state.showReplayFrame)
+  const closeReplay = useGameStore(state => state.closeReplay)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [speed, setSpeed] = useState(1)
+  const [jumpTurn, setJumpTurn] = useState(1)
+
+  const frameIndex = replay?.frameIndex ?? 0
+  const lastFrame = (replay?.frames.length ?? 1) - 1
+
+  // Advance one action at a time while playing
+  useEffect(() => {
+    if (!isPlaying) return
+    if (frameIndex >= lastFrame) {
+      setIsPlaying(false)
+      return
+    }
+    const timer = setTimeout(() => showReplayFrame(frameIndex + 1), REPLAY_STEP_MS / speed)
+    return () => clearTimeout(timer)
+  }, [isPlaying, frameIndex, lastFrame, speed, showReplayFrame])
+
+  if (!replay) return null
+
+  const { record, frames } = replay
+  const frame = frames[frameIndex]
+  const turnStarts = getTurnStartFrames(frames)
+  const previousTurn = [...turnStarts].reverse().find(i => i < frameIndex) ?? 0
+  const nextTurn = turnStarts.find(i => i > frameIndex) ?? lastFrame
+  const lastTurn = frames[lastFrame].state.turnNumber
+  const currentPlayer = frame.state.players.find(p => p.id === frame.state.currentPlayerId)
+  const versionMismatch = record.game_version !== dataManager.getConfig().game_version
+  const incomplete = lastFrame < record.actions.length
+
+  const stepButton = 'px-3 py-2 rounded bg-slate-700 hover:bg-slate-600 text-slate-100 disabled:opacity-40 disabled:cursor-not-allowed transition-colors'
+
+  return (
+    <div className="p-4 space-y-4 text-slate-100">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-bold">Replay</h2>
+        <button
+          onClick={() => {
+            setIsPlaying(false)
+            closeReplay()
+          }}
+          className="px-3 py-1 text-xs rounded bg-slate-700 hover:bg-slate-600 transition-colors"
+        >
+          Back to list
+        </button>
+      </div>
+
+      <div className="bg-slate-700/50 border border-slate-600 rounded-lg p-3 space-y-1 text-sm">
+        <div className="flex justify-between">
+          <span className="text-slate-400">Turn</span>
+          <span>{frame.state.turnNumber} of {lastTurn}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-slate-400">Playing</span>
+          <span>{currentPlayer?.name ?? frame.state.currentPlayerId}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-slate-400">Action</span>
+          <span>{frameIndex} of {lastFrame}</span>
+        </div>
+        <div className="text-xs text-slate-300 pt-1 min-h-[1rem]">
+          {frame.action ? describeAction(frame.action) : 'Match start'}
+        </div>
+        {frame.events.length > 0 && (
+          <ul className="text-xs text-slate-400 list-disc list-inside">
+            {frame.events.map((event, i) => (
+              <li key={i}>{event.type.replace(/_/g, ' ').toLowerCase()}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <input
+        type="range"
+        min={0}
+        max={lastFrame}
+        value={frameIndex}
+        onChange={(e) => showReplayFrame(Number(e.target.value))}
+        className="w-full"
+        aria-label="Replay position"
+      />
+
+      <div className="flex justify-center space-x-1">
+        <button onClick={() => showReplayFrame(previousTurn)} disabled={frameIndex === 0} title="Previous turn" className={stepButton}>⏮</button>
+        <button onClick={() => showReplayFrame(frameIndex - 1)} disabled={frameIndex === 0} title="Step back" className={stepButton}>◀</button>
+        <button
+          onClick={() => setIsPlaying(playing => !playing)}
+          disabled={frameIndex >= lastFrame && !isPlaying}
+          title={isPlaying ? 'Pause' : 'Play'}
+          className={stepButton}
+        >
+          {isPlaying ? '⏸' : '▶'}
+        </button>
+        <button onClick={() => showReplayFrame(frameIndex + 1)} disabled={frameIndex >= lastFrame} title="Step forward" className={stepButton}>▶|</button>
+        <button onClick={() => showReplayFrame(nextTurn)} disabled={frameIndex >= lastFrame} title="Next turn" className={stepButton}>⏭</button>
+      </div>
+
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-slate-400">Speed</span>
+        <div className="flex space-x-1">
+          {REPLAY_SPEEDS.map(s => (
+            <button
+              key={s}
+              onClick={() => setSpeed(s)}
+              className={`px-2 py-1 rounded text-xs transition-colors ${speed === s ? 'bg-blue-600 text-white' : 'bg-slate-700 hover:bg-slate-600 text-slate-300'}`}
+            >
+              {s}x
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-2 text-sm">
+        <label htmlFor="replay-jump-turn" className="text-slate-400">Jump to turn</label>
+        <input
+          id="replay-jump-turn"
+          type="number"
+          min={1}
+          max={lastTurn}
+          value={jumpTurn}
+          onChange={(e) => setJumpTurn(Number(e.target.value))}
+          className="w-16 px-2 py-1 rounded bg-slate-900 border border-slate-600 text-slate-100"
+        />
+        <button
+          onClick={() => showReplayFrame(findTurnFrame(frames, jumpTurn))}
+          className="px-3 py-1 rounded bg-blue-600 hover:bg-blue-700 text-white text-xs transition-colors"
+        >
+          Go
+        </button>
+      </div>
+
+      {(versionMismatch || incomplete) && (
+        <div className="text-xs text-amber-300 bg-amber-900/30 border border-amber-700 rounded p-2 space-y-1">
+          {versionMismatch && <div>Recorded with game data {record.game_version}; the current data may play differently.</div>}
+          {incomplete && <div>Only {lastFrame} of {record.actions.length} actions could be replayed with the current data.</div>}
+        </div>
+      )}
+    </div>
+  )
+}
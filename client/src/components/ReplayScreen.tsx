@@ -0,0 +1,120 @@
+import { useState, type ChangeEvent } from 'react'
+import type { MatchRecord } from 'shared'
+import { useGameStore } from '../stores/gameStore'
+import { GameView } from './GameView'
+import { ReplayControls } from './ReplayControls'
+import { CombatLog } from './CombatLog'
+import { deleteReplay, downloadReplay, loadReplays, parseReplay, saveReplay } from '../game/replay/replayStorage'
+
+/**
+ * Lists the matches recorded in this browser and plays one back on the game board
+ */
+export function ReplayScreen() {
+  const replay = useGameStore(state => state.replay)
+  const returnToMenu = useGameStore(state => state.returnToMenu)
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100">
+      <header className="px-4 py-3 border-b border-slate-800 flex items-center justify-between gap-3">
+        <h1 className="text-xl font-semibold">HRmageddon Replays</h1>
+        <button
+          onClick={returnToMenu}
+          className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded text-sm transition-colors"
+        >
+          Main Menu
+        </button>
+      </header>
+
+      <main className="p-2 sm:p-4">
+        {replay ? (
+          <div className="flex flex-col lg:flex-row gap-4 lg:h-[calc(100vh-120px)]">
+            <div className="flex-1 flex items-center justify-center min-w-0">
+              <GameView />
+            </div>
+            <div className="w-full lg:w-80 xl:w-96 bg-slate-800 rounded-lg border border-slate-700 overflow-y-auto">
+              <ReplayControls />
+              <div className="p-4 pt-0">
+                <h3 className="text-sm font-semibold text-slate-300 mb-2">Combat Log</h3>
+                <CombatLog className="max-h-64" />
+              </div>
+            </div>
+          </div>
+        ) : (
+          <ReplayList />
+        )}
+      </main>
+    </div>
+  )
+}
+
+function ReplayList() {
+  const startReplay = useGameStore(state => state.startReplay)
+  const [replays, setReplays] = useState<MatchRecord[]>(() => loadReplays())
+  const [importError, setImportError] = useState<string | null>(null)
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    const record = parseReplay(await file.text())
+    if (!record) {
+      setImportError(`${file.name} is not a replay file`)
+      return
+    }
+    setImportError(null)
+    saveReplay(record)
+    setReplays(loadReplays())
+  }
+
+  const handleDelete = (id: string) => {
+    deleteReplay(id)
+    setReplays(loadReplays())
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Recorded matches</h2>
+        <label className="px-3 py-2 bg-blue-600 hover:bg-blue-700 rounded text-sm cursor-pointer transition-colors">
+          Import replay
+          <input type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+        </label>
+      </div>
+      {importError && <div className="text-sm text-red-400">{importError}</div>}
+
+      {replays.length === 0 ? (
+        <div className="text-center text-slate-400 bg-slate-800 rounded-lg border border-slate-700 p-6">
+          No recorded matches yet. Matches are recorded automatically as you play.
+        </div>
+      ) : (
+        <ul className="space-y-2">
+          {replays.map(record => (
+            <li key={record.id} className="bg-slate-800 rounded-lg border border-slate-700 p-3 flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <div className="font-medium">{new Date(record.recordedAt).toLocaleString()}</div>
+                <div className="text-xs text-slate-400 truncate">
+                  {Object.entries(record.draft).map(([playerId, keys]) => `${playerId}: ${keys.join(', ') || 'none'}`).join(' vs ')}
+                </div>
+                <div className="text-xs text-slate-500">
+                  {record.actions.length} actions · {record.mapId} · data {record.game_version}
+                </div>
+              </div>
+              <div className="flex space-x-2 shrink-0">
+                <button onClick={() => startReplay(record)} className="px-3 py-1 rounded bg-green-600 hover:bg-green-700 text-sm transition-colors">
+                  Watch
+                </button>
+                <button onClick={() => downloadReplay(record)} className="px-3 py-1 rounded bg-slate-700 hover:bg-slate-600 text-sm transition-colors">
+                  Download
+                </button>
+                <button onClick={() => handleDelete(record.id)} className="px-3 py-1 rounded bg-red-700 hover:bg-red-800 text-sm transition-colors">
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
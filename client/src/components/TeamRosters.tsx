@@ -0,0 +1,40 @@
+import { useState } from 'react'
+import { SEATS } from 'shared'
+import { useUnitStore } from '../stores/unitStore'
+import { dataManager } from '../game/data/DataManager'
+import { TEAM_NAMES } from '../game/core/controllers'
+
+/**
+ * Both sides' units with their health, for a spectator who can see everything.
+ * Hidden until asked for, since the board already shows where each unit is.
+ */
+export function TeamRosters() {
+  const units = useUnitStore(state => state.units)
+  const [isOpen, setIsOpen] = useState(false)
+
+  return (
+    <div className="space-y-2">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-3 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 text-sm font-medium rounded transition-colors"
+      >
+        {isOpen ? 'Hide' : 'Show'} Teams
+      </button>
+      {isOpen && SEATS.map(playerId => (
+        <div key={playerId} className="bg-slate-900/50 rounded-lg p-3">
+          <div className="text-sm font-semibold text-slate-200 mb-1">{TEAM_NAMES[playerId]}</div>
+          <div className="space-y-1 text-xs">
+            {units.filter(unit => unit.playerId === playerId).map(unit => (
+              <div key={unit.id} className="flex justify-between">
+                <span className="text-slate-300 capitalize">
+                  {(unit.employeeKey && dataManager.getEmployee(unit.employeeKey)?.name) || unit.type.replace('_', ' ')}
+                </span>
+                <span className={unit.hp > 0 ? 'text-slate-400' : 'text-red-400'}>{unit.hp}/{unit.maxHp} HP</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
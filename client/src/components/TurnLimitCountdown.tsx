@@ -0,0 +1,29 @@
+import { getTurnsRemaining } from 'shared'
+import { usePlayerStore } from '../stores/playerStore'
+import { dataManager } from '../game/data/DataManager'
+
+/** Rounds left at which the countdown turns red */
+const WARNING_TURNS = 5
+
+interface TurnLimitCountdownProps {
+  className?: string
+}
+
+/**
+ * Countdown to gameplay_rules.turn_limit, after which the game is settled on tiebreaks.
+ */
+export function TurnLimitCountdown({ className = '' }: TurnLimitCountdownProps) {
+  const turnNumber = usePlayerStore(state => state.turnNumber)
+  const turnsRemaining = getTurnsRemaining({ turnNumber }, dataManager.getConfig().gameplay_rules?.turn_limit)
+  if (turnsRemaining === undefined) return null
+
+  const isWarning = turnsRemaining <= WARNING_TURNS
+  return (
+    <div
+      className={`text-xs ${isWarning ? 'text-red-400 font-semibold' : 'text-slate-400'} ${className}`}
+      title="When the turn limit is reached, the team holding the most cubicles wins (then most HP, then unit value)"
+    >
+      {turnsRemaining === 1 ? 'Final turn!' : `${turnsRemaining} turns left`}
+    </div>
+  )
+}
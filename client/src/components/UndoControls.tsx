@@ -0,0 +1,37 @@
+import { useGameStore } from '../stores/gameStore'
+import { usePlayerStore } from '../stores/playerStore'
+
+interface UndoControlsProps {
+  compact?: boolean // Small buttons for the mobile status bar
+}
+
+/**
+ * Undo and redo buttons for the player's actions this turn.
+ * Undo goes back as far as the start of the turn or the last action that rolled the dice.
+ */
+export function UndoControls({ compact = false }: UndoControlsProps) {
+  const canUndo = useGameStore(state => state.undoStack.length > 0)
+  const canRedo = useGameStore(state => state.redoStack.length > 0)
+  const undo = useGameStore(state => state.undo)
+  const redo = useGameStore(state => state.redo)
+  const currentPlayerId = usePlayerStore(state => state.currentPlayerId)
+  const isHumanTurn = useGameStore(state => state.controllers[currentPlayerId] === 'human')
+  const isOnline = useGameStore(state => state.onlineSeat !== null)
+
+  // Online the server's state is final, so there is nothing to take back
+  if (!isHumanTurn || isOnline) return null
+
+  const size = compact ? 'px-2 py-1 text-xs' : 'flex-1 px-3 py-2 text-sm'
+  const buttonClass = `${size} rounded font-medium transition-colors bg-slate-600 hover:bg-slate-500 text-white disabled:bg-slate-700 disabled:text-slate-500 disabled:cursor-not-allowed`
+
+  return (
+    <div className={compact ? 'flex space-x-1' : 'flex space-x-2'}>
+      <button onClick={undo} disabled={!canUndo} title="Undo (Ctrl+Z)" className={buttonClass}>
+        {compact ? '↶' : '↶ Undo'}
+      </button>
+      <button onClick={redo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)" className={buttonClass}>
+        {compact ? '↷' : '↷ Redo'}
+      </button>
+    </div>
+  )
+}
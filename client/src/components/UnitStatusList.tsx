@@ -0,0 +1,40 @@
+import { getStatusKey, type Unit } from 'shared'
+import { dataManager } from '../game/data/DataManager'
+
+interface UnitStatusListProps {
+  unit: Unit
+}
+
+/**
+ * Active status effects on a unit with their remaining duration.
+ * Names and buff/debuff colouring come from status_effects.json.
+ */
+export function UnitStatusList({ unit }: UnitStatusListProps) {
+  if (unit.status.length === 0) return null
+
+  return (
+    <div className="mt-3 space-y-1 text-sm">
+      <div className="text-slate-400">Status Effects:</div>
+      {unit.status.map((status) => {
+        const key = getStatusKey(status)
+        const definition = dataManager.getStatusEffect(key)
+        const isBuff = definition?.type === 'buff'
+
+        return (
+          <div
+            key={key}
+            className="flex justify-between"
+            title={definition?.description}
+          >
+            <span className={isBuff ? 'text-green-400' : 'text-red-400'}>
+              {definition?.name ?? key}
+            </span>
+            <span className="text-slate-300">
+              {status.duration} turn{status.duration !== 1 ? 's' : ''}
+            </span>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,37 @@
+import { getVictoryConditions, getVictoryProgress } from 'shared'
+import { useUnitStore } from '../stores/unitStore'
+import { useBoardStore } from '../stores/boardStore'
+import { usePlayerStore } from '../stores/playerStore'
+
+/**
+ * Progress towards each of the match's victory conditions, one line per team.
+ */
+export function VictoryProgressPanel() {
+  const units = useUnitStore(state => state.units)
+  const board = useBoardStore(state => state.board)
+  const players = usePlayerStore(state => state.players)
+  const victoryConditions = usePlayerStore(state => state.victoryConditions)
+  const captureHoldTurns = usePlayerStore(state => state.captureHoldTurns)
+
+  const state = { units, board, players, captureHoldTurns }
+  const progress = getVictoryConditions({ victoryConditions }).map(condition => getVictoryProgress(state, condition))
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-md font-semibold text-center text-slate-200">Victory</h3>
+      {progress.map((entry) => (
+        <div key={entry.type} className="bg-slate-700/50 rounded p-2 text-xs">
+          <div className="font-medium text-slate-200 mb-1">{entry.label}</div>
+          {entry.players.map((p) => (
+            <div key={p.playerId} className="flex justify-between">
+              <span className={p.playerId === 'player1' ? 'text-amber-400' : 'text-blue-400'}>
+                {p.playerId === 'player1' ? 'Gold' : 'Navy'}
+              </span>
+              <span className="text-slate-300">{p.detail}</span>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,58 @@
+import type { VictoryCondition } from 'shared'
+
+// ===== VICTORY CONFIGURATION =====
+// Condition sets offered at match setup. Every set keeps elimination so a wiped-out team still loses.
+
+export interface VictoryPreset {
+  key: string
+  name: string
+  description: string
+  conditions: VictoryCondition[]
+  usesCaptureShare: boolean // Whether the capture threshold picker applies to this set
+}
+
+export const VICTORY_PRESETS: VictoryPreset[] = [
+  {
+    key: 'standard',
+    name: 'Standard',
+    description: 'Eliminate the enemy or take over the office floor.',
+    conditions: [{ type: 'elimination' }, { type: 'capture', share: 0.51 }],
+    usesCaptureShare: true,
+  },
+  {
+    key: 'hold_the_floor',
+    name: 'Hold the Floor',
+    description: 'Keep your share of the cubicles for 3 of your turns in a row.',
+    conditions: [{ type: 'elimination' }, { type: 'hold_capture', share: 0.51, turns: 3 }],
+    usesCaptureShare: true,
+  },
+  {
+    key: 'hostile_takeover',
+    name: 'Hostile Takeover',
+    description: "Walk any unit into the enemy's headquarters.",
+    conditions: [{ type: 'elimination' }, { type: 'hq_capture' }],
+    usesCaptureShare: false,
+  },
+  {
+    key: 'assassinate',
+    name: 'Assassinate the Executive',
+    description: "Each team's most valuable employee is its Executive. Take theirs out.",
+    conditions: [{ type: 'elimination' }, { type: 'assassinate', executives: {} }],
+    usesCaptureShare: false,
+  },
+]
+
+export const CAPTURE_SHARE_OPTIONS = [0.51, 0.6, 0.75]
+
+/**
+ * Build the conditions for a preset with the chosen capture threshold
+ * @param presetKey - Key of the chosen preset
+ * @param captureShare - Share of cubicles for capture conditions
+ * @returns The conditions to start the match with
+ */
+export function getPresetConditions(presetKey: string, captureShare: number): VictoryCondition[] {
+  const preset = VICTORY_PRESETS.find(p => p.key === presetKey) ?? VICTORY_PRESETS[0]
+  return preset.conditions.map(condition =>
+    condition.type === 'capture' || condition.type === 'hold_capture' ? { ...condition, share: captureShare } : condition
+  )
+}
@@ -1,14 +1,17 @@
-import { type GameState, type Unit, type Coordinate, TileType, type Ability } from 'shared'
+import { type GameState, type Unit, type Coordinate, GamePhase, TargetType, type Ability, avoidHazards, getCaptureError, getHazardAt, getHireableEmployees } from 'shared'
 import { getUnitAbilities, canUseAbility, getValidTargets } from '../core/abilities'
 import { GameQueries, type GameState as QueryGameState } from './gameStateQueries'
 // import { type MainStoreState } from '../../stores/mainStore' // TODO: Remove when mainStore is implemented
-import { calculatePossibleMoves, findNearestCoordinate } from '../core/movement'
+import { calculatePossibleMoves, findNearestCoordinate, findNearestUnit, getDirection } from '../core/movement'
+import { dataManager } from '../data/DataManager'
 
 interface AIActions {
   moveUnit: (unitId: string, to: Coordinate) => void
   attackTarget: (attackerId: string, targetId: string) => void
   captureCubicle: (unitId: string, coord: Coordinate) => void
   useAbility: (unitId: string, abilityId: string, target?: Unit | Coordinate) => void
+  hireUnit: (employeeKey: string) => void
+  setUnitFacing: (unitId: string, direction: Unit['direction']) => void
   endTurn: () => void
 }
 
@@ -52,6 +55,9 @@ export class AIController {
     
     // Process each unit
     for (const unit of myUnits) {
+      // The rules engine ends the match the moment it is won, after which no action applies
+      if (getState().phase === GamePhase.GAME_OVER) return
+
       console.log('Processing AI unit:', unit.id, 'actions remaining:', unit.actionsRemaining)
       
       // Process this unit until it has no actions left
@@ -130,13 +136,50 @@ export class AIController {
         // Small delay to allow state to update
         setTimeout(() => {}, 10)
       }
+
+      this.faceNearestEnemy(unit.id, actions, getState)
     }
     
+    // Spend the budget once the units have moved off the HQ tiles
+    this.hireReinforcements(actions, getState)
+
     console.log('AI turn completed')
     // End the AI turn to return control to the player
     actions.endTurn()
   }
 
+  // Finish a unit's turn facing the closest enemy so it isn't hit in the back
+  private faceNearestEnemy(unitId: string, actions: AIActions, getState: () => GameState): void {
+    const state = getState()
+    const unit = state.units.find(u => u.id === unitId)
+    if (!unit) return
+
+    const enemy = findNearestUnit(unit.position, state.units, u => u.playerId !== unit.playerId)
+    if (!enemy) return
+
+    const direction = getDirection(unit.position, enemy.position)
+    if (direction !== unit.direction) {
+      actions.setUnitFacing(unitId, direction)
+    }
+  }
+
+  private hireReinforcements(actions: AIActions, getState: () => GameState): void {
+    const rulesData = dataManager.getRulesData()
+
+    // Hire the most expensive employee we can afford until the budget, team size or HQ runs out
+    for (;;) {
+      const state = getState()
+      const options = getHireableEmployees(state, state.currentPlayerId, rulesData)
+      if (options.length === 0) break
+
+      const choice = options.reduce((best, e) => (e.cost > best.cost ? e : best))
+      actions.hireUnit(choice.key)
+
+      // Stop if the hire was rejected so we never loop on the same choice
+      if (getState().units.length === state.units.length) break
+    }
+  }
+
   private makeDecisionWithQueries(unit: Unit, queryState: QueryGameState): AIAction | null {
     console.log('Making decision for unit:', unit.id, 'type:', unit.type, 'actions:', unit.actionsRemaining)
     
@@ -158,6 +201,11 @@ export class AIController {
       return { type: 'attack', targetId: weakestEnemy.id }
     }
     
+    // Stay put while capturing: the progress is lost if the unit walks away
+    if (!getCaptureError(queryState, unit, unit.position, dataManager.getRulesData().statusEffects)) {
+      return null
+    }
+
     // 3. Check for capture opportunities (medium priority)
     const capturableTiles = this.getCapturableTiles(unit, {
       id: 'ai-game-state',
@@ -181,7 +229,7 @@ export class AIController {
     // 4. Move towards nearest enemy (low priority)
     const nearestEnemy = GameQueries.findNearestEnemy(queryState, unit.position, unit.playerId)
     if (nearestEnemy) {
-      const possibleMoves = GameQueries.getPossibleMoves(queryState, unit)
+      const possibleMoves = avoidHazards(GameQueries.getPossibleMoves(queryState, unit), queryState.board)
       if (possibleMoves.length > 0) {
         // Find the move that gets us closest to the enemy
         const bestMove = this.findBestMoveTowardsTarget(unit.position, nearestEnemy.position, possibleMoves)
@@ -195,7 +243,7 @@ export class AIController {
     // 5. Move towards nearest objective (fallback)
     const nearestObjective = GameQueries.findNearestObjective(queryState, unit.position, unit.playerId)
     if (nearestObjective) {
-      const possibleMoves = GameQueries.getPossibleMoves(queryState, unit)
+      const possibleMoves = avoidHazards(GameQueries.getPossibleMoves(queryState, unit), queryState.board)
       if (possibleMoves.length > 0) {
         const bestMove = this.findBestMoveTowardsTarget(unit.position, nearestObjective, possibleMoves)
         if (bestMove) {
@@ -206,7 +254,7 @@ export class AIController {
     }
     
     // 6. Random move if nothing else works (last resort)
-    const possibleMoves = GameQueries.getPossibleMoves(queryState, unit)
+    const possibleMoves = avoidHazards(GameQueries.getPossibleMoves(queryState, unit), queryState.board)
     if (possibleMoves.length > 0) {
       const randomMove = possibleMoves[Math.floor(Math.random() * possibleMoves.length)]
       console.log('Random move decision:', randomMove)
@@ -225,6 +273,19 @@ export class AIController {
       
       const validTargets = getValidTargets(unit, ability, queryState.board, queryState.units)
       if (validTargets.length === 0) continue
+
+      // Hazards go under enemies that would have to move off or take the damage
+      if (ability.targetType === TargetType.TILE) {
+        const hazardTarget = validTargets.find((target) => {
+          const coord = target as Coordinate
+          const occupant = queryState.units.find(u => u.position.x === coord.x && u.position.y === coord.y)
+          return occupant && occupant.playerId !== unit.playerId && !getHazardAt(queryState.board, coord)
+        })
+        if (hazardTarget) {
+          return { type: 'ability', abilityId: ability.id, target: hazardTarget as Coordinate }
+        }
+        continue
+      }
       
       // Score this ability based on its potential impact
       const score = this.scoreAbility(unit, ability, validTargets, queryState)
@@ -303,13 +364,14 @@ export class AIController {
     // AI now moves TO cubicles instead of capturing from adjacent positions
     // The actual capture happens at turn end when the unit is on the tile
     const possibleMoves = calculatePossibleMoves(unit, { board: state.board, units: state.units })
+    const { statusEffects } = dataManager.getRulesData()
     
     const capturable = possibleMoves.filter(coord => {
       const tile = state.board[coord.y]?.[coord.x]
       console.log('Checking moveable tile at', coord, 'type:', tile?.type, 'owner:', tile?.owner, 'unit player:', unit.playerId)
       
-      // Check if it's a cubicle and not owned by this unit's player
-      return tile?.type === TileType.CUBICLE && tile.owner !== unit.playerId
+      // Only cubicles this unit could actually capture there (not owned, not contested, not Harassed), and not burning
+      return !getCaptureError(state, unit, coord, statusEffects) && !tile?.hazard
     })
     
     console.log('Capturable tiles found (AI will move to):', capturable)
@@ -1,6 +1,6 @@
 import { type Unit, type Coordinate, type Tile, type GamePhase, type Player, TileType, GamePhase as GamePhaseEnum } from 'shared'
-import { calculatePossibleMoves, calculatePossibleTargets, findNearestUnit, findNearestCoordinate, getDistance } from '../core/movement'
-import { getEnemiesInRange, getWeakestEnemyInRange, getStrongestEnemyInRange, canAttackAnyEnemy, getUnitsThatCanAttack, calculateTotalDamageToTarget, canKillTargetThisTurn } from '../core/combat'
+import { calculatePossibleMoves, findNearestUnit, findNearestCoordinate, getDistance } from '../core/movement'
+import { calculatePossibleTargets, getEnemiesInRange, getWeakestEnemyInRange, getStrongestEnemyInRange, canAttackAnyEnemy, getUnitsThatCanAttack, calculateTotalDamageToTarget, canKillTargetThisTurn } from '../core/combat'
 import { getValuableCapturePoints, getCapturePointStats, checkCloseToVictory } from '../core/victory'
 
 /**
@@ -97,23 +97,23 @@ export const GameQueries: GameStateQueries = {
   },
   
   // Combat queries
-  getPossibleTargets: (state, unit) => calculatePossibleTargets(unit, { units: state.units }),
+  getPossibleTargets: (state, unit) => calculatePossibleTargets(unit, { board: state.board, units: state.units }),
   
   canUnitAttack: (_state, unit) => unit.actionsRemaining > 0 && !unit.hasAttacked,
   
-  getEnemiesInRange: (state, unit) => getEnemiesInRange(unit, { units: state.units }),
+  getEnemiesInRange: (state, unit) => getEnemiesInRange(unit, { board: state.board, units: state.units }),
   
-  getWeakestEnemyInRange: (state, unit) => getWeakestEnemyInRange(unit, { units: state.units }),
+  getWeakestEnemyInRange: (state, unit) => getWeakestEnemyInRange(unit, { board: state.board, units: state.units }),
   
-  getStrongestEnemyInRange: (state, unit) => getStrongestEnemyInRange(unit, { units: state.units }),
+  getStrongestEnemyInRange: (state, unit) => getStrongestEnemyInRange(unit, { board: state.board, units: state.units }),
   
-  canAttackAnyEnemy: (state, unit) => canAttackAnyEnemy(unit, { units: state.units }),
+  canAttackAnyEnemy: (state, unit) => canAttackAnyEnemy(unit, { board: state.board, units: state.units }),
   
-  getUnitsThatCanAttack: (state, target) => getUnitsThatCanAttack(target, { units: state.units }),
+  getUnitsThatCanAttack: (state, target) => getUnitsThatCanAttack(target, { board: state.board, units: state.units }),
   
-  canKillTargetThisTurn: (state, target) => canKillTargetThisTurn(target, { units: state.units }),
+  canKillTargetThisTurn: (state, target) => canKillTargetThisTurn(target, { board: state.board, units: state.units }),
   
-  calculateTotalDamageToTarget: (state, target) => calculateTotalDamageToTarget(target, { units: state.units }),
+  calculateTotalDamageToTarget: (state, target) => calculateTotalDamageToTarget(target, { board: state.board, units: state.units }),
   
   // Strategic queries
   getValuableCapturePoints: (state, playerId) => getValuableCapturePoints(state, playerId),
@@ -124,10 +124,10 @@ export const GameQueries: GameStateQueries = {
   
   getThreatLevel: (state, unit) => {
     // Calculate how threatened a unit is based on nearby enemies
-    const enemiesInRange = getEnemiesInRange(unit, { units: state.units })
+    const enemiesInRange = getEnemiesInRange(unit, { board: state.board, units: state.units })
     const totalDamage = enemiesInRange.reduce((total, _enemy) => {
       void _enemy; // Suppress unused parameter warning
-      return total + calculateTotalDamageToTarget(unit, { units: state.units })
+      return total + calculateTotalDamageToTarget(unit, { board: state.board, units: state.units })
     }, 0)
     
     // Higher threat if more damage can be dealt to this unit
@@ -235,6 +235,7 @@ describe('Ability System', () => {
           moveRange: 3,
           attackRange: 1,
           attackDamage: 1,
+          defense: 0,
           actionsRemaining: 2,
           maxActions: 2,
           status: [],
@@ -1,4 +1,4 @@
-import { type Unit, StatusType, type Coordinate, type Ability, TargetType, AbilityTargetingType, type Tile, type DataAbility } from 'shared'
+import { type Unit, StatusType, type Coordinate, type Ability, TargetType, AbilityTargetingType, type Tile, type DataAbility, getAbilityTargetType, hasLineOfSight, isPassable } from 'shared'
 import { dataManager } from '../data/DataManager'
 
 // Get ability from DataManager
@@ -19,16 +19,8 @@ export function getAbilityById(id: string, unit?: Unit): Ability {
 
 // Convert DataAbility to legacy Ability format
 function convertDataAbilityToLegacyAbility(dataAbility: DataAbility, unitAttackRange?: number): Ability {
-  let targetType: TargetType = TargetType.ENEMY; // Default
-  if (dataAbility.effects.some(e => e.target === 'ally')) {
-    targetType = TargetType.ALLY;
-  } else if (dataAbility.effects.some(e => e.target === 'self')) {
-    targetType = TargetType.SELF;
-  } else if (dataAbility.effects.some(e => e.target === 'all_allies')) {
-    targetType = TargetType.ALL_ALLIES;
-  } else if (dataAbility.effects.some(e => e.target === 'all_enemies')) {
-    targetType = TargetType.ALL_ENEMIES;
-  }
+  // Same target type the rules engine validates against (hazard abilities target tiles)
+  const targetType: TargetType = getAbilityTargetType(dataAbility)
 
   // --- CRITICAL FIX ---
   // Use the unit's actual attackRange as the ability's range for consistency.
@@ -41,6 +33,8 @@ function convertDataAbilityToLegacyAbility(dataAbility: DataAbility, unitAttackR
     targetingType = AbilityTargetingType.AOE_CONE
   } else if (dataAbility.range_pattern_key === 'centered_cross_burst') {
     targetingType = AbilityTargetingType.AOE_CIRCLE
+  } else if (dataAbility.range_pattern_key === 'firewall_line') {
+    targetingType = AbilityTargetingType.DIRECTIONAL
   } else if (dataAbility.range_pattern_key === 'all_allies') {
     targetingType = AbilityTargetingType.ALL_ALLIES
   } else if (dataAbility.range_pattern_key === 'all_enemies') {
@@ -56,8 +50,11 @@ function convertDataAbilityToLegacyAbility(dataAbility: DataAbility, unitAttackR
     cost: 1, // Default cost
     cooldown: dataAbility.cooldown_turns,
     range: range, // Use the corrected range
+    indirect: dataAbility.indirect,
     targetType: targetType,
     targetingType: targetingType,
+    // Cones and lines are aimed by picking a direction; the rules engine resolves the whole area
+    requiresDirection: targetingType === AbilityTargetingType.AOE_CONE || targetingType === AbilityTargetingType.DIRECTIONAL,
     effect: () => {
       // Process effects from JSON
       const results = dataAbility.effects.map((effect) => {
@@ -116,8 +113,8 @@ function convertDataAbilityToLegacyAbility(dataAbility: DataAbility, unitAttackR
           case 'cleanse_status':
             return { message: `Status effects cleansed` }
           case 'create_tile_hazard':
-            // For now, just return success - tile hazards need more complex implementation
-            return { message: `${dataAbility.name} creates a hazard` }
+            // The hazard itself is placed on the board by the shared rules engine
+            return { message: `${dataAbility.name} creates ${effect.hazard_details?.name ?? 'a hazard'}` }
           default:
             return {}
         }
@@ -167,6 +164,15 @@ export function canUseAbility(unit: Unit, abilityId: string): boolean {
 export function getValidTargets(unit: Unit, ability: Ability, board: Tile[][], units: Unit[]): (Unit | Coordinate)[] {
   const targets: (Unit | Coordinate)[] = []
   
+  // Bursts are centered on the caster, so the caster is the only thing to click
+  if (ability.targetingType === AbilityTargetingType.AOE_CIRCLE) {
+    return [unit]
+  }
+
+  // Walls block anything that isn't marked indirect
+  const rulesData = dataManager.getRulesData()
+  const inSight = (coord: Coordinate) => !!ability.indirect || hasLineOfSight(unit.position, coord, { board, units }, rulesData)
+
   switch (ability.targetType) {
     case TargetType.SELF:
       targets.push(unit)
@@ -179,7 +185,7 @@ export function getValidTargets(unit: Unit, ability: Ability, board: Tile[][], u
         if (targetUnit.id === unit.id) continue
         
         const distance = Math.abs(unit.position.x - targetUnit.position.x) + Math.abs(unit.position.y - targetUnit.position.y)
-        if (distance <= ability.range) {
+        if (distance <= ability.range && inSight(targetUnit.position)) {
           if (ability.targetType === TargetType.ALLY && targetUnit.playerId === unit.playerId) {
             targets.push(targetUnit)
           } else if (ability.targetType === TargetType.ENEMY && targetUnit.playerId !== unit.playerId) {
@@ -189,11 +195,11 @@ export function getValidTargets(unit: Unit, ability: Ability, board: Tile[][], u
       }
       break
     case TargetType.TILE:
-      // Find tiles in range
+      // Find walkable tiles in range
       for (let y = 0; y < board.length; y++) {
         for (let x = 0; x < board[y].length; x++) {
           const distance = Math.abs(unit.position.x - x) + Math.abs(unit.position.y - y)
-          if (distance <= ability.range) {
+          if (distance <= ability.range && isPassable(board[y][x]) && inSight({ x, y })) {
             targets.push({ x, y })
           }
         }
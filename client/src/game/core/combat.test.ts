@@ -9,7 +9,8 @@ import {
   canAttackAnyEnemy,
   canKillTargetThisTurn
 } from './combat'
-import { createMockUnit } from '../test/helpers'
+import { TileType } from 'shared'
+import { createMockTile, createMockUnit } from '../test/helpers'
 
 describe('Combat System', () => {
   beforeEach(() => {
@@ -210,6 +211,18 @@ describe('Combat System', () => {
       expect(result).not.toContain(enemy2)
       expect(result).not.toContain(unit)
     })
+
+    it('should leave out enemies behind walls and units that have already attacked', () => {
+      const board = Array.from({ length: 3 }, (_, y) => Array.from({ length: 5 }, (_, x) => createMockTile({ x, y })))
+      board[0][2] = createMockTile({ x: 2, y: 0, type: TileType.OBSTACLE })
+      const unit = createMockUnit({ id: 'unit1', position: { x: 0, y: 0 }, attackRange: 4, playerId: 'player1' })
+      const hidden = createMockUnit({ id: 'hidden', position: { x: 4, y: 0 }, playerId: 'player2' })
+      const inSight = createMockUnit({ id: 'inSight', position: { x: 0, y: 2 }, playerId: 'player2' })
+      const state = { board, units: [unit, hidden, inSight] }
+
+      expect(getEnemiesInRange(unit, state)).toEqual([inSight])
+      expect(getEnemiesInRange({ ...unit, hasAttacked: true }, state)).toEqual([])
+    })
   })
 
   describe('getWeakestEnemyInRange', () => {
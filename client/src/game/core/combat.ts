@@ -1,41 +1,34 @@
-import { type Unit, type Coordinate } from 'shared'
+import { type Unit, type Coordinate, type Tile, type RulesData, calculatePossibleTargets as calculateTargetsByRules, calculateDamage } from 'shared'
+import { dataManager } from '../data/DataManager'
 
 /**
  * Pure combat utility functions that can be used by both the game store and AI system.
  * These functions take the required state as parameters, making them easily testable and reusable.
+ * Attack validation and damage come from the shared rules engine (see shared/src/rules).
  */
 
+// calculateDamageBreakdown explains a hit (defense, facing) for HUD previews
+export { calculateDamage, calculateDamageBreakdown, type DamageBreakdown } from 'shared'
+
 export interface CombatState {
   units: Unit[]
+  board?: Tile[][] // Pass the board to rule out targets behind walls
 }
 
 /**
  * Calculate all possible attack targets for a unit
  * @param unit - The unit to calculate targets for
- * @param state - The current game state (units)
+ * @param state - The current game state (units, and the board for line of sight)
+ * @param data - Static game data (indirect attacks, whether units block sight)
  * @returns Array of valid target coordinates
  */
-export function calculatePossibleTargets(unit: Unit, state: CombatState): Coordinate[] {
-  if (unit.hasAttacked || unit.actionsRemaining === 0) return []
-  
-  const { units } = state
-  const targets: Coordinate[] = []
-  
-  for (const enemy of units) {
-    if (enemy.playerId === unit.playerId) continue
-    const distance = Math.abs(enemy.position.x - unit.position.x) + Math.abs(enemy.position.y - unit.position.y)
-    if (distance <= unit.attackRange) {
-      targets.push(enemy.position)
-      console.log('Valid attack target found:', {
-        targetId: enemy.id,
-        targetType: enemy.type,
-        distance,
-        attackRange: unit.attackRange,
-        targetPosition: enemy.position
-      })
-    }
-  }
-  
+export function calculatePossibleTargets(
+  unit: Unit,
+  state: CombatState,
+  data: Pick<RulesData, 'employees' | 'config'> = dataManager.getRulesData()
+): Coordinate[] {
+  const targets = calculateTargetsByRules(unit, state, data)
+
   console.log('Calculated possible targets for unit:', {
     unitId: unit.id,
     unitType: unit.type,
@@ -43,7 +36,7 @@ export function calculatePossibleTargets(unit: Unit, state: CombatState): Coordi
     targetCount: targets.length,
     targets
   })
-  
+
   return targets
 }
 
@@ -52,45 +45,33 @@ export function calculatePossibleTargets(unit: Unit, state: CombatState): Coordi
  * @param attacker - The attacking unit
  * @param target - The target unit
  * @param state - The current game state
+ * @param data - Static game data (indirect attacks, whether units block sight)
  * @returns True if the attack is valid
  */
-export function isValidAttack(attacker: Unit, target: Unit, state: CombatState): boolean {
-  const possibleTargets = calculatePossibleTargets(attacker, state)
+export function isValidAttack(
+  attacker: Unit,
+  target: Unit,
+  state: CombatState,
+  data: Pick<RulesData, 'employees' | 'config'> = dataManager.getRulesData()
+): boolean {
+  const possibleTargets = calculatePossibleTargets(attacker, state, data)
   return possibleTargets.some((t) => t.x === target.position.x && t.y === target.position.y)
 }
 
 /**
- * Calculate damage dealt by an attacker to a target
- * @param attacker - The attacking unit
- * @param target - The target unit
- * @returns The damage amount
- */
-export function calculateDamage(attacker: Unit, target: Unit): number {
-  // Base damage is the attacker's attack damage
-  const baseDamage = attacker.attackDamage
-  
-  // Simple damage calculation - can be enhanced later
-  // For now, just return the base damage, ensuring it's at least 1
-  // Target parameter is available for future damage calculations based on target stats
-  // Currently not using target stats, but keeping parameter for future enhancements
-  void target // Suppress unused parameter warning
-  
-  return Math.max(1, baseDamage)
-}
-
-/**
- * Get all enemy units within attack range of a unit
+ * Get all enemy units a unit can attack right now, by the same rule the engine checks attacks with
  * @param unit - The attacking unit
- * @param state - The current game state
- * @returns Array of enemy units within range
+ * @param state - The current game state (units, and the board for line of sight)
+ * @param data - Static game data (indirect attacks, whether units block sight)
+ * @returns Enemy units within range and in sight; none once the unit has attacked or has no actions left
  */
-export function getEnemiesInRange(unit: Unit, state: CombatState): Unit[] {
-  const { units } = state
-  return units.filter(enemy => {
-    if (enemy.playerId === unit.playerId) return false
-    const distance = Math.abs(enemy.position.x - unit.position.x) + Math.abs(enemy.position.y - unit.position.y)
-    return distance <= unit.attackRange
-  })
+export function getEnemiesInRange(
+  unit: Unit,
+  state: CombatState,
+  data: Pick<RulesData, 'employees' | 'config'> = dataManager.getRulesData()
+): Unit[] {
+  const targets = calculateTargetsByRules(unit, state, data)
+  return state.units.filter(enemy => targets.some(t => t.x === enemy.position.x && t.y === enemy.position.y))
 }
 
 /**
@@ -136,17 +117,19 @@ export function canAttackAnyEnemy(unit: Unit, state: CombatState): boolean {
 /**
  * Get all units that can attack a specific target
  * @param target - The target unit
- * @param state - The current game state
+ * @param state - The current game state (units, and the board for line of sight)
+ * @param data - Static game data (indirect attacks, whether units block sight)
  * @returns Array of units that can attack the target
  */
-export function getUnitsThatCanAttack(target: Unit, state: CombatState): Unit[] {
-  const { units } = state
-  return units.filter(unit => {
-    if (unit.playerId === target.playerId) return false
-    if (unit.hasAttacked || unit.actionsRemaining === 0) return false
-    const distance = Math.abs(unit.position.x - target.position.x) + Math.abs(unit.position.y - target.position.y)
-    return distance <= unit.attackRange
-  })
+export function getUnitsThatCanAttack(
+  target: Unit,
+  state: CombatState,
+  data: Pick<RulesData, 'employees' | 'config'> = dataManager.getRulesData()
+): Unit[] {
+  return state.units.filter(unit =>
+    unit.playerId !== target.playerId &&
+    calculateTargetsByRules(unit, state, data).some(t => t.x === target.position.x && t.y === target.position.y)
+  )
 }
 
 /**
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import { GameEventType, type GameEvent } from 'shared'
+import { createLogEntries } from './combatLog'
+import { createMockGameState, createMockPlayer, createMockUnit } from '../test/helpers'
+
+const data = {
+  employees: {
+    salesman: { name: 'Slick Salesman' },
+    manager: { name: 'Middle Manager' },
+  },
+  abilities: {
+    harass: { name: 'Harass' },
+  },
+  statusEffects: {
+    written_up: { name: 'Written Up' },
+  },
+} as never
+
+describe('Combat log', () => {
+  const salesman = createMockUnit({ id: 'p1-salesman', employeeKey: 'salesman', playerId: 'player1' })
+  const manager = createMockUnit({ id: 'p2-manager', employeeKey: 'manager', playerId: 'player2', position: { x: 1, y: 0 } })
+  const before = createMockGameState({
+    units: [salesman, manager],
+    players: [createMockPlayer({ id: 'player1', name: 'Gold Team' }), createMockPlayer({ id: 'player2', name: 'Navy Team' })],
+  })
+
+  it('folds an attack, its damage and the statuses it applied into one line', () => {
+    const events: GameEvent[] = [
+      { type: GameEventType.UNIT_ATTACKED, attackerId: salesman.id, targetId: manager.id, damage: 20 },
+      { type: GameEventType.UNIT_DAMAGED, unitId: manager.id, amount: 20, hp: 10, sourceId: salesman.id },
+      { type: GameEventType.STATUS_APPLIED, unitId: manager.id, statusKey: 'written_up', duration: 2, sourceId: salesman.id },
+    ]
+
+    const entries = createLogEntries(events, before, before, data)
+
+    expect(entries).toHaveLength(1)
+    expect(entries[0]).toMatchObject({
+      category: 'combat',
+      turnNumber: 1,
+      playerId: 'player1',
+      text: 'Slick Salesman hit Middle Manager for 20 (Written Up applied)',
+      unitIds: [salesman.id, manager.id],
+    })
+  })
+
+  it('names defeated units from the state before the action', () => {
+    const after = { ...before, units: [salesman] }
+    const events: GameEvent[] = [
+      { type: GameEventType.UNIT_ATTACKED, attackerId: salesman.id, targetId: manager.id, damage: 30 },
+      { type: GameEventType.UNIT_DAMAGED, unitId: manager.id, amount: 10, hp: 0, sourceId: salesman.id },
+      { type: GameEventType.UNIT_DEFEATED, unitId: manager.id, playerId: 'player2', sourceId: salesman.id },
+    ]
+
+    const entries = createLogEntries(events, before, after, data)
+
+    expect(entries.map(e => e.text)).toEqual([
+      'Slick Salesman hit Middle Manager for 30',
+      'Middle Manager was defeated by Slick Salesman',
+    ])
+  })
+
+  it('marks a counterattack and keeps its own line', () => {
+    const events: GameEvent[] = [
+      { type: GameEventType.UNIT_ATTACKED, attackerId: salesman.id, targetId: manager.id, damage: 5 },
+      { type: GameEventType.UNIT_DAMAGED, unitId: manager.id, amount: 5, hp: 25, sourceId: salesman.id },
+      { type: GameEventType.UNIT_ATTACKED, attackerId: manager.id, targetId: salesman.id, damage: 3, counter: true },
+      { type: GameEventType.UNIT_DAMAGED, unitId: salesman.id, amount: 3, hp: 7, sourceId: manager.id },
+    ]
+
+    const entries = createLogEntries(events, before, before, data)
+
+    expect(entries.map(e => e.text)).toEqual([
+      'Slick Salesman hit Middle Manager for 5',
+      'Middle Manager countered Slick Salesman for 3',
+    ])
+  })
+
+  it('adds a separator when a new turn starts', () => {
+    const events: GameEvent[] = [
+      { type: GameEventType.TURN_ENDED, playerId: 'player1', turnNumber: 1 },
+      { type: GameEventType.TURN_STARTED, playerId: 'player2', turnNumber: 1 },
+    ]
+
+    const entries = createLogEntries(events, before, before, data)
+
+    expect(entries).toEqual([
+      { turnNumber: 1, playerId: 'player2', category: 'turn', text: 'Turn 1 · Navy Team', unitIds: [] },
+    ])
+  })
+
+  it('describes moves and abilities in their own categories', () => {
+    const events: GameEvent[] = [
+      { type: GameEventType.UNIT_MOVED, unitId: salesman.id, from: { x: 0, y: 0 }, to: { x: 0, y: 1 }, cost: 1, path: [{ x: 0, y: 1 }] },
+      { type: GameEventType.ABILITY_USED, unitId: salesman.id, abilityId: 'harass', target: { x: 1, y: 0 } },
+    ]
+
+    const entries = createLogEntries(events, before, before, data)
+
+    expect(entries.map(e => [e.category, e.text])).toEqual([
+      ['movement', 'Slick Salesman moved to (0, 1)'],
+      ['ability', 'Slick Salesman used Harass at (1, 0)'],
+    ])
+  })
+})
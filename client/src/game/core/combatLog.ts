@@ -0,0 +1,145 @@
+import { GameEventType, type GameEvent, type GameState, type PlayerId, type RulesData, type Unit } from 'shared'
+import { dataManager } from '../data/DataManager'
+
+/**
+ * Turns the rules engine's events into the readable lines of the combat log.
+ * Each applied action yields a few entries, with an attack and the statuses it applied kept on one line.
+ */
+
+export type CombatLogCategory = 'combat' | 'ability' | 'movement' | 'capture' | 'turn' | 'other'
+
+export interface CombatLogEntry {
+  turnNumber: number
+  playerId: PlayerId // Player whose turn it was
+  category: CombatLogCategory
+  text: string
+  unitIds: string[] // Units to highlight on the board when the entry is clicked
+}
+
+type LogData = Pick<RulesData, 'employees' | 'abilities' | 'statusEffects'>
+
+const REACTION_TRIGGER_TEXT = {
+  on_damaged: 'being hit',
+  on_ally_killed: 'losing an ally',
+  on_enemy_enters_range: 'an enemy closing in',
+} as const
+
+/**
+ * Describe the events of one applied action
+ * @param events - Events from the rules engine, in order
+ * @param before - State the action was applied to
+ * @param after - State after the action
+ * @param data - Static game data (for employee, ability and status names)
+ * @returns Log entries in the order things happened
+ */
+export function createLogEntries(
+  events: GameEvent[],
+  before: GameState,
+  after: GameState,
+  data: LogData = dataManager.getRulesData()
+): CombatLogEntry[] {
+  // Defeated units are only in the earlier state, hired ones only in the later one
+  const units = new Map<string, Unit>([...before.units, ...after.units].map(u => [u.id, u]))
+  const unitName = (id?: string) => {
+    const unit = id ? units.get(id) : undefined
+    if (!unit) return id ?? 'Someone'
+    return (unit.employeeKey && data.employees[unit.employeeKey]?.name) || unit.type.replace('_', ' ')
+  }
+  const playerName = (id?: PlayerId) => after.players.find(p => p.id === id)?.name ?? id ?? 'Nobody'
+  const statusName = (key: string) => data.statusEffects[key]?.name ?? key.replace(/_/g, ' ')
+  const abilityName = (key: string) => data.abilities[key]?.name ?? key.replace(/_/g, ' ')
+  const at = (c: { x: number; y: number }) => `(${c.x}, ${c.y})`
+
+  const entries: CombatLogEntry[] = []
+  const add = (category: CombatLogCategory, text: string, unitIds: (string | undefined)[] = []) => {
+    entries.push({
+      turnNumber: before.turnNumber,
+      playerId: before.currentPlayerId,
+      category,
+      text,
+      unitIds: unitIds.filter((id): id is string => !!id),
+    })
+  }
+
+  // The entry of the last attack, so its damage and statuses fold into it
+  let lastAttack: { entry: CombatLogEntry; text: string; statuses: string[]; targetId: string; attackerId: string } | undefined
+
+  for (const event of events) {
+    switch (event.type) {
+      case GameEventType.UNIT_ATTACKED: {
+        const verb = event.counter ? 'countered' : 'hit'
+        const text = `${unitName(event.attackerId)} ${verb} ${unitName(event.targetId)} for ${event.damage}`
+        add('combat', text, [event.attackerId, event.targetId])
+        lastAttack = { entry: entries[entries.length - 1], text, statuses: [], targetId: event.targetId, attackerId: event.attackerId }
+        continue
+      }
+      case GameEventType.UNIT_DAMAGED:
+        if (lastAttack && event.unitId === lastAttack.targetId && event.sourceId === lastAttack.attackerId) continue
+        add('combat', `${unitName(event.unitId)} took ${event.amount} damage${event.sourceId ? ` from ${unitName(event.sourceId)}` : ''}`, [event.unitId, event.sourceId])
+        break
+      case GameEventType.STATUS_APPLIED:
+        if (lastAttack && event.unitId === lastAttack.targetId && event.sourceId === lastAttack.attackerId) {
+          lastAttack.statuses.push(statusName(event.statusKey))
+          lastAttack.entry.text = `${lastAttack.text} (${lastAttack.statuses.join(', ')} applied)`
+          continue
+        }
+        add('ability', `${unitName(event.unitId)} is now ${statusName(event.statusKey)}`, [event.unitId, event.sourceId])
+        break
+      case GameEventType.UNIT_DEFEATED:
+        add('combat', `${unitName(event.unitId)} was defeated${event.sourceId ? ` by ${unitName(event.sourceId)}` : ''}`, [event.unitId, event.sourceId])
+        break
+      case GameEventType.UNIT_HEALED:
+        add('ability', `${unitName(event.unitId)} recovered ${event.amount} HP`, [event.unitId, event.sourceId])
+        break
+      case GameEventType.UNIT_MOVED:
+        add('movement', `${unitName(event.unitId)} moved to ${at(event.to)}`, [event.unitId])
+        break
+      case GameEventType.UNIT_FACED:
+        add('movement', `${unitName(event.unitId)} turned to face ${event.direction}`, [event.unitId])
+        break
+      case GameEventType.UNIT_HIRED:
+        add('other', `${playerName(event.playerId)} hired ${unitName(event.unitId)} for $${event.cost}`, [event.unitId])
+        break
+      case GameEventType.ABILITY_USED:
+        add('ability', `${unitName(event.unitId)} used ${abilityName(event.abilityId)}${event.target ? ` at ${at(event.target)}` : ''}`, [event.unitId])
+        break
+      case GameEventType.REACTION_TRIGGERED:
+        add(
+          'ability',
+          `${unitName(event.unitId)} reacted to ${REACTION_TRIGGER_TEXT[event.trigger]} with ${abilityName(event.abilityId)}`,
+          [event.unitId, event.targetId]
+        )
+        break
+      case GameEventType.STATUS_REMOVED:
+      case GameEventType.STATUS_EXPIRED:
+        add('ability', `${statusName(event.statusKey)} wore off ${unitName(event.unitId)}`, [event.unitId])
+        break
+      case GameEventType.ACTIONS_GRANTED:
+        add('ability', `${unitName(event.unitId)} gained ${event.amount} action${event.amount === 1 ? '' : 's'}`, [event.unitId])
+        break
+      case GameEventType.CUBICLE_CAPTURED:
+        add('capture', `${playerName(event.playerId)} captured the cubicle at ${at(event.position)}`, [event.unitId])
+        break
+      case GameEventType.CAPTURE_PROGRESSED:
+        add('capture', `${playerName(event.playerId)} is capturing ${at(event.position)} (${event.turns}/${event.required})`, [event.unitId])
+        break
+      case GameEventType.HAZARD_CREATED:
+        add('ability', `${event.name} covers ${at(event.position)} for ${event.duration} turns`, [event.sourceId])
+        break
+      case GameEventType.HAZARD_EXPIRED:
+        add('ability', `${event.name} at ${at(event.position)} cleared`)
+        break
+      case GameEventType.TURN_STARTED:
+        entries.push({ turnNumber: event.turnNumber, playerId: event.playerId, category: 'turn', text: `Turn ${event.turnNumber} · ${playerName(event.playerId)}`, unitIds: [] })
+        break
+      case GameEventType.GAME_OVER:
+        add('other', `Game over: ${event.reason}`)
+        break
+      case GameEventType.TURN_ENDED:
+        break
+    }
+    lastAttack = undefined
+  }
+
+  return entries
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest'
+import {
+  HOT_SEAT_CONTROLLERS,
+  VS_AI_CONTROLLERS,
+  getControllerLabel,
+  getLocalPlayerId,
+  getOnlineControllers,
+  needsHandoff,
+} from './controllers'
+
+describe('Player controllers', () => {
+  it('puts us at our own seat online', () => {
+    expect(getOnlineControllers('player2')).toEqual({ player1: 'remote', player2: 'human' })
+    expect(getOnlineControllers(null)).toEqual({ player1: 'remote', player2: 'remote' })
+  })
+
+  it('shows the side of whoever holds the device', () => {
+    expect(getLocalPlayerId(VS_AI_CONTROLLERS, 'player2')).toBe('player1')
+    expect(getLocalPlayerId(HOT_SEAT_CONTROLLERS, 'player2')).toBe('player2')
+    expect(getLocalPlayerId(getOnlineControllers('player2'), 'player1')).toBe('player2')
+    expect(getLocalPlayerId(getOnlineControllers(null), 'player1')).toBeNull()
+  })
+
+  it('only hands the device over between people sharing it', () => {
+    expect(needsHandoff(HOT_SEAT_CONTROLLERS, 'player2')).toBe(true)
+    expect(needsHandoff(VS_AI_CONTROLLERS, 'player1')).toBe(false)
+    expect(needsHandoff(getOnlineControllers('player1'), 'player1')).toBe(false)
+  })
+
+  it('labels each side by who plays it', () => {
+    expect(getControllerLabel(VS_AI_CONTROLLERS, 'player1')).toBe('You')
+    expect(getControllerLabel(VS_AI_CONTROLLERS, 'player2')).toBe('AI')
+    expect(getControllerLabel(HOT_SEAT_CONTROLLERS, 'player2')).toBe('Player')
+    expect(getControllerLabel(getOnlineControllers('player1'), 'player2')).toBe('Opponent')
+  })
+})
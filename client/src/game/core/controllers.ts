@@ -0,0 +1,73 @@
+import { SEATS, type PlayerController, type PlayerId, type Seat } from 'shared'
+
+/**
+ * Who plays each side of a match. The game reads this instead of assuming player2 is the AI, so
+ * the same turn flow serves games against the AI, two people sharing a device and online matches.
+ */
+
+export type Controllers = Record<PlayerId, PlayerController>
+
+export const TEAM_NAMES: Record<PlayerId, string> = {
+  player1: 'Gold Team',
+  player2: 'Navy Team',
+}
+
+export const VS_AI_CONTROLLERS: Controllers = { player1: 'human', player2: 'ai' }
+export const HOT_SEAT_CONTROLLERS: Controllers = { player1: 'human', player2: 'human' }
+
+/**
+ * Get the controllers of an online match
+ * @param seat - Our seat, or null when we are watching
+ * @returns Us at our seat and remote players everywhere else
+ */
+export function getOnlineControllers(seat: Seat | null): Controllers {
+  return Object.fromEntries(SEATS.map((s) => [s, s === seat ? 'human' : 'remote']))
+}
+
+/**
+ * Get the players people at this device play
+ * @param controllers - Who plays each side
+ * @returns Ids of the human players, in seat order
+ */
+export function getHumanPlayerIds(controllers: Controllers): PlayerId[] {
+  return Object.keys(controllers).filter((id) => controllers[id] === 'human')
+}
+
+/**
+ * Get the player whose side the device is showing
+ * @param controllers - Who plays each side
+ * @param currentPlayerId - The player whose turn it is
+ * @returns The current player when they play at this device, otherwise the first player who does,
+ * or null when nobody here plays, as for a spectator
+ */
+export function getLocalPlayerId(controllers: Controllers, currentPlayerId: PlayerId): PlayerId | null {
+  if (controllers[currentPlayerId] === 'human') return currentPlayerId
+  return getHumanPlayerIds(controllers)[0] ?? null
+}
+
+/**
+ * Check whether the device has to change hands before a player can see the board
+ * @param controllers - Who plays each side
+ * @param playerId - The player about to act
+ * @returns True when more than one person plays at this device and the player is one of them
+ */
+export function needsHandoff(controllers: Controllers, playerId: PlayerId): boolean {
+  return controllers[playerId] === 'human' && getHumanPlayerIds(controllers).length > 1
+}
+
+/**
+ * Describe who plays a side, for labels such as "Navy Team (AI)"
+ * @param controllers - Who plays each side
+ * @param playerId - The side
+ * @returns 'You' for the only person at this device, 'Player' when several share it, otherwise 'AI' or 'Opponent'
+ */
+export function getControllerLabel(controllers: Controllers, playerId: PlayerId): string {
+  switch (controllers[playerId]) {
+    case 'ai':
+      return 'AI'
+    case 'remote':
+      return 'Opponent'
+    default:
+      return getHumanPlayerIds(controllers).length > 1 ? 'Player' : 'You'
+  }
+}
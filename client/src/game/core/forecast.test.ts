@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import { describeForecast, getTargetForecast } from './forecast'
+import { createMockUnit } from '../test/helpers'
+
+const data = {
+  employees: {},
+  abilities: {
+    overtime: {
+      key: 'overtime',
+      name: 'Overtime',
+      description: '',
+      cooldown_turns: 2,
+      range_pattern_key: 'self_target',
+      effects: [{ type: 'action_bonus', target: 'self', value: 1 }],
+    },
+    memo: {
+      key: 'memo',
+      name: 'Memo',
+      description: '',
+      cooldown_turns: 1,
+      range_pattern_key: 'single_target_ranged',
+      effects: [{ type: 'apply_status_effect', target: 'enemy', status_key: 'written_up', chance: 0.5 }],
+    },
+  },
+  statusEffects: {
+    written_up: { key: 'written_up', name: 'Written Up', description: '', duration_in_turns: 2, effect_type: 'debuff', modifiers: [] },
+  },
+} as never
+
+describe('Forecast', () => {
+  const attacker = createMockUnit({ id: 'gold', position: { x: 1, y: 0 }, attackDamage: 4 })
+  const target = createMockUnit({ id: 'navy', playerId: 'player2', position: { x: 1, y: 1 }, direction: 'left' })
+
+  it('describes damage, HP, kill chance and the counterattack of an attack', () => {
+    const forecast = getTargetForecast(attacker, target, undefined, data)!
+
+    expect(describeForecast(forecast, target, data)).toEqual([
+      'Damage: 5 (side ×1.25)',
+      'HP: 10 → 5',
+      'Kill chance: 0%',
+      'Counterattack: 3 damage',
+    ])
+  })
+
+  it('lists the statuses an ability may apply', () => {
+    const forecast = getTargetForecast(attacker, target, 'memo', data)!
+
+    expect(describeForecast(forecast, target, data)).toContain('Written Up: 50% chance')
+  })
+
+  it('has nothing to forecast for abilities that leave enemies alone', () => {
+    expect(getTargetForecast(attacker, target, 'overtime', data)).toBeUndefined()
+  })
+})
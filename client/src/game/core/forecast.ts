@@ -0,0 +1,69 @@
+import { forecastAbility, forecastAttack, type CombatForecast, type RulesData, type Unit } from 'shared'
+import { dataManager } from '../data/DataManager'
+
+/**
+ * Outcome previews for the target under the pointer. The numbers come from the shared rules
+ * (see shared/src/rules/forecast.ts); this module picks the right forecast and words it for the HUD.
+ */
+
+export type { CombatForecast } from 'shared'
+
+type ForecastData = Pick<RulesData, 'employees' | 'abilities' | 'statusEffects'>
+
+/**
+ * Forecast an attack, or an ability when one is picked
+ * @param unit - The acting unit
+ * @param target - The enemy being aimed at
+ * @param abilityId - The ability being aimed, if not a basic attack
+ * @param data - Static game data
+ * @returns The forecast, or undefined for abilities that don't touch enemies
+ */
+export function getTargetForecast(
+  unit: Unit,
+  target: Unit,
+  abilityId?: string,
+  data: ForecastData = dataManager.getRulesData()
+): CombatForecast | undefined {
+  if (!abilityId) return forecastAttack(unit, target, data)
+
+  const ability = data.abilities[abilityId]
+  if (!ability) return undefined
+  const forecast = forecastAbility(unit, ability, target)
+  return forecast.damage > 0 || forecast.statuses.length > 0 ? forecast : undefined
+}
+
+const percent = (chance: number) => `${Math.round(chance * 100)}%`
+
+/**
+ * Word a forecast as short lines for the tooltip and the mobile card
+ * @param forecast - The forecast
+ * @param target - The enemy it is for
+ * @param data - Static game data (for status names)
+ * @returns Lines from damage down to the counterattack
+ */
+export function describeForecast(
+  forecast: CombatForecast,
+  target: Unit,
+  data: Pick<RulesData, 'statusEffects'> = dataManager.getRulesData()
+): string[] {
+  const lines: string[] = []
+  const facing = forecast.breakdown && forecast.breakdown.facing !== 'front'
+    ? ` (${forecast.breakdown.facing} ×${forecast.breakdown.facingMultiplier})`
+    : ''
+  lines.push(`Damage: ${forecast.damage}${facing}`)
+  lines.push(`HP: ${target.hp} → ${forecast.resultingHp}`)
+  lines.push(`Kill chance: ${percent(forecast.killChance)}`)
+
+  forecast.statuses.forEach(({ statusKey, chance }) => {
+    const name = data.statusEffects[statusKey]?.name ?? statusKey.replace(/_/g, ' ')
+    lines.push(`${name}: ${percent(chance)} chance`)
+  })
+
+  const counter = forecast.counterattack
+  if (counter) {
+    const odds = counter.chance < 1 ? ` (${percent(counter.chance)})` : ''
+    const deadly = counter.killChance > 0 ? `, ${percent(counter.killChance)} kill chance` : ''
+    lines.push(`Counterattack${odds}: ${counter.damage} damage${deadly}`)
+  }
+  return lines
+}
@@ -1,11 +1,15 @@
-import { type Unit, type Tile, type Coordinate, TileType } from 'shared'
-import { mapRegistry } from '../map/MapRegistry'
+import { type Unit, type Tile, type Coordinate, type RulesData, TileType, calculatePossibleMoves as calculateMovesByRules, getDistance } from 'shared'
+import { dataManager } from '../data/DataManager'
 
 /**
  * Pure movement utility functions that can be used by both the game store and AI system.
  * These functions take the required state as parameters, making them easily testable and reusable.
+ * The movement rules themselves live in the shared rules engine so the client and server agree.
  */
 
+// findPath returns the route and terrain cost of a move, e.g. for animating it step by step
+export { getDistance, getDirection, findPath, getMovementCost } from 'shared'
+
 export interface MovementState {
   board: Tile[][]
   units: Unit[]
@@ -16,70 +20,28 @@ export interface CombatState {
 }
 
 /**
- * Calculate all possible moves for a unit using BFS algorithm
+ * Calculate all possible moves for a unit
  * @param unit - The unit to calculate moves for
  * @param state - The current game state (board and units)
+ * @param data - Static game data with the terrain movement costs
  * @returns Array of valid move coordinates
  */
-export function calculatePossibleMoves(unit: Unit, state: MovementState): Coordinate[] {
-  if (unit.remainingMovement <= 0 || unit.actionsRemaining === 0) return []
-
-  const { board, units } = state
-  const moves: Coordinate[] = []
-  const visited = new Set<string>()
-  const queue: { coord: Coordinate; distance: number }[] = [{ coord: unit.position, distance: 0 }]
-
-  // Get blocked tiles from MapRegistry for additional movement validation
-  const blockedTiles = mapRegistry.getBlockedTiles('OfficeLayout') || []
-  const blockedSet = new Set(blockedTiles.map(t => `${t.x},${t.y}`))
-
-  while (queue.length > 0) {
-    const { coord, distance } = queue.shift()!
-    const key = `${coord.x},${coord.y}`
-    if (visited.has(key)) continue
-    visited.add(key)
-
-    if (distance > 0 && distance <= unit.remainingMovement) {
-      const tile = board[coord.y]?.[coord.x]
-      const occupant = units.find((u) => u.position.x === coord.x && u.position.y === coord.y)
-      const isBlockedByTilemap = blockedSet.has(`${coord.x},${coord.y}`)
-      
-      // Check both board tile type and tilemap blocked status
-      if (tile && tile.type !== TileType.OBSTACLE && !occupant && !isBlockedByTilemap) {
-        moves.push(coord)
-      }
-    }
+export function calculatePossibleMoves(
+  unit: Unit,
+  state: MovementState,
+  data: Pick<RulesData, 'config'> = dataManager.getRulesData()
+): Coordinate[] {
+  const moves = calculateMovesByRules(unit, state, data)
 
-    if (distance < unit.remainingMovement) {
-      const neighbors = [
-        { x: coord.x + 1, y: coord.y },
-        { x: coord.x - 1, y: coord.y },
-        { x: coord.x, y: coord.y + 1 },
-        { x: coord.x, y: coord.y - 1 },
-      ]
-      for (const neighbor of neighbors) {
-        if (
-          neighbor.x >= 0 &&
-          neighbor.x < board[0].length &&
-          neighbor.y >= 0 &&
-          neighbor.y < board.length
-        ) {
-          queue.push({ coord: neighbor, distance: distance + 1 })
-        }
-      }
-    }
-  }
-  
   console.log('Movement calculation for unit:', {
     unitId: unit.id,
     position: unit.position,
     moveRange: unit.moveRange,
     remainingMovement: unit.remainingMovement,
     totalMoves: moves.length,
-    blockedTilesCount: blockedTiles.length,
-    boardObstacles: board.flat().filter(t => t.type === TileType.OBSTACLE).length
+    boardObstacles: state.board.flat().filter(t => t.type === TileType.OBSTACLE).length
   })
-  
+
   return moves
 }
 
@@ -88,10 +50,16 @@ export function calculatePossibleMoves(unit: Unit, state: MovementState): Coordi
  * @param unit - The unit attempting to move
  * @param to - The destination coordinate
  * @param state - The current game state
+ * @param data - Static game data with the terrain movement costs
  * @returns True if the move is valid
  */
-export function isValidMove(unit: Unit, to: Coordinate, state: MovementState): boolean {
-  const possibleMoves = calculatePossibleMoves(unit, state)
+export function isValidMove(
+  unit: Unit,
+  to: Coordinate,
+  state: MovementState,
+  data: Pick<RulesData, 'config'> = dataManager.getRulesData()
+): boolean {
+  const possibleMoves = calculatePossibleMoves(unit, state, data)
   return possibleMoves.some((m) => m.x === to.x && m.y === to.y)
 }
 
@@ -109,37 +77,6 @@ export function getUnitsInRange(position: Coordinate, range: number, units: Unit
   })
 }
 
-/**
- * Get the distance between two coordinates using Manhattan distance
- * @param from - Starting coordinate
- * @param to - Target coordinate
- * @returns Manhattan distance between the coordinates
- */
-export function getDistance(from: Coordinate, to: Coordinate): number {
-  return Math.abs(to.x - from.x) + Math.abs(to.y - from.y)
-}
-
-/**
- * Calculate the direction from one coordinate to another
- * @param from - Starting coordinate
- * @param to - Target coordinate
- * @returns Direction as 'up', 'down', 'left', or 'right'
- */
-export function getDirection(from: Coordinate, to: Coordinate): 'up' | 'down' | 'left' | 'right' {
-  const dx = to.x - from.x
-  const dy = to.y - from.y
-  
-  // If no movement, return current direction or default
-  if (dx === 0 && dy === 0) return 'down'
-  
-  // Determine primary direction based on larger delta
-  if (Math.abs(dx) > Math.abs(dy)) {
-    return dx > 0 ? 'right' : 'left'
-  } else {
-    return dy > 0 ? 'down' : 'up'
-  }
-}
-
 /**
  * Find the nearest unit to a given position
  * @param position - The reference position
@@ -1,4 +1,4 @@
-import { type Employee, type DataAbility, type AttackPattern, type StatusEffect, type GameConfig, type Unit, UnitType } from 'shared'
+import { type Employee, type DataAbility, type AttackPattern, type StatusEffect, type GameConfig, type Unit, type RulesData, createUnitFromEmployee } from 'shared'
 
 interface LoadedData {
   employees: Map<string, Employee>
@@ -238,6 +238,20 @@ export class DataManager {
     return Array.from(this.data.statusEffects.values())
   }
 
+  // Static data in the shape the shared rules engine expects
+  public getRulesData(): RulesData {
+    if (!this.isLoaded) {
+      console.warn('DataManager: Data not loaded yet, returning empty rules data')
+    }
+    return {
+      employees: Object.fromEntries(this.data.employees),
+      abilities: Object.fromEntries(this.data.abilities),
+      statusEffects: Object.fromEntries(this.data.statusEffects),
+      attackPatterns: Object.fromEntries(this.data.attackPatterns),
+      config: this.isLoaded ? this.data.gameConfig : undefined
+    }
+  }
+
   public isDataLoaded(): boolean {
     return this.isLoaded
   }
@@ -262,45 +276,9 @@ export class DataManager {
     return Array.from(this.data.employees.values()).find(emp => emp.id === id)
   }
 
-  // Convert Employee data to Unit data for game logic
+  // Convert Employee data to Unit data for game logic (shared with the rules engine's hiring)
   public createUnitFromEmployee(employee: Employee, id: string, playerId: string, position: { x: number; y: number }): Unit {
-    // Get abilities directly from employee's ability_keys array
-    const abilities = employee.ability_keys || []
-    
-    return {
-      id,
-      playerId,
-      type: this.mapEmployeeKeyToUnitType(employee.key),
-      position,
-      hp: employee.stats.health,
-      maxHp: employee.stats.health,
-      moveRange: employee.stats.speed,
-      attackRange: employee.attack.range,
-      attackDamage: employee.stats.attack_power,
-      actionsRemaining: 2, // Default actions
-      maxActions: 2,
-      status: [],
-      cost: employee.cost,
-      hasMoved: false,
-      hasAttacked: false,
-      abilities: abilities,
-      abilityCooldowns: {},
-      movementUsed: 0,
-      remainingMovement: employee.stats.speed,
-      direction: 'down', // Default direction
-    }
-  }
-
-
-  // Map employee keys to UnitType enum
-  private mapEmployeeKeyToUnitType(employeeKey: string): UnitType {
-    const keyMap: Record<string, UnitType> = {
-      'salesman': UnitType.SALES_REP,
-      'secretary': UnitType.SECRETARY,
-      'manager': UnitType.HR_MANAGER,
-      'it_guy': UnitType.IT_SPECIALIST,
-    }
-    return keyMap[employeeKey] || UnitType.INTERN
+    return createUnitFromEmployee(employee, id, playerId, position)
   }
 }
 
@@ -0,0 +1,60 @@
+import { describe, it, expect, vi } from 'vitest'
+import { GameEventType, type GameEvent } from 'shared'
+import { GameEventBus, publishRulesEvents, type GameBusEvents } from './GameEventBus'
+
+describe('GameEventBus', () => {
+  it('delivers payloads to the handlers of that event only', () => {
+    const bus = new GameEventBus<GameBusEvents>()
+    const onMoved = vi.fn()
+    const onSelected = vi.fn()
+    bus.on('tile_clicked', onMoved)
+    bus.on('unit_selection_blocked', onSelected)
+
+    bus.emit('tile_clicked', { coord: { x: 1, y: 2 } })
+
+    expect(onMoved).toHaveBeenCalledWith({ coord: { x: 1, y: 2 } })
+    expect(onSelected).not.toHaveBeenCalled()
+  })
+
+  it('stops delivering once unsubscribed', () => {
+    const bus = new GameEventBus<GameBusEvents>()
+    const handler = vi.fn()
+    const unsubscribe = bus.on('board_resized', handler)
+
+    unsubscribe()
+    bus.emit('board_resized', { tileSize: 48, width: 768, height: 576 })
+
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('keeps notifying other handlers when one throws', () => {
+    const bus = new GameEventBus<GameBusEvents>()
+    const handler = vi.fn()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    bus.on('tile_clicked', () => {
+      throw new Error('boom')
+    })
+    bus.on('tile_clicked', handler)
+
+    bus.emit('tile_clicked', { coord: { x: 0, y: 0 } })
+
+    expect(handler).toHaveBeenCalled()
+  })
+
+  it('publishes rules engine events under their own types', () => {
+    const bus = new GameEventBus<GameBusEvents>()
+    const onDamaged = vi.fn()
+    const onTurnStarted = vi.fn()
+    bus.on(GameEventType.UNIT_DAMAGED, onDamaged)
+    bus.on(GameEventType.TURN_STARTED, onTurnStarted)
+    const events: GameEvent[] = [
+      { type: GameEventType.UNIT_DAMAGED, unitId: 'red-1', amount: 3, hp: 7, sourceId: 'blue-1' },
+      { type: GameEventType.TURN_STARTED, playerId: 'player2', turnNumber: 1 },
+    ]
+
+    publishRulesEvents(events, bus)
+
+    expect(onDamaged).toHaveBeenCalledWith(events[0])
+    expect(onTurnStarted).toHaveBeenCalledWith(events[1])
+  })
+})
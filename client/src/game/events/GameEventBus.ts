@@ -0,0 +1,85 @@
+import type { Coordinate, GameAction, GameEvent, GameEventType, GameState, Unit } from 'shared'
+
+/**
+ * Typed publish/subscribe channel between the game core, the Phaser scene and the React UI.
+ * Every event the rules engine emits is published under its GameEventType, next to a few
+ * events the client raises itself.
+ */
+
+// Rules engine events keyed by their type, so they travel on the bus unchanged
+type RulesEvents = { [T in GameEventType]: Extract<GameEvent, { type: T }> }
+
+export type ActionMode = 'none' | 'move' | 'attack' | 'ability'
+
+// Events raised by the client
+interface ClientEvents {
+  action_applied: { action: GameAction; events: GameEvent[]; before: GameState; after: GameState } // After the rules engine accepted an action
+  action_completed: { actionType: 'move' | 'attack' | 'ability'; unitId: string; remainingActions: number }
+  action_mode_changed: { mode: ActionMode; abilityId?: string } // The HUD picked or cancelled an action
+  ability_cancelled: { unitId: string; abilityId: string } // Ability targeting ended on an invalid tile
+  unit_selected: { unit: Unit; canControl: boolean }
+  unit_selection_blocked: Record<string, never>
+  tile_clicked: { coord: Coordinate }
+  board_resized: { tileSize: number; width: number; height: number }
+}
+
+export type GameBusEvents = RulesEvents & ClientEvents
+
+type Handler<T> = (payload: T) => void
+
+export class GameEventBus<Events extends object> {
+  private handlers = new Map<keyof Events, Set<Handler<never>>>()
+
+  /**
+   * Listen for an event
+   * @param type - The event to listen for
+   * @param handler - Called with each payload
+   * @returns A function that stops listening
+   */
+  on<K extends keyof Events>(type: K, handler: Handler<Events[K]>): () => void {
+    const handlers = this.handlers.get(type) ?? new Set()
+    handlers.add(handler)
+    this.handlers.set(type, handlers)
+    return () => this.off(type, handler)
+  }
+
+  /**
+   * Stop listening for an event
+   * @param type - The event
+   * @param handler - The handler passed to on
+   */
+  off<K extends keyof Events>(type: K, handler: Handler<Events[K]>): void {
+    this.handlers.get(type)?.delete(handler)
+  }
+
+  /**
+   * Send an event to everyone listening. A failing handler is logged and doesn't stop the others.
+   * @param type - The event
+   * @param payload - Its payload
+   */
+  emit<K extends keyof Events>(type: K, payload: Events[K]): void {
+    this.handlers.get(type)?.forEach((handler) => {
+      try {
+        ;(handler as Handler<Events[K]>)(payload)
+      } catch (error) {
+        console.error(`Error in ${String(type)} handler:`, error)
+      }
+    })
+  }
+
+  /** Remove every handler */
+  clear(): void {
+    this.handlers.clear()
+  }
+}
+
+export const gameEvents = new GameEventBus<GameBusEvents>()
+
+/**
+ * Publish the events of an applied action under their own types
+ * @param events - Events from the rules engine, in order
+ * @param bus - Bus to publish on
+ */
+export function publishRulesEvents(events: GameEvent[], bus: GameEventBus<GameBusEvents> = gameEvents): void {
+  events.forEach((event) => bus.emit(event.type, event as never))
+}
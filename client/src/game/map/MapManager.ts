@@ -1,6 +1,7 @@
 import Phaser from "phaser";
 import type { MapSpec, BoardDim } from "./types";
 import { mapRegistry } from "./MapRegistry";
+import { STARTING_POINT_GIDS } from "shared";
 
 
 export class MapManager {
@@ -28,12 +29,15 @@ export class MapManager {
     const foreground = map.createLayer(s.foregroundLayerName, tiles, 0, 0)!;
     const capturePoints = map.createLayer(s.capturePointsLayerName, tiles, 0, 0)!;
     const startingPositions = map.createLayer(s.startingPositionsLayerName, tiles, 0, 0)!;
+    // Tinted floor shows players where movement is cheaper or dearer
+    const terrain = map.createLayer(s.terrainLayerName, tiles, 0, 0);
 
     const scale = s.targetTileSizePx / map.tileWidth;
     background.setScale(scale);
     foreground.setScale(scale);
     capturePoints.setScale(scale);
     startingPositions.setScale(scale);
+    terrain?.setScale(scale).setAlpha(0.5).setDepth(0.5);
 
     background.setDepth(0);
     foreground.setDepth(1);
@@ -63,8 +67,8 @@ export class MapManager {
       row.filter(t => t && t.index > 0).map(t => ({ x: t.x, y: y, gid: t.index }))
     );
 
-    const goldTeamPositions = startingPositionsData.filter(pos => pos.gid === 595);
-    const navyTeamPositions = startingPositionsData.filter(pos => pos.gid === 563);
+    const goldTeamPositions = startingPositionsData.filter(pos => pos.gid === STARTING_POINT_GIDS.player1);
+    const navyTeamPositions = startingPositionsData.filter(pos => pos.gid === STARTING_POINT_GIDS.player2);
 
     // CRITICAL: Populate the MapRegistry with starting positions
     mapRegistry.setStartingPositions(s.id, {
@@ -11,6 +11,7 @@ export class MapRegistry {
   private startingPositions: Map<string, MapStartingPositions> = new Map()
   private capturePoints: Map<string, StartingPosition[]> = new Map()
   private blockedTiles: Map<string, { x: number; y: number }[]> = new Map()
+  private terrainTiles: Map<string, StartingPosition[]> = new Map()
   private isLoaded = false
 
   static getInstance(): MapRegistry {
@@ -60,6 +61,16 @@ export class MapRegistry {
     return this.blockedTiles.get(mapId)
   }
 
+  // Set hallway and conference room tiles for a map
+  setTerrainTiles(mapId: string, tiles: StartingPosition[]): void {
+    this.terrainTiles.set(mapId, tiles)
+  }
+
+  // Get hallway and conference room tiles for a map
+  getTerrainTiles(mapId: string): StartingPosition[] | undefined {
+    return this.terrainTiles.get(mapId)
+  }
+
   // Check if all maps are loaded
   isFullyLoaded(): boolean {
     return this.isLoaded
@@ -13,6 +13,7 @@ export const MAPS: Record<string, MapSpec> = {
     foregroundLayerName: "Foreground",
     capturePointsLayerName: "CapturePoints",
     startingPositionsLayerName: "StartingPoints", // Fixed from "StartingPositions"
+    terrainLayerName: "Terrain",
     targetTileSizePx: 48,
     width: 16,
     height: 12,
@@ -11,6 +11,7 @@ export type MapSpec = {
   foregroundLayerName: string; // blocking walls/objects
   capturePointsLayerName: string; // strategic locations
   startingPositionsLayerName: string; // team spawn points
+  terrainLayerName: string; // hallways and conference rooms
   targetTileSizePx: number; // 48 (game logic grid)
   width: number;            // map width in tiles
   height: number;           // map height in tiles
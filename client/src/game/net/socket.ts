@@ -0,0 +1,21 @@
+import { io, type Socket } from 'socket.io-client'
+import type { ClientEvents, ServerEvents } from 'shared'
+import { config } from '../../lib/config'
+
+export type GameSocket = Socket<ServerEvents, ClientEvents>
+
+// How long to wait for the server to answer a request before giving up on it
+export const ACK_TIMEOUT_MS = 10 * 1000
+
+let socket: GameSocket | null = null
+
+/**
+ * Get the connection to the game server, created on first use.
+ * It doesn't connect until asked, so single-player games never open one.
+ */
+export function getSocket(): GameSocket {
+  if (!socket) {
+    socket = io(config.SOCKET_URL, { autoConnect: false })
+  }
+  return socket
+}
@@ -0,0 +1,64 @@
+import type { MatchRecord } from 'shared'
+import { downloadJson } from '../../lib/jsonFile'
+
+// Recorded matches are kept in localStorage, newest first
+const STORAGE_KEY = 'hrmageddon.replays'
+const MAX_STORED_REPLAYS = 10
+
+/**
+ * Get the recorded matches saved in this browser
+ * @returns Saved records, newest first; an empty list if none are saved or storage is unreadable
+ */
+export function loadReplays(): MatchRecord[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    return raw ? (JSON.parse(raw) as MatchRecord[]) : []
+  } catch (error) {
+    console.warn('Failed to read saved replays:', error)
+    return []
+  }
+}
+
+/**
+ * Save a recorded match, replacing an earlier save of the same match
+ * @param record - The match to save
+ */
+export function saveReplay(record: MatchRecord): void {
+  const replays = [record, ...loadReplays().filter(r => r.id !== record.id)].slice(0, MAX_STORED_REPLAYS)
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(replays))
+  } catch (error) {
+    console.warn('Failed to save replay:', error)
+  }
+}
+
+/**
+ * Remove a saved match
+ * @param id - Id of the match to remove
+ */
+export function deleteReplay(id: string): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(loadReplays().filter(r => r.id !== id)))
+}
+
+/**
+ * Download a recorded match as a JSON file to share with teammates
+ * @param record - The match to download
+ */
+export function downloadReplay(record: MatchRecord): void {
+  downloadJson(`hrmageddon-replay-${record.id}.json`, record)
+}
+
+/**
+ * Read a recorded match from a downloaded JSON file
+ * @param json - Contents of the file
+ * @returns The record, or undefined if the file isn't a replay
+ */
+export function parseReplay(json: string): MatchRecord | undefined {
+  try {
+    const record = JSON.parse(json) as MatchRecord
+    if (typeof record.id !== 'string' || !record.startingState || !Array.isArray(record.actions)) return undefined
+    return record
+  } catch {
+    return undefined
+  }
+}
@@ -1,6 +1,7 @@
 import Phaser from 'phaser';
 import { useBoardStore } from '../../stores/boardStore';
 import { MAPS } from '../map/registry';
+import { gameEvents } from '../events/GameEventBus';
 
 export interface ResponsiveMapConfig {
   minTileSize: number;    // 28px - mobile minimum (touch-friendly)
@@ -204,9 +205,7 @@ export class ResponsiveGameManager {
     this.updateTileSprites();
     
     // Emit resize event for UI components
-    window.dispatchEvent(new CustomEvent('gameBoardResized', {
-      detail: { tileSize: this.currentTileSize, width: newWidth, height: newHeight }
-    }));
+    gameEvents.emit('board_resized', { tileSize: this.currentTileSize, width: newWidth, height: newHeight });
   }
   
   private updateTileSprites(): void {
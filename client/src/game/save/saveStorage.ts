@@ -0,0 +1,57 @@
+import type { GameSnapshot } from 'shared'
+import { downloadJson } from '../../lib/jsonFile'
+
+// The latest autosave is kept in localStorage so a refresh doesn't lose the match
+const AUTOSAVE_KEY = 'hrmageddon.autosave'
+
+/**
+ * Store a snapshot as the autosave, replacing the previous one
+ * @param snapshot - The snapshot to store
+ */
+export function writeAutosave(snapshot: GameSnapshot): void {
+  try {
+    localStorage.setItem(AUTOSAVE_KEY, JSON.stringify(snapshot))
+  } catch (error) {
+    console.warn('Failed to autosave:', error)
+  }
+}
+
+/**
+ * Get the autosave as it was stored, before any migration
+ * @returns The stored snapshot, or undefined if there is none or it can't be read
+ */
+export function readAutosave(): GameSnapshot | undefined {
+  try {
+    const raw = localStorage.getItem(AUTOSAVE_KEY)
+    return raw ? (JSON.parse(raw) as GameSnapshot) : undefined
+  } catch (error) {
+    console.warn('Failed to read autosave:', error)
+    return undefined
+  }
+}
+
+/** Forget the autosave once its match is over */
+export function clearAutosave(): void {
+  localStorage.removeItem(AUTOSAVE_KEY)
+}
+
+/**
+ * Download a snapshot as a JSON file
+ * @param snapshot - The snapshot to download
+ */
+export function downloadSave(snapshot: GameSnapshot): void {
+  downloadJson(`hrmageddon-save-turn-${snapshot.state.turnNumber}.json`, snapshot)
+}
+
+/**
+ * Read a downloaded save file
+ * @param json - Contents of the file
+ * @returns The parsed contents, to be checked with getSnapshotError, or undefined if it isn't JSON
+ */
+export function parseSave(json: string): unknown {
+  try {
+    return JSON.parse(json)
+  } catch {
+    return undefined
+  }
+}
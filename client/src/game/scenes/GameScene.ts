@@ -3,14 +3,17 @@ import { useGameStore } from '../../stores/gameStore'
 import { useUIStore } from '../../stores/uiStore'
 import { useUnitStore } from '../../stores/unitStore'
 import { useBoardStore } from '../../stores/boardStore'
-import { TileType, type Unit, type Tile, type Coordinate, AbilityTargetingType } from 'shared'
+import { useCombatLogStore } from '../../stores/logStore'
+import { TileType, type Unit, type Tile, type Coordinate, AbilityTargetingType, getAreaTiles, getCaptureTurns, getDirection, hasLineOfSight } from 'shared'
 import { getAbilityById, getValidTargets } from '../core/abilities.ts'
-import { getTilesInCone } from '../core/targeting'
+import { dataManager } from '../data/DataManager'
 import { MAPS } from '../map/registry'
 import { MapManager } from '../map/MapManager'
 import { GridOverlay } from '../debug/GridOverlay'
 import { VisualEffectsPool } from '../visuals/VisualEffectsPool'
 import { actionHandlers } from '../../stores/actionHandlers'
+import { gameEvents } from '../events/GameEventBus'
+import { describeForecast, type CombatForecast } from '../core/forecast'
 
 // ===== GAME SCENE CONFIGURATION =====
 const VISUAL_CONFIG = {
@@ -28,6 +31,10 @@ const VISUAL_CONFIG = {
       PLAYER1_CUBICLE: 0xfbbf24, // Amber-400 (Bright gold for Player 1)
       PLAYER2_CUBICLE: 0x3b82f6, // Blue-500 (Bright blue for Player 2 - more distinct from gray)
     },
+    HAZARDS: {
+      ground_flames: 0xea580c,  // Orange-600 (Burning ground)
+      DEFAULT: 0xa855f7,        // Purple-500 (Any other hazard)
+    } as Record<string, number>,
     UNITS: {
       PLAYER1: 0xf59e0b,       // Amber-500 (Corporate gold)
       PLAYER2: 0x57534e,       // Stone-600 (Corporate gray)
@@ -35,6 +42,12 @@ const VISUAL_CONFIG = {
       HP_BAR_FILL: 0x16a34a,   // Green-600 (kept for healing)
       SELECTION_BORDER: 0xf59e0b, // Amber-500 (Corporate gold)
       HOVER_BORDER: 0x78716c,  // Stone-500 (Corporate gray)
+      FACING_ARC: 0xfafaf9,    // Stone-50 (Front arc under each unit)
+      LOG_HIGHLIGHT: 0xfacc15, // Yellow-400 (Units of the combat log entry picked in the HUD)
+    },
+    FORECAST: {
+      BACKGROUND: 0x0f172a,    // Slate-900 (Tooltip panel)
+      BORDER: 0xef4444,        // Red-500 (Matches attack highlights)
     },
     HIGHLIGHTS: {
       MOVEMENT: 0x78716c,      // Stone-500 (Corporate gray for movement)
@@ -45,6 +58,7 @@ const VISUAL_CONFIG = {
       MOVEMENT_BORDER: 0x57534e, // Stone-600 (Darker border for movement)
       ATTACK_BORDER: 0xdc2626,   // Red-600 (Darker border for attack)
       ABILITY_BORDER: 0xd97706,  // Amber-600 (Darker border for abilities)
+      INVALID: 0x6b7280,         // Gray-500 (In range but out of sight)
     }
   },
   
@@ -58,10 +72,15 @@ const VISUAL_CONFIG = {
     SELECTION_BORDER_WIDTH: 3,
     HOVER_BORDER_WIDTH: 2,
     HOVER_ALPHA: 0.9,
+    FACING_ARC_RADIUS: 28,
+    FACING_ARC_ALPHA: 0.55,
+    LOG_HIGHLIGHT_RADIUS: 25,
+    LOG_HIGHLIGHT_WIDTH: 3,
   },
   
   // Highlight Properties
   HIGHLIGHT: {
+    HAZARD_ALPHA: 0.45,
     MOVEMENT_ALPHA: 0.4,
     ATTACK_ALPHA: 0.4,
     ATTACK_RANGE_ALPHA: 0.4,
@@ -72,6 +91,14 @@ const VISUAL_CONFIG = {
     OVERLAY_ENABLED: true, // Use transparent overlays instead of borders
   },
   
+  // Forecast tooltip next to the enemy under the pointer
+  FORECAST: {
+    FONT_SIZE: '12px',
+    PADDING: 6,
+    ALPHA: 0.92,
+    OFFSET: 4,
+  },
+  
   // Animation
   ANIMATION: {
     MOVEMENT_DURATION: 250,
@@ -88,12 +115,19 @@ export class GameScene extends Phaser.Scene {
   private unsubscribe?: () => void
   private unsubscribeUI?: () => void
   private unsubscribeUnits?: () => void
+  private unsubscribeBoard?: () => void
+  private unsubscribeLog?: () => void
+  private unsubscribeEvents: (() => void)[] = []
   private isDestroyed: boolean = false
   private lastSelectedAbility?: string // Track ability changes for synchronization
+  private forecastTooltip?: Phaser.GameObjects.Container
+  private shownForecast?: CombatForecast
   
   // Action menu integration
   private validTargets: (Unit | Coordinate)[] = []
   private abilityTargetGraphics!: Phaser.GameObjects.Graphics
+  private hazardGraphics!: Phaser.GameObjects.Graphics
+  private captureGraphics!: Phaser.GameObjects.Graphics
 
   // Map management
   private mapMgr!: MapManager
@@ -140,6 +174,8 @@ export class GameScene extends Phaser.Scene {
     this.tileGraphics = this.add.graphics()
     this.highlightGraphics = this.add.graphics()
     this.abilityTargetGraphics = this.add.graphics()
+    this.hazardGraphics = this.add.graphics()
+    this.captureGraphics = this.add.graphics()
     
     // Initialize visual effects pool
     this.visualEffectsPool = new VisualEffectsPool(this)
@@ -165,6 +201,14 @@ export class GameScene extends Phaser.Scene {
     this.tileToWorld = created.tileToWorld
     this.worldToTile = created.worldToTile
     this._isBlocked   = created.isBlocked
+
+    // The board may have been built before the tilemap was parsed; make sure its walls are obstacles
+    useBoardStore.getState().markObstacles(
+      Array.from(created.blocked, (key) => {
+        const [x, y] = key.split(',').map(Number)
+        return { x, y }
+      })
+    )
     
 
     
@@ -220,6 +264,7 @@ export class GameScene extends Phaser.Scene {
         })
         
         this.updateHighlights(uiState.highlightedTiles, unitState.selectedUnit)
+        this.updateForecastTooltip(uiState.targetForecasts.find(f => f.targetId === uiState.hoveredTargetId))
       } catch (error) {
         console.error('Error in UI store subscription:', error)
       }
@@ -246,6 +291,35 @@ export class GameScene extends Phaser.Scene {
       }
     })
     
+    // Subscribe to board store changes so hazards appear and expire with the rules state
+    this.unsubscribeBoard = useBoardStore.subscribe((boardState, previousBoardState) => {
+      if (this.isDestroyed || boardState.board === previousBoardState.board) return
+      this.drawHazards(boardState.board)
+      this.drawCaptureProgress(boardState.board)
+    })
+    
+    // Ring the units of the combat log entry picked in the HUD
+    this.unsubscribeLog = useCombatLogStore.subscribe((logState, previousLogState) => {
+      if (this.isDestroyed || logState.highlightedUnitIds === previousLogState.highlightedUnitIds) return
+      this.updateLogHighlights(logState.highlightedUnitIds)
+    })
+    
+    // Follow the HUD's action choices and place the action menu over selected units
+    this.unsubscribeEvents = [
+      gameEvents.on('action_mode_changed', ({ mode, abilityId }) => {
+        if (this.isDestroyed) return
+        if (mode === 'none') {
+          this.clearActionMode()
+        } else {
+          this.setActionMode(mode, abilityId)
+        }
+      }),
+      gameEvents.on('unit_selected', ({ unit, canControl }) => {
+        if (this.isDestroyed || !canControl) return
+        useUIStore.getState().setActionMenu(this.tileToWorld(unit.position.x, unit.position.y))
+      }),
+    ]
+    
     // Subscribe to game store changes
     this.unsubscribe = useGameStore.subscribe(() => {
       try {
@@ -330,6 +404,7 @@ export class GameScene extends Phaser.Scene {
     // Mobile touch optimizations
     this.input.on('pointerover', this.handlePointerOver, this)
     this.input.on('pointerout', this.handlePointerOut, this)
+    this.input.on('pointermove', this.handleForecastHover, this)
     
     // Prevent zoom on mobile devices
     this.input.on('wheel', (_pointer: Phaser.Input.Pointer, _gameObjects: Phaser.GameObjects.GameObject[], _deltaX: number, deltaY: number, _deltaZ: number) => {
@@ -426,6 +501,9 @@ export class GameScene extends Phaser.Scene {
       
       // Set the highest depth to ensure ownership overlays are on top
       this.tileGraphics.setDepth(200)
+
+      this.drawHazards(board)
+      this.drawCaptureProgress(board)
       
       console.log('Board drawing complete:', {
         totalTiles: board.length * board[0].length,
@@ -440,6 +518,53 @@ export class GameScene extends Phaser.Scene {
     }
   }
 
+  // Hazards come and go, so unlike ownership overlays they are redrawn from scratch
+  // Progress bar along the bottom of cubicles that are part-way through a multi-turn capture
+  private drawCaptureProgress(board: Tile[][]) {
+    if (!this.captureGraphics) return
+
+    this.captureGraphics.clear()
+    this.captureGraphics.setDepth(215)
+
+    const required = getCaptureTurns(dataManager.getRulesData())
+    for (const tile of board.flat()) {
+      if (!tile.captureProgress) continue
+
+      const { x: wx, y: wy } = this.tileToWorld(tile.x, tile.y)
+      const barHeight = Math.max(3, this.tileSizePx * 0.12)
+      const barY = wy + this.tileSizePx - barHeight
+      const color = tile.captureProgress.playerId === 'player1'
+        ? VISUAL_CONFIG.COLORS.OWNERSHIP.PLAYER1_CUBICLE
+        : VISUAL_CONFIG.COLORS.OWNERSHIP.PLAYER2_CUBICLE
+
+      this.captureGraphics.fillStyle(VISUAL_CONFIG.COLORS.UNITS.HP_BAR_BG, 0.6)
+      this.captureGraphics.fillRect(wx, barY, this.tileSizePx, barHeight)
+      this.captureGraphics.fillStyle(color, 1)
+      this.captureGraphics.fillRect(wx, barY, this.tileSizePx * Math.min(1, tile.captureProgress.turns / required), barHeight)
+    }
+  }
+
+  private drawHazards(board: Tile[][]) {
+    if (!this.hazardGraphics) return
+
+    this.hazardGraphics.clear()
+    // Above ownership overlays so burning cubicles are still visible
+    this.hazardGraphics.setDepth(210)
+
+    for (const tile of board.flat()) {
+      if (!tile.hazard) continue
+
+      const { x: wx, y: wy } = this.tileToWorld(tile.x, tile.y)
+      const color = VISUAL_CONFIG.COLORS.HAZARDS[tile.hazard.visual_effect] ?? VISUAL_CONFIG.COLORS.HAZARDS.DEFAULT
+      const inset = this.tileSizePx * 0.15
+
+      this.hazardGraphics.fillStyle(color, VISUAL_CONFIG.HIGHLIGHT.HAZARD_ALPHA)
+      this.hazardGraphics.fillRect(wx, wy, this.tileSizePx, this.tileSizePx)
+      this.hazardGraphics.lineStyle(2, color, 0.9)
+      this.hazardGraphics.strokeRect(wx + inset, wy + inset, this.tileSizePx - inset * 2, this.tileSizePx - inset * 2)
+    }
+  }
+
   private drawUnits(units: Unit[]) {
     try {
       // remove containers that no longer exist
@@ -458,6 +583,10 @@ export class GameScene extends Phaser.Scene {
         if (existing) {
           this.tweens.add({ targets: existing, x: targetX, y: targetY, duration: VISUAL_CONFIG.ANIMATION.MOVEMENT_DURATION, ease: 'Power2' })
           
+          // Turn the front arc with the unit
+          const facingArc = existing.getByName('facingArc') as Phaser.GameObjects.Graphics
+          if (facingArc) this.drawFacingArc(facingArc, unit.direction)
+
           // Update HP bar width
           const hpFill = existing.getByName('hpFill') as Phaser.GameObjects.Rectangle
           if (hpFill) hpFill.width = VISUAL_CONFIG.UNIT.HP_BAR_WIDTH * (unit.hp / unit.maxHp)
@@ -478,6 +607,8 @@ export class GameScene extends Phaser.Scene {
 
         const container = this.add.container(targetX, targetY).setDepth(50)
         const circleColor = unit.playerId === 'player1' ? VISUAL_CONFIG.COLORS.UNITS.PLAYER1 : VISUAL_CONFIG.COLORS.UNITS.PLAYER2 // Gold vs Navy
+        const facingArc = this.add.graphics().setName('facingArc')
+        this.drawFacingArc(facingArc, unit.direction)
         const circle = this.add.circle(0, 0, VISUAL_CONFIG.UNIT.CIRCLE_RADIUS, circleColor).setName('circle')
         const label = this.add.text(0, 0, unit.type.charAt(0).toUpperCase(), { color: '#fff', fontSize: VISUAL_CONFIG.UNIT.FONT_SIZE }).setName('label')
         label.setOrigin(0.5)
@@ -499,7 +630,12 @@ export class GameScene extends Phaser.Scene {
           hpFill.setAlpha(1.0)
         }
         
-        container.add([circle, label, hpBg, hpFill])
+        const logHighlight = this.add.circle(0, 0, VISUAL_CONFIG.UNIT.LOG_HIGHLIGHT_RADIUS)
+          .setStrokeStyle(VISUAL_CONFIG.UNIT.LOG_HIGHLIGHT_WIDTH, VISUAL_CONFIG.COLORS.UNITS.LOG_HIGHLIGHT)
+          .setVisible(useCombatLogStore.getState().highlightedUnitIds.includes(unit.id))
+          .setName('logHighlight')
+        
+        container.add([facingArc, logHighlight, circle, label, hpBg, hpFill])
         
         // Make the container interactive with proper hit area
         container.setSize(this.tileSizePx, this.tileSizePx)
@@ -540,6 +676,25 @@ export class GameScene extends Phaser.Scene {
     }
   }
 
+  // Show the ring around highlighted units and hide it on the rest
+  private updateLogHighlights(unitIds: string[]) {
+    this.unitSprites.forEach((container, id) => {
+      const ring = container.getByName('logHighlight') as Phaser.GameObjects.Arc
+      if (ring) ring.setVisible(unitIds.includes(id))
+    })
+  }
+
+  // Wedge poking out of the unit on its front side; hits from outside it land on the side or back for bonus damage
+  private drawFacingArc(arc: Phaser.GameObjects.Graphics, direction: Unit['direction']) {
+    const angles: Record<Unit['direction'], number> = { right: 0, down: 90, left: 180, up: 270 }
+    const centre = angles[direction]
+
+    arc.clear()
+    arc.fillStyle(VISUAL_CONFIG.COLORS.UNITS.FACING_ARC, VISUAL_CONFIG.UNIT.FACING_ARC_ALPHA)
+    arc.slice(0, 0, VISUAL_CONFIG.UNIT.FACING_ARC_RADIUS, Phaser.Math.DegToRad(centre - 45), Phaser.Math.DegToRad(centre + 45))
+    arc.fillPath()
+  }
+
   private updateHighlights(highlighted: Map<string, string>, selectedUnit?: Unit) {
     try {
       if (!this.highlightGraphics) {
@@ -707,6 +862,7 @@ export class GameScene extends Phaser.Scene {
     // Handle different targeting types
     switch (ability.targetingType) {
       case AbilityTargetingType.AOE_CONE:
+      case AbilityTargetingType.DIRECTIONAL:
         this.showConePreview(selectedUnit, ability)
         break
       case AbilityTargetingType.AOE_CIRCLE:
@@ -720,7 +876,7 @@ export class GameScene extends Phaser.Scene {
   }
 
   // Show the range area for an ability
-  private showAbilityRange(caster: Unit, ability: { name: string; range: number; targetType: string }) {
+  private showAbilityRange(caster: Unit, ability: { name: string; range: number; targetType: string; indirect?: boolean }) {
     console.log('showAbilityRange called for:', ability.name, 'with range:', ability.range)
     console.log('Caster position:', caster.position)
     
@@ -756,6 +912,8 @@ export class GameScene extends Phaser.Scene {
     // Draw range highlight for all tiles within range
     const range = ability.range || 1
     let tilesHighlighted = 0
+    const sightState = { board: useBoardStore.getState().board, units: useUnitStore.getState().units }
+    const rulesData = dataManager.getRulesData()
     
     console.log('Drawing range highlights for range:', range)
     
@@ -775,12 +933,14 @@ export class GameScene extends Phaser.Scene {
             
             console.log(`Highlighting tile at (${targetX}, ${targetY}) -> screen (${px}, ${py})`)
             
-            // Draw range highlight
-            this.abilityTargetGraphics.fillStyle(rangeColor, rangeAlpha)
+            // Draw range highlight, grayed out where a wall blocks the caster's line of sight
+            const inSight = !!ability.indirect || hasLineOfSight(caster.position, { x: targetX, y: targetY }, sightState, rulesData)
+            const tileColor = inSight ? rangeColor : VISUAL_CONFIG.COLORS.HIGHLIGHTS.INVALID
+            this.abilityTargetGraphics.fillStyle(tileColor, rangeAlpha)
             this.abilityTargetGraphics.fillRect(px, py, this.tileSizePx, this.tileSizePx)
             
             // Add subtle border
-            this.abilityTargetGraphics.lineStyle(1, rangeColor, rangeAlpha + 0.2)
+            this.abilityTargetGraphics.lineStyle(1, tileColor, rangeAlpha + 0.2)
             this.abilityTargetGraphics.strokeRect(px, py, this.tileSizePx, this.tileSizePx)
             
             tilesHighlighted++
@@ -851,44 +1011,20 @@ export class GameScene extends Phaser.Scene {
     })
   }
 
-  private showConePreview(caster: Unit, ability: { range: number; coneAngle?: number; requiresDirection?: boolean }) {
-    // For cone abilities, show a preview of the cone area
+  private showConePreview(caster: Unit, ability: { range_pattern_key?: string; requiresDirection?: boolean }) {
     // Check if this is a directional ability awaiting direction input
     const uiStore = useUIStore.getState()
     if (ability.requiresDirection && uiStore.abilityAwaitingDirection) {
       // Start listening for pointer movement to draw the preview
       this.input.on('pointermove', this.updateConePreview, this)
       console.log('Cone preview mode activated - listening for mouse movement')
-      return
     }
     
-    // Default cone preview (facing right)
-    const { x: casterX, y: casterY } = this.tileToWorld(caster.position.x, caster.position.y)
-    const casterCenterX = casterX + this.tileSizePx / 2
-    const casterCenterY = casterY + this.tileSizePx / 2
-    
-    // Draw cone preview (simplified for now - can be enhanced with mouse tracking)
-    const coneRadius = (ability.range || 3) * this.tileSizePx
-    const coneAngle = (ability.coneAngle || 90) * Math.PI / 180 // Convert to radians
-    
-    // Draw cone outline
-    this.abilityTargetGraphics.lineStyle(VISUAL_CONFIG.HIGHLIGHT.BORDER_WIDTH, VISUAL_CONFIG.COLORS.HIGHLIGHTS.ABILITY_AOE, VISUAL_CONFIG.HIGHLIGHT.ABILITY_ALPHA)
-    this.abilityTargetGraphics.beginPath()
-    this.abilityTargetGraphics.moveTo(casterCenterX, casterCenterY)
-    
-    // Draw cone arc (facing right for now)
-    const startAngle = -coneAngle / 2
-    const endAngle = coneAngle / 2
-    this.abilityTargetGraphics.arc(casterCenterX, casterCenterY, coneRadius, startAngle, endAngle)
-    this.abilityTargetGraphics.lineTo(casterCenterX, casterCenterY)
-    this.abilityTargetGraphics.strokePath()
-    
-    // Fill cone area
-    this.abilityTargetGraphics.fillStyle(VISUAL_CONFIG.COLORS.HIGHLIGHTS.ABILITY_AOE, VISUAL_CONFIG.HIGHLIGHT.AOE_ALPHA)
-    this.abilityTargetGraphics.fill()
+    // Until the pointer moves, preview the pattern the way the caster currently faces
+    this.drawAreaPreview(caster, ability.range_pattern_key, caster.direction)
   }
 
-  // NEW METHOD to dynamically draw the cone preview
+  // Dynamically redraw the area as the pointer picks a direction
   private updateConePreview(pointer: Phaser.Input.Pointer) {
     const unitState = useUnitStore.getState()
     const uiStore = useUIStore.getState()
@@ -904,34 +1040,68 @@ export class GameScene extends Phaser.Scene {
     const ability = getAbilityById(abilityId, caster)
     if (!ability) return
 
-    const { x: tileX, y: tileY } = this.worldToTile(pointer.x, pointer.y)
-    const direction = { x: tileX - caster.position.x, y: tileY - caster.position.y }
+    const pointerTile = this.worldToTile(pointer.x, pointer.y)
+    if (pointerTile.x === caster.position.x && pointerTile.y === caster.position.y) return
+
+    this.drawAreaPreview(caster, ability.range_pattern_key, getDirection(caster.position, pointerTile))
+  }
+
+  private showCirclePreview(caster: Unit, ability: { range_pattern_key?: string }) {
+    // Bursts are centered on the caster, so facing does not matter
+    this.drawAreaPreview(caster, ability.range_pattern_key, caster.direction)
+  }
+
+  // Fill exactly the tiles the rules engine will resolve the ability against
+  private drawAreaPreview(caster: Unit, patternKey: string | undefined, direction: Unit['direction']) {
+    const pattern = patternKey ? dataManager.getAttackPattern(patternKey) : undefined
+    if (!pattern) return
 
-    const affectedTiles = getTilesInCone(caster.position, direction, ability.range, ability.coneAngle || 90)
+    const board = useBoardStore.getState().board
+    const affectedTiles = getAreaTiles(caster, pattern, board, direction)
 
-    // Draw the highlight for all affected tiles
     this.abilityTargetGraphics.fillStyle(VISUAL_CONFIG.COLORS.HIGHLIGHTS.ABILITY_AOE, VISUAL_CONFIG.HIGHLIGHT.AOE_ALPHA)
+    this.abilityTargetGraphics.lineStyle(VISUAL_CONFIG.HIGHLIGHT.BORDER_WIDTH, VISUAL_CONFIG.COLORS.HIGHLIGHTS.ABILITY_BORDER, VISUAL_CONFIG.HIGHLIGHT.ABILITY_ALPHA)
     affectedTiles.forEach(tile => {
       const { x: px, y: py } = this.tileToWorld(tile.x, tile.y)
       this.abilityTargetGraphics.fillRect(px, py, this.tileSizePx, this.tileSizePx)
+      this.abilityTargetGraphics.strokeRect(px, py, this.tileSizePx, this.tileSizePx)
     })
   }
 
-  private showCirclePreview(caster: Unit, ability: { range: number; aoeRadius?: number }) {
-    // For circle AOE abilities, show the area of effect
-    const { x: casterX, y: casterY } = this.tileToWorld(caster.position.x, caster.position.y)
-    const casterCenterX = casterX + this.tileSizePx / 2
-    const casterCenterY = casterY + this.tileSizePx / 2
-    
-    const aoeRadius = (ability.aoeRadius || 2) * this.tileSizePx
-    
-    // Draw circle outline
-    this.abilityTargetGraphics.lineStyle(VISUAL_CONFIG.HIGHLIGHT.BORDER_WIDTH, VISUAL_CONFIG.COLORS.HIGHLIGHTS.ABILITY_AOE, VISUAL_CONFIG.HIGHLIGHT.ABILITY_ALPHA)
-    this.abilityTargetGraphics.strokeCircle(casterCenterX, casterCenterY, aoeRadius)
-    
-    // Fill circle area
-    this.abilityTargetGraphics.fillStyle(VISUAL_CONFIG.COLORS.HIGHLIGHTS.ABILITY_AOE, VISUAL_CONFIG.HIGHLIGHT.AOE_ALPHA)
-    this.abilityTargetGraphics.fill()
+  // Pointing at an enemy in reach shows what the current attack or ability would do to it
+  private handleForecastHover(pointer: Phaser.Input.Pointer) {
+    if (this.isDestroyed) return
+    const uiStore = useUIStore.getState()
+    if (uiStore.targetForecasts.length === 0) return
+
+    const unit = useUnitStore.getState().getUnitAt(this.worldToTile(pointer.x, pointer.y))
+    const forecast = unit && uiStore.targetForecasts.find(f => f.targetId === unit.id)
+    uiStore.setHoveredTarget(forecast ? forecast.targetId : null)
+  }
+
+  private updateForecastTooltip(forecast: CombatForecast | undefined) {
+    if (forecast === this.shownForecast) return
+    this.shownForecast = forecast
+    this.forecastTooltip?.destroy()
+    this.forecastTooltip = undefined
+
+    const target = forecast && useUnitStore.getState().getUnitById(forecast.targetId)
+    if (!forecast || !target) return
+
+    const { PADDING, OFFSET, FONT_SIZE, ALPHA } = VISUAL_CONFIG.FORECAST
+    const text = this.add.text(PADDING, PADDING, describeForecast(forecast, target).join('\n'), { color: '#f8fafc', fontSize: FONT_SIZE })
+    const width = text.width + PADDING * 2
+    const height = text.height + PADDING * 2
+    const background = this.add.rectangle(0, 0, width, height, VISUAL_CONFIG.COLORS.FORECAST.BACKGROUND, ALPHA)
+      .setOrigin(0)
+      .setStrokeStyle(1, VISUAL_CONFIG.COLORS.FORECAST.BORDER)
+
+    // Right of the target, or left of it when that would run off the board
+    const { x: wx, y: wy } = this.tileToWorld(target.position.x, target.position.y)
+    const camera = this.cameras.main
+    const x = wx + this.tileSizePx + OFFSET + width > camera.width ? wx - OFFSET - width : wx + this.tileSizePx + OFFSET
+    const y = Phaser.Math.Clamp(wy, 0, Math.max(0, camera.height - height))
+    this.forecastTooltip = this.add.container(Math.max(0, x), y, [background, text]).setDepth(400)
   }
 
   // Mobile touch event handlers
@@ -959,6 +1129,7 @@ export class GameScene extends Phaser.Scene {
 
   private handleClick(pointer: Phaser.Input.Pointer) {
     if (this.isDestroyed) return
+    if (useGameStore.getState().gameMode === 'replay') return // Replays are watch-only
 
     const uiState = useUIStore.getState()
     const unitState = useUnitStore.getState()
@@ -1008,6 +1179,15 @@ export class GameScene extends Phaser.Scene {
         // This logic is already correctly implemented from the previous prompt.
         // The click is handled by the block at the top of the function.
         const ability = getAbilityById(uiState.selectedAbility!, unitState.selectedUnit)
+        const caster = unitState.selectedUnit
+        if (ability && uiState.abilityAwaitingDirection) {
+          // Directional abilities accept any tile: it only picks which way the pattern points
+          if (tileX !== caster.position.x || tileY !== caster.position.y) {
+            gameState.useAbility(caster.id, uiState.selectedAbility!, targetCoord)
+          }
+          actionHandlers.cancelAction()
+          return
+        }
         if (ability) {
           const validTargets = getValidTargets(unitState.selectedUnit, ability, boardState.board, unitState.units)
           const clickedTarget = validTargets.find(target => {
@@ -1025,6 +1205,7 @@ export class GameScene extends Phaser.Scene {
             return
           } else {
             console.log("Invalid target clicked for ability. Cancelling action.")
+            gameEvents.emit('ability_cancelled', { unitId: unitState.selectedUnit.id, abilityId: uiState.selectedAbility! })
             actionHandlers.cancelAction()
             return
           }
@@ -1190,6 +1371,16 @@ export class GameScene extends Phaser.Scene {
       this.unsubscribeUnits()
       this.unsubscribeUnits = undefined
     }
+    if (this.unsubscribeBoard) {
+      this.unsubscribeBoard()
+      this.unsubscribeBoard = undefined
+    }
+    if (this.unsubscribeLog) {
+      this.unsubscribeLog()
+      this.unsubscribeLog = undefined
+    }
+    this.unsubscribeEvents.forEach(unsubscribe => unsubscribe())
+    this.unsubscribeEvents = []
     
     // Clear graphics to prevent further operations
     if (this.tileGraphics) {
@@ -1197,6 +1388,16 @@ export class GameScene extends Phaser.Scene {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       this.tileGraphics = undefined as any
     }
+    if (this.hazardGraphics) {
+      this.hazardGraphics.destroy()
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      this.hazardGraphics = undefined as any
+    }
+    if (this.captureGraphics) {
+      this.captureGraphics.destroy()
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      this.captureGraphics = undefined as any
+    }
     if (this.highlightGraphics) {
       this.highlightGraphics.destroy()
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -1208,6 +1409,9 @@ export class GameScene extends Phaser.Scene {
       this.abilityTargetGraphics = undefined as any
     }
     
+    this.forecastTooltip?.destroy()
+    this.forecastTooltip = undefined
+    
     // Clear unit sprites
     this.unitSprites.forEach(container => {
       if (container && container.destroy) {
@@ -11,6 +11,7 @@ export function createMockUnit(overrides: Partial<Unit> = {}): Unit {
     moveRange: 2,
     attackRange: 1,
     attackDamage: 3,
+    defense: 0,
     actionsRemaining: 2,
     maxActions: 2,
     hasMoved: false,
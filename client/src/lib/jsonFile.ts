@@ -0,0 +1,16 @@
+// client/src/lib/jsonFile.ts
+
+/**
+ * Let the player download data as a pretty-printed JSON file
+ * @param filename - Name of the downloaded file
+ * @param data - Anything JSON can hold
+ */
+export function downloadJson(filename: string, data: unknown): void {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
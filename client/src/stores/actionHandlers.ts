@@ -4,7 +4,8 @@ import { useUnitStore } from './unitStore'
 import { useBoardStore } from './boardStore'
 import { getAbilityById, getValidTargets } from '../game/core/abilities'
 import { dataManager } from '../game/data/DataManager'
-import { type Unit, type Coordinate } from 'shared'
+import { getTargetForecast, type CombatForecast } from '../game/core/forecast'
+import { type Unit, type Coordinate, HighlightType, hasLineOfSight, isIndirectAttack } from 'shared'
 
 /**
  * Action handlers that coordinate between UI store and game store
@@ -42,6 +43,24 @@ function getRangeTilesFromPattern(unit: Unit, patternKey: string): Coordinate[]
   return rangeTiles
 }
 
+// Range tiles hidden behind a wall are shown as invalid instead of in range
+function getRangeHighlight(unit: Unit, tile: Coordinate, indirect: boolean): string {
+  if (indirect) return 'range'
+
+  const state = { board: useBoardStore.getState().board, units: useUnitStore.getState().units }
+  return hasLineOfSight(unit.position, tile, state, dataManager.getRulesData()) ? 'range' : HighlightType.INVALID
+}
+
+// Forecast hitting each enemy among the targets, for the hover tooltip and the mobile card
+function getForecasts(unit: Unit, targets: (Unit | Coordinate)[], abilityId?: string): CombatForecast[] {
+  const unitStore = useUnitStore.getState()
+  return targets
+    .map(target => ('id' in target ? target : unitStore.getUnitAt(target)))
+    .filter((target): target is Unit => !!target && target.playerId !== unit.playerId)
+    .map(target => getTargetForecast(unit, target, abilityId))
+    .filter((forecast): forecast is CombatForecast => !!forecast)
+}
+
 export const actionHandlers = {
   /**
    * Enter move mode - calculate possible moves and highlight them
@@ -86,8 +105,9 @@ export const actionHandlers = {
     // Create highlights map with both range and target highlights
     const highlights = new Map<string, string>()
     
-    // Add range highlights (light blue/gray)
-    rangeTiles.forEach(tile => highlights.set(`${tile.x},${tile.y}`, 'range'))
+    // Add range highlights (light blue/gray), grayed out where the unit has no line of sight
+    const indirect = isIndirectAttack(unit, dataManager.getRulesData())
+    rangeTiles.forEach(tile => highlights.set(`${tile.x},${tile.y}`, getRangeHighlight(unit, tile, indirect)))
     
     // Add target highlights (red) for valid targets
     targets.forEach(target => highlights.set(`${target.x},${target.y}`, 'target'))
@@ -95,6 +115,7 @@ export const actionHandlers = {
     // Update UI state
     uiStore.setActionMode('attack')
     uiStore.setHighlightedTiles(highlights)
+    uiStore.setTargetForecasts(getForecasts(unit, targets))
     
     console.log('Entered attack mode:', { unitId: unit.id, attackRange: unit.attackRange, patternKey, targetCount: targets.length, rangeCount: rangeTiles.length })
   },
@@ -128,8 +149,8 @@ export const actionHandlers = {
       // Create highlights map with both range and target highlights
       const highlights = new Map<string, string>()
       
-      // Add range highlights (light blue/gray)
-      rangeTiles.forEach(tile => highlights.set(`${tile.x},${tile.y}`, 'range'))
+      // Add range highlights (light blue/gray), grayed out where the caster has no line of sight
+      rangeTiles.forEach(tile => highlights.set(`${tile.x},${tile.y}`, getRangeHighlight(unit, tile, !!ability.indirect)))
       
       // Add target highlights (purple) for valid targets
       validTargets.forEach(target => {
@@ -144,6 +165,7 @@ export const actionHandlers = {
       uiStore.setActionMode('ability')
       uiStore.setSelectedAbility(abilityId)
       uiStore.setHighlightedTiles(highlights)
+      uiStore.setTargetForecasts(getForecasts(unit, validTargets, abilityId))
       
       console.log('Entered ability mode:', { abilityId, unitId: unit.id, targetCount: validTargets.length, rangeCount: rangeTiles.length })
     } catch (error) {
@@ -1,5 +1,5 @@
 import { create } from 'zustand'
-import { type Tile, type Coordinate, TileType } from 'shared'
+import { type Tile, type Coordinate, TileType, CAPTURE_POINT_GID, getTerrainTileType } from 'shared'
 import { mapRegistry } from '../game/map/MapRegistry'
 import { MAPS } from '../game/map/registry'
 
@@ -11,6 +11,7 @@ interface BoardStore {
   setBoard: (board: Tile[][]) => void
   createBoard: () => void
   updateTileOwner: (coord: Coordinate, playerId: string) => void
+  markObstacles: (coords: Coordinate[]) => void
   
   // Queries
   getTileAt: (coord: Coordinate) => Tile | undefined
@@ -19,6 +20,29 @@ interface BoardStore {
   getBoardDimensions: () => { width: number; height: number }
 }
 
+// Turn tilemap walls into OBSTACLE tiles so the rules engine sees them
+function withObstacles(board: Tile[][], coords: Coordinate[]): Tile[][] {
+  const blocked = new Set(coords.map(c => `${c.x},${c.y}`))
+  return board.map(row =>
+    row.map(tile =>
+      tile.type === TileType.NORMAL && blocked.has(`${tile.x},${tile.y}`)
+        ? { ...tile, type: TileType.OBSTACLE }
+        : tile
+    )
+  )
+}
+
+// Turn tilemap terrain into HALLWAY and CONFERENCE_ROOM tiles; walls, HQs and cubicles keep their type
+function withTerrain(board: Tile[][], tiles: { x: number; y: number; gid: number }[]): Tile[][] {
+  const terrain = new Map(tiles.map(t => [`${t.x},${t.y}`, getTerrainTileType(t.gid)]))
+  return board.map(row =>
+    row.map(tile => {
+      const type = terrain.get(`${tile.x},${tile.y}`)
+      return type && tile.type === TileType.NORMAL ? { ...tile, type } : tile
+    })
+  )
+}
+
 // Helper function to create the game board
 function createBoardFromMap(): Tile[][] {
   // Get the actual map dimensions and capture points from the tilemap
@@ -58,7 +82,7 @@ function createBoardFromMap(): Tile[][] {
   // Mark capture points as CUBICLE tiles
   if (capturePoints) {
     capturePoints.forEach((pos: { x: number; y: number; gid: number }) => {
-      if (pos.gid === 472) { // GID 472 = capture point
+      if (pos.gid === CAPTURE_POINT_GID) {
         board[pos.y][pos.x].type = TileType.CUBICLE
         console.log('Marked capture point at:', { x: pos.x, y: pos.y })
       }
@@ -107,10 +131,17 @@ export const useBoardStore = create<BoardStore>((set, get) => ({
   },
 
   createBoard: () => {
-    const board = createBoardFromMap()
+    const board = withTerrain(
+      withObstacles(createBoardFromMap(), mapRegistry.getBlockedTiles('OfficeLayout') || []),
+      mapRegistry.getTerrainTiles('OfficeLayout') || []
+    )
     set({ board })
   },
 
+  markObstacles: (coords) => {
+    set((state) => ({ board: withObstacles(state.board, coords) }))
+  },
+
   updateTileOwner: (coord, playerId) => {
     set((state) => ({
       board: state.board.map((row) =>
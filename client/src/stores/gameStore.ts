@@ -4,35 +4,57 @@ import {
   type Unit,
   type Coordinate,
   type Tile,
-  TileType,
   UnitType,
   type DraftState,
-  StatusType,
+  type GameState,
+  type GameAction,
+  type ActionResult,
+  type MatchRecord,
+  type ReplayFrame,
+  ActionType,
+  applyAction,
+  buildReplayFrames,
+  createGameSnapshot,
+  createMatchRecord,
+  getSnapshotError,
+  migrateSnapshot,
+  type GameSnapshot,
+  prepareVictoryConditions,
+  getUpdateOrder,
+  type MatchResync,
+  type MatchSnapshot,
+  type MatchUpdate,
+  type PlayerController,
+  type PlayerId,
+  type Seat,
 } from 'shared'
 import { AIController } from '../game/ai/ai.ts'
 import { generateAIDraft } from '../game/ai/aiDraft.ts'
 import { canUseAbility, getValidTargets, getAbilityById } from '../game/core/abilities.ts'
 import { mapRegistry } from '../game/map/MapRegistry'
 import { MAPS } from '../game/map/registry'
-import { calculatePossibleMoves as calcMoves, isValidMove as isValidMoveUtil, getDistance, getDirection } from '../game/core/movement'
-import { calculatePossibleTargets as calcTargets, isValidAttack as isValidAttackUtil, calculateDamage } from '../game/core/combat'
-import { checkVictoryConditions as checkVictory } from '../game/core/victory'
+import { calculatePossibleMoves as calcMoves, isValidMove as isValidMoveUtil } from '../game/core/movement'
+import { calculatePossibleTargets as calcTargets, getEnemiesInRange as getEnemiesInRangeUtil, isValidAttack as isValidAttackUtil } from '../game/core/combat'
 import { useUnitStore } from './unitStore'
 import { useBoardStore } from './boardStore'
 import { usePlayerStore } from './playerStore'
 import { useUIStore } from './uiStore'
+import { rebuildCombatLog, useCombatLogStore } from './logStore'
 import { dataManager } from '../game/data/DataManager'
 import { actionHandlers } from './actionHandlers'
-
-// Type for window.gameScene
-interface GameScene {
-  tileToWorld: (x: number, y: number) => { x: number; y: number }
-}
-
-// Extended window interface
-interface ExtendedWindow extends Window {
-  gameScene?: GameScene
-}
+import { getPresetConditions, VICTORY_PRESETS, CAPTURE_SHARE_OPTIONS } from '../config/victoryConfig'
+import { saveReplay } from '../game/replay/replayStorage'
+import { clearAutosave, downloadSave, writeAutosave } from '../game/save/saveStorage'
+import { gameEvents, publishRulesEvents } from '../game/events/GameEventBus'
+import { ACK_TIMEOUT_MS, getSocket } from '../game/net/socket'
+import {
+  HOT_SEAT_CONTROLLERS,
+  VS_AI_CONTROLLERS,
+  getHumanPlayerIds,
+  getLocalPlayerId,
+  getOnlineControllers,
+  needsHandoff,
+} from '../game/core/controllers'
 
 // Helper functions for memoization
 
@@ -67,8 +89,234 @@ function clearMemoizationCache(cache: MemoizationCache) {
   cache.lastBoardHash = null
 }
 
+// Snapshot the slice stores as the GameState the rules engine works on
+function getGameState(): GameState {
+  const unitStore = useUnitStore.getState()
+  const playerStore = usePlayerStore.getState()
+  return {
+    id: 'local-game',
+    units: unitStore.units,
+    board: useBoardStore.getState().board,
+    players: playerStore.players,
+    currentPlayerId: playerStore.currentPlayerId,
+    turnNumber: playerStore.turnNumber,
+    phase: playerStore.phase,
+    selectedUnit: unitStore.selectedUnit,
+    winner: playerStore.winner?.id,
+    victoryReason: playerStore.victoryReason,
+    victoryConditions: playerStore.victoryConditions,
+    captureHoldTurns: playerStore.captureHoldTurns,
+    rngState: playerStore.rngState
+  }
+}
+
+// Write a state produced by the rules engine back into the slice stores
+function commitGameState(state: GameState) {
+  const unitStore = useUnitStore.getState()
+  const playerStore = usePlayerStore.getState()
+
+  const selectedId = unitStore.selectedUnit?.id
+  unitStore.setUnits(state.units)
+  unitStore.selectUnit(state.units.find(u => u.id === selectedId) || null)
+
+  useBoardStore.getState().setBoard(state.board)
+
+  playerStore.setPlayers(state.players)
+  playerStore.setCurrentPlayerId(state.currentPlayerId)
+  playerStore.setTurnNumber(state.turnNumber)
+  if (state.rngState !== undefined) {
+    playerStore.setRngState(state.rngState)
+  }
+  playerStore.setVictoryConditions(state.victoryConditions)
+  playerStore.setCaptureHoldTurns(state.captureHoldTurns)
+  if (state.phase === GamePhase.GAME_OVER) {
+    playerStore.setWinner(state.players.find(p => p.id === state.winner), state.victoryReason)
+  } else {
+    playerStore.setPhase(state.phase)
+  }
+}
+
+// Run an action through the shared rules engine and commit the result
+function dispatchAction(action: GameAction): ActionResult {
+  const before = getGameState()
+
+  // Online the server resolves actions; nothing changes here until its update arrives
+  if (useGameStore.getState().spectating) {
+    return { state: before, events: [], error: 'Spectators can only watch' }
+  }
+  if (useGameStore.getState().onlineSeat) {
+    sendOnlineAction(action)
+    return { state: before, events: [], error: 'Waiting for the server' }
+  }
+
+  const result = applyAction(before, action, dataManager.getRulesData())
+  if (result.error) {
+    console.warn(`Action ${action.type} rejected:`, result.error)
+    return result
+  }
+
+  commitAppliedAction(action, before, result)
+  return result
+}
+
+// Commit an applied action and let the rest of the client know what it did
+function commitAppliedAction(action: GameAction, before: GameState, result: ActionResult) {
+  commitGameState(result.state)
+  recordHistory(action, before, result.state)
+  recordMatchAction(action, result.state)
+  gameEvents.emit('action_applied', { action, events: result.events, before, after: result.state })
+  publishRulesEvents(result.events)
+}
+
+// Ask the server of an online match to apply an action
+function sendOnlineAction(action: GameAction) {
+  void getSocket()
+    .timeout(ACK_TIMEOUT_MS)
+    .emitWithAck('match:action', action)
+    .then((response) => {
+      useGameStore.setState({ onlineError: null })
+      if (!response.ok) console.warn(`Action ${action.type} rejected by the server:`, response.error)
+    })
+    .catch(() => useGameStore.setState({ onlineError: 'The server did not answer. Your last action may not have gone through.' }))
+}
+
+// Ask the server for whatever we missed of an online match, once at a time
+let resyncPending = false
+function requestOnlineResync() {
+  if (resyncPending) return
+  resyncPending = true
+  void getSocket()
+    .timeout(ACK_TIMEOUT_MS)
+    .emitWithAck('match:resync', { lastSeq: useGameStore.getState().onlineSeq })
+    .then((resync) => {
+      const { onlineSeat, resyncOnlineMatch } = useGameStore.getState()
+      useGameStore.setState({ onlineError: null })
+      if (resync && selectInOnlineMatch(useGameStore.getState())) resyncOnlineMatch(resync, onlineSeat)
+    })
+    .catch(() => useGameStore.setState({ onlineError: 'Could not catch up with the match. Trying again with the next update…' }))
+    .finally(() => (resyncPending = false))
+}
+
+// Only human players' deterministic actions can be taken back. A random roll, the end of
+// the turn, the end of the game or an AI action closes the history so nothing before it can be undone.
+// Online matches have no undo, since the server's state is final.
+function recordHistory(action: GameAction, before: GameState, after: GameState) {
+  const { onlineSeat, controllers } = useGameStore.getState()
+  const undoable =
+    !onlineSeat &&
+    controllers[action.playerId] === 'human' &&
+    action.type !== ActionType.END_TURN &&
+    after.rngState === before.rngState &&
+    after.phase !== GamePhase.GAME_OVER
+
+  useGameStore.setState((state) =>
+    undoable
+      ? { undoStack: [...state.undoStack, { action, before }], redoStack: [] }
+      : { undoStack: [], redoStack: [] }
+  )
+}
+
+// Start a fresh match recording from the state the match starts in
+function startMatchRecording() {
+  const matchRecord = createMatchRecord(getGameState(), {
+    id: `match-${Date.now()}`,
+    game_version: dataManager.getConfig().game_version ?? 'unknown',
+    mapId: 'OfficeLayout',
+    recordedAt: new Date().toISOString(),
+  })
+  useGameStore.setState({ matchRecord })
+}
+
+// Add an applied action to the match recording, saving it at the end of every turn and of the match
+function recordMatchAction(action: GameAction, after: GameState) {
+  const { matchRecord } = useGameStore.getState()
+  if (!matchRecord) return
+
+  const updated = { ...matchRecord, actions: [...matchRecord.actions, action] }
+  useGameStore.setState({ matchRecord: updated })
+  if (action.type === ActionType.END_TURN || after.phase === GamePhase.GAME_OVER) {
+    saveReplay(updated)
+  }
+}
+
+// Snapshot the whole game, stamped with the loaded data version
+function takeSnapshot(): GameSnapshot {
+  const { matchRecord, controllers } = useGameStore.getState()
+  return createGameSnapshot(getGameState(), dataManager.getConfig().game_version ?? 'unknown', matchRecord ?? undefined, controllers)
+}
+
+// Autosave at turn boundaries; a finished match leaves nothing to continue
+function autosaveGame() {
+  if (usePlayerStore.getState().phase === GamePhase.GAME_OVER) {
+    clearAutosave()
+  } else {
+    writeAutosave(takeSnapshot())
+  }
+}
+
+// A human unit that has spent its last action gets to pick which way it faces
+function offerFacingChoice(unitId: string) {
+  const unit = useUnitStore.getState().getUnitById(unitId)
+  if (unit?.playerId === selectLocalPlayerId(useGameStore.getState())) {
+    useUIStore.getState().setFacingPrompt(unitId)
+  }
+}
+
+// Unit actions the HUD waits on to leave its action mode, by the name it knows them by
+const ONLINE_COMPLETED_ACTIONS: Partial<Record<ActionType, 'move' | 'attack' | 'ability'>> = {
+  [ActionType.MOVE_UNIT]: 'move',
+  [ActionType.ATTACK_UNIT]: 'attack',
+  [ActionType.USE_ABILITY]: 'ability',
+}
+
+// Hide the board until the next player to act has the device, when people take turns on one
+function passDeviceTo(playerId: PlayerId) {
+  if (needsHandoff(useGameStore.getState().controllers, playerId)) {
+    useGameStore.setState({ handoffPlayerId: playerId })
+  }
+}
+
+// Reset all slice stores when leaving a game
+function clearGame() {
+  useUnitStore.getState().setUnits([])
+  useUnitStore.getState().selectUnit(null)
+  useBoardStore.getState().setBoard([])
+  usePlayerStore.getState().setPlayers([])
+  usePlayerStore.getState().setCurrentPlayerId('')
+  usePlayerStore.getState().setTurnNumber(1)
+  usePlayerStore.getState().setPhase(GamePhase.SETUP)
+  // Don't set winner to undefined, just clear it
+  // usePlayerStore.getState().setWinner(undefined)
+  useUIStore.getState().clearActionMode()
+  useCombatLogStore.getState().clear()
+}
+
+type GameMode = 'menu' | 'ai' | 'hotseat' | 'multiplayer' | 'test' | 'replay'
+
+// Who plays each side in the modes played on this device
+const MODE_CONTROLLERS: Partial<Record<GameMode, Record<PlayerId, PlayerController>>> = {
+  ai: VS_AI_CONTROLLERS,
+  hotseat: HOT_SEAT_CONTROLLERS,
+}
+
+// An action the player can undo, with the game state from just before it
+interface HistoryEntry {
+  action: GameAction
+  before: GameState
+}
 
-type GameMode = 'menu' | 'ai' | 'multiplayer' | 'test'
+// A recorded match being watched
+interface ReplayView {
+  record: MatchRecord
+  frames: ReplayFrame[]
+  frameIndex: number
+}
+
+// Victory conditions picked on the draft screen
+interface VictorySetup {
+  presetKey: string
+  captureShare: number
+}
 
 // Memoization cache for expensive calculations
 interface MemoizationCache {
@@ -83,11 +331,23 @@ type GameStore = {
   // Orchestrator-specific state only
   gameMode: GameMode
   draftState: DraftState
-  pendingCubicleCaptures: Map<string, { unitId: string; coord: Coordinate; playerId: string }>
+  victorySetup: VictorySetup
   memoCache: MemoizationCache
+  undoStack: HistoryEntry[] // Undoable actions of the current turn, oldest first
+  redoStack: HistoryEntry[] // Undone actions, most recently undone last
+  matchRecord: MatchRecord | null // Recording of the match being played
+  replay: ReplayView | null
+  onlineSeat: Seat | null // Our side in an online match, null outside one or while spectating
+  spectating: boolean // Watching an online match without a seat
+  onlineSeq: number // Sequence number of the last server update applied
+  onlineError: string | null // Why the last request to the server of an online match went unanswered
+  controllers: Record<PlayerId, PlayerController> // Who plays each side
+  handoffPlayerId: PlayerId | null // Player the device must be passed to before the board is shown
 
   // Orchestrator actions
   setGameMode: (mode: GameMode) => void
+  completeHandoff: () => void
+  setVictorySetup: (setup: Partial<VictorySetup>) => void
   enterTestMode: () => void
   initializeGame: () => void
   initializeDraft: () => void
@@ -99,7 +359,20 @@ type GameStore = {
   moveUnit: (unitId: string, to: Coordinate) => void
   attackTarget: (attackerId: string, targetId: string) => void
   captureCubicle: (unitId: string, coord: Coordinate) => void
+  hireUnit: (employeeKey: string, position?: Coordinate) => void
+  setUnitFacing: (unitId: string, direction: Unit['direction']) => void
   endTurn: () => void
+  undo: () => void
+  redo: () => void
+  resumeGame: (snapshot: unknown) => string | undefined // Returns why the save can't be loaded
+  exportSave: () => void
+  startReplay: (record: MatchRecord) => void
+  showReplayFrame: (frameIndex: number) => void
+  closeReplay: () => void
+  startOnlineMatch: (snapshot: MatchSnapshot, seat: Seat | null) => void // A null seat watches the match
+  applyServerUpdate: (update: MatchUpdate) => void
+  resyncOnlineMatch: (resync: MatchResync, seat: Seat | null) => void
+  leaveOnlineMatch: () => void
   executeAITurn: () => void
   returnToMenu: () => void
 
@@ -110,7 +383,6 @@ type GameStore = {
   calculatePossibleTargets: (unit: Unit) => Coordinate[]
   isValidMove: (unit: Unit, to: Coordinate) => boolean
   isValidAttack: (attacker: Unit, target: Unit) => boolean
-  checkVictoryConditions: () => void
   
   // Ability system methods
   useAbility: (unitId: string, abilityId: string, target?: Unit | Coordinate) => void
@@ -135,10 +407,14 @@ export const useGameStore = create<GameStore>((set, get) => {
   draftState: {
     playerBudget: 200,
     maxHeadcount: 6,
+    draftingPlayerId: 'player1',
     selectedUnits: [],
-    aiUnits: [],
+    teams: {},
+  },
+  victorySetup: {
+    presetKey: VICTORY_PRESETS[0].key,
+    captureShare: CAPTURE_SHARE_OPTIONS[0],
   },
-  pendingCubicleCaptures: new Map(),
   memoCache: {
     possibleMoves: new Map(),
     possibleTargets: new Map(),
@@ -146,9 +422,27 @@ export const useGameStore = create<GameStore>((set, get) => {
     cubiclePositions: null,
     lastBoardHash: null
   },
+  undoStack: [],
+  redoStack: [],
+  matchRecord: null,
+  replay: null,
+  onlineSeat: null,
+  spectating: false,
+  onlineSeq: 0,
+  onlineError: null,
+  controllers: VS_AI_CONTROLLERS,
+  handoffPlayerId: null,
 
   setGameMode: (mode) => {
-    set({ gameMode: mode })
+    set({ gameMode: mode, controllers: MODE_CONTROLLERS[mode] ?? get().controllers })
+  },
+
+  completeHandoff: () => {
+    set({ handoffPlayerId: null })
+  },
+
+  setVictorySetup: (setup) => {
+    set((state) => ({ victorySetup: { ...state.victorySetup, ...setup } }))
   },
 
   enterTestMode: () => {
@@ -156,29 +450,37 @@ export const useGameStore = create<GameStore>((set, get) => {
   },
 
   returnToMenu: () => {
+    // Keep the recording of an unfinished match
+    const { matchRecord } = get()
+    if (matchRecord && matchRecord.actions.length > 0) {
+      saveReplay(matchRecord)
+    }
+    if (usePlayerStore.getState().phase === GamePhase.GAME_OVER) {
+      clearAutosave()
+    }
+
     // Reset orchestrator state
     set({
       gameMode: 'menu',
-      pendingCubicleCaptures: new Map(),
       draftState: {
         playerBudget: 200,
         maxHeadcount: 6,
+        draftingPlayerId: 'player1',
         selectedUnits: [],
-        aiUnits: [],
+        teams: {},
       },
+      undoStack: [],
+      redoStack: [],
+      matchRecord: null,
+      replay: null,
+      onlineSeat: null,
+      spectating: false,
+      onlineSeq: 0,
+      onlineError: null,
+      controllers: VS_AI_CONTROLLERS,
+      handoffPlayerId: null,
     })
-    
-    // Reset all slice stores
-    useUnitStore.getState().setUnits([])
-    useUnitStore.getState().selectUnit(null)
-    useBoardStore.getState().setBoard([])
-    usePlayerStore.getState().setPlayers([])
-    usePlayerStore.getState().setCurrentPlayerId('')
-    usePlayerStore.getState().setTurnNumber(1)
-    usePlayerStore.getState().setPhase(GamePhase.SETUP)
-    // Don't set winner to undefined, just clear it
-    // usePlayerStore.getState().setWinner(undefined)
-    useUIStore.getState().clearActionMode()
+    clearGame()
   },
 
   initializeGame: () => {
@@ -289,6 +591,7 @@ export const useGameStore = create<GameStore>((set, get) => {
         moveRange: 3,
         attackRange: 1,
         attackDamage: 1,
+        defense: 0,
         actionsRemaining: 2,
         maxActions: 2,
         status: [],
@@ -305,6 +608,9 @@ export const useGameStore = create<GameStore>((set, get) => {
 
     // Set units through unit store
     useUnitStore.getState().setUnits(units)
+    useCombatLogStore.getState().clear()
+    startMatchRecording()
+    autosaveGame()
     
     // Clear memoization cache
     clearMemoizationCache(get().memoCache)
@@ -315,15 +621,23 @@ export const useGameStore = create<GameStore>((set, get) => {
     const budget = config.draft_config?.starting_funds || 1000
     const maxHeadcount = config.gameplay_rules?.max_team_size || 4
     
-    const aiUnits = generateAIDraft(budget, maxHeadcount)
+    // The AI drafts straight away; people draft one after another
+    const { controllers } = get()
+    const teams = Object.fromEntries(
+      Object.keys(controllers).filter(id => controllers[id] === 'ai').map(id => [id, generateAIDraft(budget, maxHeadcount)])
+    )
+    const draftingPlayerId = getHumanPlayerIds(controllers)[0] ?? 'player1'
     set((state) => ({
       draftState: {
         ...state.draftState,
         playerBudget: budget,
         maxHeadcount,
-        aiUnits,
+        draftingPlayerId,
+        selectedUnits: [],
+        teams,
       }
     }))
+    passDeviceTo(draftingPlayerId)
     usePlayerStore.getState().setPhase(GamePhase.DRAFT)
   },
 
@@ -364,6 +678,15 @@ export const useGameStore = create<GameStore>((set, get) => {
   confirmDraft: () => {
     const state = get()
     if (state.draftState.selectedUnits.length === 0) return
+
+    // Lock in this player's picks and hand over to the next person still to draft
+    const teams = { ...state.draftState.teams, [state.draftState.draftingPlayerId]: state.draftState.selectedUnits }
+    const nextDrafter = getHumanPlayerIds(state.controllers).find(id => !teams[id])
+    if (nextDrafter) {
+      set({ draftState: { ...state.draftState, draftingPlayerId: nextDrafter, selectedUnits: [], teams } })
+      passDeviceTo(nextDrafter)
+      return
+    }
     
     // Get starting positions from the MapRegistry
     const getMapStartingPositions = (teamId: string): Coordinate[] => {
@@ -409,10 +732,10 @@ export const useGameStore = create<GameStore>((set, get) => {
     }
     
     // Create units from draft selections
-    const playerPositions = getMapStartingPositions('player1')
-    const aiPositions = getMapStartingPositions('player2')
+    const player1Positions = getMapStartingPositions('player1')
+    const player2Positions = getMapStartingPositions('player2')
     
-    const playerUnits: Unit[] = state.draftState.selectedUnits.map((draftUnit, index) => {
+    const player1Units: Unit[] = (teams['player1'] ?? []).map((draftUnit, index) => {
       const employee = dataManager.getEmployee(draftUnit.employeeKey)
       if (!employee) {
         console.error(`Employee not found: ${draftUnit.employeeKey}`)
@@ -421,12 +744,13 @@ export const useGameStore = create<GameStore>((set, get) => {
           id: `player1-${draftUnit.employeeKey}-${index}`,
         playerId: 'player1',
           type: UnitType.INTERN,
-        position: playerPositions[index] || { x: 0, y: 0 },
+        position: player1Positions[index] || { x: 0, y: 0 },
           hp: 2,
           maxHp: 2,
           moveRange: 3,
           attackRange: 1,
           attackDamage: 1,
+          defense: 0,
           actionsRemaining: 2,
           maxActions: 2,
         status: [],
@@ -445,11 +769,11 @@ export const useGameStore = create<GameStore>((set, get) => {
         employee,
         `player1-${draftUnit.employeeKey}-${index}`,
         'player1',
-        playerPositions[index] || { x: 0, y: 0 }
+        player1Positions[index] || { x: 0, y: 0 }
       )
     })
     
-    const aiUnits: Unit[] = state.draftState.aiUnits.map((draftUnit, index) => {
+    const player2Units: Unit[] = (teams['player2'] ?? []).map((draftUnit, index) => {
       const employee = dataManager.getEmployee(draftUnit.employeeKey)
       if (!employee) {
         console.error(`Employee not found: ${draftUnit.employeeKey}`)
@@ -458,12 +782,13 @@ export const useGameStore = create<GameStore>((set, get) => {
           id: `player2-${draftUnit.employeeKey}-${index}`,
         playerId: 'player2',
           type: UnitType.INTERN,
-        position: aiPositions[index] || { x: 7, y: 9 },
+        position: player2Positions[index] || { x: 7, y: 9 },
           hp: 2,
           maxHp: 2,
           moveRange: 3,
           attackRange: 1,
           attackDamage: 1,
+          defense: 0,
           actionsRemaining: 2,
           maxActions: 2,
         status: [],
@@ -482,17 +807,35 @@ export const useGameStore = create<GameStore>((set, get) => {
         employee,
         `player2-${draftUnit.employeeKey}-${index}`,
         'player2',
-        aiPositions[index] || { x: 7, y: 9 }
+        player2Positions[index] || { x: 7, y: 9 }
       )
     })
     
     // Initialize the game with drafted units
     useBoardStore.getState().createBoard()
     usePlayerStore.getState().initializePlayers()
-    useUnitStore.getState().setUnits([...playerUnits, ...aiUnits])
+    useUnitStore.getState().setUnits([...player1Units, ...player2Units])
+
+    // Whatever the draft didn't spend carries over as budget for hiring mid-match
+    const startingFunds = state.draftState.playerBudget
+    const spent = (units: Unit[]) => units.reduce((sum, unit) => sum + unit.cost, 0)
+    const playerStore = usePlayerStore.getState()
+    playerStore.setPlayers(playerStore.players.map(p => ({
+      ...p,
+      budget: startingFunds - spent(p.id === 'player1' ? player1Units : player2Units)
+    })))
+
+    // Victory conditions picked on the draft screen travel with the game state
+    const { presetKey, captureShare } = state.victorySetup
+    playerStore.setVictoryConditions(
+      prepareVictoryConditions(getPresetConditions(presetKey, captureShare), [...player1Units, ...player2Units])
+    )
     
-    // Set game mode to 'ai' after draft confirmation
-    set({ gameMode: 'ai' })
+    set({ draftState: { ...state.draftState, selectedUnits: [], teams }, undoStack: [], redoStack: [] })
+    useCombatLogStore.getState().clear()
+    startMatchRecording()
+    autosaveGame()
+    passDeviceTo(usePlayerStore.getState().currentPlayerId)
     
     // Clear memoization cache
     clearMemoizationCache(get().memoCache)
@@ -516,18 +859,12 @@ export const useGameStore = create<GameStore>((set, get) => {
     uiStore.clearHighlights()
 
     // Check if the selected unit can be controlled
-    const isPlayerUnit = unit.playerId === playerStore.currentPlayerId
+    const isPlayerUnit = unit.playerId === playerStore.currentPlayerId && unit.playerId === selectLocalPlayerId(get())
     const canControl = isPlayerUnit && unit.actionsRemaining > 0
 
-    if (canControl) {
-      // If it can be controlled, tell the GameScene to position the action menu
-      if (typeof window !== 'undefined' && (window as ExtendedWindow).gameScene) {
-        console.log(`Setting action menu position for unit: ${unit.id}`)
-        const scene = (window as ExtendedWindow).gameScene!
-        const screenPos = scene.tileToWorld(unit.position.x, unit.position.y)
-        uiStore.setActionMenu(screenPos)
-      }
-    } else {
+    // The GameScene positions the action menu for units that can be controlled
+    gameEvents.emit('unit_selected', { unit, canControl })
+    if (!canControl) {
       // If the unit can't be controlled (e.g., an enemy unit or no actions left), ensure the menu is hidden.
       uiStore.setActionMenu(null)
     }
@@ -549,316 +886,342 @@ export const useGameStore = create<GameStore>((set, get) => {
   },
 
   moveUnit: (unitId, to) => {
-    // Get current state from slice stores
-    const unitStore = useUnitStore.getState()
-    const boardStore = useBoardStore.getState()
     const uiStore = useUIStore.getState()
-    
-    const unit = unitStore.getUnitById(unitId)
-    if (!unit || !get().isValidMove(unit, to)) return
 
-    // Calculate the distance of this move
-    const moveDistance = getDistance(unit.position, to)
-    const newRemainingMovement = unit.remainingMovement - moveDistance
-    
-    console.log('Moving unit:', {
-      unitId,
-      from: unit.position,
-      to,
-      moveDistance,
-      remainingMovement: unit.remainingMovement,
-      newRemainingMovement,
-      actionsRemaining: unit.actionsRemaining
-    })
+    const unit = useUnitStore.getState().getUnitById(unitId)
+    if (!unit) return
 
-    // Update unit position and movement
-    const updates: Partial<Unit> = { 
-      position: to,
-      remainingMovement: newRemainingMovement
-    }
-    
-    // Only consume an action point if movement is exhausted
-    if (newRemainingMovement <= 0) {
-      updates.actionsRemaining = unit.actionsRemaining - 1
-      updates.hasMoved = true
-    }
-    
-    unitStore.updateUnit(unitId, updates)
+    const result = dispatchAction({ type: ActionType.MOVE_UNIT, playerId: unit.playerId, unitId, target: to })
+    if (result.error) return
 
     // --- START OF CRITICAL FIX ---
-    const finalUnitState = useUnitStore.getState().getUnitById(unitId)
-    if (finalUnitState && finalUnitState.actionsRemaining <= 0) {
+    const updatedUnit = useUnitStore.getState().getUnitById(unitId)
+    if (updatedUnit && updatedUnit.actionsRemaining > 0) {
+      useUnitStore.getState().selectUnit(updatedUnit)
+    } else {
       console.log(`Unit ${unitId} has no actions left. Deselecting.`)
       useUnitStore.getState().selectUnit(null)
+      offerFacingChoice(unitId)
     }
     // --- END OF CRITICAL FIX ---
 
-      // Clear memoization cache when units move
+    // Clear memoization cache when units move
     clearMemoizationCache(get().memoCache)
 
-      // Check if the unit landed on a cubicle for potential capture
-    const targetTile = boardStore.getTileAt(to)
-      if (targetTile && targetTile.type === TileType.CUBICLE) {
-        console.log('Unit landed on cubicle:', {
-          unitId,
-          unitPlayer: unit.playerId,
-          tilePosition: to,
-          tileOwner: targetTile.owner,
-          tileType: targetTile.type
-        })
-        
-        // If the cubicle is not owned by this unit's player, add to pending captures
-        if (targetTile.owner !== unit.playerId) {
-          const captureKey = `${to.x},${to.y}`
-        set((state) => {
-          const updatedPendingCaptures = new Map(state.pendingCubicleCaptures)
-          updatedPendingCaptures.set(captureKey, {
-            unitId,
-            coord: to,
-            playerId: unit.playerId
-          })
-          return { pendingCubicleCaptures: updatedPendingCaptures }
-          })
-          
-          console.log('Added to pending captures:', {
-            captureKey,
-          pendingCapturesCount: get().pendingCubicleCaptures.size
-        })
-      }
-    }
-
-    // Get updated unit for selection logic
-    const updatedUnit = unitStore.getUnitById(unitId)
-    const shouldKeepSelected = updatedUnit && updatedUnit.actionsRemaining > 0
-    
-    if (shouldKeepSelected) {
-      unitStore.selectUnit(updatedUnit)
-    } else {
-      unitStore.selectUnit(null)
-    }
-
     // Clear UI highlights
     uiStore.clearHighlights()
 
-      // Emit action completed event for UI cleanup
-      if (typeof window !== 'undefined') {
-        const event = new CustomEvent('actionCompleted', {
-        detail: { actionType: 'move', unitId, remainingActions: updatedUnit?.actionsRemaining || 0 }
-        })
-        window.dispatchEvent(event)
-      }
+    // Emit action completed event for UI cleanup
+    gameEvents.emit('action_completed', { actionType: 'move', unitId, remainingActions: updatedUnit?.actionsRemaining || 0 })
   },
 
   attackTarget: (attackerId, targetId) => {
-    // Get current state from slice stores
     const unitStore = useUnitStore.getState()
     const uiStore = useUIStore.getState()
-    
+
     const attacker = unitStore.getUnitById(attackerId)
     const target = unitStore.getUnitById(targetId)
-    
-    if (!attacker || !target || !get().isValidAttack(attacker, target)) return
-
-    // Calculate direction from attacker to target
-    const direction = getDirection(attacker.position, target.position)
-    const damage = calculateDamage(attacker, target)
+    if (!attacker || !target) return
 
-    // Update attacker with new direction
-    unitStore.updateUnit(attackerId, { 
-      actionsRemaining: attacker.actionsRemaining - 1, 
-      hasAttacked: true,
-      direction: direction
+    const result = dispatchAction({
+      type: ActionType.ATTACK_UNIT,
+      playerId: attacker.playerId,
+      unitId: attackerId,
+      target: target.position
     })
-
-    // Update target
-    const newHp = Math.max(0, target.hp - damage)
-    if (newHp > 0) {
-      unitStore.updateUnit(targetId, { hp: newHp })
-    } else {
-      unitStore.removeUnit(targetId)
-    }
+    if (result.error) return
 
     // --- START OF CRITICAL FIX ---
-    const finalAttackerState = useUnitStore.getState().getUnitById(attackerId)
-    if (finalAttackerState && finalAttackerState.actionsRemaining <= 0) {
+    const updatedAttacker = useUnitStore.getState().getUnitById(attackerId)
+    if (updatedAttacker && updatedAttacker.actionsRemaining <= 0) {
       console.log(`Unit ${attackerId} has no actions left. Deselecting.`)
       useUnitStore.getState().selectUnit(null)
+      offerFacingChoice(attackerId)
     }
     // --- END OF CRITICAL FIX ---
 
     // Clear memoization cache
     clearMemoizationCache(get().memoCache)
 
-    // Get updated attacker for highlights
-    const updatedAttacker = unitStore.getUnitById(attackerId)
+    // Refresh highlights for the attacker's remaining options
     if (updatedAttacker) {
       const moves = get().calculatePossibleMoves(updatedAttacker)
       const targets = get().calculatePossibleTargets(updatedAttacker)
-      
+
       const highlights = new Map<string, string>()
       moves.forEach((m) => highlights.set(`${m.x},${m.y}`, 'movement'))
       targets.forEach((t) => highlights.set(`${t.x},${t.y}`, 'attack'))
-      
+
       uiStore.setHighlightedTiles(highlights)
     }
 
-      // Emit action completed event
-      if (typeof window !== 'undefined') {
-        const event = new CustomEvent('actionCompleted', {
-        detail: { actionType: 'attack', unitId: attackerId, remainingActions: updatedAttacker?.actionsRemaining || 0 }
-        })
-        window.dispatchEvent(event)
-      }
+    // Emit action completed event
+    gameEvents.emit('action_completed', {
+      actionType: 'attack',
+      unitId: attackerId,
+      remainingActions: updatedAttacker?.actionsRemaining || 0
+    })
   },
 
   captureCubicle: (unitId, coord) => {
     console.log('captureCubicle called with:', { unitId, coord })
-    
-    const unitStore = useUnitStore.getState()
-    const boardStore = useBoardStore.getState()
-    const playerStore = usePlayerStore.getState()
-    const uiStore = useUIStore.getState()
-    
-    const unit = unitStore.getUnitById(unitId)
-      if (!unit || unit.actionsRemaining === 0) {
-        console.log('Cannot capture: unit not found or no actions remaining', { unit, actionsRemaining: unit?.actionsRemaining })
-      return
-      }
 
-    const tile = boardStore.getTileAt(coord)
-      if (!tile || tile.type !== TileType.CUBICLE) {
-        console.log('Cannot capture: not a cubicle tile', { tile, coord })
-      return
-      }
+    const unit = useUnitStore.getState().getUnitById(unitId)
+    if (!unit) return
 
-      if (tile.owner === unit.playerId) {
-        console.log('Cannot capture: already owned by this player', { tileOwner: tile.owner, unitPlayer: unit.playerId })
-      return
-      }
+    const result = dispatchAction({ type: ActionType.CAPTURE_CUBICLE, playerId: unit.playerId, unitId, target: coord })
+    if (result.error) return
 
-      console.log('Capturing cubicle:', {
-        unitId,
-        unitPlayer: unit.playerId,
-        coord,
-        currentOwner: tile.owner,
-        tileType: tile.type
-      })
+    clearMemoizationCache(get().memoCache)
 
-    // Update board tile ownership
-    boardStore.updateTileOwner(coord, unit.playerId)
+    // Clear selection and highlights
+    useUnitStore.getState().selectUnit(null)
+    useUIStore.getState().clearHighlights()
 
-    // Update unit actions
-    unitStore.updateUnit(unitId, { actionsRemaining: unit.actionsRemaining - 1 })
+    console.log('Cubicle capture completed')
+  },
 
-    // Update player cubicle count and income
-    const cubicleCount = boardStore.getCubicleTilesByOwner(unit.playerId).length
-      console.log('Updated cubicle count for player', unit.playerId, ':', cubicleCount)
+  setUnitFacing: (unitId, direction) => {
+    const unit = useUnitStore.getState().getUnitById(unitId)
+    if (!unit) return
 
-    // Update player data
-    const players = playerStore.players.map((p) =>
-        p.id === unit.playerId ? { ...p, controlledCubicles: cubicleCount, income: cubicleCount } : p
-      )
-    playerStore.setPlayers(players)
+    const result = dispatchAction({ type: ActionType.SET_FACING, playerId: unit.playerId, unitId, direction })
+    if (result.error) return
 
-    // Clear selection and highlights
-    unitStore.selectUnit(null)
-    uiStore.clearHighlights()
+    clearMemoizationCache(get().memoCache)
 
-    console.log('Cubicle capture completed')
+    // Facing ends the unit's turn
+    useUIStore.getState().setFacingPrompt(null)
+    if (useUnitStore.getState().selectedUnit?.id === unitId) {
+      useUnitStore.getState().selectUnit(null)
+      useUIStore.getState().clearHighlights()
+    }
+  },
+
+  hireUnit: (employeeKey, position) => {
+    const result = dispatchAction({
+      type: ActionType.HIRE_UNIT,
+      playerId: usePlayerStore.getState().currentPlayerId,
+      employeeKey,
+      target: position
+    })
+    if (result.error) return
+
+    clearMemoizationCache(get().memoCache)
   },
 
   endTurn: () => {
-    const unitStore = useUnitStore.getState()
-    const boardStore = useBoardStore.getState()
-    const playerStore = usePlayerStore.getState()
-    const uiStore = useUIStore.getState()
-    
-    const currentPlayerIndex = playerStore.players.findIndex((p) => p.id === playerStore.currentPlayerId)
-    const nextPlayerIndex = (currentPlayerIndex + 1) % playerStore.players.length
-    const nextPlayer = playerStore.players[nextPlayerIndex]
+    const result = dispatchAction({ type: ActionType.END_TURN, playerId: usePlayerStore.getState().currentPlayerId })
+    if (result.error) return
 
-      // Process pending cubicle captures before ending turn
-    const updatedPendingCaptures = new Map(get().pendingCubicleCaptures)
-      
-      console.log('Processing pending cubicle captures:', {
-      count: get().pendingCubicleCaptures.size,
-      captures: Array.from(get().pendingCubicleCaptures.entries())
-      })
-      
-      // Process each pending capture
-    for (const [captureKey, capture] of get().pendingCubicleCaptures) {
-        const { unitId, coord, playerId } = capture
-        
-        // Verify the unit is still at the capture location
-      const unit = unitStore.getUnitById(unitId)
-        if (unit && unit.position.x === coord.x && unit.position.y === coord.y) {
-          // Execute the capture
-        const tile = boardStore.getTileAt(coord)
-          if (tile && tile.type === TileType.CUBICLE && tile.owner !== playerId) {
-            console.log('Executing pending capture:', { unitId, coord, playerId })
-            
-            // Update the board
-          boardStore.updateTileOwner(coord, playerId)
-            
-            // Remove from pending captures
-            updatedPendingCaptures.delete(captureKey)
-          }
-        } else {
-          // Unit is no longer at the capture location, remove from pending
-          console.log('Unit no longer at capture location, removing pending capture:', { unitId, coord })
-          updatedPendingCaptures.delete(captureKey)
-        }
-      }
-      
-      // Update player cubicle counts and income
-      const cubicleCounts = new Map<string, number>()
-    boardStore.board.flat().forEach(tile => {
-        if (tile.type === TileType.CUBICLE && tile.owner) {
-          cubicleCounts.set(tile.owner, (cubicleCounts.get(tile.owner) || 0) + 1)
-        }
-      })
-      
-    const updatedPlayers = playerStore.players.map(p => ({
-        ...p,
-        controlledCubicles: cubicleCounts.get(p.id) || 0,
-        income: cubicleCounts.get(p.id) || 0
-      }))
+    clearMemoizationCache(get().memoCache)
+    autosaveGame()
 
-    // Reset actions for next player's units
-    unitStore.resetAllUnitActions(nextPlayer.id)
+    // Clear selection and highlights
+    useUnitStore.getState().selectUnit(null)
+    useUIStore.getState().clearHighlights()
+    useUIStore.getState().setFacingPrompt(null)
+
+    const nextPlayerId = result.state.currentPlayerId
+    console.log('Turn ended, new state:', {
+      nextPlayer: nextPlayerId,
+      turnNumber: result.state.turnNumber,
+      players: result.state.players.map(p => ({ id: p.id, cubicles: p.controlledCubicles, budget: p.budget }))
+    })
 
-    // Add income to budget if starting new round
-      if (nextPlayerIndex === 0) {
-      const playersWithIncome = updatedPlayers.map((p) => ({ ...p, budget: p.budget + p.income }))
-      playerStore.setPlayers(playersWithIncome)
+    if (result.state.phase !== GamePhase.PLAYING) return
+    // IMPORTANT: Trigger AI turn if next player is AI
+    if (get().controllers[nextPlayerId] === 'ai') {
+      setTimeout(() => {
+        get().executeAITurn()
+      }, 500) // Small delay for visual feedback
     } else {
-      playerStore.setPlayers(updatedPlayers)
+      passDeviceTo(nextPlayerId)
     }
+  },
+
+  undo: () => {
+    const { undoStack, redoStack } = get()
+    const entry = undoStack[undoStack.length - 1]
+    if (!entry) return
 
-    // Update orchestrator state
+    commitGameState(entry.before)
+    const { matchRecord } = get()
     set({
-      pendingCubicleCaptures: updatedPendingCaptures
+      undoStack: undoStack.slice(0, -1),
+      redoStack: [...redoStack, entry],
+      // Undone actions are always the latest ones recorded
+      matchRecord: matchRecord && { ...matchRecord, actions: matchRecord.actions.slice(0, -1) },
     })
+    useCombatLogStore.getState().removeLastBatch()
 
-    // Move to next turn
-    playerStore.nextTurn()
+    clearMemoizationCache(get().memoCache)
+    get().selectUnit(null)
+    useUIStore.getState().setFacingPrompt(null)
+    console.log(`Undid ${entry.action.type}`)
+  },
 
-    // Clear selection and highlights
-    unitStore.selectUnit(null)
-    uiStore.clearHighlights()
+  redo: () => {
+    const { redoStack } = get()
+    const entry = redoStack[redoStack.length - 1]
+    if (!entry) return
 
-      console.log('Turn ended, new state:', {
-        nextPlayer: nextPlayer.id,
-        pendingCapturesRemaining: updatedPendingCaptures.size,
-        cubicleCounts: Array.from(cubicleCounts.entries())
-      })
+    // Actions in the history are deterministic, so replaying one gives the same result as before
+    const result = dispatchAction(entry.action)
+    if (result.error) {
+      set({ redoStack: [] })
+      return
+    }
+    set({ redoStack: redoStack.slice(0, -1) })
+
+    clearMemoizationCache(get().memoCache)
+    get().selectUnit(null)
+    useUIStore.getState().setFacingPrompt(null)
+    console.log(`Redid ${entry.action.type}`)
+  },
+
+  resumeGame: (snapshot) => {
+    const currentVersion = dataManager.getConfig().game_version ?? 'unknown'
+    const error = getSnapshotError(snapshot, currentVersion)
+    if (error) return error
+
+    const { state, matchRecord, controllers = VS_AI_CONTROLLERS } = migrateSnapshot(snapshot as GameSnapshot, currentVersion)
+    if (state.phase === GamePhase.GAME_OVER) return 'That match is already over'
 
-      // IMPORTANT: Trigger AI turn if next player is AI
-      if (nextPlayer.id === 'player2') {
-        setTimeout(() => {
-          get().executeAITurn()
-        }, 500) // Small delay for visual feedback
+    const gameMode = getHumanPlayerIds(controllers).length > 1 ? 'hotseat' : 'ai'
+    set({ gameMode, controllers, undoStack: [], redoStack: [], matchRecord: matchRecord ?? null, replay: null })
+    useUnitStore.getState().selectUnit(null)
+    useCombatLogStore.getState().clear()
+    commitGameState(state)
+    if (!matchRecord) {
+      startMatchRecording()
+    }
+    useUIStore.getState().clearActionMode()
+    useUIStore.getState().setFacingPrompt(null)
+    clearMemoizationCache(get().memoCache)
+    console.log(`Resumed game at turn ${state.turnNumber}`)
+
+    // Pick up the AI's turn if the save was made during it
+    if (controllers[state.currentPlayerId] === 'ai') {
+      setTimeout(() => {
+        get().executeAITurn()
+      }, 500)
+    } else {
+      passDeviceTo(state.currentPlayerId)
+    }
+    return undefined
+  },
+
+  exportSave: () => {
+    downloadSave(takeSnapshot())
+  },
+
+  startReplay: (record) => {
+    const frames = buildReplayFrames(record, dataManager.getRulesData())
+    if (frames.length < record.actions.length + 1) {
+      console.warn(`Replay ${record.id} stops after ${frames.length - 1} of ${record.actions.length} actions; the game data has changed since it was recorded`)
+    }
+
+    set({ gameMode: 'replay', replay: { record, frames, frameIndex: 0 }, undoStack: [], redoStack: [], matchRecord: null })
+    useUIStore.getState().clearActionMode()
+    useUIStore.getState().setFacingPrompt(null)
+    useUnitStore.getState().selectUnit(null)
+    get().showReplayFrame(0)
+  },
+
+  showReplayFrame: (frameIndex) => {
+    const { replay } = get()
+    if (!replay) return
+
+    const index = Math.max(0, Math.min(frameIndex, replay.frames.length - 1))
+    commitGameState(replay.frames[index].state)
+    set({ replay: { ...replay, frameIndex: index } })
+    // The log shows what happened up to the frame on screen
+    rebuildCombatLog(
+      replay.frames.slice(1, index + 1).map((frame, i) => ({ events: frame.events, before: replay.frames[i].state, after: frame.state }))
+    )
+    clearMemoizationCache(get().memoCache)
+  },
+
+  closeReplay: () => {
+    set({ replay: null })
+  },
+
+  startOnlineMatch: (snapshot, seat) => {
+    set({
+      gameMode: 'multiplayer',
+      onlineSeat: seat,
+      spectating: seat === null,
+      onlineSeq: snapshot.seq,
+      onlineError: null,
+      controllers: getOnlineControllers(seat),
+      undoStack: [],
+      redoStack: [],
+      matchRecord: null,
+      replay: null,
+    })
+    useUnitStore.getState().selectUnit(null)
+    useCombatLogStore.getState().clear()
+    // Online matches aren't recorded: the server keeps the dice seed, so they couldn't be replayed here
+    commitGameState(snapshot.state)
+    useUIStore.getState().clearActionMode()
+    useUIStore.getState().setFacingPrompt(null)
+    clearMemoizationCache(get().memoCache)
+    console.log(seat ? `Online match started as ${seat}` : 'Watching an online match')
+  },
+
+  applyServerUpdate: (update) => {
+    const order = getUpdateOrder(get().onlineSeq, update.seq)
+    if (order === 'gap') requestOnlineResync()
+    if (order !== 'next') return
+
+    const { action } = update
+    set({ onlineSeq: update.seq, onlineError: null })
+    commitAppliedAction(action, getGameState(), { state: update.state, events: update.events })
+    clearMemoizationCache(get().memoCache)
+    if (action.playerId !== get().onlineSeat) return
+
+    // Our own action is done; tidy up the way the offline actions do once they apply
+    const uiStore = useUIStore.getState()
+    uiStore.clearHighlights()
+    const unit = action.unitId ? useUnitStore.getState().getUnitById(action.unitId) : undefined
+    const completed = ONLINE_COMPLETED_ACTIONS[action.type]
+    if (completed && action.unitId) {
+      if (!unit || unit.actionsRemaining <= 0) {
+        useUnitStore.getState().selectUnit(null)
+        offerFacingChoice(action.unitId)
       }
+      gameEvents.emit('action_completed', { actionType: completed, unitId: action.unitId, remainingActions: unit?.actionsRemaining || 0 })
+    } else if (action.type !== ActionType.HIRE_UNIT) {
+      // Capturing, facing and ending the turn all leave nothing selected
+      useUnitStore.getState().selectUnit(null)
+      uiStore.setFacingPrompt(null)
+    }
+  },
+
+  resyncOnlineMatch: (resync, seat) => {
+    if ('updates' in resync) {
+      resync.updates.forEach((update) => get().applyServerUpdate(update))
+      return
+    }
+    if (!selectInOnlineMatch(get()) || get().onlineSeat !== seat) {
+      get().startOnlineMatch(resync.snapshot, seat)
+      return
+    }
+
+    // Too much was missed to replay; jump to the server's state
+    set({ onlineSeq: resync.snapshot.seq })
+    commitGameState(resync.snapshot.state)
+    useUnitStore.getState().selectUnit(null)
+    useUIStore.getState().clearActionMode()
+    useUIStore.getState().setFacingPrompt(null)
+    clearMemoizationCache(get().memoCache)
+    console.log(`Online match caught up at update ${resync.snapshot.seq}`)
+  },
+
+  leaveOnlineMatch: () => {
+    set({ onlineSeat: null, spectating: false, onlineSeq: 0, onlineError: null, undoStack: [], redoStack: [], matchRecord: null })
+    clearGame()
   },
 
   // Add new function to execute AI turn
@@ -866,69 +1229,46 @@ export const useGameStore = create<GameStore>((set, get) => {
     const playerStore = usePlayerStore.getState()
     const unitStore = useUnitStore.getState()
     
-    if (playerStore.currentPlayerId !== 'player2') return
+    const { currentPlayerId } = playerStore
+    if (get().controllers[currentPlayerId] !== 'ai') return
     
     console.log('AI Turn starting...', {
-      currentPlayer: playerStore.currentPlayerId,
-      aiUnits: unitStore.getUnitsByPlayer('player2'),
-      playerUnits: unitStore.getUnitsByPlayer('player1')
+      currentPlayer: currentPlayerId,
+      aiUnits: unitStore.getUnitsByPlayer(currentPlayerId),
     })
     
     // Create AI controller instance
     const aiController = new AIController('normal')
     
-    // Get current game state and let AI make decisions with action callbacks
-    aiController.takeTurn({
-      id: 'local-game',
-      units: unitStore.units,
-      board: useBoardStore.getState().board,
-      players: playerStore.players,
-      currentPlayerId: playerStore.currentPlayerId,
-      turnNumber: playerStore.turnNumber,
-      phase: playerStore.phase,
-      selectedUnit: unitStore.selectedUnit,
-      winner: playerStore.winner?.id
-    }, {
+    // Get current game state and let AI make decisions with action callbacks.
+    // Each action goes through the rules engine, which decides when the match is won.
+    aiController.takeTurn(getGameState(), {
       moveUnit: (unitId: string, to: Coordinate) => {
         console.log('AI moving unit', unitId, 'to', to)
         get().moveUnit(unitId, to)
-        // Check victory conditions after each action
-        get().checkVictoryConditions()
       },
       attackTarget: (attackerId: string, targetId: string) => {
         console.log('AI attacking', attackerId, '->', targetId)
         get().attackTarget(attackerId, targetId)
-        // Check victory conditions after each action
-        get().checkVictoryConditions()
       },
       captureCubicle: (unitId: string, coord: Coordinate) => {
         console.log('AI capturing cubicle', unitId, 'at', coord)
         get().captureCubicle(unitId, coord)
-        // Check victory conditions after each action
-        get().checkVictoryConditions()
+      },
+      hireUnit: (employeeKey: string) => {
+        get().hireUnit(employeeKey)
+      },
+      setUnitFacing: (unitId: string, direction: Unit['direction']) => {
+        get().setUnitFacing(unitId, direction)
       },
       useAbility: (unitId: string, abilityId: string, target?: Unit | Coordinate) => {
         console.log('AI using ability', unitId, abilityId, 'on', target)
         get().useAbility(unitId, abilityId, target)
-        // Check victory conditions after each action
-        get().checkVictoryConditions()
       },
       endTurn: () => {
-        // Check victory conditions one final time before ending turn
-        get().checkVictoryConditions()
         get().endTurn()
       },
-    }, () => ({
-      id: 'local-game',
-      units: useUnitStore.getState().units,
-      board: useBoardStore.getState().board,
-      players: usePlayerStore.getState().players,
-      currentPlayerId: usePlayerStore.getState().currentPlayerId,
-      turnNumber: usePlayerStore.getState().turnNumber,
-      phase: usePlayerStore.getState().phase,
-      selectedUnit: useUnitStore.getState().selectedUnit,
-      winner: usePlayerStore.getState().winner?.id
-    })) // Pass a function that returns fresh state
+    }, getGameState) // Pass a function that returns fresh state
   },
 
   // Debug function to log current board state
@@ -945,9 +1285,7 @@ export const useGameStore = create<GameStore>((set, get) => {
         position: { x: t.x, y: t.y },
         owner: t.owner,
         type: t.type
-      })),
-      pendingCaptures: get().pendingCubicleCaptures.size,
-      pendingCaptureDetails: Array.from(get().pendingCubicleCaptures.entries())
+      }))
     })
   },
 
@@ -972,9 +1310,10 @@ export const useGameStore = create<GameStore>((set, get) => {
   calculatePossibleTargets: (unit) => {
     if (unit.hasAttacked || unit.actionsRemaining === 0) return []
     
+    const boardStore = useBoardStore.getState()
     const unitStore = useUnitStore.getState()
     return getCachedPossibleTargets(unit, get().memoCache, () => {
-      return calcTargets(unit, { units: unitStore.units })
+      return calcTargets(unit, { board: boardStore.board, units: unitStore.units })
     })
   },
 
@@ -984,172 +1323,46 @@ export const useGameStore = create<GameStore>((set, get) => {
     return isValidMoveUtil(unit, to, { board: boardStore.board, units: unitStore.units })
   },
   isValidAttack: (attacker, target) => {
-    const unitStore = useUnitStore.getState()
-    return isValidAttackUtil(attacker, target, { units: unitStore.units })
-  },
-
-  checkVictoryConditions: () => {
-    const unitStore = useUnitStore.getState()
     const boardStore = useBoardStore.getState()
-    const playerStore = usePlayerStore.getState()
-    
-    // Check if game is already over
-    if (playerStore.phase === GamePhase.GAME_OVER) {
-      console.log('Game is already over, skipping victory check')
-      return
-    }
-
-    const victoryResult = checkVictory({
-      units: unitStore.units,
-      board: boardStore.board,
-      players: playerStore.players,
-      phase: playerStore.phase
-    })
-
-    if (victoryResult.hasWinner && victoryResult.winner) {
-      console.log(victoryResult.reason)
-      // Find the player by ID and set as winner
-      const winnerPlayer = playerStore.players.find(p => p.id === victoryResult.winner)
-      if (winnerPlayer) {
-        playerStore.setWinner(winnerPlayer)
-      }
-    }
+    const unitStore = useUnitStore.getState()
+    return isValidAttackUtil(attacker, target, { board: boardStore.board, units: unitStore.units })
   },
 
   // Ability system methods (selectAbility moved to uiStore)
 
   useAbility: (unitId: string, abilityId: string, target?: Unit | Coordinate) => {
-    const unitStore = useUnitStore.getState()
-
-    const unit = unitStore.getUnitById(unitId)
+    const unit = useUnitStore.getState().getUnitById(unitId)
     if (!unit) return
 
-    const ability = getAbilityById(abilityId, unit)
-    if (!ability || !canUseAbility(unit, abilityId)) return
-
-    // Calculate direction if target is provided
-    let direction = unit.direction
-    if (target) {
-      if ('x' in target) {
-        // Target is a coordinate
-        direction = getDirection(unit.position, target)
-      } else {
-        // Target is a unit
-        direction = getDirection(unit.position, target.position)
-      }
-    }
-
-    // Execute the ability's effect function to get the result
-    const result = ability.effect(unit, target)
-
-    if (result.success) {
-      // --- START OF CRITICAL FIX ---
-
-      // 1. Apply Status Effects
-      if (result.statusApplied && target && 'id' in target) {
-        const targetUnit = unitStore.getUnitById(target.id)
-        if (targetUnit) {
-          // Look up the full status effect definition from the DataManager
-          const statusKey = result.statusApplied[0].type // This will be 'increase_speed'
-          const statusEffectData = dataManager.getStatusEffect(statusKey)
-
-          if (statusEffectData) {
-            // Map the status key to the appropriate StatusType enum value
-            let statusType: StatusType
-            switch (statusEffectData.key) {
-              case 'increase_speed':
-                statusType = StatusType.INSPIRED
-                break
-              case 'bleeding':
-                statusType = StatusType.POISONED
-                break
-              case 'fire':
-                statusType = StatusType.BURNING
-                break
-              default:
-                statusType = StatusType.CONFUSED
-            }
-            
-            const newStatus = {
-              type: statusType,
-              key: statusEffectData.key,
-              name: statusEffectData.name,
-              duration: statusEffectData.duration_in_turns,
-            }
-            // Note: A full implementation would also apply modifiers
-            unitStore.updateUnit(targetUnit.id, {
-              status: [...targetUnit.status, newStatus]
-            })
-            console.log(`Applied status '${newStatus.name}' to ${targetUnit.id}`)
-          }
-        }
-      }
-
-      // 2. Apply Damage
-      if (result.damageDealt && target && 'id' in target) {
-        const targetUnit = unitStore.getUnitById(target.id)
-        if (targetUnit) {
-          const newHp = Math.max(0, targetUnit.hp - result.damageDealt)
-          if (newHp === 0) {
-            unitStore.removeUnit(targetUnit.id)
-          } else {
-            unitStore.updateUnit(targetUnit.id, { hp: newHp })
-          }
-        }
-      }
-
-      // 3. Apply Healing
-      if (result.healingDone && target && 'id' in target) {
-        const targetUnit = unitStore.getUnitById(target.id)
-        if (targetUnit) {
-          unitStore.updateUnit(targetUnit.id, { 
-            hp: Math.min(targetUnit.maxHp, targetUnit.hp + result.healingDone)
-          })
-        }
-      }
-
-      // 4. Apply Action Bonus to Caster
-      if (result.actionBonus) {
-        unitStore.updateUnit(unitId, {
-          actionsRemaining: unit.actionsRemaining + result.actionBonus
-        })
-      }
-
-      // --- END OF CRITICAL FIX ---
+    // Abilities are aimed at a tile; unit targets resolve to where they stand
+    const targetCoord = target ? ('x' in target ? target : target.position) : undefined
+    const result = dispatchAction({
+      type: ActionType.USE_ABILITY,
+      playerId: unit.playerId,
+      unitId,
+      abilityId,
+      target: targetCoord
+    })
+    if (result.error) return
 
-      // 5. Set Cooldown on Caster
-      if (ability.cooldown > 0) {
-        unitStore.updateUnit(unitId, { 
-          abilityCooldowns: { 
-            ...unit.abilityCooldowns, 
-            [abilityId]: ability.cooldown 
-          } 
-        })
-      }
+    // --- START OF CRITICAL FIX ---
+    const finalUnitState = useUnitStore.getState().getUnitById(unitId)
+    if (finalUnitState && finalUnitState.actionsRemaining <= 0) {
+      console.log(`Unit ${unitId} has no actions left. Deselecting.`)
+      useUnitStore.getState().selectUnit(null)
+      offerFacingChoice(unitId)
+    }
+    // --- END OF CRITICAL FIX ---
 
-      // 6. Consume Action Points from Caster and update direction
-      unitStore.updateUnit(unitId, { 
-        actionsRemaining: unit.actionsRemaining - (ability.cost || 1),
-        direction: direction
-      })
+    clearMemoizationCache(get().memoCache)
 
-      // --- START OF CRITICAL FIX ---
-      const finalUnitState = useUnitStore.getState().getUnitById(unitId)
-      if (finalUnitState && finalUnitState.actionsRemaining <= 0) {
-        console.log(`Unit ${unitId} has no actions left. Deselecting.`)
-        useUnitStore.getState().selectUnit(null)
-      }
-      // --- END OF CRITICAL FIX ---
-
-      // Emit event and clean up UI
-      if (typeof window !== 'undefined') {
-        const event = new CustomEvent('actionCompleted', {
-          detail: { actionType: 'ability', unitId, abilityId }
-        })
-        window.dispatchEvent(event)
-      }
-      actionHandlers.cancelAction()
-    }
+    // Emit event and clean up UI
+    gameEvents.emit('action_completed', {
+      actionType: 'ability',
+      unitId,
+      remainingActions: finalUnitState?.actionsRemaining || 0
+    })
+    actionHandlers.cancelAction()
   },
 
   getAbilityTargets: (unitId: string, abilityId: string) => {
@@ -1182,11 +1395,9 @@ export const useGameStore = create<GameStore>((set, get) => {
   },
 
   getEnemiesInRange: (unit: Unit) => {
+    const boardStore = useBoardStore.getState();
     const unitStore = useUnitStore.getState();
-    return unitStore.getEnemyUnits(unit.playerId).filter(enemy => {
-        const distance = Math.abs(enemy.position.x - unit.position.x) + Math.abs(enemy.position.y - unit.position.y);
-      return distance <= unit.attackRange;
-    });
+    return getEnemiesInRangeUtil(unit, { board: boardStore.board, units: unitStore.units });
   },
 
   getRemainingMovement: (unit: Unit) => {
@@ -1199,7 +1410,7 @@ export const useGameStore = create<GameStore>((set, get) => {
     
     // If no unit is currently selected, any player unit can be selected
     if (!currentlySelected) {
-      return unit.playerId === 'player1' && unit.actionsRemaining > 0
+      return unit.playerId === selectLocalPlayerId(get()) && unit.actionsRemaining > 0
     }
     
     // If we're trying to select the same unit, allow it (for deselection)
@@ -1210,7 +1421,7 @@ export const useGameStore = create<GameStore>((set, get) => {
     // If the currently selected unit is in action mode, don't allow switching
     // unless the new unit is a valid target for the current action
     if (currentlySelected.actionsRemaining > 0 && 
-        currentlySelected.playerId === 'player1') {
+        currentlySelected.playerId === selectLocalPlayerId(get())) {
       // Check if the new unit is a valid attack target
       const isEnemy = unit.playerId !== currentlySelected.playerId
       const inAttackRange = get().calculatePossibleTargets(currentlySelected)
@@ -1226,7 +1437,7 @@ export const useGameStore = create<GameStore>((set, get) => {
     }
     
     // If no action mode, allow selecting any player unit with actions
-    return unit.playerId === 'player1' && unit.actionsRemaining > 0
+    return unit.playerId === selectLocalPlayerId(get()) && unit.actionsRemaining > 0
   },
 
   // Helper function to check if clicking on a unit should execute an action instead of switching
@@ -1235,7 +1446,7 @@ export const useGameStore = create<GameStore>((set, get) => {
     
     // Check if the currently selected unit is in action mode
     const isCurrentUnitInActionMode = currentlySelected.actionsRemaining > 0 && 
-                                    currentlySelected.playerId === 'player1'
+                                    currentlySelected.playerId === selectLocalPlayerId(get())
     
     if (!isCurrentUnitInActionMode) return false
     
@@ -1253,7 +1464,7 @@ export const useGameStore = create<GameStore>((set, get) => {
     
     // Check if the currently selected unit is in move mode
     const isCurrentUnitInMoveMode = currentlySelected.actionsRemaining > 0 && 
-                                   currentlySelected.playerId === 'player1' &&
+                                   currentlySelected.playerId === selectLocalPlayerId(get()) &&
                                    !currentlySelected.hasMoved
     
     if (!isCurrentUnitInMoveMode) return false
@@ -1265,24 +1476,32 @@ export const useGameStore = create<GameStore>((set, get) => {
     return inMoveRange
   },
 
-  // Helper function to check if a unit is a valid attack target
+  // Helper function to check if a unit is a valid attack target, with line of sight as the engine checks it
   isValidAttackTarget: (attacker: Unit, target: Unit) => {
     if (!attacker || !target) return false
-    
-    // Check if target is an enemy
-    if (attacker.playerId === target.playerId) return false
-    
-    // Check if attacker can attack
-    if (attacker.hasAttacked || attacker.actionsRemaining === 0) return false
-    
-    // Check if target is in attack range
-    const distance = Math.abs(target.position.x - attacker.position.x) + 
-                    Math.abs(target.position.y - attacker.position.y)
-    
-    return distance <= attacker.attackRange
+    return get().isValidAttack(attacker, target)
   },
 }})
 
+/**
+ * Check whether this client is in an online match, playing or watching
+ */
+export function selectInOnlineMatch(state: Pick<GameStore, 'onlineSeat' | 'spectating'>): boolean {
+  return state.onlineSeat !== null || state.spectating
+}
+
+/**
+ * Get the player this client acts for: whoever's turn it is when they play at this device,
+ * otherwise the side played here, such as our seat online or the human side against the AI.
+ * A spectator acts for nobody.
+ */
+export function selectLocalPlayerId(
+  state: Pick<GameStore, 'controllers'>,
+  currentPlayerId: PlayerId = usePlayerStore.getState().currentPlayerId
+): PlayerId | null {
+  return getLocalPlayerId(state.controllers, currentPlayerId)
+}
+
 
 
 
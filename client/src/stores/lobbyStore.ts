@@ -0,0 +1,198 @@
+import { create } from 'zustand'
+import { normalizePlayerName, type LobbyResponse, type MemberSession, type RoomState, type RoomSummary, type Seat } from 'shared'
+import { getSocket } from '../game/net/socket'
+import { selectInOnlineMatch, useGameStore } from './gameStore'
+
+// The name is remembered between visits so players don't retype it
+const PLAYER_NAME_KEY = 'hrmageddon.playerName'
+
+function loadPlayerName(): string {
+  try {
+    return localStorage.getItem(PLAYER_NAME_KEY) ?? ''
+  } catch {
+    return ''
+  }
+}
+
+// The session outlives a page refresh but not the tab, so a player who drops out can rejoin their room
+const SESSION_KEY = 'hrmageddon.onlineSession'
+
+function loadSession(): MemberSession | null {
+  try {
+    const stored = sessionStorage.getItem(SESSION_KEY)
+    return stored ? (JSON.parse(stored) as MemberSession) : null
+  } catch {
+    return null
+  }
+}
+
+function storeSession(session: MemberSession | null) {
+  try {
+    if (session) sessionStorage.setItem(SESSION_KEY, JSON.stringify(session))
+    else sessionStorage.removeItem(SESSION_KEY)
+  } catch (error) {
+    console.warn('Failed to remember online session:', error)
+  }
+}
+
+interface LobbyStore {
+  // State - Single Source of Truth for the online lobby
+  connected: boolean
+  memberId: string | null // Our id in room member lists
+  session: MemberSession | null // What lets us back into our room after losing the connection
+  playerName: string
+  rooms: RoomSummary[]
+  room: RoomState | null
+  error: string | null
+
+  // Actions
+  connect: () => void
+  disconnect: () => void
+  setPlayerName: (name: string) => void
+  refreshRooms: () => void
+  createRoom: () => Promise<void>
+  joinRoom: (code: string) => Promise<void>
+  watchRoom: (code: string) => Promise<void>
+  leaveRoom: () => void
+  pickSeat: (seat: Seat) => Promise<void>
+  setReady: (ready: boolean) => Promise<void>
+}
+
+export const useLobbyStore = create<LobbyStore>((set, get) => {
+  const keepSession = (session: MemberSession | null) => {
+    storeSession(session)
+    set({ session })
+  }
+
+  // Keep the room from a successful answer, or show why the server said no
+  const handleResponse = (response: LobbyResponse) => {
+    if (response.ok && response.session) {
+      keepSession(response.session)
+      set({ memberId: response.session.memberId })
+    }
+    set(response.ok ? { room: response.room, error: null } : { error: response.error })
+  }
+
+  // Leave the match we were in without the server, e.g. when it no longer knows us
+  const abandonMatch = (error: string) => {
+    keepSession(null)
+    if (selectInOnlineMatch(useGameStore.getState())) useGameStore.getState().leaveOnlineMatch()
+    set({ room: null, error })
+  }
+
+  // Take our place back in the room on a new connection and catch up with its match
+  const resumeSession = async (session: MemberSession) => {
+    const game = useGameStore.getState()
+    const lastSeq = selectInOnlineMatch(game) ? game.onlineSeq : -1 // No match on screen, e.g. after a refresh
+    const response = await getSocket().emitWithAck('session:resume', { token: session.token, lastSeq })
+    if (!response.ok) return abandonMatch(response.error)
+
+    set({ memberId: response.memberId, room: response.room, error: null })
+    const seat = response.room.members.find(m => m.id === response.memberId)?.seat ?? null
+    if (response.resync && (seat || response.room.status === 'in_game')) {
+      useGameStore.getState().resyncOnlineMatch(response.resync, seat)
+    } else if (selectInOnlineMatch(useGameStore.getState())) {
+      useGameStore.getState().leaveOnlineMatch()
+      set({ error: 'The match ended while you were away' })
+    }
+  }
+
+  return {
+    // Initial state
+    connected: false,
+    memberId: null,
+    session: loadSession(),
+    playerName: loadPlayerName(),
+    rooms: [],
+    room: null,
+    error: null,
+
+    // Actions
+    connect: () => {
+      const socket = getSocket()
+      if (socket.connected || socket.active) return
+
+      socket.on('connect', () => {
+        set({ connected: true, error: null })
+        const { session } = get()
+        if (session) void resumeSession(session)
+        else set({ memberId: socket.id ?? null })
+        get().refreshRooms()
+      })
+      socket.on('disconnect', (reason) => {
+        set({ connected: false })
+        // The server only drops us itself when another window took our place
+        if (reason === 'io server disconnect') abandonMatch('You rejoined this room from another window')
+        // Otherwise the socket reconnects on its own; with a session we keep our place meanwhile
+        else if (!get().session) abandonMatch('Lost the connection to the game server')
+      })
+      socket.on('connect_error', () => set({ error: 'Could not reach the game server' }))
+      socket.on('lobby:rooms', (rooms) => set({ rooms }))
+      socket.on('room:updated', (room) => set({ room }))
+      socket.on('room:started', (room) => set({ room }))
+      socket.on('room:closed', (reason) => abandonMatch(reason))
+      // Players start at their seat; anyone else in the room watches
+      socket.on('match:started', (snapshot) => {
+        const member = get().room?.members.find(m => m.id === get().memberId)
+        if (member) useGameStore.getState().startOnlineMatch(snapshot, member.seat)
+      })
+      socket.on('match:update', (update) => useGameStore.getState().applyServerUpdate(update))
+      socket.on('match:ended', (reason) => {
+        useGameStore.getState().leaveOnlineMatch()
+        set({ error: reason })
+      })
+      socket.connect()
+    },
+
+    disconnect: () => {
+      const socket = getSocket()
+      socket.removeAllListeners()
+      socket.disconnect()
+      keepSession(null)
+      set({ connected: false, memberId: null, rooms: [], room: null, error: null })
+    },
+
+    setPlayerName: (name) => {
+      set({ playerName: name })
+      try {
+        localStorage.setItem(PLAYER_NAME_KEY, name)
+      } catch (error) {
+        console.warn('Failed to remember player name:', error)
+      }
+    },
+
+    refreshRooms: () => {
+      getSocket().emit('lobby:list', (rooms) => set({ rooms }))
+    },
+
+    createRoom: async () => {
+      const name = normalizePlayerName(get().playerName)
+      handleResponse(await getSocket().emitWithAck('room:create', { name }))
+    },
+
+    joinRoom: async (code) => {
+      const name = normalizePlayerName(get().playerName)
+      handleResponse(await getSocket().emitWithAck('room:join', { code, name }))
+    },
+
+    watchRoom: async (code) => {
+      const name = normalizePlayerName(get().playerName)
+      handleResponse(await getSocket().emitWithAck('room:spectate', { code, name }))
+    },
+
+    leaveRoom: () => {
+      getSocket().emit('room:leave')
+      keepSession(null)
+      set({ room: null, error: null })
+      get().refreshRooms()
+    },
+
+    pickSeat: async (seat) => {
+      handleResponse(await getSocket().emitWithAck('room:seat', { seat }))
+    },
+
+    setReady: async (ready) => {
+      handleResponse(await getSocket().emitWithAck('room:ready', { ready }))
+    },
+  }
+})
@@ -0,0 +1,70 @@
+import { create } from 'zustand'
+import { type GameEvent, type GameState } from 'shared'
+import { createLogEntries, type CombatLogEntry } from '../game/core/combatLog'
+import { gameEvents } from '../game/events/GameEventBus'
+
+export interface LoggedEntry extends CombatLogEntry {
+  id: number
+  batch: number // Which applied action the entry came from
+}
+
+interface CombatLogStore {
+  // State - Single Source of Truth for the combat log
+  entries: LoggedEntry[]
+  batchCount: number
+  highlightedUnitIds: string[]
+
+  // Actions
+  addEntries: (entries: CombatLogEntry[]) => void
+  removeLastBatch: () => void
+  setHighlightedUnits: (unitIds: string[]) => void
+  clear: () => void
+}
+
+let nextEntryId = 1
+
+export const useCombatLogStore = create<CombatLogStore>((set) => ({
+  // Initial state
+  entries: [],
+  batchCount: 0,
+  highlightedUnitIds: [],
+
+  // Actions
+  addEntries: (entries) => {
+    set((state) => ({
+      entries: [...state.entries, ...entries.map(entry => ({ ...entry, id: nextEntryId++, batch: state.batchCount }))],
+      batchCount: state.batchCount + 1,
+    }))
+  },
+
+  // Used by undo, which always takes back the latest action
+  removeLastBatch: () => {
+    set((state) => {
+      if (state.batchCount === 0) return state
+      const batch = state.batchCount - 1
+      return { entries: state.entries.filter(entry => entry.batch !== batch), batchCount: batch, highlightedUnitIds: [] }
+    })
+  },
+
+  setHighlightedUnits: (unitIds) => {
+    set({ highlightedUnitIds: unitIds })
+  },
+
+  clear: () => {
+    set({ entries: [], batchCount: 0, highlightedUnitIds: [] })
+  },
+}))
+
+/**
+ * Rebuild the log from a sequence of states, as when jumping around a replay
+ * @param steps - Each step's events with the states before and after it
+ */
+export function rebuildCombatLog(steps: { events: GameEvent[]; before: GameState; after: GameState }[]): void {
+  const store = useCombatLogStore.getState()
+  store.clear()
+  steps.forEach(({ events, before, after }) => store.addEntries(createLogEntries(events, before, after)))
+}
+
+gameEvents.on('action_applied', ({ events, before, after }) => {
+  useCombatLogStore.getState().addEntries(createLogEntries(events, before, after))
+})
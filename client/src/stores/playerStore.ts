@@ -1,5 +1,5 @@
 import { create } from 'zustand'
-import { type Player, GamePhase, Team } from 'shared'
+import { type Player, type VictoryCondition, GamePhase, Team, createRandomSeed } from 'shared'
 
 interface PlayerStore {
   // State - Single Source of Truth for Players and Game Flow
@@ -8,15 +8,22 @@ interface PlayerStore {
   turnNumber: number
   phase: GamePhase
   winner: Player | undefined
+  victoryReason: string | undefined // Why the game ended, shown on the game-over screen
+  victoryConditions: VictoryCondition[] | undefined // Chosen at match setup, rules defaults when unset
+  captureHoldTurns: Record<string, number> | undefined
+  rngState: number // Seed for the rules engine's next random roll
 
   // Actions
   setPlayers: (players: Player[]) => void
   initializePlayers: () => void
   nextTurn: () => void
-  setWinner: (winner: Player) => void
+  setWinner: (winner: Player | undefined, reason?: string) => void // No winner means a draw
   setCurrentPlayerId: (playerId: string) => void
   setPhase: (phase: GamePhase) => void
   setTurnNumber: (turnNumber: number) => void
+  setRngState: (rngState: number) => void
+  setVictoryConditions: (conditions: VictoryCondition[] | undefined) => void
+  setCaptureHoldTurns: (captureHoldTurns: Record<string, number> | undefined) => void
   
   // Queries
   getCurrentPlayer: () => Player | undefined
@@ -40,6 +47,10 @@ export const usePlayerStore = create<PlayerStore>((set, get) => ({
   turnNumber: 1,
   phase: GamePhase.SETUP,
   winner: undefined,
+  victoryReason: undefined,
+  victoryConditions: undefined,
+  captureHoldTurns: undefined,
+  rngState: createRandomSeed(),
 
   // Actions
   setPlayers: (players) => {
@@ -53,7 +64,11 @@ export const usePlayerStore = create<PlayerStore>((set, get) => ({
       currentPlayerId: 'player1', // Always start with player1
       turnNumber: 1,
       phase: GamePhase.PLAYING,
-      winner: undefined
+      winner: undefined,
+      victoryReason: undefined,
+      victoryConditions: undefined,
+      captureHoldTurns: undefined,
+      rngState: createRandomSeed()
     })
   },
 
@@ -73,9 +88,10 @@ export const usePlayerStore = create<PlayerStore>((set, get) => ({
     })
   },
 
-  setWinner: (winner) => {
+  setWinner: (winner, reason) => {
     set({ 
       winner,
+      victoryReason: reason,
       phase: GamePhase.GAME_OVER
     })
   },
@@ -92,6 +108,18 @@ export const usePlayerStore = create<PlayerStore>((set, get) => ({
     set({ turnNumber })
   },
 
+  setRngState: (rngState) => {
+    set({ rngState })
+  },
+
+  setVictoryConditions: (victoryConditions) => {
+    set({ victoryConditions })
+  },
+
+  setCaptureHoldTurns: (captureHoldTurns) => {
+    set({ captureHoldTurns })
+  },
+
   // Queries
   getCurrentPlayer: () => {
     const { players, currentPlayerId } = get()
@@ -1,4 +1,5 @@
 import { create } from 'zustand'
+import type { CombatForecast } from 'shared'
 
 interface UIStore {
   // State - Single Source of Truth for UI-specific state
@@ -8,6 +9,9 @@ interface UIStore {
   targetingMode: boolean
   abilityAwaitingDirection: string | null
   actionMenuPosition: { x: number; y: number; isVisible: boolean } | null
+  facingPromptUnitId: string | null // Unit that just used its last action and may pick a facing
+  targetForecasts: CombatForecast[] // Outcome of hitting each enemy in reach of the current attack or ability
+  hoveredTargetId: string | null // Enemy under the pointer whose forecast is shown
 
   // Actions
   setHighlightedTiles: (tiles: Map<string, string>) => void
@@ -16,6 +20,9 @@ interface UIStore {
   setTargetingMode: (mode: boolean) => void
   setAbilityAwaitingDirection: (abilityId: string | null) => void
   setActionMenu: (position: { x: number; y: number } | null) => void
+  setFacingPrompt: (unitId: string | null) => void
+  setTargetForecasts: (forecasts: CombatForecast[]) => void
+  setHoveredTarget: (unitId: string | null) => void
   clearActionMode: () => void
   clearHighlights: () => void
   addHighlight: (coord: string, type: string) => void
@@ -36,6 +43,9 @@ export const useUIStore = create<UIStore>((set, get) => ({
   targetingMode: false,
   abilityAwaitingDirection: null,
   actionMenuPosition: null,
+  facingPromptUnitId: null,
+  targetForecasts: [],
+  hoveredTargetId: null,
 
   // Actions
   setHighlightedTiles: (tiles) => {
@@ -43,7 +53,8 @@ export const useUIStore = create<UIStore>((set, get) => ({
   },
 
   setActionMode: (mode) => {
-    set({ actionMode: mode })
+    // Forecasts belong to the mode they were made for
+    set({ actionMode: mode, targetForecasts: [], hoveredTargetId: null })
     
     // Clear ability selection when changing action mode
     if (mode !== 'ability') {
@@ -80,6 +91,18 @@ export const useUIStore = create<UIStore>((set, get) => ({
     })
   },
 
+  setFacingPrompt: (unitId) => {
+    set({ facingPromptUnitId: unitId })
+  },
+
+  setTargetForecasts: (forecasts) => {
+    set({ targetForecasts: forecasts, hoveredTargetId: null })
+  },
+
+  setHoveredTarget: (unitId) => {
+    if (get().hoveredTargetId !== unitId) set({ hoveredTargetId: unitId })
+  },
+
   clearActionMode: () => {
     set({
       actionMode: 'none',
@@ -87,7 +110,9 @@ export const useUIStore = create<UIStore>((set, get) => ({
       targetingMode: false,
       abilityAwaitingDirection: null,
       highlightedTiles: new Map(),
-      actionMenuPosition: null
+      actionMenuPosition: null,
+      targetForecasts: [],
+      hoveredTargetId: null
     })
   },
 
@@ -2,12 +2,19 @@ import express from 'express';
 import http from 'http';
 import cors from 'cors';
 import { Server as SocketIOServer } from 'socket.io';
+import { registerLobbyHandlers } from './lobby/lobbyHandlers.js';
+import { RoomManager } from './lobby/RoomManager.js';
+import { loadGameData } from './match/gameData.js';
+import { MatchManager } from './match/MatchManager.js';
+import { registerMatchHandlers } from './match/matchHandlers.js';
+import type { GameServer } from './net.js';
 
 // Parse env
 const PORT = Number(process.env.PORT ?? 4001);
 const HOST = process.env.HOST ?? '0.0.0.0';
 const rawOrigins = (process.env.CLIENT_ORIGIN ?? 'http://localhost:5178').split(',');
 const ALLOWED_ORIGINS = rawOrigins.map(o => o.trim());
+const RECONNECT_GRACE_MS = process.env.RECONNECT_GRACE_MS ? Number(process.env.RECONNECT_GRACE_MS) : undefined;
 
 const app = express();
 
@@ -27,17 +34,19 @@ app.get('/api/health', (_req, res) => {
 });
 
 const server = http.createServer(app);
-const io = new SocketIOServer(server, {
+const io: GameServer = new SocketIOServer(server, {
   cors: {
     origin: ALLOWED_ORIGINS,
     methods: ['GET', 'POST']
   }
 });
 
-io.on('connection', (socket) => {
-  console.log('socket connected', socket.id);
-  socket.on('disconnect', () => console.log('socket disconnected', socket.id));
-});
+// Matches are played with the same data files the client loads
+const gameData = await loadGameData();
+const rooms = new RoomManager();
+const matches = new MatchManager(gameData);
+registerLobbyHandlers(io, rooms, matches, { reconnectGraceMs: RECONNECT_GRACE_MS });
+registerMatchHandlers(io, rooms, matches);
 
 server.listen(PORT, HOST, () => {
   console.log(`API listening on http://${HOST}:${PORT}`);
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import type { LobbyResponse, RoomState } from 'shared';
+import { ROOM_IDLE_TIMEOUT_MS, RoomManager } from './RoomManager.js';
+
+const roomOf = (response: LobbyResponse): RoomState => {
+  if (!response.ok) throw new Error(response.error);
+  return response.room;
+};
+
+describe('RoomManager', () => {
+  it('creates a room with a shareable code and lets a second player join it by code', () => {
+    const rooms = new RoomManager();
+    const created = rooms.create('a', 'Alice');
+    const { code } = roomOf(created);
+
+    expect(code).toMatch(/^[A-Z0-9]{4,}$/);
+    expect(created.ok && created.session?.memberId).toBe('a');
+    const joined = roomOf(rooms.join('b', code.toLowerCase(), 'Bob'));
+    expect(joined.members.map((m) => [m.name, m.seat])).toEqual([['Alice', 'player1'], ['Bob', 'player2']]);
+    expect(rooms.list().map((room) => room.code)).toEqual([]);
+  });
+
+  it('turns away unknown codes and full rooms', () => {
+    const rooms = new RoomManager();
+    const { code } = roomOf(rooms.create('a', 'Alice'));
+    rooms.join('b', code, 'Bob');
+
+    expect(rooms.join('c', 'NOPE1', 'Cat')).toEqual({ ok: false, error: 'No room with that code' });
+    expect(rooms.join('c', code, 'Cat')).toEqual({ ok: false, error: 'That room is full' });
+  });
+
+  it('moves players between seats only while a seat is free', () => {
+    const rooms = new RoomManager();
+    const { code } = roomOf(rooms.create('a', 'Alice'));
+    rooms.setReady('a', true);
+
+    const moved = roomOf(rooms.pickSeat('a', 'player2'));
+    expect(moved.members[0]).toMatchObject({ seat: 'player2', ready: false });
+    rooms.join('b', code, 'Bob');
+    expect(rooms.getRoomOf('b')?.members[1]?.seat).toBe('player1');
+    expect(rooms.pickSeat('b', 'player2').ok).toBe(false);
+  });
+
+  it('starts the match once both seated players are ready', () => {
+    const rooms = new RoomManager();
+    const { code } = roomOf(rooms.create('a', 'Alice'));
+    rooms.join('b', code, 'Bob');
+
+    expect(roomOf(rooms.setReady('a', true)).status).toBe('waiting');
+    expect(roomOf(rooms.setReady('b', true)).status).toBe('in_game');
+    expect(rooms.setReady('b', false)).toEqual({ ok: false, error: 'The match has already started' });
+  });
+
+  it('sends a room back to waiting when a player leaves, but not when a spectator does', () => {
+    const rooms = new RoomManager();
+    const { code } = roomOf(rooms.create('a', 'Alice'));
+    rooms.join('b', code, 'Bob');
+    rooms.setReady('a', true);
+    rooms.setReady('b', true);
+    rooms.spectate('c', code, 'Cat');
+
+    expect(rooms.leave('c')?.status).toBe('in_game');
+    const afterLeave = rooms.leave('a');
+    expect(afterLeave).toMatchObject({ status: 'waiting', hostId: 'b' });
+    expect(afterLeave?.members.every((m) => !m.ready)).toBe(true);
+  });
+
+  it('gives a member their place back with their session token until they leave', () => {
+    const rooms = new RoomManager();
+    const created = rooms.create('a', 'Alice');
+    const token = created.ok ? created.session!.token : '';
+    rooms.setConnected('a', false);
+
+    const resumed = rooms.resume(token);
+    expect(resumed.ok && resumed.memberId).toBe('a');
+    expect(resumed.ok && resumed.room.members[0]?.connected).toBe(true);
+    rooms.leave('a');
+    expect(rooms.resume(token)).toEqual({ ok: false, error: 'Your place in the room has expired' });
+  });
+
+  it('sweeps rooms nobody has touched for too long', () => {
+    let time = 0;
+    const rooms = new RoomManager(() => time);
+    const stale = roomOf(rooms.create('a', 'Alice'));
+    time = ROOM_IDLE_TIMEOUT_MS / 2;
+    const active = roomOf(rooms.create('b', 'Bob'));
+    time = ROOM_IDLE_TIMEOUT_MS + 1;
+    rooms.touch(active.code);
+
+    expect(rooms.sweep().map((room) => room.code)).toEqual([stale.code]);
+    expect(rooms.getRoomOf('a')).toBeUndefined();
+    expect(rooms.getRoomOf('b')?.code).toBe(active.code);
+  });
+});
@@ -0,0 +1,198 @@
+import { randomUUID } from 'crypto';
+import {
+  canStartMatch,
+  createRoomCode,
+  getJoinError,
+  getOpenSeats,
+  getRoomSummary,
+  getSeatError,
+  getSpectateError,
+  normalizePlayerName,
+  normalizeRoomCode,
+  type LobbyResponse,
+  type MemberSession,
+  type ResumeResponse,
+  type RoomMember,
+  type RoomState,
+  type RoomSummary,
+  type Seat,
+} from 'shared';
+
+// Rooms nobody has touched for this long are treated as abandoned
+export const ROOM_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/**
+ * In-memory room state for the online lobby. Rooms are replaced rather than mutated,
+ * so a room handed to Socket.IO is a snapshot that later changes can't touch.
+ */
+export class RoomManager {
+  private rooms = new Map<string, RoomState>();
+  private memberRooms = new Map<string, string>(); // Member id -> room code
+  private sessions = new Map<string, string>(); // Session token -> member id
+
+  constructor(private now: () => number = Date.now) {}
+
+  /** Rooms waiting for players and matches under way that can be watched, newest first */
+  list(): RoomSummary[] {
+    return [...this.rooms.values()]
+      .filter((room) => room.status === 'in_game' || getOpenSeats(room).length > 0)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map(getRoomSummary);
+  }
+
+  getRoomOf(memberId: string): RoomState | undefined {
+    const code = this.memberRooms.get(memberId);
+    return code ? this.rooms.get(code) : undefined;
+  }
+
+  /** Open a room with the creator in the first seat */
+  create(memberId: string, name: string): LobbyResponse {
+    const code = createRoomCode(new Set(this.rooms.keys()));
+    const time = this.now();
+    const room: RoomState = {
+      code,
+      hostId: memberId,
+      status: 'waiting',
+      members: [{ id: memberId, name: normalizePlayerName(name), seat: 'player1', ready: false, connected: true }],
+      createdAt: time,
+      updatedAt: time,
+    };
+    this.rooms.set(code, room);
+    this.memberRooms.set(memberId, code);
+    return { ok: true, room, session: this.openSession(memberId) };
+  }
+
+  /** Join a room by code, taking the first open seat */
+  join(memberId: string, code: string, name: string): LobbyResponse {
+    const room = this.rooms.get(normalizeRoomCode(code));
+    const error = getJoinError(room);
+    if (error || !room) return { ok: false, error: error ?? 'No room with that code' };
+
+    const member: RoomMember = { id: memberId, name: normalizePlayerName(name), seat: getOpenSeats(room)[0] ?? null, ready: false, connected: true };
+    this.memberRooms.set(memberId, room.code);
+    return { ok: true, room: this.update(room, { members: [...room.members, member] }), session: this.openSession(memberId) };
+  }
+
+  /** Join a room by code to watch, without a seat; spectators may come in after the match starts */
+  spectate(memberId: string, code: string, name: string): LobbyResponse {
+    const room = this.rooms.get(normalizeRoomCode(code));
+    const error = getSpectateError(room);
+    if (error || !room) return { ok: false, error: error ?? 'No room with that code' };
+
+    const member: RoomMember = { id: memberId, name: normalizePlayerName(name), seat: null, ready: false, connected: true };
+    this.memberRooms.set(memberId, room.code);
+    return { ok: true, room: this.update(room, { members: [...room.members, member] }), session: this.openSession(memberId) };
+  }
+
+  /** Move to another seat; moving takes back any ready */
+  pickSeat(memberId: string, seat: Seat): LobbyResponse {
+    const room = this.getRoomOf(memberId);
+    if (!room) return { ok: false, error: 'You are not in a room' };
+    const error = getSeatError(room, memberId, seat);
+    if (error) return { ok: false, error };
+
+    const members = room.members.map((m) => (m.id === memberId ? { ...m, seat, ready: false } : m));
+    return { ok: true, room: this.update(room, { members }) };
+  }
+
+  /** Ready up or stand down; the match starts when both seats are ready */
+  setReady(memberId: string, ready: boolean): LobbyResponse {
+    const room = this.getRoomOf(memberId);
+    if (!room) return { ok: false, error: 'You are not in a room' };
+    if (room.status !== 'waiting') return { ok: false, error: 'The match has already started' };
+    const member = room.members.find((m) => m.id === memberId);
+    if (!member?.seat) return { ok: false, error: 'Take a seat before readying up' };
+
+    const readied = { ...room, members: room.members.map((m) => (m.id === memberId ? { ...m, ready } : m)) };
+    const status = canStartMatch(readied) ? 'in_game' : 'waiting';
+    return { ok: true, room: this.update(room, { members: readied.members, status }) };
+  }
+
+  /**
+   * Take a member out of their room. Empty rooms are removed; a room that loses its host
+   * passes it on, and a match that loses a player goes back to waiting. Spectators leave
+   * without disturbing anyone.
+   * @returns The room as it is now, or undefined if the member wasn't in one or it was removed
+   */
+  leave(memberId: string): RoomState | undefined {
+    const room = this.getRoomOf(memberId);
+    this.memberRooms.delete(memberId);
+    this.closeSession(memberId);
+    if (!room) return undefined;
+
+    const remaining = room.members.filter((m) => m.id !== memberId);
+    if (remaining.length === 0) {
+      this.rooms.delete(room.code);
+      return undefined;
+    }
+    const hostId = room.hostId === memberId ? remaining[0]!.id : room.hostId;
+    if (!room.members.find((m) => m.id === memberId)?.seat) return this.update(room, { members: remaining, hostId });
+    return this.update(room, {
+      members: remaining.map((m) => ({ ...m, ready: false })),
+      hostId,
+      status: 'waiting',
+    });
+  }
+
+  /**
+   * Record whether a member's connection is up, e.g. while they have time to come back to a match
+   * @returns The room as it is now, or undefined if the member isn't in one
+   */
+  setConnected(memberId: string, connected: boolean): RoomState | undefined {
+    const room = this.getRoomOf(memberId);
+    if (!room) return undefined;
+    return this.update(room, { members: room.members.map((m) => (m.id === memberId ? { ...m, connected } : m)) });
+  }
+
+  /**
+   * Give a member who lost their connection their place back
+   * @param token - The session token handed out when they created or joined the room
+   * @returns The room with the member connected again, and the member's id
+   */
+  resume(token: string): ResumeResponse {
+    const memberId = this.sessions.get(token);
+    if (!memberId || !this.getRoomOf(memberId)) return { ok: false, error: 'Your place in the room has expired' };
+    return { ok: true, room: this.setConnected(memberId, true)!, memberId };
+  }
+
+  /** Mark a room as active so the sweep leaves it alone, e.g. while its match is played */
+  touch(code: string): void {
+    const room = this.rooms.get(code);
+    if (room) this.update(room, {});
+  }
+
+  /**
+   * Remove rooms idle for longer than ROOM_IDLE_TIMEOUT_MS
+   * @returns The removed rooms, so their members can be told
+   */
+  sweep(): RoomState[] {
+    const cutoff = this.now() - ROOM_IDLE_TIMEOUT_MS;
+    const abandoned = [...this.rooms.values()].filter((room) => room.updatedAt < cutoff);
+    for (const room of abandoned) {
+      this.rooms.delete(room.code);
+      room.members.forEach((m) => {
+        this.memberRooms.delete(m.id);
+        this.closeSession(m.id);
+      });
+    }
+    return abandoned;
+  }
+
+  private openSession(memberId: string): MemberSession {
+    const session = { memberId, token: randomUUID() };
+    this.sessions.set(session.token, memberId);
+    return session;
+  }
+
+  private closeSession(memberId: string): void {
+    for (const [token, id] of this.sessions) {
+      if (id === memberId) this.sessions.delete(token);
+    }
+  }
+
+  private update(room: RoomState, changes: Partial<RoomState>): RoomState {
+    const next = { ...room, ...changes, updatedAt: this.now() };
+    this.rooms.set(room.code, next);
+    return next;
+  }
+}
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import { ActionType, GamePhase } from 'shared';
+import { nextEvent, startMatch, startTestServer, type TestServer } from '../test/helpers.js';
+
+describe('lobby over Socket.IO', () => {
+  let server: TestServer;
+  beforeEach(async () => {
+    server = await startTestServer();
+  });
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('seats players who join by code and starts the match when both are ready', async () => {
+    const host = await server.connect();
+    const guest = await server.connect();
+    const created = await host.emitWithAck('room:create', { name: 'Alice' });
+    if (!created.ok) throw new Error(created.error);
+    expect(await host.emitWithAck('lobby:list')).toEqual([{ code: created.room.code, hostName: 'Alice', status: 'waiting', openSeats: ['player2'], spectators: 0 }]);
+
+    const joining = nextEvent(host, 'room:updated');
+    const joined = await guest.emitWithAck('room:join', { code: created.room.code, name: 'Bob' });
+    expect(joined.ok && joined.room.members.map((m) => m.seat)).toEqual(['player1', 'player2']);
+    expect((await joining).members).toHaveLength(2);
+
+    const started = Promise.all([nextEvent(host, 'match:started'), nextEvent(guest, 'match:started')]);
+    await host.emitWithAck('room:ready', { ready: true });
+    const ready = await guest.emitWithAck('room:ready', { ready: true });
+    expect(ready.ok && ready.room.status).toBe('in_game');
+    const [hostSnapshot, guestSnapshot] = await started;
+    expect(hostSnapshot.seq).toBe(0);
+    expect(guestSnapshot).toEqual(hostSnapshot);
+  });
+
+  it('turns away unknown codes, full rooms and malformed requests', async () => {
+    const [host, guest, late] = await Promise.all([server.connect(), server.connect(), server.connect()]);
+    const created = await host.emitWithAck('room:create', { name: 'Alice' });
+    if (!created.ok) throw new Error(created.error);
+    await guest.emitWithAck('room:join', { code: created.room.code, name: 'Bob' });
+
+    expect(await late.emitWithAck('room:join', { code: 'NOPE1', name: 'Cat' })).toEqual({ ok: false, error: 'No room with that code' });
+    expect(await late.emitWithAck('room:join', { code: created.room.code, name: 'Cat' })).toEqual({ ok: false, error: 'That room is full' });
+    expect(await late.emitWithAck('room:seat', { seat: 'player3' as never })).toEqual({ ok: false, error: 'Pick player1 or player2' });
+    expect(await late.emitWithAck('room:ready', { ready: true })).toEqual({ ok: false, error: 'You are not in a room' });
+  });
+
+  it('passes the room on when its host leaves before the match', async () => {
+    const host = await server.connect();
+    const guest = await server.connect();
+    const created = await host.emitWithAck('room:create', { name: 'Alice' });
+    if (!created.ok) throw new Error(created.error);
+    await guest.emitWithAck('room:join', { code: created.room.code, name: 'Bob' });
+
+    const left = nextEvent(guest, 'room:updated');
+    host.emit('room:leave');
+    const room = await left;
+    expect(room.hostId).toBe(guest.id);
+    expect(room.members.map((m) => m.name)).toEqual(['Bob']);
+  });
+});
+
+describe('reconnecting over Socket.IO', () => {
+  let server: TestServer;
+  beforeEach(async () => {
+    server = await startTestServer();
+  });
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('holds a dropped player\'s seat and catches them up when they resume', async () => {
+    const { host, guest, guestSession } = await startMatch(server);
+    const away = nextEvent(host, 'room:updated');
+    guest.disconnect();
+    expect((await away).members.find((m) => m.seat === 'player2')?.connected).toBe(false);
+    expect(await host.emitWithAck('match:action', { type: ActionType.END_TURN, playerId: 'player1' })).toEqual({ ok: true });
+
+    const back = await server.connect();
+    const resumed = await back.emitWithAck('session:resume', { token: guestSession.token, lastSeq: 0 });
+    expect(resumed.ok && resumed.memberId).toBe(guestSession.memberId);
+    expect(resumed.ok && resumed.room.members.every((m) => m.connected)).toBe(true);
+    expect(resumed.ok && resumed.resync).toMatchObject({ updates: [{ seq: 1 }] });
+    expect(await back.emitWithAck('match:action', { type: ActionType.END_TURN, playerId: 'player2' })).toEqual({ ok: true });
+  });
+
+  it('hands a session over to a new connection and drops the old one', async () => {
+    const { guest, guestSession } = await startMatch(server);
+    const dropped = new Promise((resolve) => guest.once('disconnect', resolve));
+
+    const other = await server.connect();
+    const resumed = await other.emitWithAck('session:resume', { token: guestSession.token, lastSeq: -1 });
+    expect(resumed.ok && resumed.resync).toMatchObject({ snapshot: { seq: 0 } });
+    expect(await dropped).toBe('io server disconnect');
+    // The new connection now plays the guest's side
+    expect(await other.emitWithAck('match:action', { type: ActionType.END_TURN, playerId: 'player2' })).toEqual({ ok: false, error: "It is not player2's turn" });
+  });
+
+  it('forfeits the match for a player who doesn\'t come back in time', async () => {
+    const graceful = await startTestServer({ reconnectGraceMs: 50 });
+    try {
+      const { host, guest, guestSession } = await startMatch(graceful);
+      const forfeit = nextEvent(host, 'match:update');
+      guest.disconnect();
+
+      const update = await forfeit;
+      expect(update.action).toEqual({ type: ActionType.FORFEIT, playerId: 'player2' });
+      expect(update.state).toMatchObject({ phase: GamePhase.GAME_OVER, winner: 'player1', victoryReason: 'Red Team forfeited the match' });
+      const late = await graceful.connect();
+      expect(await late.emitWithAck('session:resume', { token: guestSession.token, lastSeq: 1 })).toEqual({ ok: false, error: 'Your place in the room has expired' });
+    } finally {
+      await graceful.close();
+    }
+  });
+
+  it('rejects a resume without a token', async () => {
+    const client = await server.connect();
+    expect(await client.emitWithAck('session:resume', { token: 42 as never, lastSeq: 0 })).toEqual({ ok: false, error: 'Missing session token' });
+  });
+});
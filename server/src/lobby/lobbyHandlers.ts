@@ -0,0 +1,190 @@
+import { GamePhase, SEATS, type LobbyResponse, type RoomState, type Seat } from 'shared';
+import type { MatchManager } from '../match/MatchManager.js';
+import type { GameServer, GameSocket } from '../net.js';
+import type { RoomManager } from './RoomManager.js';
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// How long a player who drops out of a match has to come back before they forfeit it
+export const RECONNECT_GRACE_MS = 60 * 1000;
+
+export interface LobbyOptions {
+  reconnectGraceMs?: number | undefined;
+}
+
+// Requests come straight off the wire, so check their shape before trusting them
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isSeat = (value: unknown): value is Seat => SEATS.includes(value as Seat);
+
+/**
+ * Wire the lobby protocol onto a Socket.IO server
+ * @param io - The server
+ * @param rooms - Where room state lives
+ * @param matches - Where match state lives; a match starts when its room is ready and ends when a player leaves
+ * @param options - How long players may be away from a match
+ * @returns A function that stops the abandoned-room sweep and pending forfeits
+ */
+export function registerLobbyHandlers(io: GameServer, rooms: RoomManager, matches: MatchManager, options: LobbyOptions = {}): () => void {
+  const reconnectGraceMs = options.reconnectGraceMs ?? RECONNECT_GRACE_MS;
+  const connections = new Map<string, GameSocket>(); // Member id -> the connection acting for them
+  const graceTimers = new Map<string, NodeJS.Timeout>(); // Member id -> pending forfeit
+
+  const broadcastRooms = () => io.emit('lobby:rooms', rooms.list());
+  const broadcastRoom = (room: RoomState) => io.to(room.code).emit('room:updated', room);
+
+  const cancelGrace = (memberId: string) => {
+    clearTimeout(graceTimers.get(memberId));
+    graceTimers.delete(memberId);
+  };
+
+  const leaveRoom = (memberId: string) => {
+    cancelGrace(memberId);
+    const previous = rooms.getRoomOf(memberId);
+    if (!previous) return;
+    void connections.get(memberId)?.leave(previous.code);
+    const leaver = previous.members.find((m) => m.id === memberId);
+    const match = matches.get(previous.code);
+    // Spectators come and go without touching the match
+    if (match && leaver?.seat) {
+      matches.end(previous.code);
+      // Leaving a finished match just closes it; leaving one under way ends it for everyone
+      if (match.phase !== GamePhase.GAME_OVER) {
+        io.to(previous.code).emit('match:ended', `${leaver.name} left the match`);
+      }
+    }
+    const room = rooms.leave(memberId);
+    if (room) broadcastRoom(room);
+    broadcastRooms();
+  };
+
+  // A player who drops out of a match under way keeps their seat for a while, then forfeits
+  const holdSeat = (memberId: string): boolean => {
+    const room = rooms.getRoomOf(memberId);
+    const seat = room?.members.find((m) => m.id === memberId)?.seat;
+    if (!room || !seat || matches.get(room.code)?.phase !== GamePhase.PLAYING) return false;
+
+    broadcastRoom(rooms.setConnected(memberId, false)!);
+    graceTimers.set(
+      memberId,
+      setTimeout(() => {
+        graceTimers.delete(memberId);
+        const result = matches.forfeit(room.code, seat);
+        if (result.ok) io.to(room.code).emit('match:update', result.update);
+        leaveRoom(memberId);
+      }, reconnectGraceMs)
+    );
+    return true;
+  };
+
+  // Answer a request and tell the rest of the room what changed
+  const respond = (ack: unknown, response: LobbyResponse) => {
+    if (typeof ack === 'function') ack(response);
+    if (!response.ok) return;
+    broadcastRoom(response.room);
+    if (response.room.status === 'in_game' && !matches.get(response.room.code)) {
+      io.to(response.room.code).emit('room:started', response.room);
+      io.to(response.room.code).emit('match:started', matches.start(response.room));
+    }
+    broadcastRooms();
+  };
+
+  io.on('connection', (socket: GameSocket) => {
+    console.log('socket connected', socket.id);
+    socket.data.memberId = socket.id;
+    connections.set(socket.id, socket);
+
+    socket.on('lobby:list', (ack) => {
+      if (typeof ack === 'function') ack(rooms.list());
+    });
+
+    socket.on('room:create', (request, ack) => {
+      leaveRoom(socket.data.memberId);
+      const response = rooms.create(socket.data.memberId, isString(request?.name) ? request.name : '');
+      if (response.ok) void socket.join(response.room.code);
+      respond(ack, response);
+    });
+
+    socket.on('room:join', (request, ack) => {
+      if (!isString(request?.code)) return respond(ack, { ok: false, error: 'Enter a room code' });
+      leaveRoom(socket.data.memberId);
+      const response = rooms.join(socket.data.memberId, request.code, isString(request.name) ? request.name : '');
+      if (response.ok) void socket.join(response.room.code);
+      respond(ack, response);
+    });
+
+    socket.on('room:spectate', (request, ack) => {
+      if (!isString(request?.code)) return respond(ack, { ok: false, error: 'Enter a room code' });
+      leaveRoom(socket.data.memberId);
+      const response = rooms.spectate(socket.data.memberId, request.code, isString(request.name) ? request.name : '');
+      if (!response.ok) return respond(ack, response);
+      void socket.join(response.room.code);
+      respond(ack, response);
+      // Someone arriving mid-match starts from where it stands, then follows its updates
+      const snapshot = matches.watch(response.room.code);
+      if (snapshot) socket.emit('match:started', snapshot);
+    });
+
+    socket.on('room:seat', (request, ack) => {
+      if (!isSeat(request?.seat)) return respond(ack, { ok: false, error: 'Pick player1 or player2' });
+      respond(ack, rooms.pickSeat(socket.data.memberId, request.seat));
+    });
+
+    socket.on('room:ready', (request, ack) => {
+      respond(ack, rooms.setReady(socket.data.memberId, request?.ready === true));
+    });
+
+    socket.on('room:leave', () => leaveRoom(socket.data.memberId));
+
+    socket.on('session:resume', (request, ack) => {
+      const reply = typeof ack === 'function' ? ack : () => {};
+      if (!isString(request?.token)) return reply({ ok: false, error: 'Missing session token' });
+      const response = rooms.resume(request.token);
+      if (!response.ok) return reply(response);
+
+      // Take over from the old connection, which may not have noticed it dropped yet
+      const { memberId, room } = response;
+      cancelGrace(memberId);
+      if (memberId !== socket.data.memberId) leaveRoom(socket.data.memberId);
+      connections.delete(socket.data.memberId);
+      const previous = connections.get(memberId);
+      socket.data.memberId = memberId;
+      connections.set(memberId, socket);
+      previous?.disconnect(true);
+      void socket.join(room.code);
+
+      const lastSeq = Number.isInteger(request.lastSeq) ? request.lastSeq : -1;
+      const resync = matches.resync(room.code, lastSeq);
+      reply(resync ? { ...response, resync } : response);
+      broadcastRoom(room);
+      console.log('session resumed', memberId, 'on', socket.id);
+    });
+
+    socket.on('disconnect', () => {
+      console.log('socket disconnected', socket.id);
+      const memberId = socket.data.memberId;
+      // A connection replaced by a resumed session no longer speaks for its member
+      if (connections.get(memberId) !== socket) return;
+      connections.delete(memberId);
+      if (!holdSeat(memberId)) leaveRoom(memberId);
+    });
+  });
+
+  const sweep = setInterval(() => {
+    const abandoned = rooms.sweep();
+    if (abandoned.length === 0) return;
+    for (const room of abandoned) {
+      matches.end(room.code);
+      room.members.forEach((m) => cancelGrace(m.id));
+      io.to(room.code).emit('room:closed', 'The room was closed after a long time without activity');
+      io.in(room.code).socketsLeave(room.code);
+    }
+    console.log(`Closed ${abandoned.length} abandoned room(s)`);
+    broadcastRooms();
+  }, SWEEP_INTERVAL_MS);
+  sweep.unref();
+
+  return () => {
+    clearInterval(sweep);
+    graceTimers.forEach((timer) => clearTimeout(timer));
+  };
+}
@@ -0,0 +1,85 @@
+import { beforeAll, describe, it, expect } from 'vitest';
+import { ActionType, TileType, findPath, type RoomState } from 'shared';
+import { loadGameData, type GameData } from './gameData.js';
+import { MATCH_LOG_LENGTH, MatchManager } from './MatchManager.js';
+
+const room: RoomState = {
+  code: 'ABCDE',
+  hostId: 'a',
+  status: 'in_game',
+  members: [
+    { id: 'a', name: 'Alice', seat: 'player1', ready: true, connected: true },
+    { id: 'b', name: 'Bob', seat: 'player2', ready: true, connected: true },
+  ],
+  createdAt: 0,
+  updatedAt: 0,
+};
+
+const endTurn = (playerId: string) => ({ type: ActionType.END_TURN, playerId });
+
+describe('MatchManager', () => {
+  let data: GameData;
+  beforeAll(async () => {
+    data = await loadGameData();
+  });
+
+  it('only resolves actions the sender may take', () => {
+    const matches = new MatchManager(data);
+    matches.start(room);
+
+    expect(matches.apply('ABCDE', 'player2', endTurn('player2'))).toEqual({ ok: false, error: "It is not player2's turn" });
+    expect(matches.apply('ABCDE', 'player2', endTurn('player1'))).toEqual({ ok: false, error: 'You can only act for your own side' });
+    expect(matches.apply('ABCDE', null, endTurn('player1'))).toEqual({ ok: false, error: 'You are not seated in this match' });
+    expect(matches.apply('ABCDE', 'player1', { type: ActionType.MOVE_UNIT, playerId: 'player1', target: 'here' })).toEqual({ ok: false, error: 'Malformed target' });
+    expect(matches.apply('NOPE1', 'player1', endTurn('player1'))).toEqual({ ok: false, error: 'No match is in progress' });
+    expect(matches.get('ABCDE')?.currentPlayerId).toBe('player1');
+  });
+
+  it('numbers accepted actions in the order it applied them', () => {
+    const matches = new MatchManager(data);
+    matches.start(room);
+
+    const first = matches.apply('ABCDE', 'player1', endTurn('player1'));
+    const second = matches.apply('ABCDE', 'player2', endTurn('player2'));
+    expect(first.ok && first.update.seq).toBe(1);
+    expect(second.ok && second.update.seq).toBe(2);
+    expect(matches.resync('ABCDE', 0)).toEqual({ updates: [first.ok && first.update, second.ok && second.update] });
+  });
+
+  it('keeps the dice seed from every state it hands out', () => {
+    const matches = new MatchManager(data, () => 1234);
+    const snapshot = matches.start(room);
+    const result = matches.apply('ABCDE', 'player1', endTurn('player1'));
+
+    expect(matches.get('ABCDE')?.rngState).toBe(1234);
+    expect(snapshot.state).not.toHaveProperty('rngState');
+    expect(result.ok && result.update.state).not.toHaveProperty('rngState');
+    expect(matches.watch('ABCDE')?.state).not.toHaveProperty('rngState');
+  });
+
+  it('sends a snapshot to a player too far behind for its log', () => {
+    const matches = new MatchManager(data);
+    matches.start(room);
+    for (let i = 0; i <= MATCH_LOG_LENGTH; i++) {
+      const playerId = i % 2 === 0 ? 'player1' : 'player2';
+      matches.apply('ABCDE', playerId, endTurn(playerId));
+    }
+
+    expect(matches.resync('ABCDE', 0)).toEqual({ snapshot: matches.watch('ABCDE') });
+    expect(matches.resync('ABCDE', MATCH_LOG_LENGTH)).toMatchObject({ updates: [{ seq: MATCH_LOG_LENGTH + 1 }] });
+  });
+
+  it('plays on the office map with its hallways and conference rooms', () => {
+    const matches = new MatchManager(data);
+    matches.start(room);
+    const state = matches.get('ABCDE')!;
+    const tiles = state.board.flat();
+
+    expect(tiles.filter((tile) => tile.type === TileType.HALLWAY)).toHaveLength(16);
+    expect(tiles.filter((tile) => tile.type === TileType.CONFERENCE_ROOM)).toHaveLength(8);
+    // The bottom hallway runs from x 14 to 5 and ends at a conference room
+    const unit = { ...state.units[0]!, position: { x: 14, y: 8 }, remainingMovement: 10 };
+    expect(findPath(unit, { x: 5, y: 8 }, state, data.rules)?.cost).toBe(4.5);
+    expect(findPath(unit, { x: 4, y: 8 }, state, data.rules)?.cost).toBe(6.5);
+  });
+});
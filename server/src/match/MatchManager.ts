@@ -0,0 +1,120 @@
+import {
+  ActionType,
+  ONLINE_STARTING_TEAM,
+  SEATS,
+  applyAction,
+  createMapLayout,
+  createRandomSeed,
+  createStartingState,
+  getActionError,
+  getClientState,
+  getResync,
+  getTeamError,
+  type GameAction,
+  type GameState,
+  type MapLayout,
+  type MatchResync,
+  type MatchSnapshot,
+  type MatchUpdate,
+  type PlayerId,
+  type RoomState,
+  type Seat,
+} from 'shared';
+import type { GameData } from './gameData.js';
+
+export type MatchResult = { ok: true; update: MatchUpdate } | { ok: false; error: string };
+
+// How many recent updates each match keeps for players catching up; further behind gets a snapshot
+export const MATCH_LOG_LENGTH = 50;
+
+interface Match {
+  state: GameState; // Canonical state, dice seed included
+  snapshot: MatchSnapshot; // What clients see of it
+  log: MatchUpdate[]; // Oldest first
+}
+
+/**
+ * The canonical game state of every room in play. Clients only ever propose actions;
+ * the state changes here, through the same rules engine the client uses.
+ */
+export class MatchManager {
+  private matches = new Map<string, Match>(); // Room code -> match
+  private layout: MapLayout;
+  private teams: Record<PlayerId, string[]> = {};
+
+  constructor(private data: GameData, private createSeed: () => number = createRandomSeed) {
+    this.layout = createMapLayout(data.tilemap);
+    for (const seat of SEATS) {
+      const error = getTeamError(ONLINE_STARTING_TEAM, this.layout.startingPositions[seat] ?? [], data.rules);
+      if (error) throw new Error(`Online team can't start on this map: ${error}`);
+      this.teams[seat] = ONLINE_STARTING_TEAM;
+    }
+  }
+
+  get(code: string): GameState | undefined {
+    return this.matches.get(code)?.state;
+  }
+
+  /** Set up the match of a room whose players are all ready */
+  start(room: RoomState): MatchSnapshot {
+    const state = createStartingState(
+      { id: `online-${room.code}-${room.updatedAt}`, layout: this.layout, teams: this.teams, rngSeed: this.createSeed() },
+      this.data.rules
+    );
+    const snapshot = { state: getClientState(state), seq: 0 };
+    this.matches.set(room.code, { state, snapshot, log: [] });
+    return snapshot;
+  }
+
+  /**
+   * Resolve an action a player sent
+   * @param code - The player's room
+   * @param seat - The player's seat
+   * @param action - The action as it came off the wire
+   * @returns What the action did, or why it was rejected
+   */
+  apply(code: string, seat: Seat | null | undefined, action: unknown): MatchResult {
+    const match = this.matches.get(code);
+    if (!match) return { ok: false, error: 'No match is in progress' };
+    const error = getActionError(action, seat);
+    if (error) return { ok: false, error };
+
+    const validAction = action as GameAction;
+    const result = applyAction(match.state, validAction, this.data.rules);
+    if (result.error) return { ok: false, error: result.error };
+
+    const state = getClientState(result.state);
+    const update = { seq: match.snapshot.seq + 1, action: validAction, events: result.events, state };
+    this.matches.set(code, {
+      state: result.state,
+      snapshot: { state, seq: update.seq },
+      log: [...match.log, update].slice(-MATCH_LOG_LENGTH),
+    });
+    return { ok: true, update };
+  }
+
+  /** Concede the match for a player, e.g. one who didn't come back in time */
+  forfeit(code: string, seat: Seat): MatchResult {
+    return this.apply(code, seat, { type: ActionType.FORFEIT, playerId: seat });
+  }
+
+  /** The match as it stands, for a spectator who joins it part way through */
+  watch(code: string): MatchSnapshot | undefined {
+    return this.matches.get(code)?.snapshot;
+  }
+
+  /**
+   * Catch a player up with their room's match
+   * @param code - The player's room
+   * @param lastSeq - Sequence number of the last update the player applied
+   * @returns The updates they missed or a snapshot, or undefined if there is no match
+   */
+  resync(code: string, lastSeq: number): MatchResync | undefined {
+    const match = this.matches.get(code);
+    return match && getResync(match.snapshot, match.log, lastSeq);
+  }
+
+  end(code: string): void {
+    this.matches.delete(code);
+  }
+}
@@ -0,0 +1,50 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { AttackPattern, DataAbility, Employee, GameConfig, RulesData, StatusEffect, TilemapData } from 'shared';
+
+/** Static data a match is played with: the rules data and the map */
+export interface GameData {
+  rules: RulesData;
+  tilemap: TilemapData;
+}
+
+// The client serves the game data as static files; the server reads the same copies
+const CLIENT_PUBLIC_DIR = fileURLToPath(new URL('../../../client/public', import.meta.url));
+const TILEMAP_PATH = 'assets/tilemaps/OfficeLayout16x12.json';
+
+async function readJson<T>(dir: string, file: string): Promise<T> {
+  return JSON.parse(await readFile(path.join(dir, file), 'utf8')) as T;
+}
+
+// The data files hold arrays of entries; the rules engine looks them up by key
+function byKey<T extends { key: string }>(entries: T[]): Record<string, T> {
+  return Object.fromEntries(entries.map((entry) => [entry.key, entry]));
+}
+
+/**
+ * Load the game data and map from disk
+ * @param dir - Directory laid out like client/public; GAME_DATA_DIR overrides the default
+ * @returns The data every match on this server is played with
+ */
+export async function loadGameData(dir: string = process.env.GAME_DATA_DIR ?? CLIENT_PUBLIC_DIR): Promise<GameData> {
+  const [employees, abilities, attackPatterns, statusEffects, config, tilemap] = await Promise.all([
+    readJson<{ employees: Employee[] }>(dir, 'data/employees.json'),
+    readJson<{ abilities: DataAbility[] }>(dir, 'data/abilities.json'),
+    readJson<{ attack_patterns: AttackPattern[] }>(dir, 'data/attack_patterns.json'),
+    readJson<{ status_effects: StatusEffect[] }>(dir, 'data/status_effects.json'),
+    readJson<GameConfig>(dir, 'data/game_config.json'),
+    readJson<TilemapData>(dir, TILEMAP_PATH),
+  ]);
+
+  return {
+    rules: {
+      employees: byKey(employees.employees),
+      abilities: byKey(abilities.abilities),
+      attackPatterns: byKey(attackPatterns.attack_patterns),
+      statusEffects: byKey(statusEffects.status_effects),
+      config,
+    },
+    tilemap,
+  };
+}
@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import { ActionType } from 'shared';
+import { nextEvent, recordEvents, startMatch, startTestServer, waitUntil, type TestServer } from '../test/helpers.js';
+
+describe('match over Socket.IO', () => {
+  let server: TestServer;
+  beforeEach(async () => {
+    server = await startTestServer();
+  });
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('rejects actions out of turn, for the other side or malformed, without telling the room', async () => {
+    const { host, guest } = await startMatch(server);
+    const hostUpdates = recordEvents(host, 'match:update');
+
+    expect(await guest.emitWithAck('match:action', { type: ActionType.END_TURN, playerId: 'player2' })).toEqual({ ok: false, error: "It is not player2's turn" });
+    expect(await guest.emitWithAck('match:action', { type: ActionType.END_TURN, playerId: 'player1' })).toEqual({ ok: false, error: 'You can only act for your own side' });
+    expect(await host.emitWithAck('match:action', { type: 'teleport', playerId: 'player1' } as never)).toEqual({ ok: false, error: 'Unknown action type' });
+    expect(await host.emitWithAck('match:action', 'end_turn' as never)).toEqual({ ok: false, error: 'Not an action' });
+    expect(hostUpdates).toEqual([]);
+  });
+
+  it('sends both players the same updates in the order the server applied them', async () => {
+    const { host, guest } = await startMatch(server);
+    const hostUpdates = recordEvents(host, 'match:update');
+    const guestUpdates = recordEvents(guest, 'match:update');
+
+    expect(await host.emitWithAck('match:action', { type: ActionType.END_TURN, playerId: 'player1' })).toEqual({ ok: true });
+    expect(await guest.emitWithAck('match:action', { type: ActionType.END_TURN, playerId: 'player2' })).toEqual({ ok: true });
+    await waitUntil(() => hostUpdates.length === 2 && guestUpdates.length === 2);
+
+    expect(hostUpdates.map((update) => update.seq)).toEqual([1, 2]);
+    expect(guestUpdates).toEqual(hostUpdates);
+    expect(hostUpdates[1]?.state.currentPlayerId).toBe('player1');
+    expect(hostUpdates.every((update) => !('rngState' in update.state))).toBe(true);
+  });
+
+  it('catches a player up with the updates they missed', async () => {
+    const { host } = await startMatch(server);
+    await host.emitWithAck('match:action', { type: ActionType.END_TURN, playerId: 'player1' });
+
+    const resync = await host.emitWithAck('match:resync', { lastSeq: 0 });
+    expect(resync && 'updates' in resync && resync.updates.map((update) => update.seq)).toEqual([1]);
+    const snapshot = await host.emitWithAck('match:resync', { lastSeq: -1 });
+    expect(snapshot && 'snapshot' in snapshot && snapshot.snapshot.seq).toBe(1);
+  });
+
+  it('lets a spectator watch the match but not play in it', async () => {
+    const { host, code, snapshot } = await startMatch(server);
+    const hostUpdates = recordEvents(host, 'match:update');
+    const spectator = await server.connect();
+
+    const watching = nextEvent(spectator, 'match:started');
+    const spectated = await spectator.emitWithAck('room:spectate', { code, name: 'Cat' });
+    expect(spectated.ok && spectated.room.members.find((m) => m.name === 'Cat')?.seat).toBeNull();
+    expect(await watching).toEqual(snapshot);
+
+    expect(await spectator.emitWithAck('match:action', { type: ActionType.END_TURN, playerId: 'player1' })).toEqual({ ok: false, error: 'You are not seated in this match' });
+    expect(hostUpdates).toEqual([]);
+  });
+});
@@ -0,0 +1,36 @@
+import type { RoomManager } from '../lobby/RoomManager.js';
+import type { GameServer, GameSocket } from '../net.js';
+import type { MatchManager } from './MatchManager.js';
+
+/**
+ * Wire the match protocol onto a Socket.IO server. Accepted actions go to the whole room
+ * together with the resulting state; rejected ones are answered with the reason. A player
+ * who notices they missed an update can ask to be caught up.
+ * @param io - The server
+ * @param rooms - Where room state lives
+ * @param matches - Where match state lives
+ */
+export function registerMatchHandlers(io: GameServer, rooms: RoomManager, matches: MatchManager): void {
+  io.on('connection', (socket: GameSocket) => {
+    socket.on('match:action', (action, ack) => {
+      const respond = typeof ack === 'function' ? ack : () => {};
+      const room = rooms.getRoomOf(socket.data.memberId);
+      if (!room || room.status !== 'in_game') return respond({ ok: false, error: 'No match is in progress' });
+
+      const seat = room.members.find((m) => m.id === socket.data.memberId)?.seat;
+      const result = matches.apply(room.code, seat, action);
+      if (!result.ok) return respond(result);
+
+      rooms.touch(room.code);
+      respond({ ok: true });
+      io.to(room.code).emit('match:update', result.update);
+    });
+
+    socket.on('match:resync', (request, ack) => {
+      if (typeof ack !== 'function') return;
+      const room = rooms.getRoomOf(socket.data.memberId);
+      const lastSeq = Number.isInteger(request?.lastSeq) ? request.lastSeq : -1;
+      ack((room && matches.resync(room.code, lastSeq)) ?? null);
+    });
+  });
+}
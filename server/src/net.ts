@@ -0,0 +1,10 @@
+import type { DefaultEventsMap, Server, Socket } from 'socket.io';
+import type { ClientEvents, ServerEvents } from 'shared';
+
+/** What the server keeps on each connection */
+export interface SocketData {
+  memberId: string; // The connection's id, or the id it took back by resuming a session
+}
+
+export type GameServer = Server<ClientEvents, ServerEvents, DefaultEventsMap, SocketData>;
+export type GameSocket = Socket<ClientEvents, ServerEvents, DefaultEventsMap, SocketData>;
@@ -0,0 +1,99 @@
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { Server as SocketIOServer } from 'socket.io';
+import { io as connectClient, type Socket } from 'socket.io-client';
+import type { ClientEvents, ServerEvents } from 'shared';
+import { registerLobbyHandlers, type LobbyOptions } from '../lobby/lobbyHandlers.js';
+import { RoomManager } from '../lobby/RoomManager.js';
+import { loadGameData } from '../match/gameData.js';
+import { MatchManager } from '../match/MatchManager.js';
+import { registerMatchHandlers } from '../match/matchHandlers.js';
+import type { GameServer } from '../net.js';
+
+export type TestClient = Socket<ServerEvents, ClientEvents>;
+
+export interface TestServer {
+  rooms: RoomManager;
+  matches: MatchManager;
+  connect: () => Promise<TestClient>;
+  close: () => Promise<void>;
+}
+
+/**
+ * Run the game server on a free local port, with the real game data
+ * @param options - Lobby options, e.g. a short reconnect grace period
+ * @returns The server's state, a way to connect clients to it and a way to shut it down
+ */
+export async function startTestServer(options: LobbyOptions = {}): Promise<TestServer> {
+  const httpServer = createServer();
+  const io: GameServer = new SocketIOServer(httpServer);
+  const rooms = new RoomManager();
+  const matches = new MatchManager(await loadGameData());
+  const stop = registerLobbyHandlers(io, rooms, matches, options);
+  registerMatchHandlers(io, rooms, matches);
+
+  await new Promise<void>((resolve) => httpServer.listen(0, '127.0.0.1', resolve));
+  const { port } = httpServer.address() as AddressInfo;
+  const clients: TestClient[] = [];
+
+  return {
+    rooms,
+    matches,
+    connect: () => {
+      const client: TestClient = connectClient(`http://127.0.0.1:${port}`, { transports: ['websocket'], reconnection: false });
+      clients.push(client);
+      return new Promise((resolve, reject) => {
+        client.once('connect', () => resolve(client));
+        client.once('connect_error', reject);
+      });
+    },
+    close: async () => {
+      clients.forEach((client) => client.disconnect());
+      stop();
+      await new Promise<void>((resolve) => io.close(() => resolve()));
+    },
+  };
+}
+
+/** Wait for the next time the server pushes an event to a client */
+export function nextEvent<E extends keyof ServerEvents>(client: TestClient, event: E): Promise<Parameters<ServerEvents[E]>[0]> {
+  return new Promise((resolve) => {
+    client.once(event, ((value: Parameters<ServerEvents[E]>[0]) => resolve(value)) as never);
+  });
+}
+
+/** Collect every time the server pushes an event to a client */
+export function recordEvents<E extends keyof ServerEvents>(client: TestClient, event: E): Parameters<ServerEvents[E]>[0][] {
+  const received: Parameters<ServerEvents[E]>[0][] = [];
+  client.on(event, ((value: Parameters<ServerEvents[E]>[0]) => received.push(value)) as never);
+  return received;
+}
+
+/** Wait until a condition holds, e.g. until the server has handled a disconnect */
+export async function waitUntil(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the server');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+/**
+ * Connect two players, put them in a room and ready them up
+ * @param server - The test server
+ * @returns Both clients, their sessions, the room code and the snapshot the match started from
+ */
+export async function startMatch(server: TestServer) {
+  const host = await server.connect();
+  const guest = await server.connect();
+  const created = await host.emitWithAck('room:create', { name: 'Alice' });
+  if (!created.ok || !created.session) throw new Error('Could not create a room');
+  const joined = await guest.emitWithAck('room:join', { code: created.room.code, name: 'Bob' });
+  if (!joined.ok || !joined.session) throw new Error('Could not join the room');
+
+  const started = Promise.all([nextEvent(host, 'match:started'), nextEvent(guest, 'match:started')]);
+  await host.emitWithAck('room:ready', { ready: true });
+  await guest.emitWithAck('room:ready', { ready: true });
+  const [snapshot] = await started;
+  return { host, guest, code: created.room.code, hostSession: created.session, guestSession: joined.session, snapshot };
+}
@@ -11,6 +11,22 @@ export interface Tile {
   occupied?: Unit
   owner?: PlayerId
   highlighted?: HighlightType
+  hazard?: TileHazard
+  captureProgress?: CaptureProgress
+}
+
+// A capture under way on a cubicle that takes several turns to take over
+export interface CaptureProgress {
+  playerId: PlayerId
+  turns: number // Turns of capturing done so far
+  turnNumber: number // Round in which it last advanced, so it only advances once per turn
+}
+
+// A hazard left on a tile by a create_tile_hazard ability
+export interface TileHazard extends HazardDetails {
+  remainingTurns: number
+  playerId?: PlayerId // Player whose turn start ticks the hazard down
+  sourceId?: string // Unit that created the hazard
 }
 
 export enum TileType {
@@ -47,6 +63,7 @@ export interface Unit {
   moveRange: number
   attackRange: number
   attackDamage: number
+  defense: number
   actionsRemaining: number
   maxActions: number
   status: LegacyStatusEffect[]
@@ -55,6 +72,7 @@ export interface Unit {
   hasAttacked: boolean
   abilities: string[]
   abilityCooldowns: Record<string, number>
+  employeeKey?: string // Key into employees.json for units created from employee data
   // New movement tracking properties
   movementUsed: number // How much movement has been used this turn
   remainingMovement: number // How much movement is left this turn
@@ -78,6 +96,16 @@ export interface LegacyStatusEffect {
   type: StatusType
   duration: number
   source?: string
+  key?: string // Key into status_effects.json for data-driven statuses
+  magnitude?: number // Overrides the modifier value of the status definition
+  damagePerTurn?: number // Overrides the tick_effect value of the status definition
+}
+
+// Stat change applied while a status is active
+export interface StatModifier {
+  stat: string // attack_power, speed, defense, can_act, can_capture, actions_remaining
+  operation: 'multiply' | 'add' | 'subtract' | 'set'
+  value: number | boolean
 }
 
 // New data-driven StatusEffect interface
@@ -87,11 +115,7 @@ export interface StatusEffect {
   description: string
   type: 'buff' | 'debuff'
   duration_in_turns: number
-  modifiers?: {
-    stat: string
-    operation: 'multiply' | 'add' | 'set'
-    value: number | boolean
-  }
+  modifiers?: StatModifier | StatModifier[]
   tick_effect?: {
     type: string
     value: number
@@ -116,6 +140,14 @@ export enum StatusType {
   POISONED = 'poisoned',
 }
 
+// Victory conditions chosen at match setup; any one of them being met ends the game
+export type VictoryCondition =
+  | { type: 'elimination' }
+  | { type: 'capture'; share: number } // Control this share of all cubicles
+  | { type: 'hold_capture'; share: number; turns: number } // ...at the end of this many of your turns in a row
+  | { type: 'hq_capture' } // Move a unit onto an enemy HQ tile
+  | { type: 'assassinate'; executives: Record<PlayerId, string> } // Defeat the enemy's Executive unit
+
 // Game State
 export interface GameState {
   id: string
@@ -127,6 +159,10 @@ export interface GameState {
   phase: GamePhase
   selectedUnit?: Unit
   winner?: PlayerId
+  victoryReason?: string // Why the game ended, set together with phase GAME_OVER
+  victoryConditions?: VictoryCondition[] // Defaults to elimination plus the 51% capture rule
+  captureHoldTurns?: Record<PlayerId, number> // Consecutive turns each player has held a hold_capture share
+  rngState?: number // Seeded random generator state, advanced by every roll the rules engine makes
 }
 
 export interface Player {
@@ -145,6 +181,9 @@ export enum Team {
 
 export type PlayerId = string
 
+// Who decides a player's actions: someone at this device, the AI, or a player connected from elsewhere
+export type PlayerController = 'human' | 'ai' | 'remote'
+
 export enum GamePhase {
   SETUP = 'setup',
   DRAFT = 'draft',
@@ -159,8 +198,9 @@ export enum GamePhase {
 export interface DraftState {
   playerBudget: number;
   maxHeadcount: number;
+  draftingPlayerId: PlayerId; // Whose picks selectedUnits holds
   selectedUnits: DraftUnit[];
-  aiUnits: DraftUnit[];
+  teams: Record<PlayerId, DraftUnit[]>; // Confirmed picks of each player, including the AI's
 }
 
 export interface DraftUnit {
@@ -175,6 +215,8 @@ export interface GameAction {
   unitId?: string
   target?: Coordinate
   abilityId?: string
+  employeeKey?: string // Employee to hire for HIRE_UNIT
+  direction?: Unit['direction'] // Facing chosen with SET_FACING
 }
 
 export enum ActionType {
@@ -183,7 +225,9 @@ export enum ActionType {
   USE_ABILITY = 'use_ability',
   CAPTURE_CUBICLE = 'capture_cubicle',
   HIRE_UNIT = 'hire_unit',
+  SET_FACING = 'set_facing',
   END_TURN = 'end_turn',
+  FORFEIT = 'forfeit', // Concede the match; allowed on either player's turn
 }
 
 // Legacy unit configuration - will be replaced by data-driven system
@@ -204,6 +248,7 @@ export interface Ability {
   coneAngle?: number // for cone abilities in degrees
   requiresDirection?: boolean
   range_pattern_key?: string // Reference to attack pattern
+  indirect?: boolean // Ignores line of sight
   effect: (caster: Unit, target?: Unit | Coordinate) => AbilityResult
   visualEffect?: string
   soundEffect?: string
@@ -260,6 +305,7 @@ export interface Employee {
     type: 'melee' | 'ranged'
     range: number
     description: string
+    indirect?: boolean // Lobbed or otherwise ignores line of sight
     status_effect: {
       type: string
       chance: number
@@ -269,6 +315,16 @@ export interface Employee {
     }
   }
   ability_keys?: string[]
+  reactions?: EmployeeReaction[]
+}
+
+// Something an employee does on its own, outside its turn, when the trigger happens
+export type ReactionTrigger = 'on_damaged' | 'on_ally_killed' | 'on_enemy_enters_range'
+
+export interface EmployeeReaction {
+  trigger: ReactionTrigger
+  ability_key: string // Ability in abilities.json whose effects run; it shares that ability's cooldown
+  chance?: number // Defaults to always
 }
 
 export interface DataAbility {
@@ -277,6 +333,7 @@ export interface DataAbility {
   description: string
   cooldown_turns: number
   range_pattern_key: string
+  indirect?: boolean // Ignores line of sight
   effects: Array<{
     type: string
     target: string
@@ -284,24 +341,26 @@ export interface DataAbility {
     damage_type?: string
     status_key?: string
     chance?: number
-    hazard_details?: {
-      name: string
-      duration_in_turns: number
-      visual_effect: string
-      on_turn_end?: {
-        type: string
-        value: number
-        damage_type: string
-      }
-      on_enter?: {
-        type: string
-        status_key: string
-        chance: number
-      }
-    }
+    hazard_details?: HazardDetails
   }>
 }
 
+export interface HazardDetails {
+  name: string
+  duration_in_turns: number
+  visual_effect: string
+  on_turn_end?: {
+    type: string
+    value: number
+    damage_type: string
+  }
+  on_enter?: {
+    type: string
+    status_key: string
+    chance: number
+  }
+}
+
 export interface AttackPattern {
   key: string
   type: 'directional' | 'centered'
@@ -318,7 +377,17 @@ export interface GameConfig {
   gameplay_rules: {
     max_team_size: number
     turn_limit: number
+    income_per_cubicle?: number
+    capture_turns?: number
+    movement_costs?: Partial<Record<TileType, number>> // Movement spent entering each tile type, 1 if unset
+    units_block_line_of_sight?: boolean // Units in the way block ranged attacks and abilities as walls do
   }
 }
 
+// Rules engine
+export * from './rules/index.js'
 
+// Online play
+export * from './net/lobby.js'
+export * from './net/match.js'
+export * from './net/session.js'
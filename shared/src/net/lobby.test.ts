@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import {
+  ROOM_CODE_ALPHABET,
+  ROOM_CODE_LENGTH,
+  canStartMatch,
+  createRoomCode,
+  getJoinError,
+  getRoomSummary,
+  getSeatError,
+  getSpectateError,
+  MAX_SPECTATORS,
+  normalizePlayerName,
+  normalizeRoomCode,
+  type RoomMember,
+  type RoomState,
+} from './lobby.js'
+
+function createRoom(members: RoomMember[], overrides: Partial<RoomState> = {}): RoomState {
+  return { code: 'ABCDE', hostId: 'a', status: 'waiting', members, createdAt: 0, updatedAt: 0, ...overrides }
+}
+
+const host: RoomMember = { id: 'a', name: 'Alice', seat: 'player1', ready: false, connected: true }
+const guest: RoomMember = { id: 'b', name: 'Bob', seat: 'player2', ready: false, connected: true }
+
+describe('room codes', () => {
+  it('draws codes from the alphabet and skips ones in use', () => {
+    const rolls = [0, 0, 0, 0, 0, 0.99, 0.99, 0.99, 0.99, 0.99]
+    const code = createRoomCode(new Set(['AAAAA']), () => rolls.shift()!)
+
+    expect(code).toHaveLength(ROOM_CODE_LENGTH)
+    expect(code).toBe(ROOM_CODE_ALPHABET[ROOM_CODE_ALPHABET.length - 1]!.repeat(ROOM_CODE_LENGTH))
+  })
+
+  it('accepts codes typed in lower case or with separators', () => {
+    expect(normalizeRoomCode(' ab-c de ')).toBe('ABCDE')
+  })
+
+  it('falls back to a default name and trims long ones', () => {
+    expect(normalizePlayerName('   ')).toBe('Player')
+    expect(normalizePlayerName('x'.repeat(40))).toHaveLength(24)
+  })
+})
+
+describe('seats', () => {
+  it('lists the open seats and the host in the summary', () => {
+    expect(getRoomSummary(createRoom([host]))).toEqual({ code: 'ABCDE', hostName: 'Alice', status: 'waiting', openSeats: ['player2'], spectators: 0 })
+  })
+
+  it('turns joiners away from missing, full or started rooms', () => {
+    expect(getJoinError(undefined)).toBe('No room with that code')
+    expect(getJoinError(createRoom([host, guest]))).toBe('That room is full')
+    expect(getJoinError(createRoom([host], { status: 'in_game' }))).toBe('That match has already started')
+    expect(getJoinError(createRoom([host]))).toBeUndefined()
+  })
+
+  it('lets spectators into started matches until the room is crowded', () => {
+    const watcher: RoomMember = { id: 'c', name: 'Cat', seat: null, ready: false, connected: true }
+    const crowd = Array.from({ length: MAX_SPECTATORS }, (_, i) => ({ ...watcher, id: `w${i}` }))
+
+    expect(getSpectateError(createRoom([host, guest], { status: 'in_game' }))).toBeUndefined()
+    expect(getRoomSummary(createRoom([host, guest, watcher])).spectators).toBe(1)
+    expect(getSpectateError(createRoom([host, guest, ...crowd]))).toBe('That room has no space for more spectators')
+    expect(getSpectateError(undefined)).toBe('No room with that code')
+  })
+
+  it('only lets members into empty seats', () => {
+    const room = createRoom([host, guest])
+
+    expect(getSeatError(room, 'a', 'player2')).toBe('Bob is already in that seat')
+    expect(getSeatError(room, 'a', 'player1')).toBeUndefined()
+    expect(getSeatError(createRoom([host]), 'a', 'player2')).toBeUndefined()
+  })
+})
+
+describe('canStartMatch', () => {
+  it('waits for both seats to be filled and ready', () => {
+    expect(canStartMatch(createRoom([{ ...host, ready: true }]))).toBe(false)
+    expect(canStartMatch(createRoom([{ ...host, ready: true }, guest]))).toBe(false)
+    expect(canStartMatch(createRoom([{ ...host, ready: true }, { ...guest, ready: true }]))).toBe(true)
+  })
+})
@@ -0,0 +1,187 @@
+/**
+ * Online lobby protocol shared by the client and the server.
+ *
+ * A player creates a room and passes its short code to a friend, who joins with it. Each
+ * member sits in one of the two seats, which become player1 and player2 in the match, and
+ * the match starts once both seats are taken and both players are ready. Anyone else may join
+ * as a spectator, without a seat, to watch the match. The helpers here are pure, so the server
+ * can keep rooms in memory and the client can mirror the same checks.
+ */
+
+import type { MemberSession } from './session.js'
+
+/** The two sides of a 1v1 match */
+export type Seat = 'player1' | 'player2'
+
+export const SEATS: readonly Seat[] = ['player1', 'player2']
+
+/** Characters used in room codes; 0/O and 1/I/L are left out so codes read aloud cleanly */
+export const ROOM_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'
+export const ROOM_CODE_LENGTH = 5
+
+export const MAX_PLAYER_NAME_LENGTH = 24
+
+export const MAX_SPECTATORS = 8
+
+export type RoomStatus = 'waiting' | 'in_game'
+
+export interface RoomMember {
+  id: string // Stays the same when the member reconnects
+  name: string
+  seat: Seat | null // Null for spectators
+  ready: boolean
+  connected: boolean // False while a player who dropped out of a match has time to come back
+}
+
+export interface RoomState {
+  code: string
+  hostId: string
+  status: RoomStatus
+  members: RoomMember[]
+  createdAt: number
+  updatedAt: number // Last time anyone in the room did something, for cleaning up abandoned rooms
+}
+
+/** What the room list shows about a room */
+export interface RoomSummary {
+  code: string
+  hostName: string
+  status: RoomStatus
+  openSeats: Seat[]
+  spectators: number
+}
+
+/** Answer to a lobby request; creating or joining a room also hands out the session to resume with */
+export type LobbyResponse = { ok: true; room: RoomState; session?: MemberSession } | { ok: false; error: string }
+
+/** Events the client sends; each request is answered through its acknowledgement callback */
+export interface LobbyClientEvents {
+  'lobby:list': (ack: (rooms: RoomSummary[]) => void) => void
+  'room:create': (request: { name: string }, ack: (response: LobbyResponse) => void) => void
+  'room:join': (request: { code: string; name: string }, ack: (response: LobbyResponse) => void) => void
+  'room:spectate': (request: { code: string; name: string }, ack: (response: LobbyResponse) => void) => void
+  'room:leave': () => void
+  'room:seat': (request: { seat: Seat }, ack: (response: LobbyResponse) => void) => void
+  'room:ready': (request: { ready: boolean }, ack: (response: LobbyResponse) => void) => void
+}
+
+/** Events the server pushes */
+export interface LobbyServerEvents {
+  'lobby:rooms': (rooms: RoomSummary[]) => void // The open rooms changed
+  'room:updated': (room: RoomState) => void // Someone in your room joined, left, moved or readied up
+  'room:started': (room: RoomState) => void // Both seats are ready
+  'room:closed': (reason: string) => void // The server removed your room
+}
+
+/**
+ * Make a new room code that isn't in use
+ * @param taken - Codes of the rooms that already exist
+ * @param random - Source of numbers in [0, 1)
+ * @returns A code of ROOM_CODE_LENGTH characters from ROOM_CODE_ALPHABET
+ */
+export function createRoomCode(taken: Set<string>, random: () => number = Math.random): string {
+  let code: string
+  do {
+    code = Array.from({ length: ROOM_CODE_LENGTH }, () => ROOM_CODE_ALPHABET[Math.floor(random() * ROOM_CODE_ALPHABET.length)]).join('')
+  } while (taken.has(code))
+  return code
+}
+
+/**
+ * Tidy a room code the way a player typed it
+ * @param code - The typed code
+ * @returns The code in capitals without spaces or dashes
+ */
+export function normalizeRoomCode(code: string): string {
+  return code.toUpperCase().replace(/[\s-]/g, '')
+}
+
+/**
+ * Tidy a player name
+ * @param name - The typed name
+ * @returns The trimmed name, cut to MAX_PLAYER_NAME_LENGTH, or 'Player' if it was blank
+ */
+export function normalizePlayerName(name: string): string {
+  return name.trim().slice(0, MAX_PLAYER_NAME_LENGTH) || 'Player'
+}
+
+/**
+ * Get the seats nobody sits in
+ * @param room - The room
+ * @returns Open seats, player1 first
+ */
+export function getOpenSeats(room: RoomState): Seat[] {
+  return SEATS.filter((seat) => !room.members.some((m) => m.seat === seat))
+}
+
+/**
+ * Get the members watching a room rather than playing in it
+ * @param room - The room
+ * @returns Members without a seat
+ */
+export function getSpectators(room: RoomState): RoomMember[] {
+  return room.members.filter((m) => !m.seat)
+}
+
+/**
+ * Summarise a room for the room list
+ * @param room - The room
+ * @returns The code, host name, status, open seats and number of spectators
+ */
+export function getRoomSummary(room: RoomState): RoomSummary {
+  return {
+    code: room.code,
+    hostName: room.members.find((m) => m.id === room.hostId)?.name ?? 'Unknown',
+    status: room.status,
+    openSeats: getOpenSeats(room),
+    spectators: getSpectators(room).length,
+  }
+}
+
+/**
+ * Check whether a new member can join a room
+ * @param room - The room, if one exists with the code
+ * @returns Why they can't, or undefined if they can
+ */
+export function getJoinError(room: RoomState | undefined): string | undefined {
+  if (!room) return 'No room with that code'
+  if (room.status !== 'waiting') return 'That match has already started'
+  if (getOpenSeats(room).length === 0) return 'That room is full'
+  return undefined
+}
+
+/**
+ * Check whether someone can join a room to watch; unlike players, they may come in mid-match
+ * @param room - The room, if one exists with the code
+ * @returns Why they can't, or undefined if they can
+ */
+export function getSpectateError(room: RoomState | undefined): string | undefined {
+  if (!room) return 'No room with that code'
+  if (getSpectators(room).length >= MAX_SPECTATORS) return 'That room has no space for more spectators'
+  return undefined
+}
+
+/**
+ * Check whether a member can take a seat
+ * @param room - The room
+ * @param memberId - The member moving
+ * @param seat - The seat they want
+ * @returns Why they can't, or undefined if they can
+ */
+export function getSeatError(room: RoomState, memberId: string, seat: Seat): string | undefined {
+  if (room.status !== 'waiting') return 'The match has already started'
+  if (!SEATS.includes(seat)) return `Unknown seat: ${seat}`
+  const occupant = room.members.find((m) => m.seat === seat)
+  if (occupant && occupant.id !== memberId) return `${occupant.name} is already in that seat`
+  return undefined
+}
+
+/**
+ * Check whether a room's match can begin
+ * @param room - The room
+ * @returns True once both seats are taken and everyone seated is ready
+ */
+export function canStartMatch(room: RoomState): boolean {
+  const seated = room.members.filter((m) => m.seat)
+  return room.status === 'waiting' && getOpenSeats(room).length === 0 && seated.every((m) => m.ready)
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest'
+import { ActionType } from '../index.js'
+import { getActionError, getClientState } from './match.js'
+import { createMockGameState } from '../test/helpers.js'
+
+describe('getActionError', () => {
+  it('passes well-formed actions for the sender\'s own side', () => {
+    expect(getActionError({ type: ActionType.MOVE_UNIT, playerId: 'player2', unitId: 'u1', target: { x: 1, y: 2 } }, 'player2')).toBeUndefined()
+    expect(getActionError({ type: ActionType.END_TURN, playerId: 'player1' }, 'player1')).toBeUndefined()
+  })
+
+  it('rejects actions from unseated members or for the other side', () => {
+    expect(getActionError({ type: ActionType.END_TURN, playerId: 'player1' }, null)).toBe('You are not seated in this match')
+    expect(getActionError({ type: ActionType.END_TURN, playerId: 'player1' }, 'player2')).toBe('You can only act for your own side')
+  })
+
+  it('rejects malformed actions', () => {
+    expect(getActionError('end_turn', 'player1')).toBe('Not an action')
+    expect(getActionError({ type: 'teleport', playerId: 'player1' }, 'player1')).toBe('Unknown action type')
+    expect(getActionError({ type: ActionType.MOVE_UNIT, playerId: 'player1', target: { x: '1', y: 2 } }, 'player1')).toBe('Malformed target')
+    expect(getActionError({ type: ActionType.SET_FACING, playerId: 'player1', direction: 'north' }, 'player1')).toBe('Malformed direction')
+  })
+})
+
+describe('getClientState', () => {
+  it('keeps the dice seed from clients', () => {
+    const state = { ...createMockGameState(), rngState: 42 }
+
+    expect(getClientState(state)).not.toHaveProperty('rngState')
+    expect(getClientState(state).units).toBe(state.units)
+    expect(state.rngState).toBe(42)
+  })
+})
@@ -0,0 +1,87 @@
+import { ActionType, type Coordinate, type GameAction, type GameState } from '../index.js'
+import type { GameEvent } from '../rules/types.js'
+import type { LobbyClientEvents, LobbyServerEvents, Seat } from './lobby.js'
+import type { SessionClientEvents } from './session.js'
+
+/**
+ * Online match protocol shared by the client and the server.
+ *
+ * The server owns the game state of every room in play. Clients send the actions their player
+ * wants to take; the server runs each one through the rules engine and either answers with the
+ * reason it was rejected or tells the whole room what happened and what the state is now.
+ * Updates are numbered from 1 in the order the server applied them. States sent to clients
+ * leave out the dice seed, which stays on the server.
+ */
+
+/** Team both sides field in online matches until online drafting exists */
+export const ONLINE_STARTING_TEAM = ['manager', 'salesman', 'it_guy', 'secretary']
+
+/** An accepted action and what it did */
+export interface MatchUpdate {
+  seq: number // One more than the update before it
+  action: GameAction
+  events: GameEvent[]
+  state: GameState // The server's state after the action, as clients may see it
+}
+
+/** The match as it stands, with the sequence number of the last update applied to it */
+export interface MatchSnapshot {
+  state: GameState
+  seq: number
+}
+
+export type ActionResponse = { ok: true } | { ok: false; error: string }
+
+export interface MatchClientEvents {
+  'match:action': (action: GameAction, ack: (response: ActionResponse) => void) => void
+}
+
+export interface MatchServerEvents {
+  'match:started': (snapshot: MatchSnapshot) => void
+  'match:update': (update: MatchUpdate) => void
+  'match:ended': (reason: string) => void // The match stopped before anyone won
+}
+
+/** Everything a client can send */
+export type ClientEvents = LobbyClientEvents & MatchClientEvents & SessionClientEvents
+
+/** Everything the server can push */
+export type ServerEvents = LobbyServerEvents & MatchServerEvents
+
+const DIRECTIONS = ['up', 'down', 'left', 'right']
+
+const isCoordinate = (value: unknown): value is Coordinate =>
+  typeof value === 'object' && value !== null && Number.isInteger((value as Coordinate).x) && Number.isInteger((value as Coordinate).y)
+
+/**
+ * Check an action received from a player before it reaches the rules engine
+ * @param action - The action as it came off the wire
+ * @param seat - The seat of the player who sent it
+ * @returns Why the action can't be taken, or undefined if the rules engine should resolve it
+ */
+export function getActionError(action: unknown, seat: Seat | null | undefined): string | undefined {
+  if (!seat) return 'You are not seated in this match'
+  if (typeof action !== 'object' || action === null) return 'Not an action'
+
+  const candidate = action as Partial<Record<keyof GameAction, unknown>>
+  if (typeof candidate.type !== 'string' || !(Object.values(ActionType) as string[]).includes(candidate.type)) return 'Unknown action type'
+  if (candidate.playerId !== seat) return 'You can only act for your own side'
+  if (candidate.unitId !== undefined && typeof candidate.unitId !== 'string') return 'Malformed unit id'
+  if (candidate.target !== undefined && !isCoordinate(candidate.target)) return 'Malformed target'
+  if (candidate.abilityId !== undefined && typeof candidate.abilityId !== 'string') return 'Malformed ability id'
+  if (candidate.employeeKey !== undefined && typeof candidate.employeeKey !== 'string') return 'Malformed employee key'
+  if (candidate.direction !== undefined && !DIRECTIONS.includes(candidate.direction as string)) return 'Malformed direction'
+  return undefined
+}
+
+/**
+ * Get the part of a match state a client may see. A client that knew the seed of the dice
+ * could work out every roll before making a move.
+ * @param state - The server's state
+ * @returns The state without the random generator state
+ */
+export function getClientState(state: GameState): GameState {
+  const visible = { ...state }
+  delete visible.rngState
+  return visible
+}
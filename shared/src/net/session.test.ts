@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest'
+import type { GameState } from '../index.js'
+import type { MatchUpdate } from './match.js'
+import { getResync, getUpdateOrder } from './session.js'
+
+const state = {} as GameState
+const update = (seq: number) => ({ seq, state }) as MatchUpdate
+
+describe('getUpdateOrder', () => {
+  it('applies the next update and drops ones already seen', () => {
+    expect(getUpdateOrder(3, 4)).toBe('next')
+    expect(getUpdateOrder(3, 3)).toBe('duplicate')
+    expect(getUpdateOrder(3, 1)).toBe('duplicate')
+  })
+
+  it('spots missed updates', () => {
+    expect(getUpdateOrder(3, 6)).toBe('gap')
+  })
+})
+
+describe('getResync', () => {
+  const log = [update(5), update(6), update(7)]
+
+  it('replays the missed updates while the log holds them', () => {
+    expect(getResync({ state, seq: 7 }, log, 5)).toEqual({ updates: [update(6), update(7)] })
+    expect(getResync({ state, seq: 7 }, log, 4)).toEqual({ updates: log })
+    expect(getResync({ state, seq: 7 }, log, 7)).toEqual({ updates: [] })
+  })
+
+  it('falls back to the snapshot once updates have left the log', () => {
+    expect(getResync({ state, seq: 7 }, log, 2)).toEqual({ snapshot: { state, seq: 7 } })
+  })
+
+  it('sends the snapshot for sequence numbers the match never reached', () => {
+    expect(getResync({ state, seq: 7 }, log, 9)).toEqual({ snapshot: { state, seq: 7 } })
+  })
+})
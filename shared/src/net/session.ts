@@ -0,0 +1,55 @@
+import type { RoomState } from './lobby.js'
+import type { MatchSnapshot, MatchUpdate } from './match.js'
+
+/**
+ * Reconnection protocol for online matches.
+ *
+ * Creating or joining a room hands the player a session. If their connection drops, they present
+ * its token on a new connection to take back their place in the room, along with the last update
+ * sequence number they saw. The server answers with the updates they missed or, when it no longer
+ * holds all of them, a snapshot of the match to start over from.
+ */
+
+/** What a player needs to come back to their room after losing the connection */
+export interface MemberSession {
+  memberId: string
+  token: string // Secret; only the member it was issued to knows it
+}
+
+/** How a client catches up: the updates it missed in order, or the whole match */
+export type MatchResync = { updates: MatchUpdate[] } | { snapshot: MatchSnapshot }
+
+export type ResumeResponse = { ok: true; room: RoomState; memberId: string; resync?: MatchResync } | { ok: false; error: string }
+
+export interface SessionClientEvents {
+  'session:resume': (request: { token: string; lastSeq: number }, ack: (response: ResumeResponse) => void) => void
+  'match:resync': (request: { lastSeq: number }, ack: (resync: MatchResync | null) => void) => void
+}
+
+/** Where an incoming update falls relative to what a client has applied */
+export type UpdateOrder = 'next' | 'duplicate' | 'gap'
+
+/**
+ * Place an update in the sequence a client has seen
+ * @param lastSeq - Sequence number of the last update the client applied
+ * @param seq - Sequence number of the incoming update
+ * @returns 'next' to apply it, 'duplicate' to drop it, or 'gap' when updates before it were missed
+ */
+export function getUpdateOrder(lastSeq: number, seq: number): UpdateOrder {
+  if (seq <= lastSeq) return 'duplicate'
+  return seq === lastSeq + 1 ? 'next' : 'gap'
+}
+
+/**
+ * Work out what a client needs to catch up with a match
+ * @param snapshot - The match as it stands
+ * @param log - The most recent updates, oldest first; older ones may have been dropped
+ * @param lastSeq - Sequence number of the last update the client applied
+ * @returns The missed updates if the log still holds all of them, otherwise the snapshot
+ */
+export function getResync(snapshot: MatchSnapshot, log: MatchUpdate[], lastSeq: number): MatchResync {
+  if (lastSeq > snapshot.seq || lastSeq < 0) return { snapshot }
+  const missed = log.filter((update) => update.seq > lastSeq)
+  const complete = missed.length === snapshot.seq - lastSeq && (missed[0]?.seq ?? lastSeq + 1) === lastSeq + 1
+  return complete ? { updates: missed } : { snapshot }
+}
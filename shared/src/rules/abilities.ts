@@ -0,0 +1,109 @@
+import { StatusType, TargetType, type Coordinate, type DataAbility, type GameState, type Unit } from '../index.js'
+import { getDistance, isPassable } from './movement.js'
+import { hasLineOfSight } from './sight.js'
+import type { RulesData } from './types.js'
+
+/**
+ * Pure ability rules shared by the client, the AI and the server.
+ */
+
+/** Action points every ability costs */
+export const ABILITY_ACTION_COST = 1
+
+/**
+ * Derive the primary target type of a data-driven ability from its effects
+ * @param ability - The ability definition
+ * @returns The kind of target the caster has to pick
+ */
+export function getAbilityTargetType(ability: DataAbility): TargetType {
+  if (ability.effects.some((e) => e.type === 'create_tile_hazard')) return TargetType.TILE
+  if (ability.effects.some((e) => e.target === 'ally')) return TargetType.ALLY
+  if (ability.effects.some((e) => e.target === 'self')) return TargetType.SELF
+  if (ability.effects.some((e) => e.target === 'all_allies')) return TargetType.ALL_ALLIES
+  if (ability.effects.some((e) => e.target === 'all_enemies')) return TargetType.ALL_ENEMIES
+  return TargetType.ENEMY
+}
+
+/**
+ * Map a status effect key from status_effects.json to its StatusType
+ * @param key - Status effect key
+ * @returns The matching StatusType
+ */
+export function getStatusTypeForKey(key: string): StatusType {
+  switch (key) {
+    case 'on_deadline':
+      return StatusType.ON_DEADLINE
+    case 'exhausted':
+      return StatusType.EXHAUSTED
+    case 'written_up':
+      return StatusType.WRITTEN_UP
+    case 'harassed':
+      return StatusType.HARASSED
+    case 'focused':
+      return StatusType.FOCUSED
+    case 'stunned':
+      return StatusType.STUNNED
+    case 'shielded':
+      return StatusType.SHIELDED
+    case 'inspired':
+    case 'increase_speed':
+      return StatusType.INSPIRED
+    case 'bleeding':
+      return StatusType.POISONED
+    case 'fire':
+      return StatusType.BURNING
+    case 'freeze':
+      return StatusType.FROZEN
+    default:
+      return StatusType.CONFUSED
+  }
+}
+
+/**
+ * Check whether a unit can use an ability right now
+ * @param unit - The caster
+ * @param ability - The ability definition
+ * @returns True if the unit knows the ability, it is off cooldown and the unit can pay for it
+ */
+export function canUseAbility(unit: Unit, ability: DataAbility): boolean {
+  if (!unit.abilities.includes(ability.key)) return false
+  if ((unit.abilityCooldowns[ability.key] || 0) > 0) return false
+  return unit.actionsRemaining >= ABILITY_ACTION_COST
+}
+
+/**
+ * Get the units or tiles an ability can be aimed at
+ * @param unit - The caster
+ * @param ability - The ability definition
+ * @param state - The current game state
+ * @param data - Static game data (for whether units block sight)
+ * @returns Valid targets in range and, unless the ability is indirect, in sight;
+ *   units for unit-targeted abilities, coordinates otherwise
+ */
+export function getAbilityTargets(
+  unit: Unit,
+  ability: DataAbility,
+  state: Pick<GameState, 'board' | 'units'>,
+  data?: Pick<RulesData, 'config'>
+): (Unit | Coordinate)[] {
+  const range = unit.attackRange
+  const reaches = (coord: Coordinate) =>
+    getDistance(unit.position, coord) <= range &&
+    (!!ability.indirect || hasLineOfSight(unit.position, coord, state, data))
+
+  switch (getAbilityTargetType(ability)) {
+    case TargetType.SELF:
+      return [unit]
+    case TargetType.ALLY:
+      return state.units.filter((u) => u.id !== unit.id && u.playerId === unit.playerId && reaches(u.position))
+    case TargetType.ENEMY:
+      return state.units.filter((u) => u.playerId !== unit.playerId && reaches(u.position))
+    case TargetType.TILE:
+      return state.board
+        .flat()
+        .filter((t) => isPassable(t) && reaches(t))
+        .map((t) => ({ x: t.x, y: t.y }))
+    default:
+      return []
+  }
+}
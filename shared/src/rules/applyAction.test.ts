@@ -0,0 +1,1161 @@
+import { describe, it, expect } from 'vitest'
+import { ActionType, GamePhase, StatusType, Team, TileType, type EmployeeReaction, type GameState } from '../index.js'
+import { applyAction } from './applyAction.js'
+import { getEffectiveStats } from './statuses.js'
+import { GameEventType } from './types.js'
+import { createMockBoard, createMockGameState, createMockPlayer, createMockRulesData, createMockUnit } from '../test/helpers.js'
+
+describe('applyAction', () => {
+  describe('validation', () => {
+    it('rejects actions from the player whose turn it is not', () => {
+      const state = createMockGameState()
+      const result = applyAction(state, { type: ActionType.END_TURN, playerId: 'player2' })
+
+      expect(result.error).toBeDefined()
+      expect(result.state).toBe(state)
+      expect(result.events).toEqual([])
+    })
+
+    it('rejects actions once the game is over', () => {
+      const state = createMockGameState({ phase: GamePhase.GAME_OVER })
+      const result = applyAction(state, { type: ActionType.END_TURN, playerId: 'player1' })
+
+      expect(result.error).toBe('Game is not in progress')
+    })
+
+    it('rejects moving a unit owned by the other player', () => {
+      const state = createMockGameState()
+      const result = applyAction(state, {
+        type: ActionType.MOVE_UNIT,
+        playerId: 'player1',
+        unitId: 'red-1',
+        target: { x: 4, y: 3 },
+      })
+
+      expect(result.error).toContain('does not belong')
+    })
+  })
+
+  describe('MOVE_UNIT', () => {
+    it('moves the unit and spends movement without mutating the input', () => {
+      const state = createMockGameState()
+      const result = applyAction(state, {
+        type: ActionType.MOVE_UNIT,
+        playerId: 'player1',
+        unitId: 'blue-1',
+        target: { x: 1, y: 0 },
+      })
+
+      expect(result.error).toBeUndefined()
+      const unit = result.state.units.find((u) => u.id === 'blue-1')!
+      expect(unit.position).toEqual({ x: 1, y: 0 })
+      expect(unit.remainingMovement).toBe(1)
+      expect(unit.actionsRemaining).toBe(2)
+      expect(state.units[0].position).toEqual({ x: 0, y: 0 })
+      expect(result.events).toEqual([
+        {
+          type: GameEventType.UNIT_MOVED,
+          unitId: 'blue-1',
+          from: { x: 0, y: 0 },
+          to: { x: 1, y: 0 },
+          cost: 1,
+          path: [{ x: 1, y: 0 }],
+        },
+      ])
+    })
+
+    it('consumes an action once movement runs out', () => {
+      const state = createMockGameState()
+      const result = applyAction(state, {
+        type: ActionType.MOVE_UNIT,
+        playerId: 'player1',
+        unitId: 'blue-1',
+        target: { x: 1, y: 1 },
+      })
+
+      const unit = result.state.units.find((u) => u.id === 'blue-1')!
+      expect(unit.remainingMovement).toBe(0)
+      expect(unit.actionsRemaining).toBe(1)
+      expect(unit.hasMoved).toBe(true)
+    })
+
+    it('leaves the unit facing the way it took its last step', () => {
+      const board = createMockBoard()
+      board[0][1] = { x: 1, y: 0, type: TileType.OBSTACLE }
+      const state = createMockGameState({ board })
+      const result = applyAction(state, {
+        type: ActionType.MOVE_UNIT,
+        playerId: 'player1',
+        unitId: 'blue-1',
+        target: { x: 1, y: 1 },
+      })
+
+      // The wall forces the route down first, so the last step is to the right
+      const unit = result.state.units.find((u) => u.id === 'blue-1')!
+      expect(unit.direction).toBe('right')
+    })
+
+    it('does not path through obstacles', () => {
+      const board = createMockBoard()
+      board[0][1] = { x: 1, y: 0, type: TileType.OBSTACLE }
+      board[1][0] = { x: 0, y: 1, type: TileType.OBSTACLE }
+      const state = createMockGameState({ board })
+
+      const result = applyAction(state, {
+        type: ActionType.MOVE_UNIT,
+        playerId: 'player1',
+        unitId: 'blue-1',
+        target: { x: 1, y: 1 },
+      })
+
+      expect(result.error).toBe('Destination is not reachable')
+    })
+
+    it('charges the terrain cost of the path taken rather than the distance', () => {
+      const board = createMockBoard()
+      board[0][1] = { x: 1, y: 0, type: TileType.HALLWAY }
+      board[0][2] = { x: 2, y: 0, type: TileType.HALLWAY }
+      const data = createMockRulesData({
+        config: {
+          game_version: '0.1.0',
+          draft_config: { starting_funds: 1000, timer_seconds: 60, picks_per_player: 5 },
+          gameplay_rules: { max_team_size: 4, turn_limit: 50, movement_costs: { hallway: 0.5 } },
+        },
+      })
+      const state = createMockGameState({ board })
+
+      const result = applyAction(
+        state,
+        { type: ActionType.MOVE_UNIT, playerId: 'player1', unitId: 'blue-1', target: { x: 2, y: 0 } },
+        data
+      )
+
+      expect(result.error).toBeUndefined()
+      const unit = result.state.units.find((u) => u.id === 'blue-1')!
+      expect(unit.remainingMovement).toBe(1)
+      expect(unit.actionsRemaining).toBe(2)
+    })
+  })
+
+  describe('ATTACK_UNIT', () => {
+    it('damages the target and turns the attacker towards it', () => {
+      const state = createMockGameState({
+        units: [
+          createMockUnit({ id: 'blue-1', position: { x: 1, y: 1 } }),
+          createMockUnit({ id: 'red-1', playerId: 'player2', position: { x: 2, y: 1 }, direction: 'left' }),
+        ],
+      })
+      const result = applyAction(state, {
+        type: ActionType.ATTACK_UNIT,
+        playerId: 'player1',
+        unitId: 'blue-1',
+        target: { x: 2, y: 1 },
+      })
+
+      const attacker = result.state.units.find((u) => u.id === 'blue-1')!
+      const target = result.state.units.find((u) => u.id === 'red-1')!
+      expect(attacker.hasAttacked).toBe(true)
+      expect(attacker.direction).toBe('right')
+      expect(target.hp).toBe(7)
+      // The target survives in melee range and hits back
+      expect(result.events.map((e) => e.type)).toEqual([
+        GameEventType.UNIT_ATTACKED,
+        GameEventType.UNIT_DAMAGED,
+        GameEventType.UNIT_ATTACKED,
+        GameEventType.UNIT_DAMAGED,
+      ])
+    })
+
+    it('removes defeated units and ends the game by elimination', () => {
+      const state = createMockGameState({
+        units: [
+          createMockUnit({ id: 'blue-1', position: { x: 1, y: 1 } }),
+          createMockUnit({ id: 'red-1', playerId: 'player2', position: { x: 1, y: 2 }, hp: 2 }),
+        ],
+      })
+      const result = applyAction(state, {
+        type: ActionType.ATTACK_UNIT,
+        playerId: 'player1',
+        unitId: 'blue-1',
+        target: { x: 1, y: 2 },
+      })
+
+      expect(result.state.units.map((u) => u.id)).toEqual(['blue-1'])
+      expect(result.state.phase).toBe(GamePhase.GAME_OVER)
+      expect(result.state.winner).toBe('player1')
+      expect(result.events.map((e) => e.type)).toContain(GameEventType.UNIT_DEFEATED)
+      expect(result.events[result.events.length - 1]?.type).toBe(GameEventType.GAME_OVER)
+    })
+
+    it('rejects targets out of range', () => {
+      const result = applyAction(createMockGameState(), {
+        type: ActionType.ATTACK_UNIT,
+        playerId: 'player1',
+        unitId: 'blue-1',
+        target: { x: 4, y: 4 },
+      })
+
+      expect(result.error).toBe('Target is not attackable')
+    })
+
+    describe('on-hit status effects', () => {
+      const attack = (employeeKey: string, rngState?: number, targetHp = 10) => {
+        const state = createMockGameState({
+          rngState,
+          units: [
+            createMockUnit({ id: 'blue-1', position: { x: 1, y: 1 }, employeeKey }),
+            createMockUnit({ id: 'red-1', playerId: 'player2', position: { x: 2, y: 1 }, direction: 'left', hp: targetHp }),
+          ],
+        })
+        return applyAction(
+          state,
+          { type: ActionType.ATTACK_UNIT, playerId: 'player1', unitId: 'blue-1', target: { x: 2, y: 1 } },
+          createMockRulesData()
+        )
+      }
+
+      it('applies the attacker status with the employee duration, magnitude and damage per turn', () => {
+        const result = attack('manager')
+        const target = result.state.units.find((u) => u.id === 'red-1')!
+
+        expect(target.status).toEqual([
+          { type: StatusType.BURNING, key: 'fire', duration: 3, source: 'blue-1', damagePerTurn: 4 },
+        ])
+        expect(result.events).toContainEqual({
+          type: GameEventType.STATUS_APPLIED,
+          unitId: 'red-1',
+          statusKey: 'fire',
+          duration: 3,
+          sourceId: 'blue-1',
+        })
+      })
+
+      it('rolls the chance from the seeded state so the same seed gives the same outcome', () => {
+        const outcomes = [1, 2, 3, 4, 5, 6, 7, 8].map((seed) => {
+          const first = attack('salesman', seed)
+          const second = attack('salesman', seed)
+          expect(second.state).toEqual(first.state)
+          expect(first.state.rngState).not.toBe(seed)
+          return first.state.units.find((u) => u.id === 'red-1')!.status.length
+        })
+
+        // A 25% roll lands on some seeds and misses on others
+        expect(outcomes).toContain(0)
+        expect(outcomes).toContain(1)
+      })
+
+      it('uses the status magnitude in place of the data modifier', () => {
+        const seed = [1, 2, 3, 4, 5, 6, 7, 8].find(
+          (s) => attack('salesman', s).state.units.find((u) => u.id === 'red-1')!.status.length > 0
+        )
+        const target = attack('salesman', seed).state.units.find((u) => u.id === 'red-1')!
+
+        expect(target.status[0]).toMatchObject({ key: 'slow', duration: 2, magnitude: 0.25 })
+        expect(getEffectiveStats({ ...target, moveRange: 4 }, createMockRulesData().statusEffects).speed).toBe(1)
+      })
+
+      it('does not roll for attacks without an on-hit status or for defeated targets', () => {
+        expect(attack('secretary', 5).state.rngState).toBe(5)
+        expect(attack('salesman', 5, 2).state.rngState).toBe(5)
+      })
+
+      it('ticks the status damage per turn instead of the data value', () => {
+        const hit = attack('manager')
+        const result = applyAction(
+          { ...hit.state, currentPlayerId: 'player1' },
+          { type: ActionType.END_TURN, playerId: 'player1' },
+          createMockRulesData()
+        )
+
+        expect(result.state.units.find((u) => u.id === 'red-1')!.hp).toBe(10 - 3 - 4)
+      })
+    })
+  })
+
+  describe('counterattacks and reactions', () => {
+    const retaliate = {
+      key: 'retaliate',
+      name: 'Retaliate',
+      description: 'Hit back at an adjacent enemy',
+      cooldown_turns: 2,
+      range_pattern_key: 'single_target_melee',
+      effects: [{ type: 'damage', target: 'enemy', value: 2 }],
+    }
+    const withReactions = (reactions: Record<string, EmployeeReaction[]>) => {
+      const data = createMockRulesData()
+      const employees = Object.fromEntries(
+        Object.entries(data.employees).map(([key, employee]) => [key, { ...employee, reactions: reactions[key] }])
+      )
+      return { ...data, employees, abilities: { ...data.abilities, retaliate } }
+    }
+    const attack = (state: GameState, target: { x: number; y: number }, data = createMockRulesData()) =>
+      applyAction(state, { type: ActionType.ATTACK_UNIT, playerId: 'player1', unitId: 'blue-1', target }, data)
+
+    it('lets a surviving melee defender hit back for free', () => {
+      const state = createMockGameState({
+        units: [
+          createMockUnit({ id: 'blue-1', position: { x: 1, y: 1 } }),
+          createMockUnit({ id: 'red-1', playerId: 'player2', position: { x: 2, y: 1 }, direction: 'left' }),
+        ],
+      })
+      const result = attack(state, { x: 2, y: 1 })
+
+      expect(result.events).toContainEqual({
+        type: GameEventType.UNIT_ATTACKED,
+        attackerId: 'red-1',
+        targetId: 'blue-1',
+        damage: 3,
+        counter: true,
+      })
+      expect(result.state.units.find((u) => u.id === 'blue-1')!.hp).toBe(7)
+      expect(result.state.units.find((u) => u.id === 'red-1')!.actionsRemaining).toBe(2)
+    })
+
+    it('does not counter from ranged, stunned or defeated defenders', () => {
+      const ranged = createMockGameState({
+        units: [
+          createMockUnit({ id: 'blue-1', position: { x: 1, y: 1 }, attackRange: 2 }),
+          createMockUnit({ id: 'red-1', playerId: 'player2', position: { x: 3, y: 1 }, attackRange: 3 }),
+        ],
+      })
+      const stunned = createMockGameState({
+        units: [
+          createMockUnit({ id: 'blue-1', position: { x: 1, y: 1 } }),
+          createMockUnit({
+            id: 'red-1',
+            playerId: 'player2',
+            position: { x: 2, y: 1 },
+            status: [{ type: StatusType.STUNNED, duration: 1 }],
+          }),
+        ],
+      })
+      const defeated = createMockGameState({
+        units: [
+          createMockUnit({ id: 'blue-1', position: { x: 1, y: 1 } }),
+          createMockUnit({ id: 'red-1', playerId: 'player2', position: { x: 2, y: 1 }, hp: 1 }),
+          createMockUnit({ id: 'red-2', playerId: 'player2', position: { x: 4, y: 4 } }),
+        ],
+      })
+
+      for (const [state, target] of [
+        [ranged, { x: 3, y: 1 }],
+        [stunned, { x: 2, y: 1 }],
+        [defeated, { x: 2, y: 1 }],
+      ] as const) {
+        const result = attack(state, target)
+        expect(result.error).toBeUndefined()
+        expect(result.state.units.find((u) => u.id === 'blue-1')!.hp).toBe(10)
+      }
+    })
+
+    it('runs an on_damaged reaction against the attacker and puts the ability on cooldown', () => {
+      const state = createMockGameState({
+        units: [
+          createMockUnit({ id: 'blue-1', position: { x: 1, y: 1 } }),
+          createMockUnit({ id: 'red-1', playerId: 'player2', position: { x: 2, y: 1 }, employeeKey: 'secretary' }),
+        ],
+      })
+      const result = attack(state, { x: 2, y: 1 }, withReactions({ secretary: [{ trigger: 'on_damaged', ability_key: 'retaliate' }] }))
+
+      expect(result.events).toContainEqual({
+        type: GameEventType.REACTION_TRIGGERED,
+        unitId: 'red-1',
+        trigger: 'on_damaged',
+        abilityId: 'retaliate',
+        targetId: 'blue-1',
+      })
+      // Counterattack for 3, then the reaction for 2
+      expect(result.state.units.find((u) => u.id === 'blue-1')!.hp).toBe(5)
+      expect(result.state.units.find((u) => u.id === 'red-1')!.abilityCooldowns.retaliate).toBe(2)
+    })
+
+    it('skips reactions on cooldown or whose chance misses', () => {
+      const state = createMockGameState({
+        rngState: 1,
+        units: [
+          createMockUnit({ id: 'blue-1', position: { x: 1, y: 1 } }),
+          createMockUnit({ id: 'red-1', playerId: 'player2', position: { x: 2, y: 1 }, employeeKey: 'secretary' }),
+        ],
+      })
+      const onCooldown = attack(
+        { ...state, units: state.units.map((u) => (u.id === 'red-1' ? { ...u, abilityCooldowns: { retaliate: 1 } } : u)) },
+        { x: 2, y: 1 },
+        withReactions({ secretary: [{ trigger: 'on_damaged', ability_key: 'retaliate' }] })
+      )
+      const neverFires = attack(
+        state,
+        { x: 2, y: 1 },
+        withReactions({ secretary: [{ trigger: 'on_damaged', ability_key: 'retaliate', chance: 0 }] })
+      )
+
+      for (const result of [onCooldown, neverFires]) {
+        expect(result.events.map((e) => e.type)).not.toContain(GameEventType.REACTION_TRIGGERED)
+        expect(result.state.units.find((u) => u.id === 'blue-1')!.hp).toBe(7)
+      }
+    })
+
+    it('runs on_ally_killed reactions for the allies of a defeated unit', () => {
+      const state = createMockGameState({
+        units: [
+          createMockUnit({ id: 'blue-1', position: { x: 1, y: 1 } }),
+          createMockUnit({ id: 'red-1', playerId: 'player2', position: { x: 2, y: 1 }, hp: 1 }),
+          createMockUnit({ id: 'red-2', playerId: 'player2', position: { x: 4, y: 4 }, employeeKey: 'manager' }),
+        ],
+      })
+      const result = attack(state, { x: 2, y: 1 }, withReactions({ manager: [{ trigger: 'on_ally_killed', ability_key: 'overtime' }] }))
+
+      expect(result.events).toContainEqual(
+        expect.objectContaining({ type: GameEventType.REACTION_TRIGGERED, unitId: 'red-2', trigger: 'on_ally_killed' })
+      )
+      expect(result.state.units.find((u) => u.id === 'red-2')!.actionsRemaining).toBe(3)
+    })
+
+    it('runs on_enemy_enters_range reactions when a move comes into range', () => {
+      const state = createMockGameState({
+        units: [
+          createMockUnit({ id: 'blue-1', position: { x: 0, y: 1 } }),
+          createMockUnit({ id: 'red-1', playerId: 'player2', position: { x: 3, y: 1 }, employeeKey: 'secretary' }),
+        ],
+      })
+      const result = applyAction(
+        state,
+        { type: ActionType.MOVE_UNIT, playerId: 'player1', unitId: 'blue-1', target: { x: 2, y: 1 } },
+        withReactions({ secretary: [{ trigger: 'on_enemy_enters_range', ability_key: 'retaliate' }] })
+      )
+
+      expect(result.events[result.events.length - 2]).toMatchObject({ type: GameEventType.REACTION_TRIGGERED, unitId: 'red-1', targetId: 'blue-1' })
+      expect(result.state.units.find((u) => u.id === 'blue-1')!.hp).toBe(8)
+    })
+
+    it('does not let reactions set off further reactions', () => {
+      const state = createMockGameState({
+        units: [
+          createMockUnit({ id: 'blue-1', position: { x: 1, y: 1 }, employeeKey: 'secretary' }),
+          createMockUnit({ id: 'red-1', playerId: 'player2', position: { x: 2, y: 1 }, employeeKey: 'secretary' }),
+        ],
+      })
+      const result = attack(state, { x: 2, y: 1 }, withReactions({ secretary: [{ trigger: 'on_damaged', ability_key: 'retaliate' }] }))
+
+      // Red reacts to the attack, and blue to the counterattack; neither reacts to the other's reaction
+      const reactions = result.events.filter((e) => e.type === GameEventType.REACTION_TRIGGERED)
+      expect(reactions.map((e) => 'unitId' in e && e.unitId)).toEqual(['red-1', 'blue-1'])
+    })
+  })
+
+  describe('USE_ABILITY', () => {
+    const data = createMockRulesData()
+
+    it('applies self effects, sets the cooldown and keeps the action bonus', () => {
+      const state = createMockGameState({
+        units: [
+          createMockUnit({ id: 'blue-1', abilities: ['overtime'] }),
+          createMockUnit({ id: 'red-1', playerId: 'player2', position: { x: 4, y: 4 } }),
+        ],
+      })
+      const result = applyAction(
+        state,
+        { type: ActionType.USE_ABILITY, playerId: 'player1', unitId: 'blue-1', abilityId: 'overtime' },
+        data
+      )
+
+      const unit = result.state.units.find((u) => u.id === 'blue-1')!
+      expect(result.error).toBeUndefined()
+      expect(unit.actionsRemaining).toBe(2)
+      expect(unit.abilityCooldowns.overtime).toBe(2)
+      expect(unit.status).toEqual([{ type: StatusType.EXHAUSTED, key: 'exhausted', duration: 1, source: 'blue-1' }])
+    })
+
+    it('rejects abilities on cooldown', () => {
+      const state = createMockGameState({
+        units: [createMockUnit({ id: 'blue-1', abilities: ['overtime'], abilityCooldowns: { overtime: 1 } })],
+      })
+      const result = applyAction(
+        state,
+        { type: ActionType.USE_ABILITY, playerId: 'player1', unitId: 'blue-1', abilityId: 'overtime' },
+        data
+      )
+
+      expect(result.error).toBe('Overtime is not ready')
+    })
+
+    it('resolves damage against the targeted enemy', () => {
+      const state = createMockGameState({
+        units: [
+          createMockUnit({ id: 'blue-1', abilities: ['pink_slip'], position: { x: 1, y: 1 } }),
+          createMockUnit({ id: 'red-1', playerId: 'player2', position: { x: 1, y: 2 } }),
+          createMockUnit({ id: 'red-2', playerId: 'player2', position: { x: 4, y: 4 } }),
+        ],
+      })
+      const result = applyAction(
+        state,
+        { type: ActionType.USE_ABILITY, playerId: 'player1', unitId: 'blue-1', abilityId: 'pink_slip', target: { x: 1, y: 2 } },
+        data
+      )
+
+      expect(result.state.units.map((u) => u.id)).toEqual(['blue-1', 'red-2'])
+      expect(result.state.units[0].abilityCooldowns).toEqual({})
+    })
+
+    it('heals and cleanses debuffs but keeps buffs on an ally', () => {
+      const state = createMockGameState({
+        units: [
+          createMockUnit({ id: 'blue-1', abilities: ['mediation'], position: { x: 1, y: 1 } }),
+          createMockUnit({
+            id: 'blue-2',
+            position: { x: 2, y: 1 },
+            hp: 5,
+            status: [
+              { type: StatusType.EXHAUSTED, key: 'exhausted', duration: 1 },
+              { type: StatusType.SHIELDED, key: 'shielded', duration: 2 },
+            ],
+          }),
+          createMockUnit({ id: 'red-1', playerId: 'player2', position: { x: 4, y: 4 } }),
+        ],
+      })
+      const result = applyAction(
+        state,
+        { type: ActionType.USE_ABILITY, playerId: 'player1', unitId: 'blue-1', abilityId: 'mediation', target: { x: 2, y: 1 } },
+        data
+      )
+
+      const ally = result.state.units.find((u) => u.id === 'blue-2')!
+      expect(ally.hp).toBe(6)
+      expect(ally.status.map((s) => s.key)).toEqual(['shielded'])
+    })
+  })
+
+  describe('status effects', () => {
+    it('rejects actions from units that cannot act', () => {
+      const state = createMockGameState({
+        units: [
+          createMockUnit({ id: 'blue-1', status: [{ type: StatusType.STUNNED, key: 'stunned', duration: 1 }] }),
+          createMockUnit({ id: 'red-1', playerId: 'player2', position: { x: 4, y: 4 } }),
+        ],
+      })
+      const result = applyAction(
+        state,
+        { type: ActionType.MOVE_UNIT, playerId: 'player1', unitId: 'blue-1', target: { x: 1, y: 0 } },
+        createMockRulesData()
+      )
+
+      expect(result.error).toBe('blue-1 cannot act this turn')
+    })
+
+    it('uses the effective attack power for damage', () => {
+      const state = createMockGameState({
+        units: [
+          createMockUnit({
+            id: 'blue-1',
+            attackDamage: 10,
+            status: [{ type: StatusType.ON_DEADLINE, key: 'on_deadline', duration: 2 }],
+          }),
+          createMockUnit({ id: 'red-1', playerId: 'player2', position: { x: 0, y: 1 }, hp: 20, direction: 'up' }),
+        ],
+      })
+      const result = applyAction(
+        state,
+        { type: ActionType.ATTACK_UNIT, playerId: 'player1', unitId: 'blue-1', target: { x: 0, y: 1 } },
+        createMockRulesData()
+      )
+
+      expect(result.state.units.find((u) => u.id === 'red-1')!.hp).toBe(8)
+    })
+  })
+
+  describe('area of effect', () => {
+    const data = createMockRulesData()
+
+    it('hits every enemy covered by the cone in the chosen direction', () => {
+      const state = createMockGameState({
+        units: [
+          createMockUnit({ id: 'blue-1', abilities: ['paperclip_storm'], position: { x: 2, y: 4 } }),
+          createMockUnit({ id: 'blue-2', position: { x: 2, y: 3 } }),
+          createMockUnit({ id: 'red-1', playerId: 'player2', position: { x: 2, y: 2 } }),
+          createMockUnit({ id: 'red-2', playerId: 'player2', position: { x: 0, y: 2 } }),
+          createMockUnit({ id: 'red-3', playerId: 'player2', position: { x: 4, y: 4 } }),
+        ],
+      })
+      const result = applyAction(
+        state,
+        { type: ActionType.USE_ABILITY, playerId: 'player1', unitId: 'blue-1', abilityId: 'paperclip_storm', target: { x: 2, y: 3 } },
+        data
+      )
+
+      const hp = (id: string) => result.state.units.find((u) => u.id === id)!.hp
+      expect(result.error).toBeUndefined()
+      expect(hp('red-1')).toBe(8)
+      expect(hp('red-2')).toBe(8)
+      expect(hp('red-3')).toBe(10)
+      expect(hp('blue-2')).toBe(10)
+      expect(result.state.units.find((u) => u.id === 'blue-1')!.direction).toBe('up')
+    })
+
+    it('uses the caster facing when no direction is chosen', () => {
+      const state = createMockGameState({
+        units: [
+          createMockUnit({ id: 'blue-1', abilities: ['paperclip_storm'], position: { x: 0, y: 2 }, direction: 'right' }),
+          createMockUnit({ id: 'red-1', playerId: 'player2', position: { x: 1, y: 2 } }),
+          createMockUnit({ id: 'red-2', playerId: 'player2', position: { x: 0, y: 3 } }),
+        ],
+      })
+      const result = applyAction(
+        state,
+        { type: ActionType.USE_ABILITY, playerId: 'player1', unitId: 'blue-1', abilityId: 'paperclip_storm' },
+        data
+      )
+
+      expect(result.state.units.find((u) => u.id === 'red-1')!.hp).toBe(8)
+      expect(result.state.units.find((u) => u.id === 'red-2')!.hp).toBe(10)
+    })
+
+    it('only applies ally effects to allies inside a centered burst', () => {
+      const state = createMockGameState({
+        units: [
+          createMockUnit({ id: 'blue-1', abilities: ['urgent_memo'], position: { x: 2, y: 2 } }),
+          createMockUnit({ id: 'blue-2', position: { x: 2, y: 0 } }),
+          createMockUnit({ id: 'blue-3', position: { x: 3, y: 3 } }),
+          createMockUnit({ id: 'red-1', playerId: 'player2', position: { x: 4, y: 2 } }),
+        ],
+      })
+      const result = applyAction(
+        state,
+        { type: ActionType.USE_ABILITY, playerId: 'player1', unitId: 'blue-1', abilityId: 'urgent_memo' },
+        data
+      )
+
+      const statused = result.state.units.filter((u) => u.status.length > 0).map((u) => u.id)
+      expect(statused).toEqual(['blue-2'])
+    })
+  })
+
+  describe('CAPTURE_CUBICLE', () => {
+    it('captures the cubicle the unit stands on and updates income', () => {
+      const state = createMockGameState({ board: createMockBoard(5, 5, TileType.CUBICLE) })
+      const result = applyAction(state, { type: ActionType.CAPTURE_CUBICLE, playerId: 'player1', unitId: 'blue-1' })
+
+      expect(result.state.board[0][0].owner).toBe('player1')
+      expect(result.state.players[0].controlledCubicles).toBe(1)
+      expect(result.state.players[0].income).toBe(1)
+      expect(result.state.units[0].actionsRemaining).toBe(1)
+    })
+
+    it('rejects capturing a cubicle an enemy stands next to', () => {
+      const state = createMockGameState({
+        board: createMockBoard(5, 5, TileType.CUBICLE),
+        units: [
+          createMockUnit({ id: 'blue-1', position: { x: 0, y: 0 } }),
+          createMockUnit({ id: 'red-1', playerId: 'player2', position: { x: 1, y: 0 } }),
+        ],
+      })
+      const result = applyAction(state, { type: ActionType.CAPTURE_CUBICLE, playerId: 'player1', unitId: 'blue-1' })
+
+      expect(result.error).toBe('Cubicle is contested by an enemy')
+    })
+  })
+
+  describe('multi-turn capture', () => {
+    const config = {
+      game_version: '0.1.0',
+      draft_config: { starting_funds: 1000, timer_seconds: 60, picks_per_player: 5 },
+      gameplay_rules: { max_team_size: 4, turn_limit: 50, capture_turns: 2 },
+    }
+    const data = createMockRulesData({ config })
+    const endTurns = (state: GameState, count: number) => {
+      let current = state
+      for (let i = 0; i < count; i++) {
+        current = applyAction(current, { type: ActionType.END_TURN, playerId: current.currentPlayerId }, data).state
+      }
+      return current
+    }
+
+    it('takes capture_turns of the capturing player to change hands', () => {
+      const state = createMockGameState({ board: createMockBoard(5, 5, TileType.CUBICLE) })
+      const first = applyAction(state, { type: ActionType.END_TURN, playerId: 'player1' }, data)
+
+      expect(first.state.board[0][0].owner).toBeUndefined()
+      expect(first.state.board[0][0].captureProgress).toEqual({ playerId: 'player1', turns: 1, turnNumber: 1 })
+      expect(first.events).toContainEqual({
+        type: GameEventType.CAPTURE_PROGRESSED,
+        playerId: 'player1',
+        position: { x: 0, y: 0 },
+        turns: 1,
+        required: 2,
+        unitId: 'blue-1',
+      })
+
+      const third = endTurns(first.state, 2)
+      expect(third.board[0][0].owner).toBe('player1')
+      expect(third.board[0][0].captureProgress).toBeUndefined()
+    })
+
+    it('advances only once per turn when the capture action was already used', () => {
+      const state = createMockGameState({ board: createMockBoard(5, 5, TileType.CUBICLE) })
+      const acted = applyAction(state, { type: ActionType.CAPTURE_CUBICLE, playerId: 'player1', unitId: 'blue-1' }, data)
+      const ended = applyAction(acted.state, { type: ActionType.END_TURN, playerId: 'player1' }, data)
+
+      expect(ended.state.board[0][0].captureProgress?.turns).toBe(1)
+      expect(
+        applyAction(acted.state, { type: ActionType.CAPTURE_CUBICLE, playerId: 'player1', unitId: 'blue-1' }, data).error
+      ).toBe('Capture already advanced this turn')
+    })
+
+    it('loses the progress when the unit walks away', () => {
+      const state = createMockGameState({ board: createMockBoard(5, 5, TileType.CUBICLE) })
+      const started = endTurns(state, 2)
+      const moved = applyAction(
+        started,
+        { type: ActionType.MOVE_UNIT, playerId: 'player1', unitId: 'blue-1', target: { x: 0, y: 1 } },
+        data
+      )
+      const ended = applyAction(moved.state, { type: ActionType.END_TURN, playerId: 'player1' }, data)
+
+      expect(ended.state.board[0][0].captureProgress).toBeUndefined()
+      expect(ended.state.board[1][0].captureProgress?.turns).toBe(1)
+    })
+
+    it('keeps contested cubicles neutral', () => {
+      const state = createMockGameState({
+        board: createMockBoard(5, 5, TileType.CUBICLE),
+        units: [
+          createMockUnit({ id: 'blue-1', position: { x: 0, y: 0 } }),
+          createMockUnit({ id: 'red-1', playerId: 'player2', position: { x: 0, y: 1 } }),
+        ],
+      })
+      const result = endTurns(state, 4)
+
+      expect(result.board[0][0].owner).toBeUndefined()
+      expect(result.board[1][0].owner).toBeUndefined()
+    })
+  })
+
+  describe('SET_FACING', () => {
+    it('turns the unit for free and ends its turn', () => {
+      const state = createMockGameState()
+      const result = applyAction(state, {
+        type: ActionType.SET_FACING,
+        playerId: 'player1',
+        unitId: 'blue-1',
+        direction: 'left',
+      })
+
+      expect(result.error).toBeUndefined()
+      const unit = result.state.units.find((u) => u.id === 'blue-1')!
+      expect(unit.direction).toBe('left')
+      expect(unit.actionsRemaining).toBe(0)
+      expect(unit.remainingMovement).toBe(0)
+      expect(result.events).toEqual([{ type: GameEventType.UNIT_FACED, unitId: 'blue-1', direction: 'left' }])
+    })
+
+    it('still lets a unit that has used all its actions pick a facing', () => {
+      const state = createMockGameState({
+        units: [createMockUnit({ id: 'blue-1', actionsRemaining: 0 })],
+      })
+      const result = applyAction(state, {
+        type: ActionType.SET_FACING,
+        playerId: 'player1',
+        unitId: 'blue-1',
+        direction: 'up',
+      })
+
+      expect(result.error).toBeUndefined()
+      expect(result.state.units[0].direction).toBe('up')
+    })
+
+    it('rejects turning an enemy unit', () => {
+      const result = applyAction(createMockGameState(), {
+        type: ActionType.SET_FACING,
+        playerId: 'player1',
+        unitId: 'red-1',
+        direction: 'up',
+      })
+
+      expect(result.error).toContain('does not belong')
+    })
+
+    it('makes attacks from behind hit harder', () => {
+      const units = [
+        createMockUnit({ id: 'blue-1', position: { x: 1, y: 1 } }),
+        createMockUnit({ id: 'red-1', playerId: 'player2', position: { x: 1, y: 2 }, hp: 20, direction: 'up' }),
+      ]
+      const attack = { type: ActionType.ATTACK_UNIT, playerId: 'player1', unitId: 'blue-1', target: { x: 1, y: 2 } }
+
+      const fromFront = applyAction(createMockGameState({ units }), attack)
+      const turned = units.map((u) => (u.id === 'red-1' ? { ...u, direction: 'down' as const } : u))
+      const fromBehind = applyAction(createMockGameState({ units: turned }), attack)
+
+      expect(fromFront.state.units.find((u) => u.id === 'red-1')!.hp).toBe(17)
+      expect(fromBehind.state.units.find((u) => u.id === 'red-1')!.hp).toBe(15)
+    })
+  })
+
+  describe('HIRE_UNIT', () => {
+    const hireState = (budget: number) => {
+      const board = createMockBoard()
+      board[0][3] = { ...board[0][3], type: TileType.HQ_BLUE }
+      board[0][4] = { ...board[0][4], type: TileType.HQ_BLUE }
+      board[4][0] = { ...board[4][0], type: TileType.HQ_RED }
+      return createMockGameState({
+        board,
+        units: [
+          createMockUnit({ id: 'blue-1', position: { x: 3, y: 0 } }),
+          createMockUnit({ id: 'red-1', playerId: 'player2', position: { x: 2, y: 2 } }),
+        ],
+        players: [createMockPlayer({ budget }), createMockPlayer({ id: 'player2', name: 'Red Team', team: Team.RED })],
+      })
+    }
+
+    it('deploys the employee on a free HQ tile and spends the budget', () => {
+      const result = applyAction(
+        hireState(150),
+        { type: ActionType.HIRE_UNIT, playerId: 'player1', employeeKey: 'manager' },
+        createMockRulesData()
+      )
+
+      const hired = result.state.units[result.state.units.length - 1]!
+      expect(hired).toMatchObject({ playerId: 'player1', employeeKey: 'manager', position: { x: 4, y: 0 } })
+      expect(hired.actionsRemaining).toBe(0)
+      expect(result.state.players[0].budget).toBe(50)
+      expect(result.events).toEqual([
+        {
+          type: GameEventType.UNIT_HIRED,
+          unitId: hired.id,
+          playerId: 'player1',
+          employeeKey: 'manager',
+          position: { x: 4, y: 0 },
+          cost: 100,
+        },
+      ])
+    })
+
+    it('rejects hires the player cannot afford', () => {
+      const result = applyAction(
+        hireState(99),
+        { type: ActionType.HIRE_UNIT, playerId: 'player1', employeeKey: 'manager' },
+        createMockRulesData()
+      )
+
+      expect(result.error).toBe('Not enough budget to hire manager')
+    })
+
+    it('rejects deployment outside the player HQ', () => {
+      const data = createMockRulesData()
+      const hire = (target: { x: number; y: number }) =>
+        applyAction(hireState(500), { type: ActionType.HIRE_UNIT, playerId: 'player1', employeeKey: 'manager', target }, data)
+
+      expect(hire({ x: 4, y: 0 }).error).toBeUndefined()
+      expect(hire({ x: 3, y: 0 }).error).toBe('Hires must be deployed on a free HQ tile')
+      expect(hire({ x: 0, y: 4 }).error).toBe('Hires must be deployed on a free HQ tile')
+    })
+
+    it('respects the configured maximum team size', () => {
+      const config = {
+        game_version: '0.1.0',
+        draft_config: { starting_funds: 1000, timer_seconds: 60, picks_per_player: 5 },
+        gameplay_rules: { max_team_size: 1, turn_limit: 50 },
+      }
+      const result = applyAction(
+        hireState(500),
+        { type: ActionType.HIRE_UNIT, playerId: 'player1', employeeKey: 'manager' },
+        createMockRulesData({ config })
+      )
+
+      expect(result.error).toBe('Team is already at the maximum size')
+    })
+  })
+
+  describe('END_TURN', () => {
+    it('tracks turns held for hold-the-floor victories', () => {
+      const board = createMockBoard()
+      board[0][0] = { ...board[0][0], type: TileType.CUBICLE }
+      const state = createMockGameState({ board, victoryConditions: [{ type: 'hold_capture', share: 0.5, turns: 3 }] })
+      const result = applyAction(state, { type: ActionType.END_TURN, playerId: 'player1' })
+
+      expect(result.state.captureHoldTurns).toEqual({ player1: 1 })
+    })
+
+    it('ends the game at the turn limit with the tiebreak reason', () => {
+      const config = {
+        game_version: '0.1.0',
+        draft_config: { starting_funds: 1000, timer_seconds: 60, picks_per_player: 5 },
+        gameplay_rules: { max_team_size: 4, turn_limit: 3 },
+      }
+      const state = createMockGameState({
+        turnNumber: 3,
+        currentPlayerId: 'player2',
+        units: [
+          createMockUnit({ id: 'blue-1', position: { x: 0, y: 0 }, hp: 8 }),
+          createMockUnit({ id: 'red-1', playerId: 'player2', position: { x: 4, y: 4 }, hp: 5 }),
+        ],
+      })
+      const result = applyAction(state, { type: ActionType.END_TURN, playerId: 'player2' }, createMockRulesData({ config }))
+
+      expect(result.state.phase).toBe(GamePhase.GAME_OVER)
+      expect(result.state.winner).toBe('player1')
+      expect(result.state.victoryReason).toContain('8 HP remaining')
+      expect(result.events[result.events.length - 1]).toMatchObject({ type: GameEventType.GAME_OVER, winner: 'player1' })
+    })
+
+    it('passes the turn and refreshes the next player units', () => {
+      const state = createMockGameState({
+        units: [
+          createMockUnit({ id: 'blue-1' }),
+          createMockUnit({
+            id: 'red-1',
+            playerId: 'player2',
+            position: { x: 4, y: 4 },
+            actionsRemaining: 0,
+            remainingMovement: 0,
+            hasAttacked: true,
+            abilityCooldowns: { harass: 2 },
+          }),
+        ],
+      })
+      const result = applyAction(state, { type: ActionType.END_TURN, playerId: 'player1' })
+
+      const red = result.state.units.find((u) => u.id === 'red-1')!
+      expect(result.state.currentPlayerId).toBe('player2')
+      expect(result.state.turnNumber).toBe(1)
+      expect(red.actionsRemaining).toBe(2)
+      expect(red.remainingMovement).toBe(2)
+      expect(red.hasAttacked).toBe(false)
+      expect(red.abilityCooldowns.harass).toBe(1)
+    })
+
+    it('ticks damage over time and expires statuses at the start of the owner turn', () => {
+      const state = createMockGameState({
+        units: [
+          createMockUnit({ id: 'blue-1' }),
+          createMockUnit({
+            id: 'red-1',
+            playerId: 'player2',
+            position: { x: 4, y: 4 },
+            hp: 15,
+            status: [
+              { type: StatusType.BURNING, key: 'fire', duration: 2, source: 'blue-1' },
+              { type: StatusType.EXHAUSTED, key: 'exhausted', duration: 1 },
+            ],
+          }),
+        ],
+      })
+      const result = applyAction(state, { type: ActionType.END_TURN, playerId: 'player1' }, createMockRulesData())
+
+      const red = result.state.units.find((u) => u.id === 'red-1')!
+      expect(red.hp).toBe(5)
+      expect(red.actionsRemaining).toBe(1)
+      expect(red.status).toEqual([{ type: StatusType.BURNING, key: 'fire', duration: 1, source: 'blue-1' }])
+      expect(result.events).toContainEqual({ type: GameEventType.STATUS_EXPIRED, unitId: 'red-1', statusKey: 'exhausted' })
+    })
+
+    it('removes units killed by damage over time', () => {
+      const state = createMockGameState({
+        units: [
+          createMockUnit({ id: 'blue-1' }),
+          createMockUnit({ id: 'red-1', playerId: 'player2', hp: 5, status: [{ type: StatusType.BURNING, key: 'fire', duration: 2 }] }),
+        ],
+      })
+      const result = applyAction(state, { type: ActionType.END_TURN, playerId: 'player1' }, createMockRulesData())
+
+      expect(result.state.units.map((u) => u.id)).toEqual(['blue-1'])
+      expect(result.state.winner).toBe('player1')
+    })
+
+    it('leaves stunned units without actions or movement for their turn', () => {
+      const state = createMockGameState({
+        units: [
+          createMockUnit({ id: 'blue-1' }),
+          createMockUnit({
+            id: 'red-1',
+            playerId: 'player2',
+            position: { x: 4, y: 4 },
+            status: [{ type: StatusType.STUNNED, key: 'stunned', duration: 1 }],
+          }),
+        ],
+      })
+      const result = applyAction(state, { type: ActionType.END_TURN, playerId: 'player1' }, createMockRulesData())
+
+      const red = result.state.units.find((u) => u.id === 'red-1')!
+      expect(red.actionsRemaining).toBe(0)
+      expect(red.remainingMovement).toBe(0)
+      expect(red.status).toEqual([])
+    })
+
+    it('applies speed modifiers to the movement granted for the turn', () => {
+      const state = createMockGameState({
+        units: [
+          createMockUnit({ id: 'blue-1' }),
+          createMockUnit({
+            id: 'red-1',
+            playerId: 'player2',
+            position: { x: 4, y: 4 },
+            moveRange: 4,
+            status: [{ type: StatusType.CONFUSED, key: 'slow', duration: 2 }],
+          }),
+        ],
+      })
+      const result = applyAction(state, { type: ActionType.END_TURN, playerId: 'player1' }, createMockRulesData())
+
+      expect(result.state.units.find((u) => u.id === 'red-1')!.remainingMovement).toBe(2)
+    })
+
+    it('does not capture cubicles with a harassed unit', () => {
+      const state = createMockGameState({
+        board: createMockBoard(5, 5, TileType.CUBICLE),
+        units: [
+          createMockUnit({ id: 'blue-1', status: [{ type: StatusType.HARASSED, key: 'harassed', duration: 2 }] }),
+          createMockUnit({ id: 'red-1', playerId: 'player2', position: { x: 4, y: 4 } }),
+        ],
+      })
+      const result = applyAction(state, { type: ActionType.END_TURN, playerId: 'player1' }, createMockRulesData())
+
+      expect(result.state.board[0][0].owner).toBeUndefined()
+    })
+
+    it('captures cubicles held at the end of the turn and pays income each round', () => {
+      const board = createMockBoard(5, 5, TileType.CUBICLE)
+      const state = createMockGameState({ board, currentPlayerId: 'player2' })
+      const result = applyAction(state, { type: ActionType.END_TURN, playerId: 'player2' })
+
+      expect(result.state.board[4][4].owner).toBe('player2')
+      expect(result.state.currentPlayerId).toBe('player1')
+      expect(result.state.turnNumber).toBe(2)
+      expect(result.state.players[1].budget).toBe(11)
+      expect(result.events.map((e) => e.type)).toEqual([
+        GameEventType.CUBICLE_CAPTURED,
+        GameEventType.TURN_ENDED,
+        GameEventType.TURN_STARTED,
+      ])
+    })
+  })
+
+  describe('FORFEIT', () => {
+    it('ends the game in the opponent\'s favour, even on their turn', () => {
+      const state = createMockGameState({ currentPlayerId: 'player2' })
+      const result = applyAction(state, { type: ActionType.FORFEIT, playerId: 'player1' })
+
+      expect(result.error).toBeUndefined()
+      expect(result.state).toMatchObject({ phase: GamePhase.GAME_OVER, winner: 'player2', victoryReason: 'Blue Team forfeited the match' })
+      expect(result.events).toEqual([{ type: GameEventType.GAME_OVER, winner: 'player2', reason: 'Blue Team forfeited the match' }])
+    })
+  })
+
+  describe('tile hazards', () => {
+    const data = createMockRulesData()
+    const hazard = {
+      name: 'Burning Ground',
+      duration_in_turns: 2,
+      visual_effect: 'ground_flames',
+      on_turn_end: { type: 'damage', value: 4, damage_type: 'fire' },
+      on_enter: { type: 'apply_status_effect', status_key: 'fire', chance: 1.0 },
+      remainingTurns: 2,
+      playerId: 'player2',
+      sourceId: 'red-1',
+    }
+
+    function boardWithHazard(x: number, y: number) {
+      const board = createMockBoard()
+      board[y][x] = { ...board[y][x], hazard }
+      return board
+    }
+
+    it('places hazards along the firewall line in front of the caster', () => {
+      const state = createMockGameState({
+        units: [
+          createMockUnit({ id: 'blue-1', abilities: ['firewall'], position: { x: 2, y: 2 } }),
+          createMockUnit({ id: 'red-1', playerId: 'player2', position: { x: 4, y: 4 } }),
+        ],
+      })
+      const result = applyAction(
+        state,
+        { type: ActionType.USE_ABILITY, playerId: 'player1', unitId: 'blue-1', abilityId: 'firewall', target: { x: 2, y: 0 } },
+        data
+      )
+
+      expect(result.error).toBeUndefined()
+      const burning = result.state.board.flat().filter((t) => t.hazard).map((t) => ({ x: t.x, y: t.y }))
+      expect(burning).toEqual([{ x: 1, y: 1 }, { x: 2, y: 1 }, { x: 3, y: 1 }])
+      expect(result.state.board[1][2].hazard).toMatchObject({ name: 'Burning Ground', remainingTurns: 2, playerId: 'player1' })
+      expect(result.events).toContainEqual({
+        type: GameEventType.HAZARD_CREATED,
+        position: { x: 2, y: 1 },
+        name: 'Burning Ground',
+        duration: 2,
+        sourceId: 'blue-1',
+      })
+    })
+
+    it('does not place hazards on obstacles', () => {
+      const board = createMockBoard()
+      board[1][1] = { x: 1, y: 1, type: TileType.OBSTACLE }
+      const state = createMockGameState({
+        board,
+        units: [
+          createMockUnit({ id: 'blue-1', abilities: ['firewall'], position: { x: 2, y: 2 }, direction: 'up' }),
+          createMockUnit({ id: 'red-1', playerId: 'player2', position: { x: 4, y: 4 } }),
+        ],
+      })
+      const result = applyAction(
+        state,
+        { type: ActionType.USE_ABILITY, playerId: 'player1', unitId: 'blue-1', abilityId: 'firewall' },
+        data
+      )
+
+      expect(result.state.board[1][1].hazard).toBeUndefined()
+      expect(result.state.board[1][2].hazard).toBeDefined()
+    })
+
+    it('validates single tile hazard targets', () => {
+      const spill = { ...data.abilities.firewall, key: 'spill', name: 'Spill', range_pattern_key: 'single_target_ranged' }
+      const board = createMockBoard()
+      board[0][1] = { x: 1, y: 0, type: TileType.OBSTACLE }
+      const state = createMockGameState({
+        board,
+        units: [
+          createMockUnit({ id: 'blue-1', abilities: ['spill'] }),
+          createMockUnit({ id: 'red-1', playerId: 'player2', position: { x: 4, y: 4 } }),
+        ],
+      })
+      const use = (target: { x: number; y: number }) =>
+        applyAction(
+          state,
+          { type: ActionType.USE_ABILITY, playerId: 'player1', unitId: 'blue-1', abilityId: 'spill', target },
+          { ...data, abilities: { ...data.abilities, spill } }
+        )
+
+      expect(use({ x: 1, y: 0 }).error).toBe('Invalid target for Spill')
+      expect(use({ x: 3, y: 3 }).error).toBe('Invalid target for Spill')
+      expect(use({ x: 0, y: 1 }).state.board[1][0].hazard?.name).toBe('Burning Ground')
+    })
+
+    it('applies the on_enter effect to units moving onto the hazard', () => {
+      const state = createMockGameState({ board: boardWithHazard(1, 0) })
+      const result = applyAction(
+        state,
+        { type: ActionType.MOVE_UNIT, playerId: 'player1', unitId: 'blue-1', target: { x: 1, y: 0 } },
+        data
+      )
+
+      expect(result.state.units.find((u) => u.id === 'blue-1')!.status).toEqual([
+        { type: StatusType.BURNING, key: 'fire', duration: 2, source: 'red-1' },
+      ])
+    })
+
+    it('damages units that end their turn on the hazard', () => {
+      const state = createMockGameState({ board: boardWithHazard(0, 0) })
+      const result = applyAction(state, { type: ActionType.END_TURN, playerId: 'player1' }, data)
+
+      expect(result.state.units.find((u) => u.id === 'blue-1')!.hp).toBe(6)
+      expect(result.events).toContainEqual({ type: GameEventType.UNIT_DAMAGED, unitId: 'blue-1', amount: 4, hp: 6, sourceId: 'red-1' })
+    })
+
+    it('counts down at the start of its owner turn and expires', () => {
+      const state = createMockGameState({ board: boardWithHazard(2, 2) })
+      const first = applyAction(state, { type: ActionType.END_TURN, playerId: 'player1' }, data)
+      expect(first.state.board[2][2].hazard?.remainingTurns).toBe(1)
+
+      const second = applyAction(first.state, { type: ActionType.END_TURN, playerId: 'player2' }, data)
+      const third = applyAction(second.state, { type: ActionType.END_TURN, playerId: 'player1' }, data)
+      expect(third.state.board[2][2].hazard).toBeUndefined()
+      expect(third.events).toContainEqual({ type: GameEventType.HAZARD_EXPIRED, position: { x: 2, y: 2 }, name: 'Burning Ground' })
+    })
+  })
+})
@@ -0,0 +1,827 @@
+import {
+  ActionType,
+  GamePhase,
+  TargetType,
+  TileType,
+  type Coordinate,
+  type DataAbility,
+  type GameAction,
+  type GameState,
+  type CaptureProgress,
+  type EmployeeReaction,
+  type HazardDetails,
+  type ReactionTrigger,
+  type TileHazard,
+  type Unit,
+} from '../index.js'
+import { ABILITY_ACTION_COST, canUseAbility, getAbilityTargetType, getAbilityTargets, getStatusTypeForKey } from './abilities.js'
+import { getCaptureError, getCaptureTurns } from './capture.js'
+import { calculateDamage, canCounterattack, isValidAttack } from './combat.js'
+import { findPath, getDirection, getDistance, getUnitAt, isPassable } from './movement.js'
+import { GameEventType, type ActionResult, type GameEvent, type RulesData } from './types.js'
+import { checkVictoryConditions, countControlledCubicles, getVictoryConditions, updateCaptureHold } from './victory.js'
+import { getEffectiveStats, getStatusKey } from './statuses.js'
+import { createTileHazard, getHazardAt } from './hazards.js'
+import { createUnitFromEmployee, getDeploymentTiles, getHireError } from './hiring.js'
+import { getAreaTiles, isAreaAbility } from './patterns.js'
+import { DEFAULT_RNG_SEED, nextRandom } from './random.js'
+import { getEnemiesEnteredRange, getReactions } from './reactions.js'
+
+/**
+ * The rules engine reducer.
+ *
+ * `applyAction` takes a game state and a single GameAction and returns the next state plus the
+ * events describing what happened. It never mutates its input and never reads globals, so the
+ * client store, the AI and the server can all drive the game through it and agree on the result.
+ */
+
+export const EMPTY_RULES_DATA: RulesData = {
+  employees: {},
+  abilities: {},
+  statusEffects: {},
+  attackPatterns: {},
+}
+
+/** Income per controlled cubicle when the game config does not set gameplay_rules.income_per_cubicle */
+const DEFAULT_INCOME_PER_CUBICLE = 1
+
+/** Status duration used when a status key has no definition in the data */
+const DEFAULT_STATUS_DURATION = 2
+
+// Working copy of the state while an action resolves
+interface Draft {
+  state: GameState
+  events: GameEvent[]
+  data: RulesData
+  reactions: PendingReaction[] // Queued while the action resolves, run once it is done
+  reacting?: boolean // Set while reactions run so they don't queue more
+}
+
+interface PendingReaction {
+  unitId: string
+  reaction: EmployeeReaction
+  targetId?: string // The unit that set it off
+}
+
+type ActionHandler = (draft: Draft, action: GameAction) => string | undefined
+
+// Per-application overrides for a status, e.g. from an employee's on-hit status_effect
+interface StatusOverrides {
+  duration?: number
+  magnitude?: number
+  damagePerTurn?: number
+}
+
+/**
+ * Apply a single action to the game state
+ * @param state - The current game state (left untouched)
+ * @param action - The action to resolve
+ * @param data - Static game data (abilities, status effects, ...)
+ * @returns The next state and the events it produced, or the input state and an error
+ */
+export function applyAction(state: GameState, action: GameAction, data: RulesData = EMPTY_RULES_DATA): ActionResult {
+  if (state.phase !== GamePhase.PLAYING) {
+    return reject(state, 'Game is not in progress')
+  }
+  if (action.playerId !== state.currentPlayerId && action.type !== ActionType.FORFEIT) {
+    return reject(state, `It is not ${action.playerId}'s turn`)
+  }
+
+  const handler = getHandler(action.type)
+  if (!handler) {
+    return reject(state, `Unsupported action: ${action.type}`)
+  }
+
+  const draft: Draft = { state, events: [], data, reactions: [] }
+  const error = handler(draft, action)
+  if (error) {
+    return reject(state, error)
+  }
+
+  resolveReactions(draft)
+  resolveVictory(draft)
+  return { state: draft.state, events: draft.events }
+}
+
+function reject(state: GameState, error: string): ActionResult {
+  return { state, events: [], error }
+}
+
+function getHandler(type: ActionType): ActionHandler | undefined {
+  switch (type) {
+    case ActionType.MOVE_UNIT:
+      return handleMove
+    case ActionType.ATTACK_UNIT:
+      return handleAttack
+    case ActionType.USE_ABILITY:
+      return handleAbility
+    case ActionType.CAPTURE_CUBICLE:
+      return handleCapture
+    case ActionType.HIRE_UNIT:
+      return handleHire
+    case ActionType.SET_FACING:
+      return handleSetFacing
+    case ActionType.END_TURN:
+      return handleEndTurn
+    case ActionType.FORFEIT:
+      return handleForfeit
+    default:
+      return undefined
+  }
+}
+
+// --- Action handlers ---
+
+function handleMove(draft: Draft, action: GameAction): string | undefined {
+  const unit = getActingUnit(draft, action)
+  if (typeof unit === 'string') return unit
+  if (!action.target) return 'Move requires a target tile'
+  const route = findPath(unit, action.target, draft.state, draft.data)
+  if (!route) return 'Destination is not reachable'
+
+  const { cost, path } = route
+  const remainingMovement = unit.remainingMovement - cost
+  const lastStepFrom = path.length > 1 ? path[path.length - 2] : unit.position
+  const updates: Partial<Unit> = {
+    position: { x: action.target.x, y: action.target.y },
+    remainingMovement,
+    movementUsed: unit.movementUsed + cost,
+    direction: getDirection(lastStepFrom, action.target), // Units end a move facing the way they walked
+  }
+
+  // Moving only costs an action once the unit's movement is used up
+  if (remainingMovement <= 0) {
+    updates.actionsRemaining = unit.actionsRemaining - 1
+    updates.hasMoved = true
+  }
+
+  updateUnit(draft, unit.id, updates)
+  draft.events.push({ type: GameEventType.UNIT_MOVED, unitId: unit.id, from: unit.position, to: action.target, cost, path })
+
+  const mover = findUnit(draft.state, unit.id)!
+  getEnemiesEnteredRange(draft.state.units, mover, unit.position).forEach((enemy) =>
+    queueReactions(draft, enemy.id, 'on_enemy_enters_range', mover.id)
+  )
+
+  const hazard = getHazardAt(draft.state.board, action.target)
+  if (hazard?.on_enter) {
+    resolveHazardEffect(draft, unit.id, hazard.on_enter, hazard)
+  }
+  return undefined
+}
+
+function handleAttack(draft: Draft, action: GameAction): string | undefined {
+  const attacker = getActingUnit(draft, action)
+  if (typeof attacker === 'string') return attacker
+  if (!action.target) return 'Attack requires a target'
+
+  const target = getUnitAt(draft.state.units, action.target)
+  if (!target) return 'No unit at the target tile'
+  if (!isValidAttack(attacker, target, draft.state, draft.data)) return 'Target is not attackable'
+
+  const damage = calculateDamage(attacker, target, draft.data.statusEffects)
+  updateUnit(draft, attacker.id, {
+    actionsRemaining: attacker.actionsRemaining - 1,
+    hasAttacked: true,
+    direction: getDirection(attacker.position, target.position),
+  })
+  draft.events.push({ type: GameEventType.UNIT_ATTACKED, attackerId: attacker.id, targetId: target.id, damage })
+  damageUnit(draft, target.id, damage, attacker.id)
+
+  // On-hit status from the attacker's employee data, only if the target is still standing
+  const onHit = attacker.employeeKey ? draft.data.employees[attacker.employeeKey]?.attack.status_effect : undefined
+  if (onHit && onHit.type !== 'none' && findUnit(draft.state, target.id) && rollChance(draft, onHit.chance)) {
+    applyStatus(draft, target.id, onHit.type, attacker.id, {
+      duration: onHit.duration,
+      magnitude: onHit.magnitude,
+      damagePerTurn: onHit.damage_per_turn,
+    })
+  }
+
+  // Melee units that survive hit back; counterattacks cost nothing and can't be countered
+  const defender = findUnit(draft.state, target.id)
+  const exposed = findUnit(draft.state, attacker.id)
+  if (defender && exposed && canCounterattack(defender, exposed, draft.data)) {
+    const counterDamage = calculateDamage(defender, exposed, draft.data.statusEffects)
+    draft.events.push({
+      type: GameEventType.UNIT_ATTACKED,
+      attackerId: defender.id,
+      targetId: exposed.id,
+      damage: counterDamage,
+      counter: true,
+    })
+    damageUnit(draft, exposed.id, counterDamage, defender.id)
+  }
+  return undefined
+}
+
+function handleAbility(draft: Draft, action: GameAction): string | undefined {
+  const caster = getActingUnit(draft, action)
+  if (typeof caster === 'string') return caster
+
+  const ability = action.abilityId ? draft.data.abilities[action.abilityId] : undefined
+  if (!ability) return `Unknown ability: ${action.abilityId}`
+  if (!canUseAbility(caster, ability)) return `${ability.name} is not ready`
+
+  const targetType = getAbilityTargetType(ability)
+  let targetUnit: Unit | undefined
+  let area: Coordinate[] | undefined
+  if (isAreaAbility(ability)) {
+    const pattern = draft.data.attackPatterns[ability.range_pattern_key]
+    if (!pattern) return `Unknown attack pattern: ${ability.range_pattern_key}`
+
+    // For area abilities the target tile only picks the direction; without one the caster's facing is used
+    const aimed = action.target && getDistance(caster.position, action.target) > 0
+    const direction = aimed ? getDirection(caster.position, action.target!) : caster.direction
+    area = getAreaTiles(caster, pattern, draft.state.board, direction)
+  } else if (targetType === TargetType.SELF) {
+    targetUnit = caster
+  } else if (targetType === TargetType.ALLY || targetType === TargetType.ENEMY) {
+    if (!action.target) return `${ability.name} requires a target`
+    const candidate = getUnitAt(draft.state.units, action.target)
+    const validTargets = getAbilityTargets(caster, ability, draft.state, draft.data)
+    if (!candidate || !validTargets.some((t) => 'id' in t && t.id === candidate.id)) {
+      return `Invalid target for ${ability.name}`
+    }
+    targetUnit = candidate
+  } else if (targetType === TargetType.TILE) {
+    const tile = action.target
+    if (!tile) return `${ability.name} requires a target tile`
+    const validTiles = getAbilityTargets(caster, ability, draft.state, draft.data)
+    if (!validTiles.some((t) => !('id' in t) && t.x === tile.x && t.y === tile.y)) {
+      return `Invalid target for ${ability.name}`
+    }
+  }
+
+  const aimedAt = action.target ?? targetUnit?.position
+  const faces = aimedAt && getDistance(caster.position, aimedAt) > 0
+  updateUnit(draft, caster.id, {
+    actionsRemaining: caster.actionsRemaining - ABILITY_ACTION_COST,
+    abilityCooldowns:
+      ability.cooldown_turns > 0
+        ? { ...caster.abilityCooldowns, [ability.key]: ability.cooldown_turns }
+        : caster.abilityCooldowns,
+    direction: faces ? getDirection(caster.position, aimedAt) : caster.direction,
+  })
+  draft.events.push({ type: GameEventType.ABILITY_USED, unitId: caster.id, abilityId: ability.key, target: aimedAt })
+
+  resolveAbilityEffects(draft, ability, caster.id, { targetId: targetUnit?.id, targetTile: action.target, area })
+  return undefined
+}
+
+function handleCapture(draft: Draft, action: GameAction): string | undefined {
+  const unit = getActingUnit(draft, action)
+  if (typeof unit === 'string') return unit
+
+  const coord = action.target ?? unit.position
+  if (coord.x !== unit.position.x || coord.y !== unit.position.y) return 'Unit must stand on the cubicle to capture it'
+
+  const captureError = getCaptureError(draft.state, unit, coord, draft.data.statusEffects)
+  if (captureError) return captureError
+  if (hasCaptureAdvanced(draft, coord, unit.playerId)) return 'Capture already advanced this turn'
+
+  updateUnit(draft, unit.id, { actionsRemaining: unit.actionsRemaining - 1 })
+  advanceCapture(draft, coord, unit.playerId, unit.id)
+  syncCubicleCounts(draft)
+  return undefined
+}
+
+function handleHire(draft: Draft, action: GameAction): string | undefined {
+  const employee = action.employeeKey ? draft.data.employees[action.employeeKey] : undefined
+  if (!employee) return `Unknown employee: ${action.employeeKey}`
+
+  const hireError = getHireError(draft.state, action.playerId, employee, draft.data)
+  if (hireError) return hireError
+
+  // Deploy on the chosen HQ tile, or the first free one when none was chosen
+  const freeTiles = getDeploymentTiles(draft.state, action.playerId)
+  const target = action.target
+  const position = target ? freeTiles.find((c) => c.x === target.x && c.y === target.y) : freeTiles[0]
+  if (!position) return 'Hires must be deployed on a free HQ tile'
+
+  // New hires report for duty next turn
+  const unit: Unit = {
+    ...createUnitFromEmployee(employee, createHireId(draft.state, action.playerId, employee.key), action.playerId, position),
+    actionsRemaining: 0,
+    remainingMovement: 0,
+  }
+  draft.state = {
+    ...draft.state,
+    units: [...draft.state.units, unit],
+    players: draft.state.players.map((p) => (p.id === action.playerId ? { ...p, budget: p.budget - employee.cost } : p)),
+  }
+  draft.events.push({
+    type: GameEventType.UNIT_HIRED,
+    unitId: unit.id,
+    playerId: action.playerId,
+    employeeKey: employee.key,
+    position,
+    cost: employee.cost,
+  })
+  return undefined
+}
+
+function handleSetFacing(draft: Draft, action: GameAction): string | undefined {
+  const unit = action.unitId ? findUnit(draft.state, action.unitId) : undefined
+  if (!unit) return `Unit not found: ${action.unitId}`
+  if (unit.playerId !== action.playerId) return `${unit.id} does not belong to ${action.playerId}`
+  if (!action.direction) return 'Facing requires a direction'
+  if (!getEffectiveStats(unit, draft.data.statusEffects).canAct) return `${unit.id} cannot act this turn`
+
+  // Picking a facing is free, but it is the last thing a unit does this turn
+  updateUnit(draft, unit.id, { direction: action.direction, actionsRemaining: 0, remainingMovement: 0 })
+  draft.events.push({ type: GameEventType.UNIT_FACED, unitId: unit.id, direction: action.direction })
+  return undefined
+}
+
+function handleForfeit(draft: Draft, action: GameAction): string | undefined {
+  const player = draft.state.players.find((p) => p.id === action.playerId)
+  if (!player) return `Unknown player: ${action.playerId}`
+
+  const winner = draft.state.players.find((p) => p.id !== player.id)?.id
+  const reason = `${player.name} forfeited the match`
+  draft.state = { ...draft.state, phase: GamePhase.GAME_OVER, winner, victoryReason: reason }
+  draft.events.push({ type: GameEventType.GAME_OVER, winner, reason })
+  return undefined
+}
+
+function handleEndTurn(draft: Draft, action: GameAction): string | undefined {
+  const { state } = draft
+  const endingPlayerId = action.playerId
+
+  // Hazards hit units that end their turn on them, before those units can capture
+  for (const unit of state.units.filter((u) => u.playerId === endingPlayerId)) {
+    const hazard = getHazardAt(state.board, unit.position)
+    if (hazard?.on_turn_end) {
+      resolveHazardEffect(draft, unit.id, hazard.on_turn_end, hazard)
+    }
+  }
+
+  // Units that end their turn on a cubicle they don't own work on capturing it
+  const endingUnits = draft.state.units.filter((u) => u.playerId === endingPlayerId)
+  for (const unit of endingUnits) {
+    if (getCaptureError(draft.state, unit, unit.position, draft.data.statusEffects)) continue
+    if (hasCaptureAdvanced(draft, unit.position, endingPlayerId)) continue
+    advanceCapture(draft, unit.position, endingPlayerId, unit.id)
+  }
+
+  // A capture is lost once its units walk away; it only pauses while blocked
+  for (const tile of draft.state.board.flat()) {
+    if (tile.captureProgress?.playerId !== endingPlayerId) continue
+    if (!endingUnits.some((u) => u.position.x === tile.x && u.position.y === tile.y)) {
+      setCaptureProgress(draft, tile, undefined)
+    }
+  }
+  syncCubicleCounts(draft)
+
+  // Hold-the-floor victories count the turns a player ends holding their share
+  const hold = getVictoryConditions(draft.state).find((c) => c.type === 'hold_capture')
+  if (hold?.type === 'hold_capture') {
+    draft.state = { ...draft.state, captureHoldTurns: updateCaptureHold(draft.state, endingPlayerId, hold.share) }
+  }
+  draft.events.push({ type: GameEventType.TURN_ENDED, playerId: endingPlayerId, turnNumber: state.turnNumber })
+
+  const currentIndex = draft.state.players.findIndex((p) => p.id === endingPlayerId)
+  const nextIndex = (currentIndex + 1) % draft.state.players.length
+  const nextPlayer = draft.state.players[nextIndex]
+  const newRound = nextIndex === 0
+
+  draft.state = {
+    ...draft.state,
+    currentPlayerId: nextPlayer.id,
+    turnNumber: newRound ? draft.state.turnNumber + 1 : draft.state.turnNumber,
+    // Income is paid out once per full round
+    players: newRound ? draft.state.players.map((p) => ({ ...p, budget: p.budget + p.income })) : draft.state.players,
+  }
+  draft.events.push({ type: GameEventType.TURN_STARTED, playerId: nextPlayer.id, turnNumber: draft.state.turnNumber })
+
+  tickHazards(draft, nextPlayer.id)
+
+  for (const unit of draft.state.units.filter((u) => u.playerId === nextPlayer.id)) {
+    startUnitTurn(draft, unit.id)
+  }
+  return undefined
+}
+
+// --- Ability effects ---
+
+type AbilityEffect = DataAbility['effects'][number]
+
+// What an ability was aimed at: a single unit or tile, or every tile of its area
+interface AbilityAim {
+  targetId?: string
+  targetTile?: Coordinate
+  area?: Coordinate[]
+}
+
+// --- Reactions ---
+
+function queueReactions(draft: Draft, unitId: string, trigger: ReactionTrigger, targetId?: string): void {
+  if (draft.reacting) return
+
+  const unit = findUnit(draft.state, unitId)
+  if (!unit) return
+  getReactions(unit, trigger, draft.data).forEach((reaction) => draft.reactions.push({ unitId, reaction, targetId }))
+}
+
+function resolveReactions(draft: Draft): void {
+  draft.reacting = true
+  for (const { unitId, reaction, targetId } of draft.reactions) {
+    const unit = findUnit(draft.state, unitId)
+    const ability = draft.data.abilities[reaction.ability_key]
+    if (!unit || !ability || !canReact(draft, unit, ability, targetId)) continue
+    if (!rollChance(draft, reaction.chance)) continue
+
+    if (ability.cooldown_turns > 0) {
+      updateUnit(draft, unit.id, { abilityCooldowns: { ...unit.abilityCooldowns, [ability.key]: ability.cooldown_turns } })
+    }
+    draft.events.push({
+      type: GameEventType.REACTION_TRIGGERED,
+      unitId,
+      trigger: reaction.trigger,
+      abilityId: ability.key,
+      targetId,
+    })
+    resolveAbilityEffects(draft, ability, unitId, { targetId })
+  }
+  draft.reactions = []
+  draft.reacting = false
+}
+
+// Reactions run single-target, self and team-wide abilities; unit targets must still be in range and sight
+function canReact(draft: Draft, unit: Unit, ability: DataAbility, targetId?: string): boolean {
+  if ((unit.abilityCooldowns[ability.key] || 0) > 0) return false
+  if (!getEffectiveStats(unit, draft.data.statusEffects).canAct) return false
+  if (isAreaAbility(ability)) return false
+
+  const targetType = getAbilityTargetType(ability)
+  if (targetType === TargetType.TILE) return false
+  if (targetType !== TargetType.ALLY && targetType !== TargetType.ENEMY) return true
+
+  const target = targetId ? findUnit(draft.state, targetId) : undefined
+  return !!target && getAbilityTargets(unit, ability, draft.state, draft.data).some((t) => 'id' in t && t.id === target.id)
+}
+
+function resolveAbilityEffects(draft: Draft, ability: DataAbility, casterId: string, aim: AbilityAim): void {
+  for (const effect of ability.effects) {
+    const recipients = getEffectRecipients(draft, effect, casterId, aim)
+
+    switch (effect.type) {
+      case 'damage':
+        recipients.forEach((id) => damageUnit(draft, id, effect.value || 0, casterId))
+        break
+      case 'heal':
+        recipients.forEach((id) => healUnit(draft, id, effect.value || 0, casterId))
+        break
+      case 'action_bonus':
+        recipients.forEach((id) => grantActions(draft, id, effect.value || 0))
+        break
+      case 'apply_status_effect':
+        if (effect.status_key) {
+          const statusKey = effect.status_key
+          recipients
+            .filter(() => rollChance(draft, effect.chance))
+            .forEach((id) => applyStatus(draft, id, statusKey, casterId))
+        }
+        break
+      case 'cleanse_status':
+        recipients.forEach((id) => cleanseStatuses(draft, id))
+        break
+      case 'create_tile_hazard':
+        if (effect.hazard_details) {
+          const details = effect.hazard_details
+          const tiles = aim.area ?? (aim.targetTile ? [aim.targetTile] : [])
+          tiles
+            .filter((c) => isPassable(draft.state.board[c.y]?.[c.x]))
+            .forEach((c) => placeHazard(draft, c, details, casterId))
+        }
+        break
+      default:
+        break
+    }
+  }
+}
+
+function getEffectRecipients(draft: Draft, effect: AbilityEffect, casterId: string, aim: AbilityAim): string[] {
+  const caster = findUnit(draft.state, casterId)
+  const inArea = (u: Unit) => aim.area?.some((c) => c.x === u.position.x && c.y === u.position.y) ?? false
+
+  switch (effect.target) {
+    case 'self':
+    case undefined:
+      return effect.type === 'create_tile_hazard' ? [] : [casterId]
+    case 'ally':
+      if (aim.area) return draft.state.units.filter((u) => u.playerId === caster?.playerId && inArea(u)).map((u) => u.id)
+      return aim.targetId ? [aim.targetId] : []
+    case 'enemy':
+      if (aim.area) return draft.state.units.filter((u) => u.playerId !== caster?.playerId && inArea(u)).map((u) => u.id)
+      return aim.targetId ? [aim.targetId] : []
+    case 'all_allies':
+      return draft.state.units.filter((u) => u.playerId === caster?.playerId).map((u) => u.id)
+    case 'all_enemies':
+      return draft.state.units.filter((u) => u.playerId !== caster?.playerId).map((u) => u.id)
+    default:
+      return []
+  }
+}
+
+// --- State helpers ---
+
+// Unit ids only need to be unique and reproducible from the state, so replays hire the same ids
+function createHireId(state: GameState, playerId: string, employeeKey: string): string {
+  let index = state.units.length
+  while (state.units.some((u) => u.id === `${playerId}-${employeeKey}-hire-${index}`)) {
+    index++
+  }
+  return `${playerId}-${employeeKey}-hire-${index}`
+}
+
+function findUnit(state: GameState, unitId: string): Unit | undefined {
+  return state.units.find((u) => u.id === unitId)
+}
+
+function getActingUnit(draft: Draft, action: GameAction): Unit | string {
+  const unit = action.unitId ? findUnit(draft.state, action.unitId) : undefined
+  if (!unit) return `Unit not found: ${action.unitId}`
+  if (unit.playerId !== action.playerId) return `${unit.id} does not belong to ${action.playerId}`
+  if (unit.actionsRemaining <= 0) return `${unit.id} has no actions remaining`
+  if (!getEffectiveStats(unit, draft.data.statusEffects).canAct) return `${unit.id} cannot act this turn`
+  return unit
+}
+
+function updateUnit(draft: Draft, unitId: string, updates: Partial<Unit>): void {
+  draft.state = {
+    ...draft.state,
+    units: draft.state.units.map((u) => (u.id === unitId ? { ...u, ...updates } : u)),
+  }
+}
+
+function damageUnit(draft: Draft, unitId: string, amount: number, sourceId?: string): void {
+  const unit = findUnit(draft.state, unitId)
+  if (!unit || amount <= 0) return
+
+  const hp = Math.max(0, unit.hp - amount)
+  draft.events.push({ type: GameEventType.UNIT_DAMAGED, unitId, amount: unit.hp - hp, hp, sourceId })
+
+  if (hp > 0) {
+    updateUnit(draft, unitId, { hp })
+    if (sourceId && sourceId !== unitId) queueReactions(draft, unitId, 'on_damaged', sourceId)
+    return
+  }
+
+  draft.state = { ...draft.state, units: draft.state.units.filter((u) => u.id !== unitId) }
+  draft.events.push({ type: GameEventType.UNIT_DEFEATED, unitId, playerId: unit.playerId, sourceId })
+  draft.state.units
+    .filter((u) => u.playerId === unit.playerId)
+    .forEach((ally) => queueReactions(draft, ally.id, 'on_ally_killed', sourceId))
+}
+
+function healUnit(draft: Draft, unitId: string, amount: number, sourceId?: string): void {
+  const unit = findUnit(draft.state, unitId)
+  if (!unit || amount <= 0) return
+
+  const hp = Math.min(unit.maxHp, unit.hp + amount)
+  updateUnit(draft, unitId, { hp })
+  draft.events.push({ type: GameEventType.UNIT_HEALED, unitId, amount: hp - unit.hp, hp, sourceId })
+}
+
+function grantActions(draft: Draft, unitId: string, amount: number): void {
+  const unit = findUnit(draft.state, unitId)
+  if (!unit || amount <= 0) return
+
+  updateUnit(draft, unitId, { actionsRemaining: unit.actionsRemaining + amount })
+  draft.events.push({ type: GameEventType.ACTIONS_GRANTED, unitId, amount })
+}
+
+function applyStatus(
+  draft: Draft,
+  unitId: string,
+  statusKey: string,
+  sourceId?: string,
+  overrides: StatusOverrides = {}
+): void {
+  const unit = findUnit(draft.state, unitId)
+  if (!unit) return
+
+  const duration = overrides.duration ?? draft.data.statusEffects[statusKey]?.duration_in_turns ?? DEFAULT_STATUS_DURATION
+  const status: Unit['status'][number] = { type: getStatusTypeForKey(statusKey), key: statusKey, duration, source: sourceId }
+  if (overrides.magnitude !== undefined) status.magnitude = overrides.magnitude
+  if (overrides.damagePerTurn !== undefined) status.damagePerTurn = overrides.damagePerTurn
+
+  // Re-applying a status refreshes it instead of stacking a second copy
+  updateUnit(draft, unitId, {
+    status: [...unit.status.filter((s) => getStatusKey(s) !== statusKey), status],
+  })
+  draft.events.push({ type: GameEventType.STATUS_APPLIED, unitId, statusKey, duration, sourceId })
+}
+
+/**
+ * Roll against a probability using the seeded generator in the game state.
+ * Certain outcomes don't consume a roll, so data that never gambles never moves the seed.
+ */
+function rollChance(draft: Draft, chance = 1): boolean {
+  if (chance >= 1) return true
+  if (chance <= 0) return false
+
+  const roll = nextRandom(draft.state.rngState ?? DEFAULT_RNG_SEED)
+  draft.state = { ...draft.state, rngState: roll.state }
+  return roll.value < chance
+}
+
+function cleanseStatuses(draft: Draft, unitId: string): void {
+  const unit = findUnit(draft.state, unitId)
+  if (!unit) return
+
+  const isBuff = (s: Unit['status'][number]) => draft.data.statusEffects[getStatusKey(s)]?.type === 'buff'
+  const removed = unit.status.filter((s) => !isBuff(s))
+  if (removed.length === 0) return
+
+  updateUnit(draft, unitId, { status: unit.status.filter(isBuff) })
+  removed.forEach((s) => {
+    draft.events.push({ type: GameEventType.STATUS_REMOVED, unitId, statusKey: getStatusKey(s) })
+  })
+}
+
+function captureTile(draft: Draft, coord: Coordinate, playerId: string, unitId?: string): void {
+  const previousOwner = draft.state.board[coord.y]?.[coord.x]?.owner
+  draft.state = {
+    ...draft.state,
+    board: draft.state.board.map((row, y) =>
+      y === coord.y
+        ? row.map((tile) => (tile.x === coord.x ? { ...tile, owner: playerId, captureProgress: undefined } : tile))
+        : row
+    ),
+  }
+  draft.events.push({ type: GameEventType.CUBICLE_CAPTURED, playerId, position: coord, previousOwner, unitId })
+}
+
+// One turn of capturing; the cubicle changes hands once capture_turns have been put in
+function advanceCapture(draft: Draft, coord: Coordinate, playerId: string, unitId?: string): void {
+  const progress = draft.state.board[coord.y]?.[coord.x]?.captureProgress
+  const turns = progress?.playerId === playerId ? progress.turns + 1 : 1
+  const required = getCaptureTurns(draft.data)
+
+  if (turns >= required) {
+    captureTile(draft, coord, playerId, unitId)
+    return
+  }
+
+  setCaptureProgress(draft, coord, { playerId, turns, turnNumber: draft.state.turnNumber })
+  draft.events.push({
+    type: GameEventType.CAPTURE_PROGRESSED,
+    playerId,
+    position: { x: coord.x, y: coord.y },
+    turns,
+    required,
+    unitId,
+  })
+}
+
+function hasCaptureAdvanced(draft: Draft, coord: Coordinate, playerId: string): boolean {
+  const progress = draft.state.board[coord.y]?.[coord.x]?.captureProgress
+  return progress?.playerId === playerId && progress.turnNumber === draft.state.turnNumber
+}
+
+function setCaptureProgress(draft: Draft, coord: Coordinate, captureProgress: CaptureProgress | undefined): void {
+  draft.state = {
+    ...draft.state,
+    board: draft.state.board.map((row, y) =>
+      y === coord.y ? row.map((tile) => (tile.x === coord.x ? { ...tile, captureProgress } : tile)) : row
+    ),
+  }
+}
+
+function setHazard(draft: Draft, coord: Coordinate, hazard: TileHazard | undefined): void {
+  draft.state = {
+    ...draft.state,
+    board: draft.state.board.map((row, y) =>
+      y === coord.y ? row.map((tile) => (tile.x === coord.x ? { ...tile, hazard } : tile)) : row
+    ),
+  }
+}
+
+function placeHazard(draft: Draft, coord: Coordinate, details: HazardDetails, casterId: string): void {
+  const caster = findUnit(draft.state, casterId)
+  const hazard = createTileHazard(details, caster?.playerId, casterId)
+
+  // A new hazard replaces whatever was burning on the tile before
+  setHazard(draft, coord, hazard)
+  draft.events.push({
+    type: GameEventType.HAZARD_CREATED,
+    position: { x: coord.x, y: coord.y },
+    name: hazard.name,
+    duration: hazard.remainingTurns,
+    sourceId: casterId,
+  })
+}
+
+function resolveHazardEffect(
+  draft: Draft,
+  unitId: string,
+  effect: { type: string; value?: number; status_key?: string; chance?: number },
+  hazard: TileHazard
+): void {
+  switch (effect.type) {
+    case 'damage':
+      damageUnit(draft, unitId, effect.value || 0, hazard.sourceId)
+      break
+    case 'heal':
+      healUnit(draft, unitId, effect.value || 0, hazard.sourceId)
+      break
+    case 'apply_status_effect':
+      if (effect.status_key && rollChance(draft, effect.chance)) {
+        applyStatus(draft, unitId, effect.status_key, hazard.sourceId)
+      }
+      break
+    default:
+      break
+  }
+}
+
+/**
+ * Count down the hazards a player created at the start of that player's turn,
+ * so a hazard lasting N turns is in play for N of the opponent's turns.
+ */
+function tickHazards(draft: Draft, playerId: string): void {
+  for (const tile of draft.state.board.flat()) {
+    const hazard = tile.hazard
+    if (!hazard || hazard.playerId !== playerId) continue
+
+    const remainingTurns = hazard.remainingTurns - 1
+    if (remainingTurns > 0) {
+      setHazard(draft, tile, { ...hazard, remainingTurns })
+    } else {
+      setHazard(draft, tile, undefined)
+      draft.events.push({ type: GameEventType.HAZARD_EXPIRED, position: { x: tile.x, y: tile.y }, name: hazard.name })
+    }
+  }
+}
+
+function syncCubicleCounts(draft: Draft): void {
+  const counts = countControlledCubicles(draft.state)
+  const incomePerCubicle = draft.data.config?.gameplay_rules?.income_per_cubicle ?? DEFAULT_INCOME_PER_CUBICLE
+  draft.state = {
+    ...draft.state,
+    players: draft.state.players.map((p) => ({
+      ...p,
+      controlledCubicles: counts.get(p.id) || 0,
+      income: (counts.get(p.id) || 0) * incomePerCubicle,
+    })),
+  }
+}
+
+/**
+ * Start-of-turn upkeep for one unit: damage over time, per-turn resources from its
+ * effective stats, cooldowns, then status durations tick down and expire.
+ */
+function startUnitTurn(draft: Draft, unitId: string): void {
+  const { statusEffects } = draft.data
+
+  const dotUnit = findUnit(draft.state, unitId)
+  for (const status of dotUnit?.status ?? []) {
+    const tick = statusEffects[getStatusKey(status)]?.tick_effect
+    const amount = status.damagePerTurn ?? tick?.value ?? 0
+    if (tick?.type === 'damage') {
+      damageUnit(draft, unitId, amount, status.source)
+    } else if (tick?.type === 'heal') {
+      healUnit(draft, unitId, amount, status.source)
+    }
+  }
+
+  // The unit may not have survived its damage over time
+  const unit = findUnit(draft.state, unitId)
+  if (!unit) return
+
+  const stats = getEffectiveStats({ ...unit, actionsRemaining: unit.maxActions }, statusEffects)
+  const abilityCooldowns: Record<string, number> = {}
+  for (const [abilityId, turns] of Object.entries(unit.abilityCooldowns)) {
+    abilityCooldowns[abilityId] = Math.max(0, turns - 1)
+  }
+
+  const remaining = unit.status.map((s) => ({ ...s, duration: s.duration - 1 }))
+  updateUnit(draft, unitId, {
+    actionsRemaining: stats.canAct ? stats.actionsRemaining : 0,
+    hasMoved: false,
+    hasAttacked: false,
+    movementUsed: 0,
+    remainingMovement: stats.canAct ? stats.speed : 0,
+    abilityCooldowns,
+    status: remaining.filter((s) => s.duration > 0),
+  })
+
+  remaining
+    .filter((s) => s.duration <= 0)
+    .forEach((s) => {
+      draft.events.push({ type: GameEventType.STATUS_EXPIRED, unitId, statusKey: getStatusKey(s) })
+    })
+}
+
+function resolveVictory(draft: Draft): void {
+  if (draft.state.phase === GamePhase.GAME_OVER) return // Already decided by the action, e.g. a forfeit
+  const result = checkVictoryConditions(draft.state, draft.data.config?.gameplay_rules?.turn_limit)
+  if (!result.hasWinner && !result.isDraw) return
+
+  const reason = result.reason ?? ''
+  draft.state = { ...draft.state, phase: GamePhase.GAME_OVER, winner: result.winner, victoryReason: reason }
+  draft.events.push({ type: GameEventType.GAME_OVER, winner: result.winner, reason })
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { StatusType, TileType } from '../index.js'
+import { getCaptureError, getCaptureProgress, isCubicleContested } from './capture.js'
+import { createMockBoard, createMockGameState, createMockRulesData, createMockUnit } from '../test/helpers.js'
+
+describe('isCubicleContested', () => {
+  it('counts enemies on or next to the cubicle, not diagonal ones', () => {
+    const state = createMockGameState({
+      units: [createMockUnit({ id: 'red-1', playerId: 'player2', position: { x: 2, y: 2 } })],
+    })
+
+    expect(isCubicleContested(state, { x: 2, y: 1 }, 'player1')).toBe(true)
+    expect(isCubicleContested(state, { x: 1, y: 1 }, 'player1')).toBe(false)
+    expect(isCubicleContested(state, { x: 2, y: 1 }, 'player2')).toBe(false)
+  })
+})
+
+describe('getCaptureError', () => {
+  const board = createMockBoard(5, 5, TileType.CUBICLE)
+
+  it('blocks units whose statuses forbid capturing', () => {
+    const harassed = createMockUnit({ id: 'blue-1', status: [{ type: StatusType.HARASSED, key: 'harassed', duration: 2 }] })
+    const state = createMockGameState({ board, units: [harassed] })
+
+    expect(getCaptureError(state, harassed, harassed.position, createMockRulesData().statusEffects)).toBe(
+      'blue-1 cannot capture right now'
+    )
+    expect(getCaptureError(state, harassed, harassed.position)).toBeUndefined()
+  })
+
+  it('rejects tiles that are not enemy or neutral cubicles', () => {
+    const unit = createMockUnit()
+    const owned = createMockBoard(5, 5, TileType.CUBICLE)
+    owned[0][0] = { ...owned[0][0], owner: 'player1' }
+
+    expect(getCaptureError(createMockGameState({ units: [unit] }), unit, unit.position)).toBe('Not a cubicle')
+    expect(getCaptureError(createMockGameState({ board: owned, units: [unit] }), unit, unit.position)).toBe(
+      'Cubicle is already owned'
+    )
+  })
+})
+
+describe('getCaptureProgress', () => {
+  it('only reports the progress of the given player', () => {
+    const tile = { x: 0, y: 0, type: TileType.CUBICLE, captureProgress: { playerId: 'player2', turns: 1, turnNumber: 3 } }
+
+    expect(getCaptureProgress(tile, 'player2')).toBe(1)
+    expect(getCaptureProgress(tile, 'player1')).toBe(0)
+  })
+})
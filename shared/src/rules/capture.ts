@@ -0,0 +1,67 @@
+import { TileType, type Coordinate, type GameState, type PlayerId, type Tile, type Unit } from '../index.js'
+import { getDistance } from './movement.js'
+import { getEffectiveStats, type StatusDefinitions } from './statuses.js'
+import type { RulesData } from './types.js'
+
+/**
+ * Pure cubicle capture rules shared by the client, the AI and the server.
+ *
+ * A unit captures the cubicle it stands on over gameplay_rules.capture_turns of its turns.
+ * Capture pauses while the unit can't capture (e.g. Harassed) or while an enemy stands next
+ * to the cubicle, which keeps contested cubicles neutral.
+ */
+
+/** Turns a capture takes when the game config does not set gameplay_rules.capture_turns */
+export const DEFAULT_CAPTURE_TURNS = 1
+
+/**
+ * Get how many turns capturing a cubicle takes
+ * @param data - Static game data
+ * @returns gameplay_rules.capture_turns, or the default when no config is loaded
+ */
+export function getCaptureTurns(data: Pick<RulesData, 'config'>): number {
+  return Math.max(1, data.config?.gameplay_rules?.capture_turns || DEFAULT_CAPTURE_TURNS)
+}
+
+/**
+ * Check whether an enemy of a player stands on or next to a tile
+ * @param state - The current game state
+ * @param coord - The cubicle
+ * @param playerId - The capturing player
+ * @returns True if the cubicle is contested
+ */
+export function isCubicleContested(state: Pick<GameState, 'units'>, coord: Coordinate, playerId: PlayerId): boolean {
+  return state.units.some((u) => u.playerId !== playerId && u.hp > 0 && getDistance(u.position, coord) <= 1)
+}
+
+/**
+ * Check why a unit can't work on capturing a tile
+ * @param state - The current game state
+ * @param unit - The capturing unit
+ * @param coord - The tile to capture
+ * @param statusEffects - Status definitions for the unit's effective stats
+ * @returns The reason the capture can't progress, or undefined if it can
+ */
+export function getCaptureError(
+  state: Pick<GameState, 'board' | 'units'>,
+  unit: Unit,
+  coord: Coordinate,
+  statusEffects: StatusDefinitions = {}
+): string | undefined {
+  const tile = state.board[coord.y]?.[coord.x]
+  if (!tile || tile.type !== TileType.CUBICLE) return 'Not a cubicle'
+  if (tile.owner === unit.playerId) return 'Cubicle is already owned'
+  if (!getEffectiveStats(unit, statusEffects).canCapture) return `${unit.id} cannot capture right now`
+  if (isCubicleContested(state, coord, unit.playerId)) return 'Cubicle is contested by an enemy'
+  return undefined
+}
+
+/**
+ * Get how many turns of capturing a player has put into a tile
+ * @param tile - The tile
+ * @param playerId - The capturing player
+ * @returns Turns done, 0 if another player (or nobody) is capturing it
+ */
+export function getCaptureProgress(tile: Tile | undefined, playerId: PlayerId): number {
+  return tile?.captureProgress?.playerId === playerId ? tile.captureProgress.turns : 0
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import { StatusType } from '../index.js'
+import { calculateDamage, calculateDamageBreakdown, getAttackFacing } from './combat.js'
+import { createMockRulesData, createMockUnit } from '../test/helpers.js'
+
+const { statusEffects } = createMockRulesData()
+
+describe('getAttackFacing', () => {
+  const target = createMockUnit({ position: { x: 2, y: 2 }, direction: 'up' })
+
+  it('compares the attack direction with the way the target faces', () => {
+    expect(getAttackFacing({ x: 2, y: 1 }, target)).toBe('front')
+    expect(getAttackFacing({ x: 2, y: 4 }, target)).toBe('back')
+    expect(getAttackFacing({ x: 3, y: 2 }, target)).toBe('side')
+    expect(getAttackFacing({ x: 0, y: 2 }, target)).toBe('side')
+  })
+})
+
+describe('calculateDamage', () => {
+  const attacker = createMockUnit({ id: 'attacker', attackDamage: 20, position: { x: 2, y: 1 } })
+
+  it('reduces damage by the target defense', () => {
+    const target = createMockUnit({ id: 'target', defense: 25, position: { x: 2, y: 2 }, direction: 'up' })
+
+    expect(calculateDamage(attacker, target)).toBe(16)
+  })
+
+  it('applies status modifiers to attack power and defense', () => {
+    const target = createMockUnit({
+      id: 'target',
+      defense: 20,
+      position: { x: 2, y: 2 },
+      direction: 'up',
+      status: [{ type: StatusType.SHIELDED, key: 'shielded', duration: 2 }],
+    })
+    const deadline = { ...attacker, status: [{ type: StatusType.ON_DEADLINE, key: 'on_deadline', duration: 2 }] }
+
+    const breakdown = calculateDamageBreakdown(deadline, target, statusEffects)
+    expect(breakdown.attackPower).toBe(24)
+    expect(breakdown.defense).toBe(30)
+    expect(breakdown.total).toBe(18)
+  })
+
+  it('deals more damage from the side and from behind', () => {
+    const target = createMockUnit({ id: 'target', position: { x: 2, y: 2 }, direction: 'down' })
+
+    expect(calculateDamageBreakdown(attacker, target)).toMatchObject({ facing: 'back', total: 30 })
+    expect(calculateDamage({ ...attacker, position: { x: 1, y: 2 } }, target)).toBe(25)
+  })
+
+  it('always deals at least one damage', () => {
+    const weak = createMockUnit({ attackDamage: 0 })
+    const target = createMockUnit({ defense: 500 })
+
+    expect(calculateDamage(weak, target)).toBe(1)
+  })
+})
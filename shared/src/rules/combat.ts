@@ -0,0 +1,172 @@
+import type { Coordinate, Tile, Unit } from '../index.js'
+import { getDirection, getDistance } from './movement.js'
+import { hasLineOfSight, isIndirectAttack } from './sight.js'
+import { getEffectiveStats, type StatusDefinitions } from './statuses.js'
+import type { RulesData } from './types.js'
+
+/**
+ * Pure combat rules shared by the client, the AI and the server.
+ */
+
+export interface CombatState {
+  units: Unit[]
+  board?: Tile[][] // Without a board, line of sight isn't checked
+}
+
+/** Which side of the target an attack lands on, relative to the way the target faces */
+export type AttackFacing = 'front' | 'side' | 'back'
+
+/** Damage multiplier for each side an attack can land on */
+export const FACING_DAMAGE_MULTIPLIERS: Record<AttackFacing, number> = {
+  front: 1,
+  side: 1.25,
+  back: 1.5,
+}
+
+/** Defense at which incoming damage is halved */
+export const DEFENSE_HALVING_POINT = 100
+
+/** No hit deals less than this */
+export const MIN_DAMAGE = 1
+
+/**
+ * Every step of a damage calculation, so previews can explain the final number
+ */
+export interface DamageBreakdown {
+  attackPower: number // Attacker's status-modified attack power
+  defense: number // Target's status-modified defense
+  facing: AttackFacing
+  facingMultiplier: number
+  defenseMultiplier: number // Share of the damage left after defense
+  total: number
+}
+
+const OPPOSITE_DIRECTION: Record<Unit['direction'], Unit['direction']> = {
+  up: 'down',
+  down: 'up',
+  left: 'right',
+  right: 'left',
+}
+
+/**
+ * Calculate all possible attack targets for a unit
+ * @param unit - The unit to calculate targets for
+ * @param state - The current units, and the board to check line of sight on
+ * @param data - Static game data (for indirect attacks and whether units block sight)
+ * @returns Array of enemy positions within attack range and in sight
+ */
+export function calculatePossibleTargets(
+  unit: Unit,
+  state: CombatState,
+  data?: Pick<RulesData, 'employees' | 'config'>
+): Coordinate[] {
+  if (unit.hasAttacked || unit.actionsRemaining <= 0) return []
+
+  const { board } = state
+  const needsSight = !!board && !isIndirectAttack(unit, data)
+  return state.units
+    .filter((enemy) => enemy.playerId !== unit.playerId && getDistance(unit.position, enemy.position) <= unit.attackRange)
+    .filter((enemy) => !needsSight || hasLineOfSight(unit.position, enemy.position, { board, units: state.units }, data))
+    .map((enemy) => enemy.position)
+}
+
+/**
+ * Check if an attack is valid
+ * @param attacker - The attacking unit
+ * @param target - The target unit
+ * @param state - The current units, and the board to check line of sight on
+ * @param data - Static game data (for indirect attacks and whether units block sight)
+ * @returns True if the attack is valid
+ */
+export function isValidAttack(
+  attacker: Unit,
+  target: Unit,
+  state: CombatState,
+  data?: Pick<RulesData, 'employees' | 'config'>
+): boolean {
+  return calculatePossibleTargets(attacker, state, data).some(
+    (t) => t.x === target.position.x && t.y === target.position.y
+  )
+}
+
+/**
+ * Check whether a unit fights in melee
+ * @param unit - The unit
+ * @param data - Static game data (for the unit's employee attack type)
+ * @returns True for melee employees, or for units without employee data that attack adjacent tiles only
+ */
+export function isMeleeUnit(unit: Unit, data?: Pick<RulesData, 'employees'>): boolean {
+  const employee = unit.employeeKey ? data?.employees[unit.employeeKey] : undefined
+  return employee ? employee.attack.type === 'melee' : unit.attackRange <= 1
+}
+
+/**
+ * Check whether a unit that was just attacked hits back
+ * @param defender - The unit that was attacked and survived
+ * @param attacker - The unit that attacked it
+ * @param data - Static game data (for attack types and statuses)
+ * @returns True if the defender fights in melee, can act and has the attacker in range
+ */
+export function canCounterattack(
+  defender: Unit,
+  attacker: Unit,
+  data?: Pick<RulesData, 'employees' | 'statusEffects'>
+): boolean {
+  if (defender.playerId === attacker.playerId || !isMeleeUnit(defender, data)) return false
+  if (!getEffectiveStats(defender, data?.statusEffects).canAct) return false
+  return getDistance(defender.position, attacker.position) <= defender.attackRange
+}
+
+/**
+ * Work out which side of the target an attack comes from
+ * @param attackerPosition - Where the attack comes from
+ * @param target - The target unit
+ * @returns 'front' when the target faces the attacker, 'back' when it faces away, 'side' otherwise
+ */
+export function getAttackFacing(attackerPosition: Coordinate, target: Unit): AttackFacing {
+  if (getDistance(attackerPosition, target.position) === 0) return 'front'
+
+  const fromTarget = getDirection(target.position, attackerPosition)
+  if (fromTarget === target.direction) return 'front'
+  if (fromTarget === OPPOSITE_DIRECTION[target.direction]) return 'back'
+  return 'side'
+}
+
+/**
+ * Calculate damage step by step
+ * @param attacker - The attacking unit
+ * @param target - The target unit
+ * @param statusEffects - Status definitions used to modify attack power and defense
+ * @returns The breakdown, with `total` being the damage dealt
+ */
+export function calculateDamageBreakdown(
+  attacker: Unit,
+  target: Unit,
+  statusEffects: StatusDefinitions = {}
+): DamageBreakdown {
+  const { attackPower } = getEffectiveStats(attacker, statusEffects)
+  const { defense } = getEffectiveStats(target, statusEffects)
+  const facing = getAttackFacing(attacker.position, target)
+  const facingMultiplier = FACING_DAMAGE_MULTIPLIERS[facing]
+  const defenseMultiplier = DEFENSE_HALVING_POINT / (DEFENSE_HALVING_POINT + defense)
+
+  return {
+    attackPower,
+    defense,
+    facing,
+    facingMultiplier,
+    defenseMultiplier,
+    total: Math.max(MIN_DAMAGE, Math.round(attackPower * facingMultiplier * defenseMultiplier)),
+  }
+}
+
+/**
+ * Calculate damage dealt by an attacker to a target
+ * @param attacker - The attacking unit
+ * @param target - The target unit
+ * @param statusEffects - Status definitions used to modify attack power and defense
+ * @returns The damage amount, at least MIN_DAMAGE
+ */
+export function calculateDamage(attacker: Unit, target: Unit, statusEffects: StatusDefinitions = {}): number {
+  return calculateDamageBreakdown(attacker, target, statusEffects).total
+}
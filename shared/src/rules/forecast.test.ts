@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import { ActionType, type DataAbility } from '../index.js'
+import { applyAction } from './applyAction.js'
+import { forecastAbility, forecastAttack } from './forecast.js'
+import { GameEventType } from './types.js'
+import { createMockGameState, createMockRulesData, createMockUnit } from '../test/helpers.js'
+
+const data = createMockRulesData()
+
+describe('forecastAttack', () => {
+  const attacker = createMockUnit({ id: 'blue-1', employeeKey: 'salesman', attackDamage: 4, position: { x: 2, y: 1 } })
+  const target = createMockUnit({ id: 'red-1', playerId: 'player2', position: { x: 2, y: 2 }, direction: 'up' })
+
+  it('agrees with the damage and counterattack the rules engine resolves', () => {
+    const forecast = forecastAttack(attacker, target, data)
+    const result = applyAction(
+      createMockGameState({ units: [attacker, target] }),
+      { type: ActionType.ATTACK_UNIT, playerId: 'player1', unitId: attacker.id, target: target.position },
+      data
+    )
+    const attacks = result.events.filter((e) => e.type === GameEventType.UNIT_ATTACKED)
+
+    expect(attacks.map((e) => e.damage)).toEqual([forecast.damage, forecast.counterattack?.damage])
+    expect(forecast).toMatchObject({ damage: 4, resultingHp: 6, killChance: 0, statuses: [{ statusKey: 'slow', chance: 0.25 }] })
+    expect(forecast.counterattack).toMatchObject({ chance: 1, damage: 3, resultingHp: 7, killChance: 0 })
+  })
+
+  it('forecasts a kill with no status or counter afterwards', () => {
+    const forecast = forecastAttack(attacker, { ...target, hp: 4 }, data)
+
+    expect(forecast).toMatchObject({ resultingHp: 0, killChance: 1, statuses: [] })
+    expect(forecast.counterattack).toBeUndefined()
+  })
+
+  it('leaves out the counter when the defender fights at range', () => {
+    const ranged = { ...target, attackRange: 3 }
+
+    expect(forecastAttack(attacker, ranged, data).counterattack).toBeUndefined()
+  })
+
+  it('lowers the counter chance by the chance of a stun landing', () => {
+    const stunning = createMockRulesData({
+      employees: {
+        ...data.employees,
+        salesman: { ...data.employees.salesman, attack: { ...data.employees.salesman.attack, status_effect: { type: 'stunned', chance: 0.4, duration: 1 } } },
+      },
+    })
+    const frail = { ...attacker, hp: 3 }
+
+    expect(forecastAttack(frail, target, stunning).counterattack).toMatchObject({ chance: 0.6, killChance: 0.6 })
+  })
+})
+
+describe('forecastAbility', () => {
+  const caster = createMockUnit({ id: 'blue-1', position: { x: 2, y: 1 } })
+  const target = createMockUnit({ id: 'red-1', playerId: 'player2', position: { x: 2, y: 2 } })
+
+  it('adds up flat damage and lists the statuses that may land', () => {
+    const memo: DataAbility = {
+      key: 'memo',
+      name: 'Memo',
+      description: '',
+      cooldown_turns: 1,
+      range_pattern_key: 'single_target_ranged',
+      effects: [
+        { type: 'damage', target: 'enemy', value: 3 },
+        { type: 'apply_status_effect', target: 'enemy', status_key: 'slow', chance: 0.5 },
+        { type: 'apply_status_effect', target: 'self', status_key: 'exhausted' },
+      ],
+    }
+
+    const forecast = forecastAbility(caster, memo, target)
+
+    expect(forecast).toMatchObject({ damage: 3, resultingHp: 7, killChance: 0, statuses: [{ statusKey: 'slow', chance: 0.5 }] })
+    expect(forecast.counterattack).toBeUndefined()
+  })
+
+  it('caps damage at the target HP', () => {
+    expect(forecastAbility(caster, data.abilities.pink_slip, target)).toMatchObject({ damage: 10, resultingHp: 0, killChance: 1 })
+  })
+})
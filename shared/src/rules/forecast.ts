@@ -0,0 +1,120 @@
+import type { DataAbility, Unit } from '../index.js'
+import { getStatusTypeForKey } from './abilities.js'
+import { calculateDamageBreakdown, canCounterattack, type DamageBreakdown } from './combat.js'
+import { getDirection } from './movement.js'
+import { getEffectiveStats, getStatusKey } from './statuses.js'
+import type { RulesData } from './types.js'
+
+/**
+ * Outcome previews for attacks and abilities, worked out with the same functions the rules
+ * engine resolves them with. Damage rolls no dice, so only statuses carry a chance; a forecast
+ * never moves the random seed.
+ */
+
+/** A status the action may apply to the target */
+export interface StatusChance {
+  statusKey: string
+  chance: number // 0 to 1
+}
+
+/** The defender hitting back after an attack */
+export interface CounterForecast {
+  chance: number // 0 to 1; below 1 when an on-hit status may stop the defender acting
+  damage: number
+  resultingHp: number // Attacker's HP after the counter
+  killChance: number
+}
+
+export interface CombatForecast {
+  targetId: string
+  damage: number
+  breakdown?: DamageBreakdown // Attacks only; ability damage is flat
+  resultingHp: number
+  killChance: number
+  statuses: StatusChance[]
+  counterattack?: CounterForecast
+}
+
+type ForecastData = Pick<RulesData, 'employees' | 'statusEffects'>
+
+/**
+ * Forecast a basic attack
+ * @param attacker - The attacking unit
+ * @param target - The target unit
+ * @param data - Static game data (for on-hit statuses, attack types and status modifiers)
+ * @returns Damage, the target's HP afterwards, statuses that may land and any counterattack
+ */
+export function forecastAttack(attacker: Unit, target: Unit, data: ForecastData): CombatForecast {
+  const breakdown = calculateDamageBreakdown(attacker, target, data.statusEffects)
+  const resultingHp = Math.max(0, target.hp - breakdown.total)
+  const forecast: CombatForecast = {
+    targetId: target.id,
+    damage: breakdown.total,
+    breakdown,
+    resultingHp,
+    killChance: resultingHp === 0 ? 1 : 0,
+    statuses: [],
+  }
+  if (resultingHp === 0) return forecast
+
+  // The on-hit status only lands on targets that survive
+  const onHit = attacker.employeeKey ? data.employees[attacker.employeeKey]?.attack.status_effect : undefined
+  const statusChance = onHit && onHit.type !== 'none' ? Math.min(1, Math.max(0, onHit.chance)) : 0
+  if (onHit && statusChance > 0) {
+    forecast.statuses.push({ statusKey: onHit.type, chance: statusChance })
+  }
+
+  const defender = { ...target, hp: resultingHp }
+  if (!canCounterattack(defender, attacker, data)) return forecast
+
+  // A status that stops the defender acting also stops the counter
+  let counterChance = 1
+  if (onHit && statusChance > 0) {
+    const status = { type: getStatusTypeForKey(onHit.type), key: onHit.type, duration: onHit.duration }
+    const afflicted = { ...defender, status: [...defender.status.filter((s) => getStatusKey(s) !== onHit.type), status] }
+    if (!getEffectiveStats(afflicted, data.statusEffects).canAct) counterChance = 1 - statusChance
+  }
+
+  // Attackers turn to face their target, so counters come from the front
+  const exposed = { ...attacker, direction: getDirection(attacker.position, target.position) }
+  const counterDamage = calculateDamageBreakdown(defender, exposed, data.statusEffects).total
+  const attackerHp = Math.max(0, attacker.hp - counterDamage)
+  forecast.counterattack = {
+    chance: counterChance,
+    damage: counterDamage,
+    resultingHp: attackerHp,
+    killChance: attackerHp === 0 ? counterChance : 0,
+  }
+  return forecast
+}
+
+/**
+ * Forecast what an ability does to one enemy it hits
+ * @param caster - The unit using the ability
+ * @param ability - The ability's data definition
+ * @param target - An enemy the ability hits
+ * @returns Total damage, the target's HP afterwards and statuses that may land; abilities are never countered
+ */
+export function forecastAbility(caster: Unit, ability: DataAbility, target: Unit): CombatForecast {
+  const hitsEnemies = (effectTarget: string) => effectTarget === 'enemy' || effectTarget === 'all_enemies'
+  let hp = target.hp
+  const statuses: StatusChance[] = []
+
+  // Effects resolve in order, and a status can't land on a target an earlier effect defeated
+  for (const effect of ability.effects) {
+    if (!hitsEnemies(effect.target) || caster.playerId === target.playerId || hp === 0) continue
+    if (effect.type === 'damage') {
+      hp = Math.max(0, hp - (effect.value || 0))
+    } else if (effect.type === 'apply_status_effect' && effect.status_key) {
+      statuses.push({ statusKey: effect.status_key, chance: Math.min(1, Math.max(0, effect.chance ?? 1)) })
+    }
+  }
+
+  return {
+    targetId: target.id,
+    damage: target.hp - hp,
+    resultingHp: hp,
+    killChance: hp === 0 ? 1 : 0,
+    statuses,
+  }
+}
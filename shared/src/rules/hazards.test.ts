@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest'
+import { avoidHazards, createTileHazard, getHazardAt } from './hazards.js'
+import { createMockBoard } from '../test/helpers.js'
+
+const details = { name: 'Burning Ground', duration_in_turns: 3, visual_effect: 'ground_flames' }
+
+describe('createTileHazard', () => {
+  it('starts with the full duration and remembers who created it', () => {
+    expect(createTileHazard(details, 'player1', 'blue-1')).toEqual({
+      ...details,
+      remainingTurns: 3,
+      playerId: 'player1',
+      sourceId: 'blue-1',
+    })
+  })
+})
+
+describe('avoidHazards', () => {
+  const board = createMockBoard()
+  board[0][1] = { ...board[0][1], hazard: createTileHazard(details) }
+
+  it('drops hazardous destinations when there are alternatives', () => {
+    expect(getHazardAt(board, { x: 1, y: 0 })?.name).toBe('Burning Ground')
+    expect(avoidHazards([{ x: 1, y: 0 }, { x: 0, y: 1 }], board)).toEqual([{ x: 0, y: 1 }])
+  })
+
+  it('keeps every destination when all of them are hazardous', () => {
+    expect(avoidHazards([{ x: 1, y: 0 }], board)).toEqual([{ x: 1, y: 0 }])
+  })
+})
@@ -0,0 +1,38 @@
+import type { Coordinate, HazardDetails, PlayerId, Tile, TileHazard } from '../index.js'
+
+/**
+ * Pure tile hazard rules shared by the client, the AI and the server.
+ * Hazards live on the board tiles; applyAction creates, triggers and expires them.
+ */
+
+/**
+ * Build the hazard a create_tile_hazard effect leaves on a tile
+ * @param details - The hazard_details of the ability effect
+ * @param playerId - The player whose turns count down the hazard
+ * @param sourceId - The unit that created the hazard
+ * @returns The hazard to store on the tile
+ */
+export function createTileHazard(details: HazardDetails, playerId?: PlayerId, sourceId?: string): TileHazard {
+  return { ...details, remainingTurns: details.duration_in_turns, playerId, sourceId }
+}
+
+/**
+ * Get the hazard on a tile
+ * @param board - The game board
+ * @param coord - Coordinate to look up
+ * @returns The hazard on the tile, if any
+ */
+export function getHazardAt(board: Tile[][], coord: Coordinate): TileHazard | undefined {
+  return board[coord.y]?.[coord.x]?.hazard
+}
+
+/**
+ * Prefer destinations without a hazard
+ * @param moves - Candidate destinations
+ * @param board - The game board
+ * @returns The hazard-free destinations, or all of them when every option is hazardous
+ */
+export function avoidHazards(moves: Coordinate[], board: Tile[][]): Coordinate[] {
+  const safe = moves.filter((m) => !getHazardAt(board, m))
+  return safe.length > 0 ? safe : moves
+}
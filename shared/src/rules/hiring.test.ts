@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+import { TileType } from '../index.js'
+import { getDeploymentTiles, getHireableEmployees } from './hiring.js'
+import { createMockBoard, createMockGameState, createMockPlayer, createMockRulesData, createMockUnit } from '../test/helpers.js'
+
+const board = createMockBoard()
+board[0][0] = { ...board[0][0], type: TileType.HQ_BLUE }
+board[0][1] = { ...board[0][1], type: TileType.HQ_BLUE }
+board[4][4] = { ...board[4][4], type: TileType.HQ_RED }
+
+describe('getDeploymentTiles', () => {
+  it('returns the free HQ tiles of the player team', () => {
+    const state = createMockGameState({ board })
+
+    expect(getDeploymentTiles(state, 'player1')).toEqual([{ x: 1, y: 0 }])
+    expect(getDeploymentTiles(state, 'player2')).toEqual([])
+  })
+})
+
+describe('getHireableEmployees', () => {
+  it('lists only the employees the player can afford', () => {
+    const state = createMockGameState({ board, players: [createMockPlayer({ budget: 100 })] })
+    const keys = getHireableEmployees(state, 'player1', createMockRulesData()).map((e) => e.key)
+
+    expect(keys).toEqual(['salesman', 'manager', 'secretary'])
+    expect(getHireableEmployees({ ...state, players: [createMockPlayer({ budget: 99 })] }, 'player1', createMockRulesData())).toEqual([])
+  })
+
+  it('lists nothing once every HQ tile is occupied', () => {
+    const state = createMockGameState({
+      board,
+      units: [createMockUnit({ position: { x: 0, y: 0 } }), createMockUnit({ id: 'blue-2', position: { x: 1, y: 0 } })],
+      players: [createMockPlayer({ budget: 1000 })],
+    })
+
+    expect(getHireableEmployees(state, 'player1', createMockRulesData())).toEqual([])
+  })
+})
@@ -0,0 +1,135 @@
+import { Team, TileType, UnitType, type Coordinate, type Employee, type GameState, type PlayerId, type Unit } from '../index.js'
+import { getUnitAt } from './movement.js'
+import type { RulesData } from './types.js'
+
+/**
+ * Pure hiring rules shared by the client, the AI and the server.
+ * Players spend their budget on employees from employees.json and deploy them on a free HQ tile.
+ */
+
+/** Team size used when the game config does not set gameplay_rules.max_team_size */
+export const DEFAULT_MAX_TEAM_SIZE = 4
+
+/**
+ * Build a unit from its employee data
+ * @param employee - The employee definition
+ * @param id - Unit id
+ * @param playerId - Owning player
+ * @param position - Where the unit starts
+ * @returns A fresh unit with full health and actions
+ */
+export function createUnitFromEmployee(employee: Employee, id: string, playerId: PlayerId, position: Coordinate): Unit {
+  return {
+    id,
+    playerId,
+    type: getUnitTypeForEmployee(employee.key),
+    position,
+    hp: employee.stats.health,
+    maxHp: employee.stats.health,
+    moveRange: employee.stats.speed,
+    attackRange: employee.attack.range,
+    attackDamage: employee.stats.attack_power,
+    defense: employee.stats.defense,
+    actionsRemaining: 2, // Default actions
+    maxActions: 2,
+    status: [],
+    cost: employee.cost,
+    hasMoved: false,
+    hasAttacked: false,
+    abilities: employee.ability_keys || [],
+    abilityCooldowns: {},
+    employeeKey: employee.key,
+    movementUsed: 0,
+    remainingMovement: employee.stats.speed,
+    direction: 'down', // Default direction
+  }
+}
+
+/**
+ * Map an employee key to the unit type used for sprites and legacy lookups
+ * @param employeeKey - Key from employees.json
+ * @returns The matching unit type, or INTERN for unknown keys
+ */
+export function getUnitTypeForEmployee(employeeKey: string): UnitType {
+  const keyMap: Record<string, UnitType> = {
+    salesman: UnitType.SALES_REP,
+    secretary: UnitType.SECRETARY,
+    manager: UnitType.HR_MANAGER,
+    it_guy: UnitType.IT_SPECIALIST,
+  }
+  return keyMap[employeeKey] || UnitType.INTERN
+}
+
+/**
+ * Get the largest team a player may field
+ * @param data - Static game data
+ * @returns gameplay_rules.max_team_size, or the default when no config is loaded
+ */
+export function getMaxTeamSize(data: Pick<RulesData, 'config'>): number {
+  return data.config?.gameplay_rules?.max_team_size || DEFAULT_MAX_TEAM_SIZE
+}
+
+/**
+ * Get the HQ tile type a team deploys from
+ * @param team - The team
+ * @returns HQ_BLUE or HQ_RED
+ */
+export function getHqTileType(team: Team): TileType {
+  return team === Team.BLUE ? TileType.HQ_BLUE : TileType.HQ_RED
+}
+
+/**
+ * Get the HQ tiles a player can deploy new hires on
+ * @param state - The current game state
+ * @param playerId - The hiring player
+ * @returns HQ tiles of the player's team that no unit stands on
+ */
+export function getDeploymentTiles(state: Pick<GameState, 'board' | 'units' | 'players'>, playerId: PlayerId): Coordinate[] {
+  const team = state.players.find((p) => p.id === playerId)?.team
+  if (!team) return []
+
+  const hqType = getHqTileType(team)
+  return state.board
+    .flat()
+    .filter((tile) => tile.type === hqType && !getUnitAt(state.units, tile))
+    .map((tile) => ({ x: tile.x, y: tile.y }))
+}
+
+/**
+ * Check why a player can't hire an employee
+ * @param state - The current game state
+ * @param playerId - The hiring player
+ * @param employee - The employee to hire
+ * @param data - Static game data (for the team size limit)
+ * @returns The reason the hire is not allowed, or undefined if it is
+ */
+export function getHireError(
+  state: Pick<GameState, 'board' | 'units' | 'players'>,
+  playerId: PlayerId,
+  employee: Employee,
+  data: Pick<RulesData, 'config'>
+): string | undefined {
+  const player = state.players.find((p) => p.id === playerId)
+  if (!player) return 'Unknown player'
+  if (player.budget < employee.cost) return `Not enough budget to hire ${employee.name}`
+
+  const teamSize = state.units.filter((u) => u.playerId === playerId).length
+  if (teamSize >= getMaxTeamSize(data)) return 'Team is already at the maximum size'
+  if (getDeploymentTiles(state, playerId).length === 0) return 'No free HQ tile to deploy on'
+  return undefined
+}
+
+/**
+ * Get the employees a player could hire right now
+ * @param state - The current game state
+ * @param playerId - The hiring player
+ * @param data - Static game data
+ * @returns Employees the player can afford and deploy
+ */
+export function getHireableEmployees(
+  state: Pick<GameState, 'board' | 'units' | 'players'>,
+  playerId: PlayerId,
+  data: Pick<RulesData, 'employees' | 'config'>
+): Employee[] {
+  return Object.values(data.employees).filter((employee) => !getHireError(state, playerId, employee, data))
+}
@@ -0,0 +1,18 @@
+export * from './types.js'
+export * from './movement.js'
+export * from './combat.js'
+export * from './forecast.js'
+export * from './abilities.js'
+export * from './capture.js'
+export * from './statuses.js'
+export * from './hazards.js'
+export * from './hiring.js'
+export * from './patterns.js'
+export * from './sight.js'
+export * from './reactions.js'
+export * from './random.js'
+export * from './replay.js'
+export * from './snapshot.js'
+export * from './victory.js'
+export * from './setup.js'
+export * from './applyAction.js'
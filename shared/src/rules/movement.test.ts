@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import { TileType } from '../index.js'
+import { calculatePossibleMoves, findPath, findReachableTiles, getMovementCost } from './movement.js'
+import { createMockBoard, createMockRulesData, createMockUnit } from '../test/helpers.js'
+
+const data = createMockRulesData({
+  config: {
+    game_version: '0.1.0',
+    draft_config: { starting_funds: 1000, timer_seconds: 60, picks_per_player: 5 },
+    gameplay_rules: { max_team_size: 4, turn_limit: 50, movement_costs: { hallway: 0.5, conference: 2 } },
+  },
+})
+
+describe('getMovementCost', () => {
+  it('reads the tile type cost from the config and defaults to 1', () => {
+    expect(getMovementCost({ x: 0, y: 0, type: TileType.HALLWAY }, data)).toBe(0.5)
+    expect(getMovementCost({ x: 0, y: 0, type: TileType.CONFERENCE_ROOM }, data)).toBe(2)
+    expect(getMovementCost({ x: 0, y: 0, type: TileType.CUBICLE }, data)).toBe(1)
+    expect(getMovementCost({ x: 0, y: 0, type: TileType.HALLWAY })).toBe(1)
+  })
+})
+
+describe('findReachableTiles', () => {
+  it('matches the plain step count on uniform terrain', () => {
+    const unit = createMockUnit({ position: { x: 2, y: 2 }, remainingMovement: 2 })
+    const moves = calculatePossibleMoves(unit, { board: createMockBoard(), units: [unit] })
+
+    expect(moves).toHaveLength(12)
+    expect(moves).not.toContainEqual({ x: 2, y: 2 })
+  })
+
+  it('goes further along cheap hallways and stops short in conference rooms', () => {
+    const board = createMockBoard(6, 3)
+    for (let x = 1; x < 6; x++) board[0][x] = { x, y: 0, type: TileType.HALLWAY }
+    board[1][0] = { x: 0, y: 1, type: TileType.CONFERENCE_ROOM }
+    const unit = createMockUnit({ position: { x: 0, y: 0 }, remainingMovement: 2 })
+    const moves = calculatePossibleMoves(unit, { board, units: [unit] }, data)
+
+    expect(moves).toContainEqual({ x: 4, y: 0 })
+    expect(moves).toContainEqual({ x: 0, y: 1 })
+    expect(moves).not.toContainEqual({ x: 5, y: 0 })
+    expect(moves).not.toContainEqual({ x: 0, y: 2 })
+  })
+
+  it('routes around walls instead of slipping past them', () => {
+    const board = createMockBoard()
+    for (let y = 0; y < 4; y++) board[y][1] = { x: 1, y, type: TileType.OBSTACLE }
+    const unit = createMockUnit({ position: { x: 0, y: 0 }, remainingMovement: 10 })
+
+    const route = findPath(unit, { x: 2, y: 0 }, { board, units: [unit] })
+
+    expect(route?.cost).toBe(10)
+    expect(route?.path[0]).toEqual({ x: 0, y: 1 })
+    expect(route?.path[route.path.length - 1]).toEqual({ x: 2, y: 0 })
+    expect(findPath({ ...unit, remainingMovement: 9 }, { x: 2, y: 0 }, { board, units: [unit] })).toBeUndefined()
+  })
+
+  it('passes through occupied tiles without stopping on them', () => {
+    const board = createMockBoard(3, 1)
+    const unit = createMockUnit({ id: 'blue-1', position: { x: 0, y: 0 }, remainingMovement: 2 })
+    const blocker = createMockUnit({ id: 'red-1', playerId: 'player2', position: { x: 1, y: 0 } })
+
+    const paths = findReachableTiles(unit, { board, units: [unit, blocker] })
+
+    expect(paths).toEqual([{ to: { x: 2, y: 0 }, cost: 2, path: [{ x: 1, y: 0 }, { x: 2, y: 0 }] }])
+  })
+})
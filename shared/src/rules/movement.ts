@@ -0,0 +1,190 @@
+import { TileType, type Coordinate, type Tile, type Unit } from '../index.js'
+import type { RulesData } from './types.js'
+
+/**
+ * Pure movement rules shared by the client, the AI and the server.
+ * Each step costs the movement cost of the tile entered (gameplay_rules.movement_costs),
+ * so hallways can be fast and conference rooms slow.
+ */
+
+/** Cost of entering a tile whose type has no entry in gameplay_rules.movement_costs */
+export const DEFAULT_MOVEMENT_COST = 1
+
+export interface MovementState {
+  board: Tile[][]
+  units: Unit[]
+}
+
+// The cheapest way to a reachable tile
+export interface MovementPath {
+  to: Coordinate
+  cost: number // Total movement spent along the path
+  path: Coordinate[] // Tiles stepped on in order, ending with the destination
+}
+
+/**
+ * Get the distance between two coordinates using Manhattan distance
+ * @param from - Starting coordinate
+ * @param to - Target coordinate
+ * @returns Manhattan distance between the coordinates
+ */
+export function getDistance(from: Coordinate, to: Coordinate): number {
+  return Math.abs(to.x - from.x) + Math.abs(to.y - from.y)
+}
+
+/**
+ * Calculate the direction from one coordinate to another
+ * @param from - Starting coordinate
+ * @param to - Target coordinate
+ * @returns Direction as 'up', 'down', 'left', or 'right'
+ */
+export function getDirection(from: Coordinate, to: Coordinate): Unit['direction'] {
+  const dx = to.x - from.x
+  const dy = to.y - from.y
+
+  if (dx === 0 && dy === 0) return 'down'
+
+  if (Math.abs(dx) > Math.abs(dy)) {
+    return dx > 0 ? 'right' : 'left'
+  }
+  return dy > 0 ? 'down' : 'up'
+}
+
+/**
+ * Get the unit standing on a coordinate
+ * @param units - Units to search
+ * @param coord - Coordinate to look up
+ * @returns The unit at the coordinate, if any
+ */
+export function getUnitAt(units: Unit[], coord: Coordinate): Unit | undefined {
+  return units.find((u) => u.position.x === coord.x && u.position.y === coord.y)
+}
+
+/**
+ * Check whether a tile can be walked through
+ * @param tile - The tile to check
+ * @returns True if the tile exists and is not an obstacle
+ */
+export function isPassable(tile: Tile | undefined): tile is Tile {
+  return !!tile && tile.type !== TileType.OBSTACLE
+}
+
+/**
+ * Get what it costs to step onto a tile
+ * @param tile - The tile being entered
+ * @param data - Static game data (for gameplay_rules.movement_costs)
+ * @returns The tile type's movement cost, or the default when the config doesn't set one
+ */
+export function getMovementCost(tile: Tile, data?: Pick<RulesData, 'config'>): number {
+  const cost = data?.config?.gameplay_rules?.movement_costs?.[tile.type]
+  return typeof cost === 'number' && cost > 0 ? cost : DEFAULT_MOVEMENT_COST
+}
+
+/**
+ * Find every tile a unit can reach this turn, with the cheapest path to each, using Dijkstra.
+ * Units can pass through occupied tiles but can't stop on them.
+ * @param unit - The unit to calculate paths for
+ * @param state - The board and units
+ * @param data - Static game data (for terrain movement costs)
+ * @returns The cheapest path to every reachable, unoccupied tile
+ */
+export function findReachableTiles(unit: Unit, state: MovementState, data?: Pick<RulesData, 'config'>): MovementPath[] {
+  if (unit.remainingMovement <= 0 || unit.actionsRemaining <= 0) return []
+
+  const { board, units } = state
+  const occupied = new Set(units.map((u) => coordKey(u.position)))
+  const startKey = coordKey(unit.position)
+  const best = new Map<string, { cost: number; from?: string; coord: Coordinate }>([
+    [startKey, { cost: 0, coord: unit.position }],
+  ])
+  const settled = new Set<string>()
+  const frontier: { key: string; cost: number }[] = [{ key: startKey, cost: 0 }]
+
+  while (frontier.length > 0) {
+    // Boards are small, so a linear scan for the cheapest node is enough of a priority queue
+    let cheapest = 0
+    for (let i = 1; i < frontier.length; i++) {
+      if (frontier[i].cost < frontier[cheapest].cost) cheapest = i
+    }
+    const { key } = frontier.splice(cheapest, 1)[0]
+    if (settled.has(key)) continue
+    settled.add(key)
+
+    const { cost, coord } = best.get(key)!
+    const neighbors = [
+      { x: coord.x + 1, y: coord.y },
+      { x: coord.x - 1, y: coord.y },
+      { x: coord.x, y: coord.y + 1 },
+      { x: coord.x, y: coord.y - 1 },
+    ]
+    for (const neighbor of neighbors) {
+      const tile = board[neighbor.y]?.[neighbor.x]
+      if (!isPassable(tile)) continue
+
+      const neighborKey = coordKey(neighbor)
+      const neighborCost = cost + getMovementCost(tile, data)
+      if (neighborCost > unit.remainingMovement) continue
+
+      const known = best.get(neighborKey)
+      if (known && known.cost <= neighborCost) continue
+      best.set(neighborKey, { cost: neighborCost, from: key, coord: neighbor })
+      frontier.push({ key: neighborKey, cost: neighborCost })
+    }
+  }
+
+  const paths: MovementPath[] = []
+  for (const [key, { cost, coord }] of best) {
+    if (key === startKey || occupied.has(key)) continue
+
+    const path: Coordinate[] = []
+    for (let step = best.get(key); step?.from; step = best.get(step.from)) {
+      path.unshift(step.coord)
+    }
+    paths.push({ to: coord, cost, path })
+  }
+  return paths
+}
+
+/**
+ * Find the cheapest path a unit can take to a tile this turn
+ * @param unit - The moving unit
+ * @param to - The destination coordinate
+ * @param state - The board and units
+ * @param data - Static game data (for terrain movement costs)
+ * @returns The path and its cost, or undefined if the tile is out of reach
+ */
+export function findPath(
+  unit: Unit,
+  to: Coordinate,
+  state: MovementState,
+  data?: Pick<RulesData, 'config'>
+): MovementPath | undefined {
+  return findReachableTiles(unit, state, data).find((p) => p.to.x === to.x && p.to.y === to.y)
+}
+
+/**
+ * Calculate all tiles a unit can move to this turn
+ * @param unit - The unit to calculate moves for
+ * @param state - The board and units
+ * @param data - Static game data (for terrain movement costs)
+ * @returns Array of reachable, unoccupied coordinates
+ */
+export function calculatePossibleMoves(unit: Unit, state: MovementState, data?: Pick<RulesData, 'config'>): Coordinate[] {
+  return findReachableTiles(unit, state, data).map((p) => p.to)
+}
+
+/**
+ * Check if a move is valid for a unit
+ * @param unit - The unit attempting to move
+ * @param to - The destination coordinate
+ * @param state - The board and units
+ * @param data - Static game data (for terrain movement costs)
+ * @returns True if the move is valid
+ */
+export function isValidMove(unit: Unit, to: Coordinate, state: MovementState, data?: Pick<RulesData, 'config'>): boolean {
+  return !!findPath(unit, to, state, data)
+}
+
+function coordKey(coord: Coordinate): string {
+  return `${coord.x},${coord.y}`
+}
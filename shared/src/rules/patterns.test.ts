@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { getPatternTiles, isAreaAbility } from './patterns.js'
+import { createMockRulesData } from '../test/helpers.js'
+
+const { attackPatterns, abilities } = createMockRulesData()
+const origin = { x: 5, y: 5 }
+
+describe('getPatternTiles', () => {
+  it('keeps a directional pattern as drawn when facing its authored direction', () => {
+    expect(getPatternTiles(attackPatterns.firewall_line, origin, 'up')).toEqual([
+      { x: 4, y: 4 },
+      { x: 5, y: 4 },
+      { x: 6, y: 4 },
+    ])
+  })
+
+  it('rotates directional patterns to the caster facing', () => {
+    expect(getPatternTiles(attackPatterns.firewall_line, origin, 'right')).toEqual([
+      { x: 6, y: 4 },
+      { x: 6, y: 5 },
+      { x: 6, y: 6 },
+    ])
+    expect(getPatternTiles(attackPatterns.firewall_line, origin, 'down')).toEqual([
+      { x: 6, y: 6 },
+      { x: 5, y: 6 },
+      { x: 4, y: 6 },
+    ])
+
+    const coneLeft = getPatternTiles(attackPatterns.forward_cone, origin, 'left')
+    expect(coneLeft).toHaveLength(12)
+    expect(coneLeft.every((c) => c.x < origin.x)).toBe(true)
+  })
+
+  it('does not rotate centered patterns', () => {
+    const up = getPatternTiles(attackPatterns.centered_cross_burst, origin, 'up')
+    const left = getPatternTiles(attackPatterns.centered_cross_burst, origin, 'left')
+
+    expect(left).toEqual(up)
+    expect(up).toHaveLength(8)
+    expect(up).not.toContainEqual(origin)
+  })
+})
+
+describe('isAreaAbility', () => {
+  it('only treats area patterns as area of effect', () => {
+    expect(isAreaAbility(abilities.paperclip_storm)).toBe(true)
+    expect(isAreaAbility(abilities.firewall)).toBe(true)
+    expect(isAreaAbility(abilities.pink_slip)).toBe(false)
+  })
+})
@@ -0,0 +1,97 @@
+import type { AttackPattern, Coordinate, DataAbility, Tile, Unit } from '../index.js'
+import { getDirection } from './movement.js'
+
+/**
+ * Pure attack pattern rules shared by the client, the AI and the server.
+ *
+ * In attack_patterns.json a `2` marks the caster and a `1` marks a covered tile.
+ * Directional patterns are rotated to the way the caster faces; centered ones are not.
+ */
+
+/** Patterns that hit every covered tile at once instead of describing where a single target may stand */
+export const AREA_PATTERN_KEYS = ['forward_cone', 'centered_cross_burst', 'firewall_line']
+
+const PATTERN_ORIGIN = 2
+const PATTERN_CELL = 1
+
+// Clockwise order, used to count quarter turns between two facings
+const FACINGS: Unit['direction'][] = ['up', 'right', 'down', 'left']
+
+/**
+ * Check whether an ability resolves against an area rather than a single target
+ * @param ability - The ability definition
+ * @returns True if the ability's range pattern is an area of effect
+ */
+export function isAreaAbility(ability: DataAbility): boolean {
+  return AREA_PATTERN_KEYS.includes(ability.range_pattern_key)
+}
+
+/**
+ * Get the tiles a pattern covers when cast from a position
+ * @param pattern - The attack pattern
+ * @param origin - Where the caster stands
+ * @param direction - The way the caster faces
+ * @returns Covered coordinates, not clipped to the board
+ */
+export function getPatternTiles(pattern: AttackPattern, origin: Coordinate, direction: Unit['direction']): Coordinate[] {
+  const center = findPatternOrigin(pattern)
+  const offsets: Coordinate[] = []
+  pattern.pattern.forEach((row, y) => {
+    row.forEach((value, x) => {
+      if (value === PATTERN_CELL) offsets.push({ x: x - center.x, y: y - center.y })
+    })
+  })
+
+  const turns = pattern.type === 'directional' ? getQuarterTurns(getPatternFacing(offsets), direction) : 0
+  return offsets.map((offset) => {
+    const rotated = rotateClockwise(offset, turns)
+    return { x: origin.x + rotated.x, y: origin.y + rotated.y }
+  })
+}
+
+/**
+ * Get the board tiles an area ability covers
+ * @param caster - The casting unit
+ * @param pattern - The ability's attack pattern
+ * @param board - The game board
+ * @param direction - The chosen direction, defaults to the caster's facing
+ * @returns Covered coordinates that lie on the board
+ */
+export function getAreaTiles(
+  caster: Unit,
+  pattern: AttackPattern,
+  board: Tile[][],
+  direction: Unit['direction'] = caster.direction
+): Coordinate[] {
+  return getPatternTiles(pattern, caster.position, direction).filter((c) => !!board[c.y]?.[c.x])
+}
+
+function findPatternOrigin(pattern: AttackPattern): Coordinate {
+  for (let y = 0; y < pattern.pattern.length; y++) {
+    const x = pattern.pattern[y].indexOf(PATTERN_ORIGIN)
+    if (x !== -1) return { x, y }
+  }
+  // Patterns without an explicit origin are centered on their middle cell
+  return { x: Math.floor((pattern.pattern[0]?.length ?? 0) / 2), y: Math.floor(pattern.pattern.length / 2) }
+}
+
+// The way a pattern is drawn in the data: towards the bulk of its covered tiles
+function getPatternFacing(offsets: Coordinate[]): Unit['direction'] {
+  const sum = offsets.reduce((acc, o) => ({ x: acc.x + o.x, y: acc.y + o.y }), { x: 0, y: 0 })
+  if (sum.x === 0 && sum.y === 0) return 'up'
+  return getDirection({ x: 0, y: 0 }, sum)
+}
+
+function getQuarterTurns(from: Unit['direction'], to: Unit['direction']): number {
+  return (FACINGS.indexOf(to) - FACINGS.indexOf(from) + FACINGS.length) % FACINGS.length
+}
+
+// Screen coordinates (y grows downwards): a clockwise quarter turn maps (x, y) to (-y, x)
+function rotateClockwise(offset: Coordinate, turns: number): Coordinate {
+  let rotated = offset
+  for (let i = 0; i < turns; i++) {
+    rotated = { x: -rotated.y, y: rotated.x }
+  }
+  // Avoid -0 leaking into coordinates
+  return { x: rotated.x + 0, y: rotated.y + 0 }
+}
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest'
+import { createRandomSeed, nextRandom } from './random.js'
+
+describe('nextRandom', () => {
+  it('returns the same sequence for the same seed', () => {
+    const sequence = (seed: number) => {
+      const values: number[] = []
+      let state = seed
+      for (let i = 0; i < 5; i++) {
+        const roll = nextRandom(state)
+        values.push(roll.value)
+        state = roll.state
+      }
+      return values
+    }
+
+    expect(sequence(42)).toEqual(sequence(42))
+    expect(sequence(42)).not.toEqual(sequence(43))
+  })
+
+  it('draws values in [0, 1) and advances the state', () => {
+    let state = createRandomSeed()
+    for (let i = 0; i < 100; i++) {
+      const roll = nextRandom(state)
+      expect(roll.value).toBeGreaterThanOrEqual(0)
+      expect(roll.value).toBeLessThan(1)
+      expect(roll.state).not.toBe(state)
+      state = roll.state
+    }
+  })
+})
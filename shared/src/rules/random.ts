@@ -0,0 +1,34 @@
+/**
+ * Seedable random numbers for the rules engine.
+ *
+ * The generator state lives in GameState.rngState, so replaying the same actions from the
+ * same state always produces the same rolls, on the client, in tests and on the server.
+ */
+
+/** Seed used when a game state does not carry one yet (e.g. states saved before seeding) */
+export const DEFAULT_RNG_SEED = 1
+
+export interface RandomResult {
+  value: number // In [0, 1)
+  state: number // Generator state for the next roll
+}
+
+/**
+ * Draw the next random number (mulberry32)
+ * @param state - Current generator state
+ * @returns The number drawn and the advanced state
+ */
+export function nextRandom(state: number): RandomResult {
+  const next = (state + 0x6d2b79f5) | 0
+  let t = Math.imul(next ^ (next >>> 15), next | 1)
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+  return { value: ((t ^ (t >>> 14)) >>> 0) / 4294967296, state: next }
+}
+
+/**
+ * Create a fresh seed for a new game
+ * @returns A 32-bit seed
+ */
+export function createRandomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) | 0
+}
@@ -0,0 +1,38 @@
+import type { Coordinate, EmployeeReaction, ReactionTrigger, Unit } from '../index.js'
+import { getDistance } from './movement.js'
+import type { RulesData } from './types.js'
+
+/**
+ * Pure reaction rules shared by the client, the AI and the server.
+ * Employees can list reactions in employees.json: when the trigger happens the unit runs the
+ * effects of an ability from abilities.json for free. The rules engine queues reactions while an
+ * action resolves and runs them afterwards; reactions never set off further reactions.
+ */
+
+/**
+ * Get the reactions a unit has for a trigger
+ * @param unit - The reacting unit
+ * @param trigger - What happened
+ * @param data - Static game data (for the unit's employee definition)
+ * @returns Reactions listed on the unit's employee for that trigger
+ */
+export function getReactions(unit: Unit, trigger: ReactionTrigger, data: Pick<RulesData, 'employees'>): EmployeeReaction[] {
+  const reactions = unit.employeeKey ? data.employees[unit.employeeKey]?.reactions : undefined
+  return reactions?.filter((r) => r.trigger === trigger) ?? []
+}
+
+/**
+ * Find the enemies a move brought the mover into range of
+ * @param units - All units, with the mover already at its destination
+ * @param mover - The unit that moved
+ * @param from - Where the mover started
+ * @returns Enemies of the mover whose attack range covers the destination but not the start
+ */
+export function getEnemiesEnteredRange(units: Unit[], mover: Unit, from: Coordinate): Unit[] {
+  return units.filter(
+    (u) =>
+      u.playerId !== mover.playerId &&
+      getDistance(u.position, mover.position) <= u.attackRange &&
+      getDistance(u.position, from) > u.attackRange
+  )
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import { ActionType, type GameAction } from '../index.js'
+import { applyAction } from './applyAction.js'
+import { buildReplayFrames, createMatchRecord, findTurnFrame, getTurnStartFrames } from './replay.js'
+import { createMockGameState, createMockRulesData, createMockUnit } from '../test/helpers.js'
+
+const details = { id: 'match-1', game_version: '0.1.0', mapId: 'OfficeLayout', recordedAt: '2026-01-01T00:00:00.000Z' }
+
+const actions: GameAction[] = [
+  { type: ActionType.MOVE_UNIT, playerId: 'player1', unitId: 'blue-1', target: { x: 1, y: 0 } },
+  { type: ActionType.END_TURN, playerId: 'player1' },
+  { type: ActionType.MOVE_UNIT, playerId: 'player2', unitId: 'red-1', target: { x: 3, y: 4 } },
+  { type: ActionType.END_TURN, playerId: 'player2' },
+  { type: ActionType.MOVE_UNIT, playerId: 'player1', unitId: 'blue-1', target: { x: 2, y: 0 } },
+]
+
+const record = () => ({
+  ...createMatchRecord(
+    createMockGameState({
+      rngState: 42,
+      units: [
+        createMockUnit({ id: 'blue-1', position: { x: 0, y: 0 }, employeeKey: 'salesman' }),
+        createMockUnit({ id: 'red-1', playerId: 'player2', position: { x: 4, y: 4 }, employeeKey: 'manager' }),
+      ],
+    }),
+    details
+  ),
+  actions,
+})
+
+describe('createMatchRecord', () => {
+  it('notes the seed and the employees each player starts with', () => {
+    const created = createMatchRecord(record().startingState, details)
+
+    expect(created.rngSeed).toBe(42)
+    expect(created.draft).toEqual({ player1: ['salesman'], player2: ['manager'] })
+    expect(created.actions).toEqual([])
+  })
+})
+
+describe('buildReplayFrames', () => {
+  it('reproduces the recorded match frame by frame', () => {
+    const data = createMockRulesData()
+    const frames = buildReplayFrames(record(), data)
+    const final = actions.reduce((state, action) => applyAction(state, action, data).state, record().startingState)
+
+    expect(frames).toHaveLength(actions.length + 1)
+    expect(frames[0].action).toBeUndefined()
+    expect(frames[1].action).toEqual(actions[0])
+    expect(frames[frames.length - 1]!.state).toEqual(final)
+  })
+
+  it('stops at the first action the rules engine rejects', () => {
+    const broken = { ...record(), actions: [actions[0], { ...actions[1], playerId: 'player2' }, actions[2]] }
+
+    expect(buildReplayFrames(broken, createMockRulesData())).toHaveLength(2)
+  })
+})
+
+describe('turn navigation', () => {
+  const frames = buildReplayFrames(record(), createMockRulesData())
+
+  it('finds where each player turn starts', () => {
+    expect(getTurnStartFrames(frames)).toEqual([0, 2, 4])
+  })
+
+  it('jumps to the first frame of a round, or the end if the match never got there', () => {
+    expect(findTurnFrame(frames, 1)).toBe(0)
+    expect(findTurnFrame(frames, 2)).toBe(4)
+    expect(findTurnFrame(frames, 9)).toBe(5)
+  })
+})
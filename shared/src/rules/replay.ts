@@ -0,0 +1,90 @@
+import { ActionType, type GameAction, type GameState, type PlayerId } from '../index.js'
+import { applyAction } from './applyAction.js'
+import { DEFAULT_RNG_SEED } from './random.js'
+import type { GameEvent, RulesData } from './types.js'
+
+/**
+ * Match recording and replay shared by the client and the server.
+ * A match is recorded as its starting state plus every action applied to it. The rules engine is
+ * deterministic given the seed in the state, so running the same actions again replays the match.
+ */
+
+export interface MatchRecord {
+  id: string
+  game_version: string // Data version the match was played with
+  mapId: string
+  rngSeed: number
+  draft: Record<PlayerId, string[]> // Employee keys each player started the match with
+  startingState: GameState
+  actions: GameAction[] // Every applied action, in order
+  recordedAt: string // ISO date the match started
+}
+
+export interface ReplayFrame {
+  state: GameState
+  action?: GameAction // Action that led to this state; unset for the starting frame
+  events: GameEvent[]
+}
+
+/**
+ * Start recording a match
+ * @param startingState - The state the match starts from, after the draft
+ * @param details - Identifying details of the match
+ * @returns A record with no actions yet
+ */
+export function createMatchRecord(
+  startingState: GameState,
+  details: Pick<MatchRecord, 'id' | 'game_version' | 'mapId' | 'recordedAt'>
+): MatchRecord {
+  const draft: Record<PlayerId, string[]> = {}
+  startingState.players.forEach((player) => {
+    draft[player.id] = startingState.units
+      .filter((u) => u.playerId === player.id && u.employeeKey)
+      .map((u) => u.employeeKey!)
+  })
+
+  return {
+    ...details,
+    rngSeed: startingState.rngState ?? DEFAULT_RNG_SEED,
+    draft,
+    startingState: { ...startingState, selectedUnit: undefined },
+    actions: [],
+  }
+}
+
+/**
+ * Run a recorded match through the rules engine
+ * @param record - The recorded match
+ * @param data - Static game data
+ * @returns The starting frame plus one frame per action. Stops early at an action the rules
+ * engine rejects, which happens when the data changed since the match was recorded.
+ */
+export function buildReplayFrames(record: MatchRecord, data: RulesData): ReplayFrame[] {
+  const frames: ReplayFrame[] = [{ state: record.startingState, events: [] }]
+  for (const action of record.actions) {
+    const result = applyAction(frames[frames.length - 1].state, action, data)
+    if (result.error) break
+    frames.push({ state: result.state, action, events: result.events })
+  }
+  return frames
+}
+
+/**
+ * Get the frames at which each player's turn starts
+ * @param frames - Frames of a replay
+ * @returns Indexes of the starting frame and of every frame right after a turn ended, in order
+ */
+export function getTurnStartFrames(frames: ReplayFrame[]): number[] {
+  return frames.flatMap((frame, i) => (i === 0 || frame.action?.type === ActionType.END_TURN ? [i] : []))
+}
+
+/**
+ * Find where a turn starts in a replay
+ * @param frames - Frames of a replay
+ * @param turnNumber - The turn (round) to jump to
+ * @returns Index of the first frame of that turn, or of the last frame if the match ended before it
+ */
+export function findTurnFrame(frames: ReplayFrame[], turnNumber: number): number {
+  const index = frames.findIndex((frame) => frame.state.turnNumber >= turnNumber)
+  return index === -1 ? frames.length - 1 : index
+}
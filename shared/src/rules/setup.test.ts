@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import { ActionType, GamePhase, TileType } from '../index.js'
+import { applyAction } from './applyAction.js'
+import { CAPTURE_POINT_GID, CONFERENCE_ROOM_GID, HALLWAY_GID, STARTING_POINT_GIDS, createMapLayout, createStartingState, getTeamError, type TilemapData } from './setup.js'
+import { createMockRulesData } from '../test/helpers.js'
+
+// 4x3 map: player1 HQ in the top corners, a cubicle and a wall in the middle, player2 HQ at the bottom,
+// a hallway down the third column (under the wall too) and a conference room in the bottom right corner
+const G = STARTING_POINT_GIDS.player1!
+const N = STARTING_POINT_GIDS.player2!
+const C = CAPTURE_POINT_GID
+const H = HALLWAY_GID
+const R = CONFERENCE_ROOM_GID
+const map: TilemapData = {
+  width: 4,
+  height: 3,
+  layers: [
+    { name: 'Background', data: Array(12).fill(599) },
+    { name: 'Foreground', data: [0, 0, 0, 0, 0, 0, 200, 0, 0, 0, 0, 0] },
+    { name: 'CapturePoints', data: [0, 0, 0, 0, 0, C, 0, 0, 0, 0, 0, 0] },
+    { name: 'StartingPoints', data: [G, 0, 0, G, 0, 0, 0, 0, N, N, 0, 0] },
+    { name: 'Terrain', data: [0, 0, H, 0, 0, 0, H, 0, 0, 0, H, R] },
+  ],
+}
+
+describe('createMapLayout', () => {
+  it('marks HQs, cubicles, walls and terrain from the map layers', () => {
+    const { board, startingPositions } = createMapLayout(map)
+
+    expect(board.map((row) => row.map((tile) => tile.type))).toEqual([
+      [TileType.HQ_BLUE, TileType.NORMAL, TileType.HALLWAY, TileType.HQ_BLUE],
+      [TileType.NORMAL, TileType.CUBICLE, TileType.OBSTACLE, TileType.NORMAL],
+      [TileType.HQ_RED, TileType.HQ_RED, TileType.HALLWAY, TileType.CONFERENCE_ROOM],
+    ])
+    expect(startingPositions).toEqual({
+      player1: [{ x: 0, y: 0 }, { x: 3, y: 0 }],
+      player2: [{ x: 0, y: 2 }, { x: 1, y: 2 }],
+    })
+  })
+})
+
+describe('getTeamError', () => {
+  const data = createMockRulesData()
+  const positions = createMapLayout(map).startingPositions.player1!
+
+  it('accepts a team the player can afford and deploy', () => {
+    expect(getTeamError(['salesman', 'manager'], positions, data)).toBeUndefined()
+  })
+
+  it('rejects empty teams, unknown employees and teams without room to deploy', () => {
+    expect(getTeamError([], positions, data)).toBe('A team needs at least one employee')
+    expect(getTeamError(['janitor'], positions, data)).toBe('Unknown employee: janitor')
+    expect(getTeamError(['salesman', 'manager', 'secretary'], positions, data)).toBe('Not enough HQ tiles for the team')
+  })
+})
+
+describe('createStartingState', () => {
+  const data = createMockRulesData()
+  const state = createStartingState(
+    { id: 'match-1', layout: createMapLayout(map), teams: { player1: ['salesman', 'manager'], player2: ['secretary'] }, rngSeed: 42 },
+    data
+  )
+
+  it('deploys each team on its HQ and carries unspent funds over as budget', () => {
+    expect(state.units.map((u) => [u.id, u.position])).toEqual([
+      ['player1-salesman-0', { x: 0, y: 0 }],
+      ['player1-manager-1', { x: 3, y: 0 }],
+      ['player2-secretary-0', { x: 0, y: 2 }],
+    ])
+    expect(state.players.map((p) => [p.id, p.budget])).toEqual([
+      ['player1', 800],
+      ['player2', 900],
+    ])
+    expect(state).toMatchObject({ phase: GamePhase.PLAYING, currentPlayerId: 'player1', turnNumber: 1, rngState: 42 })
+  })
+
+  it('gives the rules engine a state it can play', () => {
+    const result = applyAction(state, { type: ActionType.END_TURN, playerId: 'player1' }, data)
+
+    expect(result.error).toBeUndefined()
+    expect(result.state.currentPlayerId).toBe('player2')
+  })
+})
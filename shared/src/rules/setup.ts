@@ -0,0 +1,177 @@
+import { GamePhase, Team, TileType, type Coordinate, type GameState, type Player, type PlayerId, type Tile, type VictoryCondition } from '../index.js'
+import { createUnitFromEmployee, getHqTileType, getMaxTeamSize } from './hiring.js'
+import { DEFAULT_RNG_SEED } from './random.js'
+import type { RulesData } from './types.js'
+import { DEFAULT_VICTORY_CONDITIONS, prepareVictoryConditions } from './victory.js'
+
+/**
+ * Match setup shared by the client and the server.
+ * Builds the board from a Tiled map export and the starting state from each player's team, so a
+ * server can start a match without the Phaser tilemap loader the client uses.
+ */
+
+/** Starting funds used when the game config does not set draft_config.starting_funds */
+export const DEFAULT_STARTING_FUNDS = 1000
+
+/** Tile id on the capture points layer that marks a cubicle */
+export const CAPTURE_POINT_GID = 472
+
+/** Tile ids on the terrain layer that mark fast hallways and slow conference rooms */
+export const HALLWAY_GID = 597
+export const CONFERENCE_ROOM_GID = 540
+
+/**
+ * Get the tile type a terrain layer tile marks
+ * @param gid - Tile id on the terrain layer
+ * @returns HALLWAY or CONFERENCE_ROOM, or undefined for plain floor
+ */
+export function getTerrainTileType(gid: number): TileType | undefined {
+  if (gid === HALLWAY_GID) return TileType.HALLWAY
+  if (gid === CONFERENCE_ROOM_GID) return TileType.CONFERENCE_ROOM
+  return undefined
+}
+
+/** Tile ids on the starting points layer that mark each player's HQ */
+export const STARTING_POINT_GIDS: Record<PlayerId, number> = {
+  player1: 595, // Gold team
+  player2: 563, // Navy team
+}
+
+// The players of a match, in turn order. A function because the enums aren't ready while modules load.
+function getMatchPlayers(): Pick<Player, 'id' | 'name' | 'team'>[] {
+  return [
+    { id: 'player1', name: 'Blue Team', team: Team.BLUE },
+    { id: 'player2', name: 'Red Team', team: Team.RED },
+  ]
+}
+
+/** The parts of a Tiled JSON map export the board is built from */
+export interface TilemapData {
+  width: number
+  height: number
+  layers: { name: string; data?: number[] }[]
+}
+
+export interface TilemapLayerNames {
+  foreground: string // Walls and furniture
+  capturePoints: string
+  startingPoints: string
+  terrain: string // Hallways and conference rooms
+}
+
+export const DEFAULT_TILEMAP_LAYERS: TilemapLayerNames = {
+  foreground: 'Foreground',
+  capturePoints: 'CapturePoints',
+  startingPoints: 'StartingPoints',
+  terrain: 'Terrain',
+}
+
+export interface MapLayout {
+  board: Tile[][]
+  startingPositions: Record<PlayerId, Coordinate[]> // HQ tiles in map order
+}
+
+export interface MatchSetup {
+  id: string
+  layout: MapLayout
+  teams: Record<PlayerId, string[]> // Employee keys each player starts with
+  victoryConditions?: VictoryCondition[]
+  rngSeed?: number
+}
+
+/**
+ * Build the board from a Tiled map
+ * @param map - The parsed map export
+ * @param layers - Names of the layers to read
+ * @returns The board, with HQs, cubicles, obstacles and terrain marked, and each player's HQ tiles
+ */
+export function createMapLayout(map: TilemapData, layers: TilemapLayerNames = DEFAULT_TILEMAP_LAYERS): MapLayout {
+  const getLayer = (name: string) => map.layers.find((layer) => layer.name === name)?.data ?? []
+  const gidAt = (data: number[], x: number, y: number) => data[y * map.width + x] ?? 0
+  const foreground = getLayer(layers.foreground)
+  const capturePoints = getLayer(layers.capturePoints)
+  const startingPoints = getLayer(layers.startingPoints)
+  const terrain = getLayer(layers.terrain)
+
+  const players = getMatchPlayers()
+  const startingPositions: Record<PlayerId, Coordinate[]> = {}
+  players.forEach((player) => (startingPositions[player.id] = []))
+
+  const board: Tile[][] = []
+  for (let y = 0; y < map.height; y++) {
+    const row: Tile[] = []
+    for (let x = 0; x < map.width; x++) {
+      const start = players.find((player) => STARTING_POINT_GIDS[player.id] === gidAt(startingPoints, x, y))
+      if (start) startingPositions[start.id]!.push({ x, y })
+
+      // Cubicles win over HQs, and only open floor is blocked or given terrain, as on the client's board
+      let type = start ? getHqTileType(start.team) : TileType.NORMAL
+      if (gidAt(capturePoints, x, y) === CAPTURE_POINT_GID) type = TileType.CUBICLE
+      if (type === TileType.NORMAL && gidAt(foreground, x, y) > 0) type = TileType.OBSTACLE
+      if (type === TileType.NORMAL) type = getTerrainTileType(gidAt(terrain, x, y)) ?? type
+      row.push({ x, y, type })
+    }
+    board.push(row)
+  }
+  return { board, startingPositions }
+}
+
+/**
+ * Check why a team can't start a match
+ * @param keys - Employee keys of the team
+ * @param startingPositions - HQ tiles the team starts on
+ * @param data - Static game data
+ * @returns The reason, or undefined if the team is fine
+ */
+export function getTeamError(keys: string[], startingPositions: Coordinate[], data: Pick<RulesData, 'employees' | 'config'>): string | undefined {
+  if (keys.length === 0) return 'A team needs at least one employee'
+  const unknown = keys.find((key) => !data.employees[key])
+  if (unknown) return `Unknown employee: ${unknown}`
+  if (keys.length > getMaxTeamSize(data)) return 'Team is over the maximum size'
+  if (keys.length > startingPositions.length) return 'Not enough HQ tiles for the team'
+  const cost = keys.reduce((sum, key) => sum + data.employees[key]!.cost, 0)
+  if (cost > getStartingFunds(data)) return 'Team costs more than the starting funds'
+  return undefined
+}
+
+/**
+ * Get the funds each player drafts with
+ * @param data - Static game data
+ * @returns draft_config.starting_funds, or the default when no config is loaded
+ */
+export function getStartingFunds(data: Pick<RulesData, 'config'>): number {
+  return data.config?.draft_config?.starting_funds || DEFAULT_STARTING_FUNDS
+}
+
+/**
+ * Create the state a match starts in. Teams are expected to pass getTeamError.
+ * @param setup - Map layout, teams and options of the match
+ * @param data - Static game data
+ * @returns A state in the PLAYING phase with player1 to move; unspent funds carry over as budget
+ */
+export function createStartingState(setup: MatchSetup, data: RulesData): GameState {
+  const matchPlayers = getMatchPlayers()
+  const units = matchPlayers.flatMap((player) =>
+    (setup.teams[player.id] ?? []).map((key, index) =>
+      createUnitFromEmployee(data.employees[key]!, `${player.id}-${key}-${index}`, player.id, setup.layout.startingPositions[player.id]![index]!)
+    )
+  )
+  const players: Player[] = matchPlayers.map((player) => ({
+    ...player,
+    budget: getStartingFunds(data) - units.filter((u) => u.playerId === player.id).reduce((sum, u) => sum + u.cost, 0),
+    income: 0,
+    controlledCubicles: 0,
+  }))
+
+  return {
+    id: setup.id,
+    board: setup.layout.board,
+    units,
+    players,
+    currentPlayerId: players[0]!.id,
+    turnNumber: 1,
+    phase: GamePhase.PLAYING,
+    victoryConditions: prepareVictoryConditions(setup.victoryConditions ?? DEFAULT_VICTORY_CONDITIONS, units),
+    rngState: setup.rngSeed ?? DEFAULT_RNG_SEED,
+  }
+}
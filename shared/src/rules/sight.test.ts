@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import { TileType } from '../index.js'
+import { hasLineOfSight, isIndirectAttack } from './sight.js'
+import { calculatePossibleTargets } from './combat.js'
+import { getAbilityTargets } from './abilities.js'
+import { createMockBoard, createMockRulesData, createMockUnit } from '../test/helpers.js'
+
+const wall = (board: ReturnType<typeof createMockBoard>, x: number, y: number) => {
+  board[y][x] = { x, y, type: TileType.OBSTACLE }
+}
+
+const unitsBlock = createMockRulesData({
+  config: {
+    game_version: '0.1.0',
+    draft_config: { starting_funds: 1000, timer_seconds: 60, picks_per_player: 5 },
+    gameplay_rules: { max_team_size: 4, turn_limit: 50, units_block_line_of_sight: true },
+  },
+})
+
+describe('hasLineOfSight', () => {
+  it('is blocked by a wall on the line but not by walls beside it', () => {
+    const board = createMockBoard()
+    wall(board, 2, 0)
+    wall(board, 2, 2)
+    const state = { board, units: [] }
+
+    expect(hasLineOfSight({ x: 0, y: 0 }, { x: 4, y: 0 }, state)).toBe(false)
+    expect(hasLineOfSight({ x: 0, y: 1 }, { x: 4, y: 1 }, state)).toBe(true)
+  })
+
+  it('sees past a single corner but not through a diagonal wall', () => {
+    const board = createMockBoard()
+    wall(board, 1, 0)
+    const state = { board, units: [] }
+
+    expect(hasLineOfSight({ x: 0, y: 0 }, { x: 2, y: 2 }, state)).toBe(true)
+
+    wall(board, 0, 1)
+    expect(hasLineOfSight({ x: 0, y: 0 }, { x: 2, y: 2 }, state)).toBe(false)
+  })
+
+  it('only counts units in the way when the config says they block sight', () => {
+    const board = createMockBoard()
+    const state = { board, units: [createMockUnit({ id: 'blocker', position: { x: 2, y: 0 } })] }
+
+    expect(hasLineOfSight({ x: 0, y: 0 }, { x: 4, y: 0 }, state)).toBe(true)
+    expect(hasLineOfSight({ x: 0, y: 0 }, { x: 4, y: 0 }, state, unitsBlock)).toBe(false)
+    expect(hasLineOfSight({ x: 0, y: 0 }, { x: 2, y: 0 }, state, unitsBlock)).toBe(true)
+  })
+})
+
+describe('ranged targeting', () => {
+  const board = createMockBoard()
+  wall(board, 2, 0)
+  const shooter = createMockUnit({ id: 'blue-1', employeeKey: 'salesman', attackRange: 4 })
+  const enemy = createMockUnit({ id: 'red-1', playerId: 'player2', position: { x: 4, y: 0 } })
+  const state = { board, units: [shooter, enemy] }
+
+  it('drops attack targets behind walls unless the attack is indirect', () => {
+    const data = createMockRulesData()
+
+    expect(calculatePossibleTargets(shooter, state, data)).toEqual([])
+    expect(calculatePossibleTargets(shooter, { units: state.units }, data)).toEqual([{ x: 4, y: 0 }])
+
+    data.employees.salesman.attack.indirect = true
+    expect(isIndirectAttack(shooter, data)).toBe(true)
+    expect(calculatePossibleTargets(shooter, state, data)).toEqual([{ x: 4, y: 0 }])
+  })
+
+  it('drops ability targets behind walls unless the ability is indirect', () => {
+    const ability = { ...createMockRulesData().abilities.pink_slip }
+
+    expect(getAbilityTargets(shooter, ability, state)).toEqual([])
+    expect(getAbilityTargets(shooter, { ...ability, indirect: true }, state)).toEqual([enemy])
+  })
+})
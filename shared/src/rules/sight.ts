@@ -0,0 +1,80 @@
+import type { Coordinate, GameState, Unit } from '../index.js'
+import { getUnitAt, isPassable } from './movement.js'
+import type { RulesData } from './types.js'
+
+/**
+ * Pure line-of-sight rules shared by the client, the AI and the server.
+ * Walls (OBSTACLE tiles) block attacks and abilities unless they are marked indirect,
+ * and units block them too when gameplay_rules.units_block_line_of_sight is set.
+ */
+
+/**
+ * Check whether units standing in the way block line of sight
+ * @param data - Static game data
+ * @returns gameplay_rules.units_block_line_of_sight, false when no config is loaded
+ */
+export function unitsBlockSight(data?: Pick<RulesData, 'config'>): boolean {
+  return !!data?.config?.gameplay_rules?.units_block_line_of_sight
+}
+
+/**
+ * Check whether a unit's basic attack ignores line of sight
+ * @param unit - The attacker
+ * @param data - Static game data (for the attacker's employee definition)
+ * @returns True if the employee's attack is marked indirect
+ */
+export function isIndirectAttack(unit: Unit, data?: Pick<RulesData, 'employees'>): boolean {
+  return !!(unit.employeeKey && data?.employees[unit.employeeKey]?.attack.indirect)
+}
+
+/**
+ * Check whether there is a clear line between two tiles.
+ * Walks every tile the line between the tile centres crosses; a line that passes exactly
+ * through a corner is only blocked when both tiles beside the corner are.
+ * @param from - Where the line starts
+ * @param to - Where the line ends
+ * @param state - The board and units
+ * @param data - Static game data (for whether units block sight)
+ * @returns True if nothing between the two tiles blocks sight
+ */
+export function hasLineOfSight(
+  from: Coordinate,
+  to: Coordinate,
+  state: Pick<GameState, 'board' | 'units'>,
+  data?: Pick<RulesData, 'config'>
+): boolean {
+  const checkUnits = unitsBlockSight(data)
+  const blocks = (coord: Coordinate) =>
+    !isPassable(state.board[coord.y]?.[coord.x]) || (checkUnits && !!getUnitAt(state.units, coord))
+
+  const nx = Math.abs(to.x - from.x)
+  const ny = Math.abs(to.y - from.y)
+  const sx = Math.sign(to.x - from.x)
+  const sy = Math.sign(to.y - from.y)
+  let x = from.x
+  let y = from.y
+  let ix = 0
+  let iy = 0
+
+  while (ix < nx || iy < ny) {
+    // Which grid line the segment crosses next: vertical (< 0), horizontal (> 0) or both at a corner (0)
+    const decision = (1 + 2 * ix) * ny - (1 + 2 * iy) * nx
+    if (decision === 0) {
+      if (blocks({ x: x + sx, y }) && blocks({ x, y: y + sy })) return false
+      x += sx
+      y += sy
+      ix++
+      iy++
+    } else if (decision < 0) {
+      x += sx
+      ix++
+    } else {
+      y += sy
+      iy++
+    }
+
+    if (x === to.x && y === to.y) break
+    if (blocks({ x, y })) return false
+  }
+  return true
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import { compareVersions, createGameSnapshot, getSnapshotError, migrateSnapshot, type SnapshotMigration } from './snapshot.js'
+import { createMockGameState, createMockUnit } from '../test/helpers.js'
+
+describe('compareVersions', () => {
+  it('compares each part as a number', () => {
+    expect(compareVersions('0.1.0', '0.1.0')).toBe(0)
+    expect(compareVersions('0.2.0', '0.10.0')).toBeLessThan(0)
+    expect(compareVersions('1.0', '0.9.9')).toBeGreaterThan(0)
+    expect(compareVersions('1.0', '1.0.0')).toBe(0)
+  })
+})
+
+describe('getSnapshotError', () => {
+  const snapshot = createGameSnapshot(createMockGameState(), '0.2.0')
+
+  it('accepts snapshots from this version or older', () => {
+    expect(getSnapshotError(snapshot, '0.2.0')).toBeUndefined()
+    expect(getSnapshotError(snapshot, '0.3.0')).toBeUndefined()
+  })
+
+  it('rejects snapshots from a newer version and files that are not snapshots', () => {
+    expect(getSnapshotError(snapshot, '0.1.0')).toContain('newer version')
+    expect(getSnapshotError({ game_version: '0.1.0' }, '0.1.0')).toBe('Saved game is missing its game state')
+    expect(getSnapshotError(null, '0.1.0')).toBe('Not a saved game')
+  })
+})
+
+describe('migrateSnapshot', () => {
+  const renameUnits = (version: string, id: string): SnapshotMigration => ({
+    version,
+    migrate: (snapshot) => ({
+      ...snapshot,
+      state: { ...snapshot.state, units: snapshot.state.units.map((u) => ({ ...u, id: `${u.id}>${id}` })) },
+    }),
+  })
+  const migrations = [renameUnits('0.3.0', 'c'), renameUnits('0.1.0', 'a'), renameUnits('0.2.0', 'b')]
+  const snapshot = createGameSnapshot(createMockGameState({ units: [createMockUnit({ id: 'u' })] }), '0.1.0')
+
+  it('runs the migrations newer than the snapshot in version order', () => {
+    const migrated = migrateSnapshot(snapshot, '0.3.0', migrations)
+
+    expect(migrated.state.units[0].id).toBe('u>b>c')
+    expect(migrated.game_version).toBe('0.3.0')
+  })
+
+  it('skips migrations for versions after the current one', () => {
+    expect(migrateSnapshot(snapshot, '0.2.5', migrations).state.units[0].id).toBe('u>b')
+  })
+
+  it('only restamps snapshots that are already current', () => {
+    expect(migrateSnapshot(snapshot, '0.1.0', migrations)).toEqual(snapshot)
+  })
+})
@@ -0,0 +1,108 @@
+import type { GameState, PlayerController, PlayerId } from '../index.js'
+import type { MatchRecord } from './replay.js'
+
+/**
+ * Saved games shared by the client and the server.
+ * A snapshot holds a whole game state stamped with the game_version of the data it was played
+ * with. Loading runs it through every migration added since then, so saves made before a data
+ * change keep loading afterwards.
+ */
+
+export interface GameSnapshot {
+  game_version: string // Data version the snapshot was last saved or migrated with
+  savedAt: string // ISO date
+  state: GameState
+  matchRecord?: MatchRecord // Recording to carry on with after resuming
+  controllers?: Record<PlayerId, PlayerController> // Who plays each side; saves without it were made against the AI
+}
+
+export interface SnapshotMigration {
+  version: string // game_version this migration brings a snapshot up to
+  migrate: (snapshot: GameSnapshot) => GameSnapshot
+}
+
+/**
+ * Migrations for snapshots saved with older data, in any order.
+ * Add one whenever a data change would break states saved before it.
+ */
+export const SNAPSHOT_MIGRATIONS: SnapshotMigration[] = []
+
+/**
+ * Take a snapshot of a game
+ * @param state - The game state to save
+ * @param game_version - Version of the loaded game data
+ * @param matchRecord - Recording of the match so far
+ * @param controllers - Who plays each side
+ * @returns A snapshot ready to be stored as JSON
+ */
+export function createGameSnapshot(
+  state: GameState,
+  game_version: string,
+  matchRecord?: MatchRecord,
+  controllers?: Record<PlayerId, PlayerController>
+): GameSnapshot {
+  return {
+    game_version,
+    savedAt: new Date().toISOString(),
+    state: { ...state, selectedUnit: undefined },
+    matchRecord,
+    controllers,
+  }
+}
+
+/**
+ * Compare two dotted version numbers
+ * @param a - A version such as "0.1.0"
+ * @param b - Another version
+ * @returns A negative number if a is older, positive if it is newer, 0 if they are the same
+ */
+export function compareVersions(a: string, b: string): number {
+  const partsA = a.split('.').map((n) => parseInt(n, 10) || 0)
+  const partsB = b.split('.').map((n) => parseInt(n, 10) || 0)
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0)
+    if (diff !== 0) return diff
+  }
+  return 0
+}
+
+/**
+ * Check why a snapshot can't be loaded
+ * @param snapshot - Parsed contents of a save
+ * @param currentVersion - Version of the loaded game data
+ * @returns The reason the snapshot can't be loaded, or undefined if it can
+ */
+export function getSnapshotError(snapshot: unknown, currentVersion: string): string | undefined {
+  const candidate = snapshot as Partial<GameSnapshot> | null
+  if (!candidate || typeof candidate !== 'object') return 'Not a saved game'
+  if (typeof candidate.game_version !== 'string') return 'Saved game has no game version'
+
+  const state = candidate.state
+  if (!state || !Array.isArray(state.board) || !Array.isArray(state.units) || !Array.isArray(state.players)) {
+    return 'Saved game is missing its game state'
+  }
+  if (compareVersions(candidate.game_version, currentVersion) > 0) {
+    return `Saved game is from a newer version (${candidate.game_version}) than this one (${currentVersion})`
+  }
+  return undefined
+}
+
+/**
+ * Bring a snapshot up to the current data version
+ * @param snapshot - A snapshot that passed getSnapshotError
+ * @param currentVersion - Version of the loaded game data
+ * @param migrations - Migrations to choose from
+ * @returns The snapshot after every migration newer than it, stamped with the current version
+ */
+export function migrateSnapshot(
+  snapshot: GameSnapshot,
+  currentVersion: string,
+  migrations: SnapshotMigration[] = SNAPSHOT_MIGRATIONS
+): GameSnapshot {
+  const migrated = migrations
+    .filter((m) => compareVersions(m.version, snapshot.game_version) > 0 && compareVersions(m.version, currentVersion) <= 0)
+    .sort((a, b) => compareVersions(a.version, b.version))
+    .reduce((current, m) => ({ ...m.migrate(current), game_version: m.version }), snapshot)
+
+  return { ...migrated, game_version: currentVersion }
+}
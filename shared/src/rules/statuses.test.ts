@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import { StatusType } from '../index.js'
+import { getEffectiveStats, getStatusKey, hasStatus } from './statuses.js'
+import { createMockRulesData, createMockUnit } from '../test/helpers.js'
+
+const { statusEffects } = createMockRulesData()
+
+describe('getEffectiveStats', () => {
+  it('returns base stats for a unit without statuses', () => {
+    const unit = createMockUnit({ attackDamage: 20, moveRange: 5 })
+
+    expect(getEffectiveStats(unit, statusEffects)).toEqual({
+      attackPower: 20,
+      speed: 5,
+      defense: 0,
+      canAct: true,
+      canCapture: true,
+      actionsRemaining: 2,
+    })
+  })
+
+  it('applies multiply, subtract and set modifiers', () => {
+    const unit = createMockUnit({
+      attackDamage: 20,
+      moveRange: 5,
+      status: [
+        { type: StatusType.ON_DEADLINE, key: 'on_deadline', duration: 2 },
+        { type: StatusType.EXHAUSTED, key: 'exhausted', duration: 1 },
+        { type: StatusType.HARASSED, key: 'harassed', duration: 2 },
+        { type: StatusType.CONFUSED, key: 'slow', duration: 2 },
+      ],
+    })
+
+    const stats = getEffectiveStats(unit, statusEffects)
+    expect(stats.attackPower).toBe(24)
+    expect(stats.actionsRemaining).toBe(1)
+    expect(stats.canCapture).toBe(false)
+    expect(stats.speed).toBe(2)
+  })
+
+  it('resolves legacy statuses that only have a StatusType', () => {
+    const unit = createMockUnit({ status: [{ type: StatusType.STUNNED, duration: 1 }] })
+
+    expect(getEffectiveStats(unit, statusEffects).canAct).toBe(false)
+    expect(hasStatus(unit, 'stunned')).toBe(true)
+  })
+
+  it('ignores statuses without a definition', () => {
+    const unit = createMockUnit({ status: [{ type: StatusType.FILED, key: 'filed', duration: 1 }] })
+
+    expect(getEffectiveStats(unit, statusEffects).attackPower).toBe(unit.attackDamage)
+  })
+})
+
+describe('getStatusKey', () => {
+  it('maps renamed legacy status types onto their data keys', () => {
+    expect(getStatusKey({ type: StatusType.BURNING, duration: 1 })).toBe('fire')
+    expect(getStatusKey({ type: StatusType.POISONED, duration: 1 })).toBe('bleeding')
+    expect(getStatusKey({ type: StatusType.INSPIRED, key: 'increase_speed', duration: 1 })).toBe('increase_speed')
+  })
+})
@@ -0,0 +1,122 @@
+import { StatusType, type LegacyStatusEffect, type StatModifier, type StatusEffect, type Unit } from '../index.js'
+
+/**
+ * Effective-stats layer: turns a unit's base stats plus its active statuses into the
+ * numbers the rules actually use. Modifiers come from status_effects.json.
+ */
+
+export interface EffectiveStats {
+  attackPower: number
+  speed: number
+  defense: number
+  canAct: boolean
+  canCapture: boolean
+  actionsRemaining: number
+}
+
+export type StatusDefinitions = Record<string, StatusEffect>
+
+type StatValue = number | boolean
+
+// Data stat names mapped onto EffectiveStats fields
+const STAT_FIELDS: Record<string, keyof EffectiveStats> = {
+  attack_power: 'attackPower',
+  speed: 'speed',
+  defense: 'defense',
+  can_act: 'canAct',
+  can_capture: 'canCapture',
+  actions_remaining: 'actionsRemaining',
+}
+
+/**
+ * Resolve the status_effects.json key for a status, including legacy statuses that only carry a StatusType
+ * @param status - The status on the unit
+ * @returns The data key used to look up its definition
+ */
+export function getStatusKey(status: LegacyStatusEffect): string {
+  if (status.key) return status.key
+
+  switch (status.type) {
+    case StatusType.BURNING:
+      return 'fire'
+    case StatusType.FROZEN:
+      return 'freeze'
+    case StatusType.POISONED:
+      return 'bleeding'
+    default:
+      return status.type
+  }
+}
+
+/**
+ * Get the modifiers a status definition applies
+ * @param definition - The status definition
+ * @returns List of modifiers (empty if the status has none)
+ */
+export function getStatusModifiers(definition: StatusEffect | undefined): StatModifier[] {
+  if (!definition?.modifiers) return []
+  return Array.isArray(definition.modifiers) ? definition.modifiers : [definition.modifiers]
+}
+
+function applyModifier(current: StatValue, modifier: StatModifier): StatValue {
+  if (modifier.operation === 'set') return modifier.value
+  if (typeof current !== 'number' || typeof modifier.value !== 'number') return current
+
+  switch (modifier.operation) {
+    case 'multiply':
+      return current * modifier.value
+    case 'add':
+      return current + modifier.value
+    case 'subtract':
+      return current - modifier.value
+    default:
+      return current
+  }
+}
+
+/**
+ * Compute a unit's live stats from its base stats and active statuses
+ * @param unit - The unit
+ * @param definitions - Status definitions keyed by status key
+ * @returns The effective stats after all modifiers are applied
+ */
+export function getEffectiveStats(unit: Unit, definitions: StatusDefinitions = {}): EffectiveStats {
+  const stats: Record<keyof EffectiveStats, StatValue> = {
+    attackPower: unit.attackDamage,
+    speed: unit.moveRange,
+    defense: unit.defense,
+    canAct: true,
+    canCapture: true,
+    actionsRemaining: unit.actionsRemaining,
+  }
+
+  for (const status of unit.status) {
+    for (const modifier of getStatusModifiers(definitions[getStatusKey(status)])) {
+      const field = STAT_FIELDS[modifier.stat]
+      if (field) {
+        // On-hit statuses may carry their own magnitude for numeric modifiers
+        const value = status.magnitude !== undefined && typeof modifier.value === 'number' ? status.magnitude : modifier.value
+        stats[field] = applyModifier(stats[field], { ...modifier, value })
+      }
+    }
+  }
+
+  return {
+    attackPower: Math.max(0, Math.round(Number(stats.attackPower))),
+    speed: Math.max(0, Math.floor(Number(stats.speed))),
+    defense: Math.max(0, Math.round(Number(stats.defense))),
+    canAct: Boolean(stats.canAct),
+    canCapture: Boolean(stats.canCapture),
+    actionsRemaining: Math.max(0, Math.floor(Number(stats.actionsRemaining))),
+  }
+}
+
+/**
+ * Check whether a unit has a given status
+ * @param unit - The unit
+ * @param key - Status key from status_effects.json
+ * @returns True if the status is active on the unit
+ */
+export function hasStatus(unit: Unit, key: string): boolean {
+  return unit.status.some((s) => getStatusKey(s) === key)
+}
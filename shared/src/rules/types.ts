@@ -0,0 +1,79 @@
+import type {
+  AttackPattern,
+  Coordinate,
+  DataAbility,
+  Employee,
+  GameConfig,
+  GameState,
+  PlayerId,
+  ReactionTrigger,
+  StatusEffect,
+  Unit,
+} from '../index.js'
+
+/**
+ * Static game data the rules engine needs to resolve actions.
+ * The client builds this from the DataManager; the server can load the same JSON files.
+ */
+export interface RulesData {
+  employees: Record<string, Employee>
+  abilities: Record<string, DataAbility>
+  statusEffects: Record<string, StatusEffect>
+  attackPatterns: Record<string, AttackPattern>
+  config?: GameConfig
+}
+
+export enum GameEventType {
+  UNIT_MOVED = 'unit_moved',
+  UNIT_ATTACKED = 'unit_attacked',
+  UNIT_DAMAGED = 'unit_damaged',
+  UNIT_HEALED = 'unit_healed',
+  UNIT_DEFEATED = 'unit_defeated',
+  UNIT_HIRED = 'unit_hired',
+  UNIT_FACED = 'unit_faced',
+  ABILITY_USED = 'ability_used',
+  REACTION_TRIGGERED = 'reaction_triggered',
+  STATUS_APPLIED = 'status_applied',
+  STATUS_REMOVED = 'status_removed',
+  STATUS_EXPIRED = 'status_expired',
+  ACTIONS_GRANTED = 'actions_granted',
+  CUBICLE_CAPTURED = 'cubicle_captured',
+  CAPTURE_PROGRESSED = 'capture_progressed',
+  HAZARD_CREATED = 'hazard_created',
+  HAZARD_EXPIRED = 'hazard_expired',
+  TURN_ENDED = 'turn_ended',
+  TURN_STARTED = 'turn_started',
+  GAME_OVER = 'game_over',
+}
+
+export type GameEvent =
+  | { type: GameEventType.UNIT_MOVED; unitId: string; from: Coordinate; to: Coordinate; cost: number; path: Coordinate[] }
+  | { type: GameEventType.UNIT_ATTACKED; attackerId: string; targetId: string; damage: number; counter?: boolean }
+  | { type: GameEventType.UNIT_DAMAGED; unitId: string; amount: number; hp: number; sourceId?: string }
+  | { type: GameEventType.UNIT_HEALED; unitId: string; amount: number; hp: number; sourceId?: string }
+  | { type: GameEventType.UNIT_DEFEATED; unitId: string; playerId: PlayerId; sourceId?: string }
+  | { type: GameEventType.UNIT_HIRED; unitId: string; playerId: PlayerId; employeeKey: string; position: Coordinate; cost: number }
+  | { type: GameEventType.UNIT_FACED; unitId: string; direction: Unit['direction'] }
+  | { type: GameEventType.ABILITY_USED; unitId: string; abilityId: string; target?: Coordinate }
+  | { type: GameEventType.REACTION_TRIGGERED; unitId: string; trigger: ReactionTrigger; abilityId: string; targetId?: string }
+  | { type: GameEventType.STATUS_APPLIED; unitId: string; statusKey: string; duration: number; sourceId?: string }
+  | { type: GameEventType.STATUS_REMOVED; unitId: string; statusKey: string }
+  | { type: GameEventType.STATUS_EXPIRED; unitId: string; statusKey: string }
+  | { type: GameEventType.ACTIONS_GRANTED; unitId: string; amount: number }
+  | { type: GameEventType.CUBICLE_CAPTURED; playerId: PlayerId; position: Coordinate; previousOwner?: PlayerId; unitId?: string }
+  | { type: GameEventType.CAPTURE_PROGRESSED; playerId: PlayerId; position: Coordinate; turns: number; required: number; unitId?: string }
+  | { type: GameEventType.HAZARD_CREATED; position: Coordinate; name: string; duration: number; sourceId?: string }
+  | { type: GameEventType.HAZARD_EXPIRED; position: Coordinate; name: string }
+  | { type: GameEventType.TURN_ENDED; playerId: PlayerId; turnNumber: number }
+  | { type: GameEventType.TURN_STARTED; playerId: PlayerId; turnNumber: number }
+  | { type: GameEventType.GAME_OVER; winner?: PlayerId; reason: string }
+
+/**
+ * Outcome of applying a single action.
+ * When `error` is set the action was rejected and `state` is the untouched input state.
+ */
+export interface ActionResult {
+  state: GameState
+  events: GameEvent[]
+  error?: string
+}
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest'
+import { Team, TileType } from '../index.js'
+import {
+  checkTurnLimitVictory,
+  checkVictoryConditions,
+  getTurnsRemaining,
+  getVictoryProgress,
+  prepareVictoryConditions,
+  updateCaptureHold,
+} from './victory.js'
+import { createMockBoard, createMockGameState, createMockPlayer, createMockUnit } from '../test/helpers.js'
+
+describe('getTurnsRemaining', () => {
+  it('counts the current round and stops at zero', () => {
+    expect(getTurnsRemaining({ turnNumber: 1 }, 50)).toBe(50)
+    expect(getTurnsRemaining({ turnNumber: 50 }, 50)).toBe(1)
+    expect(getTurnsRemaining({ turnNumber: 51 }, 50)).toBe(0)
+    expect(getTurnsRemaining({ turnNumber: 51 })).toBeUndefined()
+  })
+})
+
+describe('checkTurnLimitVictory', () => {
+  const board = createMockBoard()
+  board[2][2] = { ...board[2][2], type: TileType.CUBICLE, owner: 'player2' }
+
+  it('does nothing before the limit is reached', () => {
+    expect(checkTurnLimitVictory(createMockGameState({ board, turnNumber: 10 }), 10).hasWinner).toBe(false)
+  })
+
+  it('awards the game to the player holding more cubicles', () => {
+    const result = checkTurnLimitVictory(createMockGameState({ board, turnNumber: 11 }), 10)
+
+    expect(result).toMatchObject({ hasWinner: true, winner: 'player2' })
+    expect(result.reason).toContain('1 cubicles held')
+  })
+
+  it('falls back to remaining HP, then unit value', () => {
+    const hpState = createMockGameState({
+      turnNumber: 11,
+      units: [
+        createMockUnit({ id: 'blue-1', hp: 4 }),
+        createMockUnit({ id: 'red-1', playerId: 'player2', hp: 6 }),
+      ],
+    })
+    expect(checkTurnLimitVictory(hpState, 10).winner).toBe('player2')
+
+    const valueState = createMockGameState({
+      turnNumber: 11,
+      units: [
+        createMockUnit({ id: 'blue-1', cost: 250 }),
+        createMockUnit({ id: 'red-1', playerId: 'player2', cost: 150 }),
+      ],
+    })
+    const result = checkTurnLimitVictory(valueState, 10)
+    expect(result.winner).toBe('player1')
+    expect(result.reason).toContain('$250 of units')
+  })
+
+  it('declares a draw when every tiebreak is level', () => {
+    const result = checkTurnLimitVictory(createMockGameState({ turnNumber: 11 }), 10)
+
+    expect(result).toMatchObject({ hasWinner: false, isDraw: true })
+  })
+})
+
+describe('checkVictoryConditions', () => {
+  it('only applies the turn limit when one is given', () => {
+    const state = createMockGameState({ turnNumber: 60 })
+
+    expect(checkVictoryConditions(state).isDraw).toBeUndefined()
+    expect(checkVictoryConditions(state, 50).isDraw).toBe(true)
+  })
+})
+
+describe('victory condition sets', () => {
+  const cubicleBoard = () => {
+    const board = createMockBoard()
+    for (let x = 0; x < 4; x++) board[2][x] = { ...board[2][x], type: TileType.CUBICLE }
+    return board
+  }
+
+  it('uses the match capture threshold instead of 51%', () => {
+    const state = createMockGameState({
+      board: cubicleBoard(),
+      players: [createMockPlayer({ controlledCubicles: 3 }), createMockPlayer({ id: 'player2', name: 'Red Team', team: Team.RED })],
+    })
+
+    expect(checkVictoryConditions(state).winner).toBe('player1')
+    expect(checkVictoryConditions({ ...state, victoryConditions: [{ type: 'capture', share: 0.9 }] }).hasWinner).toBe(false)
+  })
+
+  it('counts consecutive turns holding the share and wins after enough of them', () => {
+    const condition = { type: 'hold_capture' as const, share: 0.5, turns: 2 }
+    const state = createMockGameState({
+      board: cubicleBoard(),
+      victoryConditions: [condition],
+      players: [createMockPlayer({ controlledCubicles: 2 }), createMockPlayer({ id: 'player2', name: 'Red Team', team: Team.RED })],
+    })
+
+    const once = { ...state, captureHoldTurns: updateCaptureHold(state, 'player1', 0.5) }
+    expect(checkVictoryConditions(once).hasWinner).toBe(false)
+    const twice = { ...once, captureHoldTurns: updateCaptureHold(once, 'player1', 0.5) }
+    expect(checkVictoryConditions(twice).winner).toBe('player1')
+
+    const lost = { ...twice, players: [createMockPlayer({ controlledCubicles: 1 }), twice.players[1]] }
+    expect(updateCaptureHold(lost, 'player1', 0.5).player1).toBe(0)
+    expect(getVictoryProgress(once, condition).players[0]).toMatchObject({ current: 1, target: 2 })
+  })
+
+  it('wins by moving onto an enemy HQ tile', () => {
+    const board = createMockBoard()
+    board[4][4] = { ...board[4][4], type: TileType.HQ_RED }
+    const state = createMockGameState({ board, victoryConditions: [{ type: 'hq_capture' }] })
+
+    expect(checkVictoryConditions(state).hasWinner).toBe(false)
+    expect(getVictoryProgress(state, { type: 'hq_capture' }).players[0].current).toBe(8)
+
+    const stormed = { ...state, units: [createMockUnit({ position: { x: 4, y: 4 } }), createMockUnit({ id: 'red-1', playerId: 'player2', position: { x: 0, y: 4 } })] }
+    expect(checkVictoryConditions(stormed)).toMatchObject({ hasWinner: true, winner: 'player1' })
+  })
+
+  it('wins by defeating the enemy Executive, picked as their most valuable unit', () => {
+    const units = [
+      createMockUnit({ id: 'blue-1', cost: 100 }),
+      createMockUnit({ id: 'red-1', playerId: 'player2', cost: 100, position: { x: 4, y: 4 } }),
+      createMockUnit({ id: 'red-boss', playerId: 'player2', cost: 250, position: { x: 3, y: 4 } }),
+    ]
+    const [condition] = prepareVictoryConditions([{ type: 'assassinate', executives: {} }], units)
+    expect(condition).toEqual({ type: 'assassinate', executives: { player1: 'blue-1', player2: 'red-boss' } })
+
+    const state = createMockGameState({ units, victoryConditions: [condition] })
+    expect(checkVictoryConditions(state).hasWinner).toBe(false)
+    expect(checkVictoryConditions({ ...state, units: units.filter((u) => u.id !== 'red-boss') })).toMatchObject({
+      hasWinner: true,
+      winner: 'player1',
+    })
+  })
+})
@@ -0,0 +1,426 @@
+import { TileType, type GameState, type PlayerId, type Unit, type VictoryCondition } from '../index.js'
+import { getHqTileType } from './hiring.js'
+
+/**
+ * Pure victory rules shared by the client, the AI and the server.
+ */
+
+export interface VictoryResult {
+  hasWinner: boolean
+  winner?: string
+  reason?: string
+  isDraw?: boolean // The game is over but nobody won
+}
+
+/** What a player is measured on when the turn limit is reached */
+export interface PlayerStanding {
+  playerId: string
+  cubicles: number
+  totalHp: number
+  unitValue: number
+}
+
+// Tiebreak chain for the turn limit, in order, with how each one is described
+const TURN_LIMIT_TIEBREAKS: Array<{ stat: keyof Omit<PlayerStanding, 'playerId'>; describe: (value: number) => string }> = [
+  { stat: 'cubicles', describe: (value) => `${value} cubicles held` },
+  { stat: 'totalHp', describe: (value) => `${value} HP remaining` },
+  { stat: 'unitValue', describe: (value) => `$${value} of units` },
+]
+
+/** Share of all cubicles a player must control to win */
+export const CAPTURE_VICTORY_SHARE = 0.51
+
+/** Conditions used when a match doesn't choose its own */
+export const DEFAULT_VICTORY_CONDITIONS: VictoryCondition[] = [
+  { type: 'elimination' },
+  { type: 'capture', share: CAPTURE_VICTORY_SHARE },
+]
+
+/** How far each player is towards meeting a victory condition, for the HUD */
+export interface VictoryProgress {
+  type: VictoryCondition['type']
+  label: string
+  players: Array<{ playerId: string; current: number; target: number; detail: string }>
+}
+
+type VictoryState = Pick<GameState, 'board' | 'units' | 'players' | 'captureHoldTurns'>
+
+/**
+ * Count the cubicles on the board owned by each player
+ * @param state - The current game state
+ * @returns Map of player id to owned cubicle count
+ */
+export function countControlledCubicles(state: Pick<GameState, 'board'>): Map<string, number> {
+  const counts = new Map<string, number>()
+  for (const tile of state.board.flat()) {
+    if (tile.type === TileType.CUBICLE && tile.owner) {
+      counts.set(tile.owner, (counts.get(tile.owner) || 0) + 1)
+    }
+  }
+  return counts
+}
+
+/**
+ * Check if a single player is left with units on the board
+ * @param state - The current game state
+ * @returns VictoryResult indicating if there's a winner
+ */
+export function checkEliminationVictory(state: Pick<GameState, 'units' | 'players'>): VictoryResult {
+  const survivors = state.players.filter((p) => state.units.some((u) => u.playerId === p.id && u.hp > 0))
+  if (survivors.length !== 1 || state.players.length < 2) {
+    return { hasWinner: false }
+  }
+
+  const defeated = state.players.filter((p) => p.id !== survivors[0].id).map((p) => p.name).join(', ')
+  return {
+    hasWinner: true,
+    winner: survivors[0].id,
+    reason: `${defeated} has no units left`,
+  }
+}
+
+/**
+ * Get how many cubicles a player must control to meet a capture share
+ * @param state - The current game state
+ * @param share - Share of all cubicles, e.g. 0.51
+ * @returns The cubicle count needed, or 0 if the board has no cubicles
+ */
+export function getCaptureThreshold(state: Pick<GameState, 'board'>, share: number = CAPTURE_VICTORY_SHARE): number {
+  const totalCubicles = state.board.flat().filter((t) => t.type === TileType.CUBICLE).length
+  return Math.ceil(totalCubicles * share)
+}
+
+/**
+ * Check if a player has won by controlling a share of the cubicles
+ * @param state - The current game state
+ * @param share - Share of all cubicles needed, 51% by default
+ * @returns VictoryResult indicating if there's a winner
+ */
+export function checkCapturePointVictory(
+  state: Pick<GameState, 'board' | 'players'>,
+  share: number = CAPTURE_VICTORY_SHARE
+): VictoryResult {
+  const totalCubicles = state.board.flat().filter((t) => t.type === TileType.CUBICLE).length
+  if (totalCubicles === 0) {
+    return { hasWinner: false }
+  }
+
+  const threshold = getCaptureThreshold(state, share)
+  for (const player of state.players) {
+    if (player.controlledCubicles >= threshold) {
+      return {
+        hasWinner: true,
+        winner: player.id,
+        reason: `${player.name} controls ${player.controlledCubicles}/${totalCubicles} cubicles`,
+      }
+    }
+  }
+
+  return { hasWinner: false }
+}
+
+/**
+ * Check if a player has held a capture share for enough of their turns in a row
+ * @param state - The current game state
+ * @param turns - Consecutive turns required
+ * @returns VictoryResult indicating if there's a winner
+ */
+export function checkHoldCaptureVictory(state: Pick<GameState, 'players' | 'captureHoldTurns'>, turns: number): VictoryResult {
+  for (const player of state.players) {
+    const held = state.captureHoldTurns?.[player.id] || 0
+    if (held >= turns) {
+      return {
+        hasWinner: true,
+        winner: player.id,
+        reason: `${player.name} held the office floor for ${held} turns`,
+      }
+    }
+  }
+  return { hasWinner: false }
+}
+
+/**
+ * Count the turns in a row a player has ended holding a capture share
+ * @param state - The state at the end of the player's turn
+ * @param playerId - The player whose turn just ended
+ * @param share - Share of all cubicles that must be held
+ * @returns Updated hold counters
+ */
+export function updateCaptureHold(
+  state: Pick<GameState, 'board' | 'players' | 'captureHoldTurns'>,
+  playerId: PlayerId,
+  share: number
+): Record<PlayerId, number> {
+  const player = state.players.find((p) => p.id === playerId)
+  const threshold = getCaptureThreshold(state, share)
+  const holds = threshold > 0 && !!player && player.controlledCubicles >= threshold
+  return { ...state.captureHoldTurns, [playerId]: holds ? (state.captureHoldTurns?.[playerId] || 0) + 1 : 0 }
+}
+
+/**
+ * Check if a unit stands on an enemy HQ tile
+ * @param state - The current game state
+ * @returns VictoryResult indicating if there's a winner
+ */
+export function checkHqCaptureVictory(state: Pick<GameState, 'board' | 'units' | 'players'>): VictoryResult {
+  for (const unit of state.units) {
+    const tile = state.board[unit.position.y]?.[unit.position.x]
+    const enemy = state.players.find((p) => p.id !== unit.playerId && tile?.type === getHqTileType(p.team))
+    if (enemy && unit.hp > 0) {
+      const winner = state.players.find((p) => p.id === unit.playerId)
+      return {
+        hasWinner: true,
+        winner: unit.playerId,
+        reason: `${winner?.name ?? unit.playerId} stormed ${enemy.name}'s headquarters`,
+      }
+    }
+  }
+  return { hasWinner: false }
+}
+
+/**
+ * Check if a player's Executive has been defeated
+ * @param state - The current game state
+ * @param executives - Executive unit id per player
+ * @returns VictoryResult indicating if there's a winner
+ */
+export function checkAssassinationVictory(
+  state: Pick<GameState, 'units' | 'players'>,
+  executives: Record<PlayerId, string>
+): VictoryResult {
+  for (const player of state.players) {
+    const executiveId = executives[player.id]
+    if (!executiveId || isUnitAlive(state.units, executiveId)) continue
+
+    const winner = state.players.find((p) => p.id !== player.id)
+    if (!winner) continue
+    return {
+      hasWinner: true,
+      winner: winner.id,
+      reason: `${player.name}'s Executive has been taken out`,
+    }
+  }
+  return { hasWinner: false }
+}
+
+/**
+ * Pick each player's Executive for an assassinate condition: their most valuable unit
+ * @param units - Units at the start of the match
+ * @returns Executive unit id per player
+ */
+export function designateExecutives(units: Unit[]): Record<PlayerId, string> {
+  const executives: Record<PlayerId, Unit> = {}
+  for (const unit of units) {
+    const current = executives[unit.playerId]
+    if (!current || unit.cost > current.cost) executives[unit.playerId] = unit
+  }
+  return Object.fromEntries(Object.entries(executives).map(([playerId, unit]) => [playerId, unit.id]))
+}
+
+/**
+ * Fill in the parts of chosen conditions that depend on the starting units
+ * @param conditions - Conditions picked at match setup
+ * @param units - Units at the start of the match
+ * @returns Conditions ready to store on the game state
+ */
+export function prepareVictoryConditions(conditions: VictoryCondition[], units: Unit[]): VictoryCondition[] {
+  return conditions.map((condition) =>
+    condition.type === 'assassinate' ? { ...condition, executives: designateExecutives(units) } : condition
+  )
+}
+
+/**
+ * Get the conditions that decide a game
+ * @param state - The current game state
+ * @returns The match's conditions, or the defaults
+ */
+export function getVictoryConditions(state: Pick<GameState, 'victoryConditions'>): VictoryCondition[] {
+  return state.victoryConditions ?? DEFAULT_VICTORY_CONDITIONS
+}
+
+/**
+ * Check a single victory condition
+ * @param state - The current game state
+ * @param condition - The condition to check
+ * @returns VictoryResult indicating if there's a winner
+ */
+export function checkVictoryCondition(state: VictoryState, condition: VictoryCondition): VictoryResult {
+  switch (condition.type) {
+    case 'elimination':
+      return checkEliminationVictory(state)
+    case 'capture':
+      return checkCapturePointVictory(state, condition.share)
+    case 'hold_capture':
+      return checkHoldCaptureVictory(state, condition.turns)
+    case 'hq_capture':
+      return checkHqCaptureVictory(state)
+    case 'assassinate':
+      return checkAssassinationVictory(state, condition.executives)
+    default:
+      return { hasWinner: false }
+  }
+}
+
+/**
+ * Report how close each player is to meeting a victory condition
+ * @param state - The current game state
+ * @param condition - The condition to report on
+ * @returns Progress per player
+ */
+export function getVictoryProgress(state: VictoryState, condition: VictoryCondition): VictoryProgress {
+  const players = state.players.map((player) => {
+    const enemyUnits = state.units.filter((u) => u.playerId !== player.id && u.hp > 0)
+
+    switch (condition.type) {
+      case 'elimination':
+        return { playerId: player.id, current: enemyUnits.length, target: 0, detail: `${enemyUnits.length} enemy units left` }
+      case 'capture': {
+        const target = getCaptureThreshold(state, condition.share)
+        const current = player.controlledCubicles
+        return { playerId: player.id, current, target, detail: `${current}/${target} cubicles` }
+      }
+      case 'hold_capture': {
+        const current = state.captureHoldTurns?.[player.id] || 0
+        const threshold = getCaptureThreshold(state, condition.share)
+        return {
+          playerId: player.id,
+          current,
+          target: condition.turns,
+          detail: `${player.controlledCubicles}/${threshold} cubicles, held ${current}/${condition.turns} turns`,
+        }
+      }
+      case 'hq_capture': {
+        const enemyHqs = state.board.flat().filter((t) => state.players.some((p) => p.id !== player.id && t.type === getHqTileType(p.team)))
+        const closest = Math.min(
+          ...state.units
+            .filter((u) => u.playerId === player.id && u.hp > 0)
+            .flatMap((u) => enemyHqs.map((t) => Math.abs(t.x - u.position.x) + Math.abs(t.y - u.position.y)))
+        )
+        const distance = Number.isFinite(closest) ? closest : 0
+        return { playerId: player.id, current: distance, target: 0, detail: `${distance} tiles from the enemy HQ` }
+      }
+      case 'assassinate': {
+        const executives = Object.entries(condition.executives)
+          .filter(([playerId]) => playerId !== player.id)
+          .map(([, unitId]) => state.units.find((u) => u.id === unitId && u.hp > 0))
+          .filter((u): u is Unit => !!u)
+        return {
+          playerId: player.id,
+          current: executives.length,
+          target: 0,
+          detail: executives.length > 0
+            ? `Enemy Executive: ${executives.map((u) => `${u.type.replace('_', ' ')} (${u.hp} HP)`).join(', ')}`
+            : 'Enemy Executive defeated',
+        }
+      }
+      default:
+        return { playerId: player.id, current: 0, target: 0, detail: '' }
+    }
+  })
+
+  return { type: condition.type, label: getVictoryConditionLabel(condition), players }
+}
+
+/**
+ * Describe a victory condition for menus and the HUD
+ * @param condition - The condition
+ * @returns A short human readable label
+ */
+export function getVictoryConditionLabel(condition: VictoryCondition): string {
+  switch (condition.type) {
+    case 'elimination':
+      return 'Eliminate every enemy unit'
+    case 'capture':
+      return `Control ${Math.round(condition.share * 100)}% of the cubicles`
+    case 'hold_capture':
+      return `Hold ${Math.round(condition.share * 100)}% of the cubicles for ${condition.turns} turns`
+    case 'hq_capture':
+      return 'Move a unit onto the enemy HQ'
+    case 'assassinate':
+      return "Defeat the enemy's Executive"
+    default:
+      return ''
+  }
+}
+
+/**
+ * Get what each player would be judged on if the turn limit ended the game now
+ * @param state - The current game state
+ * @returns One standing per player
+ */
+export function getPlayerStandings(state: Pick<GameState, 'board' | 'units' | 'players'>): PlayerStanding[] {
+  const cubicles = countControlledCubicles(state)
+  return state.players.map((player) => {
+    const units = state.units.filter((u) => u.playerId === player.id && u.hp > 0)
+    return {
+      playerId: player.id,
+      cubicles: cubicles.get(player.id) || 0,
+      totalHp: units.reduce((sum, u) => sum + u.hp, 0),
+      unitValue: units.reduce((sum, u) => sum + u.cost, 0),
+    }
+  })
+}
+
+/**
+ * Get how many rounds are left before the turn limit ends the game
+ * @param state - The current game state
+ * @param turnLimit - gameplay_rules.turn_limit; no limit if undefined
+ * @returns Rounds left including the current one, or undefined without a limit
+ */
+export function getTurnsRemaining(state: Pick<GameState, 'turnNumber'>, turnLimit?: number): number | undefined {
+  if (!turnLimit) return undefined
+  return Math.max(0, turnLimit - state.turnNumber + 1)
+}
+
+/**
+ * Check if the turn limit has been reached and settle the game with the tiebreak chain:
+ * cubicles held, then total remaining HP, then the value of the surviving units
+ * @param state - The current game state
+ * @param turnLimit - gameplay_rules.turn_limit; no limit if undefined
+ * @returns VictoryResult with the winner, or a draw if every tiebreak is level
+ */
+export function checkTurnLimitVictory(
+  state: Pick<GameState, 'board' | 'units' | 'players' | 'turnNumber'>,
+  turnLimit?: number
+): VictoryResult {
+  if (getTurnsRemaining(state, turnLimit) !== 0) {
+    return { hasWinner: false }
+  }
+
+  let contenders = getPlayerStandings(state)
+  for (const { stat, describe } of TURN_LIMIT_TIEBREAKS) {
+    const best = Math.max(...contenders.map((s) => s[stat]))
+    const leaders = contenders.filter((s) => s[stat] === best)
+    if (leaders.length === 1) {
+      const winner = state.players.find((p) => p.id === leaders[0].playerId)
+      const runnerUp = Math.max(...contenders.filter((s) => s !== leaders[0]).map((s) => s[stat]))
+      return {
+        hasWinner: true,
+        winner: leaders[0].playerId,
+        reason: `Turn limit reached: ${winner?.name} wins with ${describe(best)} (vs ${describe(runnerUp)})`,
+      }
+    }
+    contenders = leaders
+  }
+
+  return { hasWinner: false, isDraw: true, reason: 'Turn limit reached with both teams tied' }
+}
+
+/**
+ * Check the match's victory conditions, then the turn limit
+ * @param state - The current game state
+ * @param turnLimit - gameplay_rules.turn_limit; no limit if undefined
+ * @returns VictoryResult indicating if there's a winner and why
+ */
+export function checkVictoryConditions(state: GameState, turnLimit?: number): VictoryResult {
+  for (const condition of getVictoryConditions(state)) {
+    const result = checkVictoryCondition(state, condition)
+    if (result.hasWinner) return result
+  }
+
+  return checkTurnLimitVictory(state, turnLimit)
+}
+
+function isUnitAlive(units: Unit[], unitId: string): boolean {
+  return units.some((u) => u.id === unitId && u.hp > 0)
+}
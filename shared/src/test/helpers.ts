@@ -0,0 +1,255 @@
+import { type Employee, type Unit, type GameState, type Player, type Tile, UnitType, TileType, Team, GamePhase } from '../index.js'
+import { EMPTY_RULES_DATA, type RulesData } from '../rules/index.js'
+
+export function createMockUnit(overrides: Partial<Unit> = {}): Unit {
+  return {
+    id: 'test-unit-1',
+    type: UnitType.INTERN,
+    playerId: 'player1',
+    position: { x: 0, y: 0 },
+    hp: 10,
+    maxHp: 10,
+    moveRange: 2,
+    attackRange: 1,
+    attackDamage: 3,
+    defense: 0,
+    actionsRemaining: 2,
+    maxActions: 2,
+    hasMoved: false,
+    hasAttacked: false,
+    abilities: [],
+    abilityCooldowns: {},
+    status: [],
+    cost: 100,
+    movementUsed: 0,
+    remainingMovement: 2,
+    direction: 'down',
+    ...overrides
+  }
+}
+
+export function createMockPlayer(overrides: Partial<Player> = {}): Player {
+  return {
+    id: 'player1',
+    name: 'Blue Team',
+    team: Team.BLUE,
+    budget: 10,
+    income: 0,
+    controlledCubicles: 0,
+    ...overrides
+  }
+}
+
+export function createMockBoard(width: number = 5, height: number = 5, type: TileType = TileType.NORMAL): Tile[][] {
+  return Array.from({ length: height }, (_, y) =>
+    Array.from({ length: width }, (_, x) => ({ x, y, type }))
+  )
+}
+
+export function createMockGameState(overrides: Partial<GameState> = {}): GameState {
+  return {
+    id: 'test-game',
+    board: createMockBoard(),
+    units: [
+      createMockUnit({ id: 'blue-1', playerId: 'player1', position: { x: 0, y: 0 } }),
+      createMockUnit({ id: 'red-1', playerId: 'player2', position: { x: 4, y: 4 } }),
+    ],
+    players: [
+      createMockPlayer(),
+      createMockPlayer({ id: 'player2', name: 'Red Team', team: Team.RED }),
+    ],
+    currentPlayerId: 'player1',
+    turnNumber: 1,
+    phase: GamePhase.PLAYING,
+    ...overrides
+  }
+}
+
+function createMockEmployee(key: string, statusEffect: Employee['attack']['status_effect']): Employee {
+  return {
+    id: 0,
+    key,
+    name: key,
+    cost: 100,
+    stats: { health: 10, attack_power: 3, defense: 0, speed: 2 },
+    attack: { type: 'melee', range: 1, description: '', status_effect: statusEffect },
+  }
+}
+
+export function createMockRulesData(overrides: Partial<RulesData> = {}): RulesData {
+  return {
+    ...EMPTY_RULES_DATA,
+    employees: {
+      salesman: createMockEmployee('salesman', { type: 'slow', chance: 0.25, duration: 2, magnitude: 0.25 }),
+      manager: createMockEmployee('manager', { type: 'fire', chance: 1.0, duration: 3, damage_per_turn: 4 }),
+      secretary: createMockEmployee('secretary', { type: 'none', chance: 0, duration: 0 }),
+    },
+    abilities: {
+      overtime: {
+        key: 'overtime',
+        name: 'Overtime',
+        description: 'Gain +1 action but become Exhausted next turn',
+        cooldown_turns: 2,
+        range_pattern_key: 'self_target',
+        effects: [
+          { type: 'action_bonus', target: 'self', value: 1 },
+          { type: 'apply_status_effect', target: 'self', status_key: 'exhausted', chance: 1.0 },
+        ],
+      },
+      pink_slip: {
+        key: 'pink_slip',
+        name: 'Pink Slip',
+        description: 'Instantly defeat an adjacent enemy',
+        cooldown_turns: -1,
+        range_pattern_key: 'single_target_melee',
+        effects: [{ type: 'damage', target: 'enemy', value: 999, damage_type: 'execution' }],
+      },
+      mediation: {
+        key: 'mediation',
+        name: 'Mediation',
+        description: 'Heal an ally and remove negative statuses',
+        cooldown_turns: 2,
+        range_pattern_key: 'single_target_melee',
+        effects: [
+          { type: 'heal', target: 'ally', value: 1 },
+          { type: 'cleanse_status', target: 'ally' },
+        ],
+      },
+      paperclip_storm: {
+        key: 'paperclip_storm',
+        name: 'Paperclip Storm',
+        description: 'Hits all enemies in a cone.',
+        cooldown_turns: 3,
+        range_pattern_key: 'forward_cone',
+        effects: [{ type: 'damage', target: 'enemy', value: 2 }],
+      },
+      urgent_memo: {
+        key: 'urgent_memo',
+        name: 'Urgent Memo',
+        description: 'Speeds up nearby allies.',
+        cooldown_turns: 3,
+        range_pattern_key: 'centered_cross_burst',
+        effects: [{ type: 'apply_status_effect', target: 'ally', status_key: 'slow', chance: 1.0 }],
+      },
+      firewall: {
+        key: 'firewall',
+        name: 'Firewall',
+        description: 'Creates a wall of fire that burns any who pass through it.',
+        cooldown_turns: 4,
+        range_pattern_key: 'firewall_line',
+        effects: [
+          {
+            type: 'create_tile_hazard',
+            target: 'tile',
+            hazard_details: {
+              name: 'Burning Ground',
+              duration_in_turns: 2,
+              visual_effect: 'ground_flames',
+              on_turn_end: { type: 'damage', value: 4, damage_type: 'fire' },
+              on_enter: { type: 'apply_status_effect', status_key: 'fire', chance: 1.0 },
+            },
+          },
+        ],
+      },
+    },
+    attackPatterns: {
+      forward_cone: {
+        key: 'forward_cone',
+        type: 'directional',
+        pattern: [
+          [0, 0, 1, 1, 0, 0],
+          [0, 1, 1, 1, 0, 0],
+          [2, 1, 1, 0, 0, 0],
+          [0, 1, 1, 1, 0, 0],
+          [0, 0, 1, 1, 0, 0],
+        ],
+      },
+      centered_cross_burst: {
+        key: 'centered_cross_burst',
+        type: 'centered',
+        pattern: [
+          [0, 0, 1, 0, 0],
+          [0, 0, 1, 0, 0],
+          [1, 1, 2, 1, 1],
+          [0, 0, 1, 0, 0],
+          [0, 0, 1, 0, 0],
+        ],
+      },
+      firewall_line: {
+        key: 'firewall_line',
+        type: 'directional',
+        pattern: [
+          [0, 0, 0],
+          [1, 1, 1],
+          [0, 2, 0],
+        ],
+      },
+    },
+    statusEffects: {
+      on_deadline: {
+        key: 'on_deadline',
+        name: 'On Deadline',
+        description: 'Increased focus and productivity.',
+        type: 'buff',
+        duration_in_turns: 2,
+        modifiers: { stat: 'attack_power', operation: 'multiply', value: 1.2 },
+        visual_effect: 'deadline_glow',
+      },
+      exhausted: {
+        key: 'exhausted',
+        name: 'Exhausted',
+        description: 'Reduced effectiveness from overwork.',
+        type: 'debuff',
+        duration_in_turns: 1,
+        modifiers: { stat: 'actions_remaining', operation: 'subtract', value: 1 },
+        visual_effect: 'exhausted_aura',
+      },
+      harassed: {
+        key: 'harassed',
+        name: 'Harassed',
+        description: 'Prevents capturing cubicles.',
+        type: 'debuff',
+        duration_in_turns: 2,
+        modifiers: { stat: 'can_capture', operation: 'set', value: false },
+        visual_effect: 'harass_aura',
+      },
+      stunned: {
+        key: 'stunned',
+        name: 'Stunned',
+        description: 'Cannot take actions this turn.',
+        type: 'debuff',
+        duration_in_turns: 1,
+        modifiers: { stat: 'can_act', operation: 'set', value: false },
+        visual_effect: 'stun_stars',
+      },
+      shielded: {
+        key: 'shielded',
+        name: 'Shielded',
+        description: 'Reduces incoming damage.',
+        type: 'buff',
+        duration_in_turns: 2,
+        modifiers: { stat: 'defense', operation: 'multiply', value: 1.5 },
+        visual_effect: 'shield_aura',
+      },
+      slow: {
+        key: 'slow',
+        name: 'Slowed',
+        description: "Reduces target's speed.",
+        type: 'debuff',
+        duration_in_turns: 2,
+        modifiers: { stat: 'speed', operation: 'multiply', value: 0.5 },
+        visual_effect: 'slow_aura',
+      },
+      fire: {
+        key: 'fire',
+        name: 'On Fire',
+        description: 'Deals damage each turn.',
+        type: 'debuff',
+        duration_in_turns: 2,
+        tick_effect: { type: 'damage', value: 10 },
+        visual_effect: 'flames_particle',
+      },
+    },
+    ...overrides
+  }
+}